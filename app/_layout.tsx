@@ -5,13 +5,16 @@ import { StatusBar } from "expo-status-bar";
 import { useEffect, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Image,
   StyleSheet,
   TouchableOpacity,
   View,
 } from "react-native";
 
+import { useOutboxSync } from "@/hooks/useOutbox";
 import { useTranslation } from "@/hooks/useTranslation";
+import { subscribeRejections } from "@/utils/outbox";
 import { supabase } from "@/utils/supabase";
 
 function AppHeaderLeft() {
@@ -47,6 +50,21 @@ export default function AppLayout() {
   const segments = useSegments();
   const { t, isLoading: isTransLoading } = useTranslation();
 
+  // Replay offline lesson/quest/reward completions when connectivity returns
+  useOutboxSync();
+
+  // Tell the farmer when a queued change was refused (it has been undone)
+  useEffect(
+    () =>
+      subscribeRejections((rejected) =>
+        Alert.alert(
+          t("sync_rejected_title"),
+          t("sync_rejected").replace("{count}", String(rejected.length)),
+        ),
+      ),
+    [t],
+  );
+
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
@@ -76,6 +94,8 @@ export default function AppLayout() {
       "crop",
       "login",
       "signup",
+      "link-phone",
+      "forgot-password",
       "lessons",
       "lesson",
       "quiz",
@@ -156,6 +176,22 @@ export default function AppLayout() {
             headerRight: () => <AppHeaderRight />,
           }}
         />
+        <Stack.Screen
+          name="link-phone"
+          options={{
+            headerShown: true,
+            headerTitle: t("link_phone"),
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="forgot-password"
+          options={{
+            headerShown: true,
+            headerTitle: t("reset_password"),
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
 
         <Stack.Screen
           name="lessons"
@@ -189,6 +225,30 @@ export default function AppLayout() {
             headerRight: () => <AppHeaderRight />,
           }}
         />
+        <Stack.Screen
+          name="quest-season"
+          options={{
+            headerShown: true,
+            headerTitle: t("season_standings"),
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="crop-calendar"
+          options={{
+            headerShown: true,
+            headerTitle: t("crop_calendar"),
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="review"
+          options={{
+            headerShown: true,
+            headerTitle: t("review_title"),
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
         <Stack.Screen
           name="marketPrices"
           options={{
@@ -197,6 +257,22 @@ export default function AppLayout() {
             headerRight: () => <AppHeaderRight />,
           }}
         />
+        <Stack.Screen
+          name="price/[id]"
+          options={{
+            headerShown: true,
+            headerTitle: "PRICE TREND",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="price-alerts"
+          options={{
+            headerShown: true,
+            headerTitle: "PRICE ALERTS",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
 
         {/* --- SCHEMES ADDED HERE --- */}
         <Stack.Screen
@@ -273,6 +349,40 @@ export default function AppLayout() {
             headerRight: () => <AppHeaderRight />,
           }}
         />
+
+        {/* Content console (web, content roles only) */}
+        <Stack.Screen
+          name="admin/index"
+          options={{
+            headerShown: true,
+            headerTitle: "CONTENT ADMIN",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="admin/lesson/[id]"
+          options={{
+            headerShown: true,
+            headerTitle: "CONTENT ADMIN",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="admin/quest/[id]"
+          options={{
+            headerShown: true,
+            headerTitle: "CONTENT ADMIN",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
+        <Stack.Screen
+          name="admin/quest-reviews"
+          options={{
+            headerShown: true,
+            headerTitle: "CONTENT ADMIN",
+            headerRight: () => <AppHeaderRight />,
+          }}
+        />
       </Stack>
       <StatusBar style="light" />
     </>
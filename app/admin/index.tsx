@@ -0,0 +1,199 @@
+import AdminGate from '@/components/AdminGate';
+import { cropName, useCrops } from '@/hooks/useCrops';
+import {
+  fetchAdminLessons,
+  fetchAdminQuests,
+  reorderLessons
+} from '@/utils/contentAdmin';
+import { localizedValue } from '@/utils/localize';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+type Tab = 'lessons' | 'quests';
+
+function AdminHome() {
+  const router = useRouter();
+  const { data: crops } = useCrops();
+  const [tab, setTab] = useState<Tab>('lessons');
+  const [lessons, setLessons] = useState<any[]>([]);
+  const [quests, setQuests] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [lessonRows, questRows] = await Promise.all([fetchAdminLessons(), fetchAdminQuests()]);
+      setLessons(lessonRows);
+      setQuests(questRows);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when coming back from an editor
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const moveLesson = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= lessons.length || isReordering) return;
+
+    const next = [...lessons];
+    [next[index], next[target]] = [next[target], next[index]];
+    setLessons(next.map((l, i) => ({ ...l, sequence: i + 1 })));
+
+    setIsReordering(true);
+    try {
+      await reorderLessons(next.map((l) => l.id));
+    } catch (e: any) {
+      Alert.alert('Reorder failed', e.message);
+      await load();
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  if (loading) {
+    return <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.tabs}>
+          {(['lessons', 'quests'] as Tab[]).map((key) => (
+            <TouchableOpacity key={key} style={[styles.tab, tab === key && styles.tabActive]} onPress={() => setTab(key)}>
+              <Text style={[styles.tabText, tab === key && styles.tabTextActive]}>{key.toUpperCase()}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {tab === 'lessons' ? (
+          <>
+            <TouchableOpacity
+              style={styles.newBtn}
+              onPress={() => router.push({ pathname: '/admin/lesson/[id]', params: { id: 'new' } })}
+            >
+              <FontAwesome5 name="plus" size={12} color="#0D0D0D" />
+              <Text style={styles.newBtnText}>NEW LESSON</Text>
+            </TouchableOpacity>
+
+            {lessons.map((lesson, index) => (
+              <View key={lesson.id} style={styles.row}>
+                <Text style={styles.sequence}>{lesson.sequence}</Text>
+                <TouchableOpacity
+                  style={{ flex: 1 }}
+                  onPress={() => router.push({ pathname: '/admin/lesson/[id]', params: { id: String(lesson.id) } })}
+                >
+                  <Text style={styles.rowTitle} numberOfLines={1}>{localizedValue(lesson, 'title', 'en') || 'Untitled lesson'}</Text>
+                  <Text style={styles.rowSub}>
+                    {lesson.points ?? 0} coins · pass {lesson.pass_percentage ?? 70}%{lesson.video_url ? ' · video' : ''}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.arrowBtn} disabled={index === 0} onPress={() => moveLesson(index, -1)}>
+                  <FontAwesome5 name="arrow-up" size={12} color={index === 0 ? '#333' : '#AAA'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.arrowBtn}
+                  disabled={index === lessons.length - 1}
+                  onPress={() => moveLesson(index, 1)}
+                >
+                  <FontAwesome5 name="arrow-down" size={12} color={index === lessons.length - 1 ? '#333' : '#AAA'} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </>
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.newBtn}
+              onPress={() => router.push({ pathname: '/admin/quest/[id]', params: { id: 'new' } })}
+            >
+              <FontAwesome5 name="plus" size={12} color="#0D0D0D" />
+              <Text style={styles.newBtnText}>NEW QUEST</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.reviewBtn} onPress={() => router.push('/admin/quest-reviews' as any)}>
+              <FontAwesome5 name="camera" size={12} color="#69F0AE" />
+              <Text style={styles.reviewBtnText}>REVIEW PHOTOS</Text>
+            </TouchableOpacity>
+
+            {quests.map((quest) => (
+              <TouchableOpacity
+                key={quest.id}
+                style={styles.row}
+                onPress={() => router.push({ pathname: '/admin/quest/[id]', params: { id: String(quest.id) } })}
+              >
+                <FontAwesome5 name={quest.icon_type || 'scroll'} size={16} color="#FFD700" style={styles.questIcon} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>{localizedValue(quest, 'title', 'en') || 'Untitled quest'}</Text>
+                  <Text style={styles.rowSub}>
+                    {quest.target_crop ? cropName(crops, quest.target_crop, 'en') : 'All crops'} · {quest.xp_reward ?? 0} quest coins
+                  </Text>
+                </View>
+                <FontAwesome5 name="chevron-right" size={12} color="#666" />
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+export default function AdminScreen() {
+  return (
+    <AdminGate>
+      <AdminHome />
+    </AdminGate>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 50, maxWidth: 900, width: '100%', alignSelf: 'center' },
+
+  tabs: { flexDirection: 'row', backgroundColor: '#1A1A1A', borderRadius: 12, padding: 4, marginBottom: 16 },
+  tab: { flex: 1, paddingVertical: 10, borderRadius: 8, alignItems: 'center' },
+  tabActive: { backgroundColor: '#388E3C' },
+  tabText: { color: '#888', fontWeight: 'bold', letterSpacing: 1 },
+  tabTextActive: { color: '#FFF' },
+
+  newBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    backgroundColor: '#69F0AE', borderRadius: 10, paddingVertical: 12, marginBottom: 16
+  },
+  newBtnText: { color: '#0D0D0D', fontWeight: 'bold', letterSpacing: 1 },
+  reviewBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    borderWidth: 1, borderColor: '#69F0AE', borderRadius: 10, paddingVertical: 12, marginBottom: 16
+  },
+  reviewBtnText: { color: '#69F0AE', fontWeight: 'bold', letterSpacing: 1 },
+
+  row: {
+    flexDirection: 'row', alignItems: 'center', gap: 12,
+    backgroundColor: '#1A1A1A', borderRadius: 12, padding: 14, marginBottom: 10,
+    borderWidth: 1, borderColor: '#2A2A2A'
+  },
+  sequence: { color: '#69F0AE', fontSize: 20, fontWeight: '900', width: 32, textAlign: 'center' },
+  rowTitle: { color: '#FFF', fontSize: 15, fontWeight: 'bold' },
+  rowSub: { color: '#777', fontSize: 12, marginTop: 4 },
+  arrowBtn: { padding: 8, backgroundColor: '#252525', borderRadius: 8 },
+  questIcon: { width: 24, textAlign: 'center' },
+});
@@ -0,0 +1,534 @@
+import AdminGate from '@/components/AdminGate';
+import LessonBlocksEditor from '@/components/LessonBlocksEditor';
+import { cropName, useCrops } from '@/hooks/useCrops';
+import LocalizedFieldsEditor, { cleanLocalizedLists, LocalizedField } from '@/components/LocalizedFieldsEditor';
+import TargetingEditor, { cleanTargeting } from '@/components/TargetingEditor';
+import {
+  deleteLesson,
+  deleteQuizQuestion,
+  fetchAdminLesson,
+  fetchAdminLessons,
+  fetchGames,
+  fetchLessonModules,
+  saveLesson,
+  saveLessonModule,
+  saveQuizQuestion,
+  setLessonPrerequisites,
+  uploadLessonMedia
+} from '@/utils/contentAdmin';
+import { lessonMediaUrl } from '@/utils/lessonMedia';
+import { FontAwesome5 } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+const LESSON_FIELDS: LocalizedField[] = [
+  { name: 'title', label: 'TITLE' },
+  { name: 'description', label: 'DESCRIPTION', multiline: true },
+  { name: 'content', label: 'CONTENT', multiline: true },
+  { name: 'narration', label: 'NARRATION AUDIO (BUCKET PATH OR URL)' },
+];
+
+const QUESTION_FIELDS: LocalizedField[] = [
+  { name: 'question', label: 'QUESTION', multiline: true },
+  { name: 'options', label: 'OPTIONS', list: true },
+  { name: 'explanation', label: 'EXPLANATION', multiline: true },
+  { name: 'narration', label: 'NARRATION AUDIO (BUCKET PATH OR URL)' },
+];
+
+type Row = Record<string, any>;
+
+// Draft questions get a local key until they are saved
+type QuestionDraft = Row & { key: string };
+
+const toDraft = (row: Row): QuestionDraft => ({ ...row, key: String(row.id) });
+
+function LessonEditor() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = id === 'new';
+  const { data: crops } = useCrops();
+
+  const [lesson, setLesson] = useState<Row>({ points: 100, pass_percentage: 70, is_optional: false });
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  const [requires, setRequires] = useState<number[]>([]); // prerequisite lesson ids
+  const [allLessons, setAllLessons] = useState<Row[]>([]);
+  const [modules, setModules] = useState<Row[]>([]);
+  const [games, setGames] = useState<Row[]>([]);
+  const [newModuleTitle, setNewModuleTitle] = useState('');
+  const [loading, setLoading] = useState(!isNew);
+  const [busy, setBusy] = useState<string | null>(null); // what is being saved
+
+  useEffect(() => {
+    // Path options: modules and the lessons that can be prerequisites
+    Promise.all([fetchLessonModules(), fetchAdminLessons(), fetchGames()])
+      .then(([moduleRows, lessonRows, gameRows]) => {
+        setModules(moduleRows);
+        setAllLessons(lessonRows);
+        setGames(gameRows);
+      })
+      .catch((e) => Alert.alert('Error', e.message));
+
+    if (isNew) return;
+    fetchAdminLesson(parseInt(id!))
+      .then(({ lesson: row, questions: rows, requires: ids }) => {
+        setLesson(row);
+        setQuestions(rows.map(toDraft));
+        setRequires(ids);
+      })
+      .catch((e) => Alert.alert('Error', e.message))
+      .finally(() => setLoading(false));
+  }, [id, isNew]);
+
+  const updateLesson = (column: string, value: any) =>
+    setLesson((prev) => ({ ...prev, [column]: value }));
+
+  const updateQuestion = (key: string, column: string, value: any) =>
+    setQuestions((prev) => prev.map((q) => (q.key === key ? { ...q, [column]: value } : q)));
+
+  const handleSaveLesson = async () => {
+    if (!lesson.title_en?.trim()) return Alert.alert('Missing title', 'An English title is required.');
+
+    setBusy('lesson');
+    try {
+      const values = cleanLocalizedLists(LESSON_FIELDS, {
+        ...cleanTargeting(lesson),
+        points: parseInt(lesson.points) || 0,
+        pass_percentage: Math.min(100, Math.max(0, parseInt(lesson.pass_percentage) || 0)),
+      });
+      if (isNew) {
+        // New lessons go to the end of the path (reorder from the list)
+        values.sequence = (await fetchAdminLessons()).length + 1;
+      }
+      const saved = await saveLesson(values);
+      setLesson(saved);
+      await setLessonPrerequisites(saved.id, requires);
+      if (isNew) router.replace({ pathname: '/admin/lesson/[id]', params: { id: String(saved.id) } });
+      else Alert.alert('Saved', 'Lesson updated.');
+    } catch (e: any) {
+      const message = e.message?.includes('prerequisite_cycle')
+        ? 'These prerequisites make a loop, so the lesson could never unlock.'
+        : e.message;
+      Alert.alert('Save failed', message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleRequires = (lessonId: number) =>
+    setRequires((prev) => (prev.includes(lessonId) ? prev.filter((r) => r !== lessonId) : [...prev, lessonId]));
+
+  // New modules go after the existing ones; translate them in the dashboard
+  const handleAddModule = async () => {
+    if (!newModuleTitle.trim()) return;
+    setBusy('module');
+    try {
+      const saved = await saveLessonModule({
+        title_en: newModuleTitle.trim(),
+        sequence: Math.max(0, ...modules.map((m) => m.sequence)) + 1,
+      });
+      setModules((prev) => [...prev, saved]);
+      updateLesson('module_id', saved.id);
+      setNewModuleTitle('');
+    } catch (e: any) {
+      Alert.alert('Save failed', e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteLesson = () => {
+    Alert.alert('Delete lesson?', 'Its quiz questions are deleted too.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await Promise.all(questions.filter((q) => q.id).map((q) => deleteQuizQuestion(q.id)));
+            await deleteLesson(lesson.id);
+            router.back();
+          } catch (e: any) {
+            Alert.alert('Delete failed', e.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleUpload = async (kind: 'thumbnail' | 'video') => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: kind === 'video' ? ['videos'] : ['images'],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    setBusy(kind);
+    try {
+      const path = await uploadLessonMedia(lesson.id, kind, result.assets[0]);
+      updateLesson(kind === 'video' ? 'video_url' : 'thumbnail_url', path);
+    } catch (e: any) {
+      Alert.alert('Upload failed', e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addQuestion = () =>
+    setQuestions((prev) => [
+      ...prev,
+      { key: `new_${Date.now()}`, lesson_id: lesson.id, position: prev.length, correct_option_index: 0 },
+    ]);
+
+  const handleSaveQuestion = async (draft: QuestionDraft) => {
+    const { key, ...row } = cleanLocalizedLists(QUESTION_FIELDS, draft);
+    const options: string[] = row.options_en || [];
+    if (!row.question_en?.trim() || options.length < 2) {
+      return Alert.alert('Incomplete question', 'Add an English question and at least 2 options.');
+    }
+    if (row.correct_option_index >= options.length) {
+      return Alert.alert('Pick the answer', 'The correct option must be one of the options.');
+    }
+
+    setBusy(key);
+    try {
+      const saved = await saveQuizQuestion(row);
+      setQuestions((prev) => prev.map((q) => (q.key === key ? toDraft(saved) : q)));
+    } catch (e: any) {
+      Alert.alert('Save failed', e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteQuestion = async (draft: QuestionDraft) => {
+    try {
+      if (draft.id) await deleteQuizQuestion(draft.id);
+      setQuestions((prev) => prev.filter((q) => q.key !== draft.key));
+    } catch (e: any) {
+      Alert.alert('Delete failed', e.message);
+    }
+  };
+
+  if (loading) {
+    return <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Basics */}
+        <Text style={styles.sectionLabel}>LESSON {lesson.sequence ?? ''}</Text>
+        <View style={styles.card}>
+          <View style={styles.basicsRow}>
+            <View style={styles.basicsCell}>
+              <Text style={styles.inputLabel}>COINS</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={String(lesson.points ?? '')}
+                onChangeText={(v) => updateLesson('points', v)}
+              />
+            </View>
+            <View style={styles.basicsCell}>
+              <Text style={styles.inputLabel}>PASS %</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={String(lesson.pass_percentage ?? '')}
+                onChangeText={(v) => updateLesson('pass_percentage', v)}
+              />
+            </View>
+            <View style={styles.basicsCell}>
+              <Text style={styles.inputLabel}>THEME</Text>
+              <TextInput
+                style={styles.input}
+                autoCapitalize="none"
+                value={lesson.theme ?? ''}
+                onChangeText={(v) => updateLesson('theme', v || null)}
+              />
+            </View>
+          </View>
+
+          {/* Path: where the lesson sits in the lesson graph */}
+          <Text style={styles.inputLabel}>MODULE</Text>
+          <View style={styles.chipRow}>
+            {[null, ...modules].map((module) => {
+              const active = (lesson.module_id ?? null) === (module?.id ?? null);
+              return (
+                <TouchableOpacity
+                  key={module?.id ?? 'none'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateLesson('module_id', module?.id ?? null)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {module ? module.title_en : 'No module'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.newModuleRow}>
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder="New module title (English)"
+              placeholderTextColor="#555"
+              value={newModuleTitle}
+              onChangeText={setNewModuleTitle}
+            />
+            <TouchableOpacity style={styles.uploadBtn} onPress={handleAddModule} disabled={!!busy}>
+              {busy === 'module' ? <ActivityIndicator color="#69F0AE" /> : <Text style={[styles.uploadBtnText, styles.newModuleBtnText]}>ADD MODULE</Text>}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.inputLabel}>CROP TRACK</Text>
+          <View style={styles.chipRow}>
+            {[null, ...(crops || []).map((c) => c.id)].map((cropId) => {
+              const active = (lesson.target_crop ?? null) === cropId;
+              return (
+                <TouchableOpacity
+                  key={cropId ?? 'all'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateLesson('target_crop', cropId)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {cropId ? cropName(crops, cropId, 'en') : 'All crops'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.inputLabel}>TYPE</Text>
+          <View style={styles.chipRow}>
+            {[false, true].map((optional) => {
+              const active = !!lesson.is_optional === optional;
+              return (
+                <TouchableOpacity
+                  key={String(optional)}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateLesson('is_optional', optional)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {optional ? 'Side lesson (optional)' : 'Core lesson'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.inputLabel}>FINISHED BY</Text>
+          <View style={styles.chipRow}>
+            {[null, ...games].map((game) => {
+              const active = (lesson.game_id ?? null) === (game?.id ?? null);
+              return (
+                <TouchableOpacity
+                  key={game?.id ?? 'quiz'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateLesson('game_id', game?.id ?? null)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {game ? `Game: ${game.title_en}` : 'Quiz'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.inputLabel}>UNLOCKS AFTER (PREREQUISITES)</Text>
+          <View style={[styles.chipRow, styles.pathRow]}>
+            {allLessons
+              .filter((l) => l.id !== lesson.id)
+              .map((l) => {
+                const active = requires.includes(l.id);
+                return (
+                  <TouchableOpacity
+                    key={l.id}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => toggleRequires(l.id)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {l.sequence}. {l.title_en}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            {allLessons.length <= 1 && <Text style={styles.hint}>No other lessons yet.</Text>}
+          </View>
+
+          <TargetingEditor values={lesson} onChange={updateLesson} />
+
+          <LocalizedFieldsEditor fields={LESSON_FIELDS} values={lesson} onChange={updateLesson} />
+
+          <View style={styles.actionsRow}>
+            {!isNew && (
+              <TouchableOpacity style={styles.deleteBtn} onPress={handleDeleteLesson}>
+                <FontAwesome5 name="trash" size={12} color="#FF5252" />
+                <Text style={styles.deleteBtnText}>DELETE</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.saveBtn} onPress={handleSaveLesson} disabled={!!busy}>
+              {busy === 'lesson' ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>{isNew ? 'CREATE LESSON' : 'SAVE LESSON'}</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {isNew ? (
+          <Text style={styles.hint}>Save the lesson to add media and quiz questions.</Text>
+        ) : (
+          <>
+            {/* Media */}
+            <Text style={styles.sectionLabel}>MEDIA</Text>
+            <View style={[styles.card, styles.mediaRow]}>
+              <View style={styles.mediaCell}>
+                {lesson.thumbnail_url ? (
+                  <Image source={{ uri: lessonMediaUrl(lesson.thumbnail_url)! }} style={styles.thumbnail} />
+                ) : (
+                  <View style={[styles.thumbnail, styles.placeholder]}><FontAwesome5 name="image" size={24} color="#444" /></View>
+                )}
+                <TouchableOpacity style={styles.uploadBtn} onPress={() => handleUpload('thumbnail')} disabled={!!busy}>
+                  {busy === 'thumbnail' ? <ActivityIndicator color="#69F0AE" /> : <Text style={styles.uploadBtnText}>UPLOAD THUMBNAIL</Text>}
+                </TouchableOpacity>
+              </View>
+              <View style={styles.mediaCell}>
+                <View style={[styles.thumbnail, styles.placeholder]}>
+                  <FontAwesome5 name="video" size={24} color={lesson.video_url ? '#69F0AE' : '#444'} />
+                  <Text style={styles.videoName} numberOfLines={1}>
+                    {lesson.video_url ? lesson.video_url.split('/').pop() : 'No video'}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.uploadBtn} onPress={() => handleUpload('video')} disabled={!!busy}>
+                  {busy === 'video' ? <ActivityIndicator color="#69F0AE" /> : <Text style={styles.uploadBtnText}>UPLOAD VIDEO</Text>}
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Content blocks */}
+            <Text style={styles.sectionLabel}>CONTENT BLOCKS</Text>
+            <LessonBlocksEditor
+              lessonId={lesson.id}
+              blocks={lesson.blocks}
+              onSaved={(blocks) => updateLesson('blocks', blocks)}
+            />
+
+            {/* Quiz */}
+            <Text style={styles.sectionLabel}>QUIZ QUESTIONS</Text>
+            {questions.map((q, index) => {
+              const options: string[] = (q.options_en || []).filter((o: string) => o.trim());
+              return (
+                <View key={q.key} style={styles.card}>
+                  <Text style={styles.questionNumber}>Q{index + 1}{q.id ? '' : ' (unsaved)'}</Text>
+                  <LocalizedFieldsEditor
+                    fields={QUESTION_FIELDS}
+                    values={q}
+                    onChange={(column, value) => updateQuestion(q.key, column, value)}
+                  />
+
+                  <Text style={styles.inputLabel}>CORRECT OPTION</Text>
+                  <View style={styles.chipRow}>
+                    {options.map((option, i) => (
+                      <TouchableOpacity
+                        key={i}
+                        style={[styles.chip, q.correct_option_index === i && styles.chipActive]}
+                        onPress={() => updateQuestion(q.key, 'correct_option_index', i)}
+                      >
+                        <Text style={[styles.chipText, q.correct_option_index === i && styles.chipTextActive]}>{option}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity style={styles.deleteBtn} onPress={() => handleDeleteQuestion(q)}>
+                      <FontAwesome5 name="trash" size={12} color="#FF5252" />
+                      <Text style={styles.deleteBtnText}>DELETE</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.saveBtn} onPress={() => handleSaveQuestion(q)} disabled={!!busy}>
+                      {busy === q.key ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>SAVE QUESTION</Text>}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+
+            <TouchableOpacity style={styles.addBtn} onPress={addQuestion}>
+              <FontAwesome5 name="plus" size={12} color="#69F0AE" />
+              <Text style={styles.addBtnText}>ADD QUESTION</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+export default function AdminLessonScreen() {
+  return (
+    <AdminGate>
+      <LessonEditor />
+    </AdminGate>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 60, maxWidth: 1200, width: '100%', alignSelf: 'center' },
+
+  sectionLabel: { color: '#666', fontSize: 12, fontWeight: 'bold', letterSpacing: 1, marginBottom: 10, marginTop: 10 },
+  card: { backgroundColor: '#141414', borderRadius: 14, padding: 16, marginBottom: 16, borderWidth: 1, borderColor: '#2A2A2A' },
+  hint: { color: '#777', fontSize: 13, textAlign: 'center', marginTop: 10 },
+
+  basicsRow: { flexDirection: 'row', gap: 12, marginBottom: 16 },
+  basicsCell: { flex: 1 },
+  inputLabel: { color: '#AAA', fontSize: 12, fontWeight: 'bold', letterSpacing: 0.5, marginBottom: 6, marginTop: 4 },
+  input: {
+    backgroundColor: '#1A1A1A', color: '#FFF', borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 10, paddingVertical: 8, fontSize: 14
+  },
+
+  actionsRow: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 12 },
+  saveBtn: { backgroundColor: '#388E3C', borderRadius: 10, paddingVertical: 10, paddingHorizontal: 20, minWidth: 140, alignItems: 'center' },
+  saveBtnText: { color: '#FFF', fontWeight: 'bold', letterSpacing: 1 },
+  deleteBtn: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    borderRadius: 10, paddingVertical: 10, paddingHorizontal: 16, borderWidth: 1, borderColor: '#FF5252'
+  },
+  deleteBtnText: { color: '#FF5252', fontWeight: 'bold', letterSpacing: 1 },
+
+  mediaRow: { flexDirection: 'row', gap: 16 },
+  mediaCell: { flex: 1, gap: 10 },
+  thumbnail: { width: '100%', height: 160, borderRadius: 10 },
+  placeholder: { backgroundColor: '#1A1A1A', justifyContent: 'center', alignItems: 'center', gap: 8, borderWidth: 1, borderColor: '#333' },
+  videoName: { color: '#777', fontSize: 12, paddingHorizontal: 10 },
+  uploadBtn: { borderRadius: 10, paddingVertical: 10, alignItems: 'center', borderWidth: 1, borderColor: '#69F0AE' },
+  uploadBtnText: { color: '#69F0AE', fontWeight: 'bold', letterSpacing: 1 },
+
+  newModuleRow: { flexDirection: 'row', gap: 10, marginTop: 10 },
+  newModuleBtnText: { paddingHorizontal: 16 },
+  pathRow: { marginBottom: 16 },
+
+  questionNumber: { color: '#FFD700', fontWeight: 'bold', marginBottom: 10 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#333' },
+  chipActive: { backgroundColor: '#388E3C', borderColor: '#4CAF50' },
+  chipText: { color: '#AAA', fontSize: 12 },
+  chipTextActive: { color: '#FFF', fontWeight: 'bold' },
+
+  addBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    borderRadius: 10, paddingVertical: 12, borderWidth: 1, borderStyle: 'dashed', borderColor: '#69F0AE'
+  },
+  addBtnText: { color: '#69F0AE', fontWeight: 'bold', letterSpacing: 1 },
+});
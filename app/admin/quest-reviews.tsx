@@ -0,0 +1,182 @@
+import AdminGate from '@/components/AdminGate';
+import { fetchPendingSubmissions, proofPhotoUrl, reviewQuestSubmission } from '@/utils/questProof';
+import { FontAwesome5 } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Linking,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+type Row = Record<string, any>;
+
+// Photo proofs waiting for an extension worker. Approving completes the
+// quest and credits its quest coins; rejecting needs a note for the farmer.
+function ReviewCard({ submission, onReviewed }: { submission: Row; onReviewed: (id: number) => void }) {
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState<'approve' | 'reject' | null>(null);
+
+  useEffect(() => {
+    proofPhotoUrl(submission.photo_path)
+      .then(setPhotoUrl)
+      .catch((e) => console.warn('Proof photo URL failed:', e.message));
+  }, [submission.photo_path]);
+
+  const quest = Array.isArray(submission.quest) ? submission.quest[0] : submission.quest;
+  const hasLocation = submission.latitude !== null && submission.longitude !== null;
+
+  const handleReview = async (approve: boolean) => {
+    if (!approve && !comment.trim()) {
+      return Alert.alert('Add a note', 'Tell the farmer what to fix before rejecting.');
+    }
+    setBusy(approve ? 'approve' : 'reject');
+    try {
+      await reviewQuestSubmission(submission.id, approve, comment);
+      onReviewed(submission.id);
+    } catch (e: any) {
+      const message = e.message?.includes('cannot_review_own_submission')
+        ? 'You cannot review your own photo.'
+        : e.message;
+      Alert.alert('Review failed', message);
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.photoBox}>
+        {photoUrl ? <Image source={{ uri: photoUrl }} style={styles.photo} resizeMode="contain" /> : <ActivityIndicator color="#69F0AE" />}
+      </View>
+
+      <View style={styles.details}>
+        <Text style={styles.questTitle}>{quest?.title_en || `Quest ${submission.quest_id}`}</Text>
+        {quest?.description_en ? <Text style={styles.questDesc} numberOfLines={3}>{quest.description_en}</Text> : null}
+
+        <Text style={styles.metaText}>Sent {new Date(submission.submitted_at).toLocaleString()}</Text>
+        <Text style={styles.metaText}>
+          {submission.taken_at ? `Taken ${new Date(submission.taken_at).toLocaleString()}` : 'No capture time in photo'}
+        </Text>
+        {hasLocation ? (
+          <TouchableOpacity
+            onPress={() => Linking.openURL(`https://maps.google.com/?q=${submission.latitude},${submission.longitude}`)}
+          >
+            <Text style={styles.linkText}>
+              <FontAwesome5 name="map-marker-alt" size={11} /> {Number(submission.latitude).toFixed(4)}, {Number(submission.longitude).toFixed(4)}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.metaText}>No location in photo</Text>
+        )}
+
+        <TextInput
+          style={styles.input}
+          placeholder="Note for the farmer (required to reject)"
+          placeholderTextColor="#555"
+          value={comment}
+          onChangeText={setComment}
+          multiline
+        />
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.rejectBtn} onPress={() => handleReview(false)} disabled={!!busy}>
+            {busy === 'reject' ? <ActivityIndicator color="#FF5252" /> : <Text style={styles.rejectBtnText}>REJECT</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.approveBtn} onPress={() => handleReview(true)} disabled={!!busy}>
+            {busy === 'approve' ? <ActivityIndicator color="#FFF" /> : <Text style={styles.approveBtnText}>APPROVE</Text>}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function QuestReviews() {
+  const [submissions, setSubmissions] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setSubmissions(await fetchPendingSubmissions());
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionLabel}>PHOTO PROOFS WAITING ({submissions.length})</Text>
+        {submissions.map((submission) => (
+          <ReviewCard
+            key={submission.id}
+            submission={submission}
+            onReviewed={(id) => setSubmissions((prev) => prev.filter((s) => s.id !== id))}
+          />
+        ))}
+        {submissions.length === 0 && <Text style={styles.emptyText}>Nothing to review right now.</Text>}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+export default function QuestReviewsScreen() {
+  return (
+    <AdminGate>
+      <QuestReviews />
+    </AdminGate>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 50, maxWidth: 900, width: '100%', alignSelf: 'center' },
+
+  sectionLabel: { color: '#666', fontSize: 12, fontWeight: 'bold', letterSpacing: 1, marginBottom: 10, marginTop: 10 },
+  card: {
+    flexDirection: 'row', flexWrap: 'wrap', gap: 16,
+    backgroundColor: '#141414', borderRadius: 14, padding: 16, marginBottom: 16, borderWidth: 1, borderColor: '#2A2A2A'
+  },
+  photoBox: {
+    width: 260, height: 260, borderRadius: 10, backgroundColor: '#1A1A1A',
+    justifyContent: 'center', alignItems: 'center', overflow: 'hidden'
+  },
+  photo: { width: '100%', height: '100%' },
+  details: { flex: 1, minWidth: 240, gap: 6 },
+  questTitle: { color: '#FFF', fontSize: 16, fontWeight: 'bold' },
+  questDesc: { color: '#AAA', fontSize: 13, marginBottom: 6 },
+  metaText: { color: '#777', fontSize: 12 },
+  linkText: { color: '#69F0AE', fontSize: 12 },
+  input: {
+    backgroundColor: '#1A1A1A', color: '#FFF', borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 10, paddingVertical: 8, fontSize: 14, minHeight: 60, marginTop: 8
+  },
+  actionsRow: { flexDirection: 'row', gap: 10, marginTop: 8 },
+  rejectBtn: {
+    flex: 1, alignItems: 'center', paddingVertical: 12, borderRadius: 10,
+    borderWidth: 1, borderColor: '#FF5252'
+  },
+  rejectBtnText: { color: '#FF5252', fontWeight: 'bold', letterSpacing: 1 },
+  approveBtn: { flex: 1, alignItems: 'center', paddingVertical: 12, borderRadius: 10, backgroundColor: '#388E3C' },
+  approveBtnText: { color: '#FFF', fontWeight: 'bold', letterSpacing: 1 },
+  emptyText: { color: '#666', textAlign: 'center', marginTop: 40 },
+});
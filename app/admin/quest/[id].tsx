@@ -0,0 +1,429 @@
+import AdminGate from '@/components/AdminGate';
+import LocalizedFieldsEditor, { cleanLocalizedLists, LocalizedField } from '@/components/LocalizedFieldsEditor';
+import TargetingEditor, { cleanTargeting } from '@/components/TargetingEditor';
+import { cropName, useCrops } from '@/hooks/useCrops';
+import {
+  deleteQuest,
+  deleteQuestStep,
+  fetchAdminLessons,
+  fetchAdminQuest,
+  fetchAdminQuestSteps,
+  saveQuest,
+  saveQuestStep
+} from '@/utils/contentAdmin';
+import { localizedValue } from '@/utils/localize';
+import { fetchSeasons, QuestSeason, seasonLabel } from '@/utils/questSeasons';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+const QUEST_FIELDS: LocalizedField[] = [
+  { name: 'title', label: 'TITLE' },
+  { name: 'subtitle', label: 'SUBTITLE' },
+  { name: 'description', label: 'DESCRIPTION', multiline: true },
+  { name: 'quiz_question', label: 'QUIZ QUESTION', multiline: true },
+  { name: 'quiz_options', label: 'QUIZ OPTIONS', list: true },
+  { name: 'correct_answer', label: 'CORRECT ANSWER' },
+  { name: 'quiz_explanation', label: 'EXPLANATION', multiline: true },
+];
+
+// Photo quests wait for a reviewer before the quest coins are credited
+const PROOF_TYPES = [
+  { value: 'quiz', label: 'Quiz' },
+  { value: 'photo', label: 'Photo proof' },
+];
+
+const STEP_FIELDS: LocalizedField[] = [{ name: 'title', label: 'TASK' }];
+
+// Checked on the server: the lesson is done, the quest's quiz question is
+// answered, the photo is approved, the activity is logged from its day on
+const STEP_KINDS = [
+  { value: 'lesson', label: 'Read lesson' },
+  { value: 'question', label: 'Answer question' },
+  { value: 'photo', label: 'Upload photo' },
+  { value: 'activity', label: 'Log activity' },
+];
+
+type Row = Record<string, any>;
+
+// Draft steps get a local key until they are saved
+type StepDraft = Row & { key: string };
+
+const toDraft = (row: Row): StepDraft => ({ ...row, key: String(row.id) });
+
+function QuestEditor() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = id === 'new';
+  const { data: crops } = useCrops();
+
+  const [quest, setQuest] = useState<Row>({ xp_reward: 1000, icon_type: 'scroll', target_crop: null, proof_type: 'quiz' });
+  const [loading, setLoading] = useState(!isNew);
+  const [isSaving, setIsSaving] = useState(false);
+  const [seasons, setSeasons] = useState<QuestSeason[]>([]);
+  const [steps, setSteps] = useState<StepDraft[]>([]);
+  const [lessons, setLessons] = useState<Row[]>([]);
+  const [busyStep, setBusyStep] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSeasons()
+      .then(setSeasons)
+      .catch((e) => console.warn('Seasons failed:', e.message));
+    fetchAdminLessons()
+      .then(setLessons)
+      .catch((e) => console.warn('Lessons failed:', e.message));
+  }, []);
+
+  useEffect(() => {
+    if (isNew) return;
+    Promise.all([fetchAdminQuest(parseInt(id!)), fetchAdminQuestSteps(parseInt(id!))])
+      .then(([row, stepRows]) => {
+        setQuest(row);
+        setSteps(stepRows.map(toDraft));
+      })
+      .catch((e) => Alert.alert('Error', e.message))
+      .finally(() => setLoading(false));
+  }, [id, isNew]);
+
+  const updateQuest = (column: string, value: any) =>
+    setQuest((prev) => ({ ...prev, [column]: value }));
+
+  const updateStep = (key: string, column: string, value: any) =>
+    setSteps((prev) => prev.map((step) => (step.key === key ? { ...step, [column]: value } : step)));
+
+  const addStep = () =>
+    setSteps((prev) => [
+      ...prev,
+      { key: `new_${Date.now()}`, quest_id: quest.id, position: prev.length, kind: 'lesson', lesson_id: null, activity_day: null },
+    ]);
+
+  const handleSaveStep = async (draft: StepDraft) => {
+    const { key, ...row } = draft;
+    if (row.kind === 'lesson' && !row.lesson_id) {
+      return Alert.alert('Pick a lesson', 'A lesson task needs the lesson to read.');
+    }
+    const activityDay = parseInt(row.activity_day);
+    if (row.kind === 'activity' && !(activityDay >= 1 && activityDay <= 31)) {
+      return Alert.alert('Pick a day', 'An activity task needs a day of the season (1-31).');
+    }
+
+    setBusyStep(key);
+    try {
+      const saved = await saveQuestStep({
+        ...row,
+        lesson_id: row.kind === 'lesson' ? row.lesson_id : null,
+        activity_day: row.kind === 'activity' ? activityDay : null,
+      });
+      setSteps((prev) => prev.map((step) => (step.key === key ? toDraft(saved) : step)));
+    } catch (e: any) {
+      Alert.alert('Save failed', e.message);
+    } finally {
+      setBusyStep(null);
+    }
+  };
+
+  const handleDeleteStep = async (draft: StepDraft) => {
+    try {
+      if (draft.id) await deleteQuestStep(draft.id);
+      setSteps((prev) => prev.filter((step) => step.key !== draft.key));
+    } catch (e: any) {
+      Alert.alert('Delete failed', e.message);
+    }
+  };
+
+  const handleSave = async () => {
+    const values = cleanLocalizedLists(QUEST_FIELDS, {
+      ...cleanTargeting(quest),
+      xp_reward: parseInt(quest.xp_reward) || 0,
+    });
+    if (!values.title_en?.trim()) return Alert.alert('Missing title', 'An English title is required.');
+
+    // The quest quiz checks the picked option against correct_answer
+    const options: string[] = values.quiz_options_en || [];
+    if (options.length > 0 && !options.includes(values.correct_answer_en)) {
+      return Alert.alert('Check the answer', 'The English correct answer must match one of the English options.');
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveQuest(values);
+      setQuest(saved);
+      if (isNew) router.replace({ pathname: '/admin/quest/[id]', params: { id: String(saved.id) } });
+      else Alert.alert('Saved', 'Quest updated.');
+    } catch (e: any) {
+      Alert.alert('Save failed', e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert('Delete quest?', 'Farmers who completed it keep their coins.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteQuest(quest.id);
+            router.back();
+          } catch (e: any) {
+            Alert.alert('Delete failed', e.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionLabel}>QUEST</Text>
+        <View style={styles.card}>
+          <View style={styles.basicsRow}>
+            <View style={styles.basicsCell}>
+              <Text style={styles.inputLabel}>QUEST COINS</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={String(quest.xp_reward ?? '')}
+                onChangeText={(v) => updateQuest('xp_reward', v)}
+              />
+            </View>
+            <View style={styles.basicsCell}>
+              <Text style={styles.inputLabel}>ICON (FONTAWESOME 5)</Text>
+              <View style={styles.iconInputRow}>
+                <FontAwesome5 name={quest.icon_type || 'scroll'} size={16} color="#FFD700" />
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  autoCapitalize="none"
+                  value={quest.icon_type ?? ''}
+                  onChangeText={(v) => updateQuest('icon_type', v || null)}
+                />
+              </View>
+            </View>
+          </View>
+
+          <Text style={styles.inputLabel}>TARGET CROP</Text>
+          <View style={styles.chipRow}>
+            {[null, ...(crops || []).map((c) => c.id)].map((cropId) => {
+              const active = (quest.target_crop ?? null) === cropId;
+              return (
+                <TouchableOpacity
+                  key={cropId ?? 'all'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateQuest('target_crop', cropId)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {cropId ? cropName(crops, cropId, 'en') : 'All crops'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.inputLabel}>SEASON</Text>
+          <View style={styles.chipRow}>
+            {[null, ...seasons.filter((s) => !s.closedAt || s.id === quest.season_id).map((s) => s.id)].map((seasonId) => {
+              const active = (quest.season_id ?? null) === seasonId;
+              const season = seasons.find((s) => s.id === seasonId);
+              return (
+                <TouchableOpacity
+                  key={seasonId ?? 'every'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateQuest('season_id', seasonId)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {season ? seasonLabel(season, 'en') : 'Every season'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.inputLabel}>FINISHED BY</Text>
+          <View style={styles.chipRow}>
+            {PROOF_TYPES.map(({ value, label }) => {
+              const active = (quest.proof_type ?? 'quiz') === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => updateQuest('proof_type', value)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TargetingEditor values={quest} onChange={updateQuest} />
+        </View>
+
+        <Text style={styles.sectionLabel}>TEXT</Text>
+        <View style={styles.card}>
+          <LocalizedFieldsEditor fields={QUEST_FIELDS} values={quest} onChange={updateQuest} />
+        </View>
+
+        <View style={styles.actionsRow}>
+          {!isNew && (
+            <TouchableOpacity style={styles.deleteBtn} onPress={handleDelete}>
+              <FontAwesome5 name="trash" size={12} color="#FF5252" />
+              <Text style={styles.deleteBtnText}>DELETE</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.saveBtn} onPress={handleSave} disabled={isSaving}>
+            {isSaving ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>{isNew ? 'CREATE QUEST' : 'SAVE QUEST'}</Text>}
+          </TouchableOpacity>
+        </View>
+
+        {/* Steps: a quest with steps is finished through its checklist */}
+        {isNew ? (
+          <Text style={styles.hint}>Save the quest to add task steps.</Text>
+        ) : (
+          <>
+            <Text style={styles.sectionLabel}>TASK STEPS (IN ORDER)</Text>
+            {steps.map((step, index) => (
+              <View key={step.key} style={styles.card}>
+                <Text style={styles.stepNumber}>STEP {index + 1}{step.id ? '' : ' (unsaved)'}</Text>
+
+                <Text style={styles.inputLabel}>KIND</Text>
+                <View style={styles.chipRow}>
+                  {STEP_KINDS.map(({ value, label }) => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[styles.chip, step.kind === value && styles.chipActive]}
+                      onPress={() => updateStep(step.key, 'kind', value)}
+                    >
+                      <Text style={[styles.chipText, step.kind === value && styles.chipTextActive]}>{label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {step.kind === 'lesson' && (
+                  <>
+                    <Text style={styles.inputLabel}>LESSON</Text>
+                    <View style={styles.chipRow}>
+                      {lessons.map((lesson) => (
+                        <TouchableOpacity
+                          key={lesson.id}
+                          style={[styles.chip, step.lesson_id === lesson.id && styles.chipActive]}
+                          onPress={() => updateStep(step.key, 'lesson_id', lesson.id)}
+                        >
+                          <Text style={[styles.chipText, step.lesson_id === lesson.id && styles.chipTextActive]}>
+                            {lesson.sequence ?? lesson.id}. {localizedValue(lesson, 'title', 'en') || 'Untitled lesson'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+                {step.kind === 'question' && (
+                  <Text style={styles.stepHint}>Uses the quiz question from the quest text below.</Text>
+                )}
+                {step.kind === 'activity' && (
+                  <>
+                    <Text style={styles.inputLabel}>OPENS ON DAY OF THE SEASON</Text>
+                    <TextInput
+                      style={[styles.input, styles.dayInput]}
+                      keyboardType="number-pad"
+                      value={String(step.activity_day ?? '')}
+                      onChangeText={(v) => updateStep(step.key, 'activity_day', v)}
+                    />
+                  </>
+                )}
+
+                <LocalizedFieldsEditor
+                  fields={STEP_FIELDS}
+                  values={step}
+                  onChange={(column, value) => updateStep(step.key, column, value)}
+                />
+
+                <View style={styles.actionsRow}>
+                  <TouchableOpacity style={styles.deleteBtn} onPress={() => handleDeleteStep(step)}>
+                    <FontAwesome5 name="trash" size={12} color="#FF5252" />
+                    <Text style={styles.deleteBtnText}>DELETE</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.saveBtn} onPress={() => handleSaveStep(step)} disabled={!!busyStep}>
+                    {busyStep === step.key ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>SAVE STEP</Text>}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.addBtn} onPress={addStep}>
+              <FontAwesome5 name="plus" size={12} color="#69F0AE" />
+              <Text style={styles.addBtnText}>ADD STEP</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+export default function AdminQuestScreen() {
+  return (
+    <AdminGate>
+      <QuestEditor />
+    </AdminGate>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 60, maxWidth: 1200, width: '100%', alignSelf: 'center' },
+
+  sectionLabel: { color: '#666', fontSize: 12, fontWeight: 'bold', letterSpacing: 1, marginBottom: 10, marginTop: 10 },
+  card: { backgroundColor: '#141414', borderRadius: 14, padding: 16, marginBottom: 16, borderWidth: 1, borderColor: '#2A2A2A' },
+
+  basicsRow: { flexDirection: 'row', gap: 12, marginBottom: 12 },
+  basicsCell: { flex: 1 },
+  iconInputRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  inputLabel: { color: '#AAA', fontSize: 12, fontWeight: 'bold', letterSpacing: 0.5, marginBottom: 6, marginTop: 4 },
+  input: {
+    backgroundColor: '#1A1A1A', color: '#FFF', borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 10, paddingVertical: 8, fontSize: 14
+  },
+
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#333' },
+  chipActive: { backgroundColor: '#388E3C', borderColor: '#4CAF50' },
+  chipText: { color: '#AAA', fontSize: 12 },
+  chipTextActive: { color: '#FFF', fontWeight: 'bold' },
+
+  actionsRow: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10 },
+  saveBtn: { backgroundColor: '#388E3C', borderRadius: 10, paddingVertical: 10, paddingHorizontal: 20, minWidth: 140, alignItems: 'center' },
+  saveBtnText: { color: '#FFF', fontWeight: 'bold', letterSpacing: 1 },
+  deleteBtn: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    borderRadius: 10, paddingVertical: 10, paddingHorizontal: 16, borderWidth: 1, borderColor: '#FF5252'
+  },
+  deleteBtnText: { color: '#FF5252', fontWeight: 'bold', letterSpacing: 1 },
+
+  hint: { color: '#777', fontSize: 13, textAlign: 'center', marginTop: 20 },
+  stepNumber: { color: '#FFD700', fontWeight: 'bold', marginBottom: 10 },
+  stepHint: { color: '#777', fontSize: 12, marginTop: 8 },
+  dayInput: { width: 100 },
+  addBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    borderRadius: 10, paddingVertical: 12, borderWidth: 1, borderStyle: 'dashed', borderColor: '#69F0AE'
+  },
+  addBtnText: { color: '#69F0AE', fontWeight: 'bold', letterSpacing: 1 },
+});
@@ -11,6 +11,7 @@ import {
 
 import { DEFAULT_LANGUAGE } from '@/constants/translations';
 import { useTranslation } from '@/hooks/useTranslation';
+import { localizedValue } from '@/utils/localize';
 import { supabase } from '@/utils/supabase';
 import Checkmark from '../../assets/images/check.svg';
 import Coin from '../../assets/images/coin.svg';
@@ -18,7 +19,13 @@ import Coin from '../../assets/images/coin.svg';
 export default function LessonCompleteScreen() {
   const router = useRouter();
   const { t, language } = useTranslation();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // correct/total/coins are only passed after a graded quiz (see app/quiz/[id].tsx)
+  const { id, correct, total, coins } = useLocalSearchParams<{
+    id: string;
+    correct?: string;
+    total?: string;
+    coins?: string;
+  }>();
   
   const [lessonInfo, setLessonInfo] = useState<{ title: string; points: number } | null>(null);
   const [loading, setLoading] = useState(true);
@@ -28,8 +35,6 @@ export default function LessonCompleteScreen() {
       if (!id) return;
       
       const lang = language || DEFAULT_LANGUAGE;
-      const titleCol = `title_${lang}`;
-      const fallbackTitle = `title_${DEFAULT_LANGUAGE}`;
 
       // FIX: Use select('*') to prevent TypeScript ParserError on dynamic strings
       const { data, error } = await supabase
@@ -39,9 +44,8 @@ export default function LessonCompleteScreen() {
         .single();
 
       if (!error && data) {
-        // Cast data to 'any' to access the dynamic title column safely
         const rawData = data as any;
-        const title = rawData[titleCol] || rawData[fallbackTitle] || "Lesson Completed";
+        const title = localizedValue(rawData, 'title', lang) || "Lesson Completed";
         setLessonInfo({
           title,
           points: rawData.points || 0
@@ -86,11 +90,17 @@ export default function LessonCompleteScreen() {
           <Checkmark width={200} height={200} style={styles.checkmark} />
           <Text style={styles.completeText}>{t('completed_lesson_title')}</Text>
 
+          {total && (
+            <Text style={styles.scoreText}>
+              SCORE {correct}/{total}
+            </Text>
+          )}
+
           <View style={styles.rewardContainer}>
             <Text style={styles.rewardTitle}>REWARD</Text>
             <View style={styles.pointsContainer}>
               <Coin width={30} height={30} style={styles.coinIcon} />
-              <Text style={styles.pointsText}>{lessonInfo?.points}</Text>
+              <Text style={styles.pointsText}>{coins ?? lessonInfo?.points}</Text>
             </View>
           </View>
         </View>
@@ -114,6 +124,7 @@ const styles = StyleSheet.create({
   card: { backgroundColor: '#2E7D32', borderRadius: 20, padding: 20, alignItems: 'center', flexGrow: 1, justifyContent: 'center', borderWidth: 1, borderColor: '#388E3C' },
   checkmark: { marginBottom: 20 },
   completeText: { color: '#FFFFFF', fontSize: 24, fontWeight: 'bold', fontFamily: 'monospace', letterSpacing: 1, marginBottom: 20, textAlign:'center' },
+  scoreText: { color: '#FFFFFF', fontSize: 18, fontWeight: 'bold', fontFamily: 'monospace', marginBottom: 20 },
   rewardContainer: { alignItems: 'center' },
   rewardTitle: { color: '#FFFFFF', fontSize: 16, fontWeight: '500', fontFamily: 'monospace' },
   pointsContainer: { flexDirection: 'row', alignItems: 'center', marginTop: 10 },
@@ -0,0 +1,529 @@
+import { FontAwesome5 } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { cropName, useCrops } from "@/hooks/useCrops";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  addDays,
+  CropCalendar,
+  CropStage,
+  currentStage,
+  daysSinceSowing,
+  fetchCropCalendar,
+  formatDateKey,
+  STAGE_ICONS,
+  stageLinks,
+  stageStatus,
+  stageTitle,
+  toDateKey,
+  upcomingTasks,
+} from "@/utils/cropCalendar";
+import { fetchUserCropId } from "@/utils/crops";
+import { getGuestProgress } from "@/utils/guestProgress";
+import { localizedValue } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
+import { supabase } from "@/utils/supabase";
+
+const PIXEL_FONT = "monospace";
+const MAX_DAYS_AHEAD = 60; // farmers can plan a sowing up to two months out
+
+// "12 Jun 2026 – 2 Jul 2026"
+const stageDates = (sownOn: string, stage: CropStage, lang: string) =>
+  [stage.startDay, stage.endDay]
+    .map((day) => formatDateKey(addDays(sownOn, day), lang))
+    .join(" – ");
+
+// --- FETCHER ---
+// The selected crop's calendar; guests use the crop picked in onboarding
+const fetchCalendarData = async (): Promise<{
+  calendar: CropCalendar | null;
+}> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user?.id ?? null;
+  const cropId = userId
+    ? await fetchUserCropId(userId)
+    : (await getGuestProgress()).crop;
+
+  return {
+    calendar: cropId ? await fetchCropCalendar(userId, cropId) : null,
+  };
+};
+
+export default function CropCalendarScreen() {
+  const router = useRouter();
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
+  const { data: crops } = useCrops();
+
+  const { data, loading, isOffline, refresh, refreshing } = useCachedQuery(
+    "crop_calendar_v1",
+    fetchCalendarData,
+  );
+
+  // Shown right away, also while the save waits in the outbox
+  const [saved, setSaved] = useState<{ cropId: string; sownOn: string }>();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => toDateKey(new Date()));
+  const [saving, setSaving] = useState(false);
+
+  if (loading && !data) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </SafeAreaView>
+    );
+  }
+
+  const calendar = data?.calendar
+    ? {
+        ...data.calendar,
+        sownOn:
+          saved?.cropId === data.calendar.cropId
+            ? saved.sownOn
+            : data.calendar.sownOn,
+      }
+    : null;
+
+  const today = toDateKey(new Date());
+  const latest = addDays(today, MAX_DAYS_AHEAD);
+  const shiftDraft = (days: number) => {
+    const next = addDays(draft, days);
+    setDraft(next > latest ? latest : next);
+  };
+
+  const handleSave = async () => {
+    if (!calendar) return;
+    setSaving(true);
+    try {
+      const outcome = await sendOrQueue({
+        kind: "sowing_date",
+        cropId: calendar.cropId,
+        sownOn: draft,
+      });
+      setSaved({ cropId: calendar.cropId, sownOn: draft });
+      setEditing(false);
+      if (outcome.queued) {
+        Alert.alert(t("offline_mode"), t("calendar_date_queued"));
+      } else {
+        refresh();
+      }
+    } catch (e: any) {
+      Alert.alert(t("crop_calendar"), e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(calendar?.sownOn ?? today);
+    setEditing(true);
+  };
+
+  if (!calendar) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.empty}>
+          <FontAwesome5 name="seedling" size={36} color="#555" />
+          <Text style={styles.emptyText}>{t("calendar_no_crop")}</Text>
+          <TouchableOpacity
+            style={styles.primaryBtn}
+            onPress={() =>
+              router.push({ pathname: "/crop", params: { source: "profile" } })
+            }
+          >
+            <Text style={styles.primaryBtnText}>
+              {t("calendar_choose_crop")}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const day = calendar.sownOn ? daysSinceSowing(calendar.sownOn) : null;
+  const stage = currentStage(calendar);
+  const tasks = upcomingTasks(calendar);
+  const lastDay = Math.max(0, ...calendar.stages.map((s) => s.endDay));
+  const seasonOver = day !== null && day > lastDay;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor="#4CAF50"
+          />
+        }
+      >
+        {isOffline && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t("offline_mode")}</Text>
+          </View>
+        )}
+
+        {/* --- SEASON CARD --- */}
+        <View style={styles.seasonCard}>
+          <Text style={styles.cropTitle}>
+            {cropName(crops, calendar.cropId, lang).toUpperCase()}
+          </Text>
+          {stage && (
+            <View style={styles.stageNow}>
+              <FontAwesome5
+                name={STAGE_ICONS[stage.kind]}
+                size={18}
+                color="#69F0AE"
+              />
+              <Text style={styles.stageNowText}>
+                {stageTitle(stage, lang, t)}
+              </Text>
+            </View>
+          )}
+          {day !== null && (
+            <Text style={styles.dayText}>
+              {day >= 0
+                ? t("calendar_day").replace("{count}", String(day))
+                : t("calendar_sowing_in").replace("{count}", String(-day))}
+            </Text>
+          )}
+          {seasonOver && (
+            <Text style={styles.seasonOver}>{t("calendar_season_over")}</Text>
+          )}
+
+          {calendar.sownOn && !editing ? (
+            <View style={styles.sownRow}>
+              <Text style={styles.sownText}>
+                {t("calendar_sowing_date")}:{" "}
+                {formatDateKey(calendar.sownOn, lang)}
+              </Text>
+              <TouchableOpacity onPress={startEditing}>
+                <Text style={styles.changeText}>{t("calendar_change")}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            /* --- SOWING DATE --- */
+            <View style={styles.dateEditor}>
+              <Text style={styles.dateLabel}>{t("calendar_set_sowing")}</Text>
+              <Text style={styles.dateValue}>{formatDateKey(draft, lang)}</Text>
+              <View style={styles.dateButtons}>
+                {[-7, -1, 1, 7].map((days) => (
+                  <TouchableOpacity
+                    key={days}
+                    style={styles.dateBtn}
+                    onPress={() => shiftDraft(days)}
+                    disabled={days > 0 && draft >= latest}
+                  >
+                    <Text style={styles.dateBtnText}>
+                      {days > 0 ? `+${days}` : days}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={styles.dateBtn}
+                  onPress={() => setDraft(today)}
+                >
+                  <Text style={styles.dateBtnText}>{t("calendar_today")}</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={styles.primaryBtn}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text style={styles.primaryBtnText}>
+                    {t("calendar_save_date")}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {calendar.stages.length === 0 && (
+          <View style={styles.empty}>
+            <FontAwesome5 name="calendar-alt" size={32} color="#555" />
+            <Text style={styles.emptyText}>{t("calendar_no_stages")}</Text>
+          </View>
+        )}
+
+        {/* --- UPCOMING TASKS --- */}
+        {calendar.sownOn && calendar.stages.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>{t("calendar_upcoming")}</Text>
+            {tasks.map(({ task, stage: taskStage, date }) => (
+              <View
+                key={`${task.id}_${date}`}
+                style={[styles.taskRow, date === today && styles.taskToday]}
+              >
+                <FontAwesome5
+                  name={STAGE_ICONS[taskStage.kind]}
+                  size={14}
+                  color={date === today ? "#FFD700" : "#81C784"}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.taskTitle}>
+                    {localizedValue(task, "title", lang)}
+                  </Text>
+                  <Text style={styles.taskDate}>
+                    {date === today
+                      ? t("calendar_today")
+                      : formatDateKey(date, lang)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+            {tasks.length === 0 && (
+              <Text style={styles.hint}>{t("calendar_no_tasks")}</Text>
+            )}
+          </>
+        )}
+
+        {/* --- STAGES --- */}
+        {calendar.stages.length > 0 && (
+          <Text style={styles.sectionTitle}>{t("calendar_stages")}</Text>
+        )}
+        {calendar.stages.map((s) => {
+          const status = day !== null ? stageStatus(s, day) : "upcoming";
+          const isNow = stage?.id === s.id;
+          const links = stageLinks(calendar, s.kind);
+          return (
+            <View
+              key={s.id}
+              style={[
+                styles.stageCard,
+                isNow && styles.stageCardNow,
+                status === "done" && styles.stageCardDone,
+              ]}
+            >
+              <View style={styles.stageHeader}>
+                <FontAwesome5
+                  name={
+                    status === "done" ? "check-circle" : STAGE_ICONS[s.kind]
+                  }
+                  size={16}
+                  color={isNow ? "#69F0AE" : "#888"}
+                />
+                <Text style={styles.stageTitle}>{stageTitle(s, lang, t)}</Text>
+                {isNow && (
+                  <View style={styles.nowBadge}>
+                    <Text style={styles.nowBadgeText}>{t("calendar_now")}</Text>
+                  </View>
+                )}
+              </View>
+              {calendar.sownOn && (
+                <Text style={styles.stageDates}>
+                  {stageDates(calendar.sownOn, s, lang)}
+                </Text>
+              )}
+
+              {/* Lessons and quests tagged with this stage */}
+              {links.map((link) => (
+                <TouchableOpacity
+                  key={`${link.kind}_${link.id}`}
+                  style={styles.linkRow}
+                  onPress={() =>
+                    link.kind === "lesson"
+                      ? router.push({
+                          pathname: "/lesson/[id]",
+                          params: { id: String(link.id) },
+                        })
+                      : router.push({
+                          pathname: "/quest-details",
+                          params: { id: String(link.id) },
+                        })
+                  }
+                >
+                  <FontAwesome5
+                    name={link.kind === "lesson" ? "book-open" : "scroll"}
+                    size={12}
+                    color={link.kind === "lesson" ? "#81C784" : "#B39DDB"}
+                  />
+                  <Text style={styles.linkText} numberOfLines={1}>
+                    {localizedValue(link, "title", lang)}
+                  </Text>
+                  <FontAwesome5 name="chevron-right" size={10} color="#666" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#121212" },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#121212",
+  },
+  scrollContent: { padding: 20, paddingBottom: 50 },
+  offlineBanner: {
+    backgroundColor: "#C62828",
+    padding: 5,
+    alignItems: "center",
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  offlineText: { color: "white", fontWeight: "bold" },
+
+  seasonCard: {
+    backgroundColor: "#1B3E20",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: "#388E3C",
+    alignItems: "center",
+  },
+  cropTitle: {
+    color: "white",
+    fontSize: 22,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  stageNow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 10,
+  },
+  stageNowText: { color: "#69F0AE", fontSize: 18, fontWeight: "bold" },
+  dayText: { color: "#C8E6C9", fontSize: 13, marginTop: 6 },
+  seasonOver: {
+    color: "#FFB74D",
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: 10,
+  },
+  sownRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 14,
+  },
+  sownText: { color: "#CCC", fontSize: 13 },
+  changeText: { color: "#69F0AE", fontSize: 12, fontWeight: "bold" },
+
+  dateEditor: { alignItems: "center", marginTop: 16, width: "100%" },
+  dateLabel: { color: "#CCC", fontSize: 14 },
+  dateValue: {
+    color: "white",
+    fontSize: 20,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    marginVertical: 10,
+  },
+  dateButtons: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+    marginBottom: 14,
+  },
+  dateBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: "#1E1E1E",
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  dateBtnText: { color: "#DDD", fontWeight: "bold" },
+  primaryBtn: {
+    backgroundColor: "#388e3c",
+    paddingVertical: 12,
+    paddingHorizontal: 28,
+    borderRadius: 24,
+    minWidth: 160,
+    alignItems: "center",
+  },
+  primaryBtnText: { color: "white", fontWeight: "bold" },
+
+  sectionTitle: {
+    color: "#AAA",
+    fontSize: 13,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    marginBottom: 10,
+    marginTop: 6,
+  },
+  taskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#1E1E1E",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  taskToday: { borderColor: "#FFD700" },
+  taskTitle: { color: "white", fontSize: 14 },
+  taskDate: { color: "#888", fontSize: 11, marginTop: 2 },
+  hint: { color: "#666", marginBottom: 16 },
+
+  stageCard: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  stageCardNow: { borderColor: "#69F0AE", backgroundColor: "#1B2E1F" },
+  stageCardDone: { opacity: 0.6 },
+  stageHeader: { flexDirection: "row", alignItems: "center", gap: 10 },
+  stageTitle: { flex: 1, color: "white", fontSize: 15, fontWeight: "bold" },
+  nowBadge: {
+    backgroundColor: "#388e3c",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  nowBadgeText: {
+    color: "white",
+    fontSize: 10,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  stageDates: { color: "#888", fontSize: 12, marginTop: 4, marginLeft: 26 },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+    marginLeft: 26,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: "#262626",
+    borderRadius: 8,
+  },
+  linkText: { flex: 1, color: "#DDD", fontSize: 13 },
+
+  empty: { alignItems: "center", marginTop: 40, gap: 16, padding: 20 },
+  emptyText: { color: "#888", textAlign: "center" },
+});
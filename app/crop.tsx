@@ -1,6 +1,8 @@
+import { CROP_IMAGES } from "@/constants/cropAssets";
+import { cropName, useCrops } from "@/hooks/useCrops";
 import { useTranslation } from "@/hooks/useTranslation";
+import { saveGuestChoices } from "@/utils/guestProgress";
 import { supabase } from "@/utils/supabase";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useLocalSearchParams, useRouter } from "expo-router"; // <--- Added Search Params
 import React, { useState } from "react";
 import {
@@ -14,44 +16,19 @@ import {
   View,
 } from "react-native";
 
-// --- 1. STATIC FALLBACK DATA ---
-const DEFAULT_CROPS = [
-  { id: "rice", name: "RICE" },
-  { id: "banana", name: "BANANA" }, // Wheat removed, Banana kept
-  { id: "coffee", name: "COFFEE" },
-  { id: "coconut", name: "COCONUT" },
-  { id: "cardamom", name: "CARDAMOM" },
-  { id: "black_pepper", name: "BLACK PEPPER" },
-  { id: "ginger", name: "GINGER" },
-  { id: "cashew", name: "CASHEW" },
-];
-
-// --- 2. IMAGE MAPPING ---
-const CROP_IMAGES: { [key: string]: any } = {
-  banana: require("../assets/images/crops/banana.png"),
-  coffee: require("../assets/images/crops/coffee.png"),
-  coconut: require("../assets/images/crops/coconut.png"),
-  rice: require("../assets/images/crops/rice.png"),
-  cardamom: require("../assets/images/crops/cardamom.png"),
-  black_pepper: require("../assets/images/crops/black_pepper.png"),
-  ginger: require("../assets/images/crops/ginger.png"),
-  cashew: require("../assets/images/crops/cashew.png"),
-};
-
 export default function CropScreen() {
-  const [crops, setCrops] = useState<any[]>(DEFAULT_CROPS);
+  // Crop list comes from the `crops` table (cached for offline onboarding)
+  const { data: crops, loading, refresh } = useCrops();
   const [selectedCrop, setSelectedCrop] = useState<string | null>(null);
   const router = useRouter();
   const { source } = useLocalSearchParams(); // <--- READ THE FLAG
-  const { t, isLoading: isTransLoading } = useTranslation();
+  const { t, language, isLoading: isTransLoading } = useTranslation();
 
   const handleConfirm = async () => {
     if (selectedCrop) {
       try {
-        // 1. Save locally
-        await AsyncStorage.setItem("onboarding_crop", selectedCrop);
-
-        // 2. Save to DB if logged in
+        // 1. Save to DB if logged in, otherwise with the guest progress
+        // (merged into the account on signup / login)
         const {
           data: { session },
         } = await supabase.auth.getSession();
@@ -60,9 +37,11 @@ export default function CropScreen() {
             .from("profiles")
             .update({ selected_crop: selectedCrop })
             .eq("id", session.user.id);
+        } else {
+          await saveGuestChoices({ crop: selectedCrop });
         }
 
-        // 3. SMART NAVIGATION (The Fix)
+        // 2. SMART NAVIGATION (The Fix)
         if (source === "profile") {
           // If editing profile -> Go to Dashboard (Progress saved!)
           router.replace("/dashboard");
@@ -76,7 +55,7 @@ export default function CropScreen() {
     }
   };
 
-  if (isTransLoading) {
+  if (isTransLoading || loading) {
     return (
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.loadingContainer}>
@@ -92,8 +71,14 @@ export default function CropScreen() {
         <Text style={styles.title}>{t("choose_crop")}</Text>
         <Text style={styles.subtitle}>{t("choose_your_crop_in_hindi")}</Text>
 
+        {!crops?.length && (
+          <TouchableOpacity style={styles.retryButton} onPress={refresh}>
+            <Text style={styles.retryText}>{t("try_again")}</Text>
+          </TouchableOpacity>
+        )}
+
         <View style={styles.gridContainer}>
-          {crops.map((crop) => (
+          {(crops || []).map((crop) => (
             <TouchableOpacity
               key={crop.id}
               style={[
@@ -103,10 +88,15 @@ export default function CropScreen() {
               onPress={() => setSelectedCrop(crop.id)}
             >
               <Image
-                source={CROP_IMAGES[crop.id] || CROP_IMAGES["banana"]}
+                source={
+                  (crop.icon_key && CROP_IMAGES[crop.icon_key]) ||
+                  CROP_IMAGES["banana"]
+                }
                 style={styles.cropImage}
               />
-              <Text style={styles.cropName}>{crop.name}</Text>
+              <Text style={styles.cropName}>
+                {cropName(crops, crop.id, language).toUpperCase()}
+              </Text>
             </TouchableOpacity>
           ))}
         </View>
@@ -187,6 +177,15 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     textAlign: "center",
   },
+  retryButton: {
+    borderWidth: 1,
+    borderColor: "#388e3c",
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginBottom: 20,
+  },
+  retryText: { color: "#388e3c", fontWeight: "bold" },
   confirmButton: {
     width: "100%",
     maxWidth: 400,
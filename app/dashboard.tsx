@@ -14,7 +14,27 @@ import {
 } from "react-native";
 
 import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useOutbox } from "@/hooks/useOutbox";
 import { useTranslation } from "@/hooks/useTranslation";
+import {
+  CropCalendar,
+  currentStage,
+  daysSinceSowing,
+  fetchCropCalendar,
+  formatDateKey,
+  STAGE_ICONS,
+  stageTitle,
+  toDateKey,
+  upcomingTasks,
+} from "@/utils/cropCalendar";
+import {
+  countCompleted,
+  fetchLessonGraph,
+  GraphLesson,
+} from "@/utils/lessonGraph";
+import { localizedValue, pickLocalizedColumns } from "@/utils/localize";
+import { fetchForYouFeed, ForYouItem } from "@/utils/recommendations";
+import { countDueReviews } from "@/utils/review";
 import { supabase } from "@/utils/supabase";
 
 // Assets
@@ -28,13 +48,10 @@ import Reward from "../assets/images/Reward.svg";
 
 const PIXEL_FONT = "monospace";
 
-interface Lesson {
-  id: number;
-  sequence: number;
-  title_en: string;
-  title_hi: string;
-  description_en: string;
-  description_hi: string;
+// Raw language columns (title_en, title_hi, ...) are kept so the cached
+// dashboard can be shown in whichever language the farmer switches to.
+interface Lesson extends GraphLesson {
+  [localizedColumn: string]: any;
 }
 
 type UserProgress = {
@@ -42,7 +59,12 @@ type UserProgress = {
   completed_lessons: number;
   user_coins: number;
   user_name: string;
-  next_lesson: Lesson | null;
+  for_you: ForYouItem[]; // "For you today" (utils/recommendations.ts)
+  calendar: CropCalendar | null; // selected crop's calendar, if it has a crop
+  reviews_due: number; // missed quiz questions due in the Review session
+  // Kept so queued (offline) completions can be applied to the cache
+  completed_ids: number[];
+  lessons: Lesson[];
 };
 
 // --- DATA FETCHER ---
@@ -56,7 +78,11 @@ const fetchUserProgress = async (): Promise<UserProgress> => {
       completed_lessons: 0,
       user_coins: 0,
       user_name: "FARMER",
-      next_lesson: null,
+      for_you: [],
+      calendar: null,
+      reviews_due: 0,
+      completed_ids: [],
+      lessons: [],
     };
   }
 
@@ -69,36 +95,59 @@ const fetchUserProgress = async (): Promise<UserProgress> => {
   const user_coins = profileData?.coins || 0;
   const user_name = profileData?.full_name || "FARMER";
 
-  const { data: allLessons, error: lessonError } = await supabase
-    .from("lessons")
-    .select("id, sequence, title_en, title_hi, description_en, description_hi")
-    .order("sequence", { ascending: true });
-
-  if (lessonError) console.error("Error fetching lessons:", lessonError);
-
-  const lessons = allLessons || [];
+  // Same graph as the lessons map: the farmer's crop track, unlocked by
+  // prerequisites
+  const graph = await fetchLessonGraph(userId);
+  const lessons: Lesson[] = graph.lessons.map(({ row, ...node }) => ({
+    ...node,
+    ...pickLocalizedColumns(row, ["title", "description"]),
+  }));
   const total_lessons = lessons.length;
-
-  const { data: userLessons } = await supabase
-    .from("user_lessons")
-    .select("lesson_id")
-    .eq("user_id", userId);
-
-  const completedIds = new Set(userLessons?.map((ul) => ul.lesson_id) || []);
-  const completed_lessons = completedIds.size;
-
-  const nextLessonData = lessons.find((l) => !completedIds.has(l.id)) || null;
+  const completed_lessons = countCompleted(lessons, graph.completedIds);
+
+  const calendar = graph.cropId
+    ? await fetchCropCalendar(userId, graph.cropId).catch((e) => {
+        console.error("Error loading crop calendar:", e);
+        return null;
+      })
+    : null;
+
+  const [for_you, reviews_due] = await Promise.all([
+    fetchForYouFeed(
+      userId,
+      graph,
+      calendar ? (currentStage(calendar)?.kind ?? null) : null,
+    ),
+    countDueReviews(userId).catch((e) => {
+      console.error("Error counting reviews:", e);
+      return 0;
+    }),
+  ]);
 
   return {
     total_lessons,
     completed_lessons,
     user_coins,
     user_name,
-    next_lesson: nextLessonData,
+    for_you,
+    calendar,
+    reviews_due,
+    completed_ids: graph.completedIds,
+    lessons,
   };
 };
 
-const Header = ({ coins, name }: { coins: number; name: string }) => (
+const Header = ({
+  coins,
+  name,
+  pendingSync,
+  onSyncPress,
+}: {
+  coins: number;
+  name: string;
+  pendingSync: number;
+  onSyncPress: () => void;
+}) => (
   <View style={styles.header}>
     <View>
       <Text style={styles.headerGreeting}>WELCOME BACK,</Text>
@@ -106,9 +155,18 @@ const Header = ({ coins, name }: { coins: number; name: string }) => (
         {name ? name.toUpperCase() : "FARMER"}
       </Text>
     </View>
-    <View style={styles.coinPill}>
-      <Coin width={20} height={20} />
-      <Text style={styles.coinText}>{coins.toLocaleString()}</Text>
+    <View style={styles.headerRight}>
+      {/* Completions saved offline that haven't reached the server yet */}
+      {pendingSync > 0 && (
+        <TouchableOpacity style={styles.syncPill} onPress={onSyncPress}>
+          <FontAwesome5 name="sync-alt" size={12} color="#FFB74D" />
+          <Text style={styles.syncText}>{pendingSync}</Text>
+        </TouchableOpacity>
+      )}
+      <View style={styles.coinPill}>
+        <Coin width={20} height={20} />
+        <Text style={styles.coinText}>{coins.toLocaleString()}</Text>
+      </View>
     </View>
   </View>
 );
@@ -123,16 +181,18 @@ const HubButton = ({ icon, label, onPress, style, textStyle }: any) => (
 export default function DashboardScreen() {
   const router = useRouter();
   const { t, language, isLoading: isTransLoading } = useTranslation();
-  const isHindi = language === "hi";
 
   const {
     data: progressData,
     loading: progressLoading,
     refresh: refreshProgress,
     refreshing,
-  } = useCachedQuery(`dashboard_progress_fixed_v2`, fetchUserProgress);
+  } = useCachedQuery(`dashboard_for_you_v1`, fetchUserProgress);
+
+  const { pendingCount, flush } = useOutbox();
 
   const handleRefresh = async () => {
+    await flush();
     await refreshProgress();
   };
 
@@ -146,27 +206,36 @@ export default function DashboardScreen() {
 
   const completed = progressData?.completed_lessons || 0;
   const total = progressData?.total_lessons || 0;
-  const nextLesson = progressData?.next_lesson;
+  const reviewsDue = progressData?.reviews_due || 0;
+  const forYou = progressData?.for_you || [];
+  const calendar = progressData?.calendar;
+  const stage = calendar ? currentStage(calendar) : null;
+  const nextTask = calendar ? upcomingTasks(calendar)[0] : undefined;
+  const today = toDateKey(new Date());
   const coins = progressData?.user_coins || 0;
   const userName = progressData?.user_name || "FARMER";
 
   const progressPercent = total > 0 ? (completed / total) * 100 : 0;
 
-  const lessonTitle = nextLesson
-    ? isHindi
-      ? nextLesson.title_hi
-      : nextLesson.title_en
-    : "";
-  const lessonDesc = nextLesson
-    ? isHindi
-      ? nextLesson.description_hi
-      : nextLesson.description_en
-    : "";
+  const openItem = (item: ForYouItem) => {
+    if (item.kind === "lesson") {
+      router.push({ pathname: "/lesson/[id]", params: { id: item.id } });
+    } else if (item.kind === "quest") {
+      router.push({ pathname: "/quest-details", params: { id: item.id } });
+    } else {
+      router.push({ pathname: "/schemes/[id]", params: { id: item.id } });
+    }
+  };
 
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="light" />
-      <Header coins={coins} name={userName} />
+      <Header
+        coins={coins}
+        name={userName}
+        pendingSync={pendingCount}
+        onSyncPress={handleRefresh}
+      />
 
       <ScrollView
         contentContainerStyle={styles.scrollContainer}
@@ -182,42 +251,52 @@ export default function DashboardScreen() {
         <View style={styles.heroContainer}>
           <MascotFarmer width={110} height={110} style={styles.mascot} />
 
-          {nextLesson ? (
-            <TouchableOpacity
-              style={[styles.heroCard, styles.lessonHeroCard]}
-              onPress={() =>
-                router.push({
-                  pathname: "/lesson/[id]",
-                  params: { id: nextLesson.id.toString() },
-                })
-              }
-            >
-              <View style={[styles.heroBadge, { backgroundColor: "#388e3c" }]}>
-                <Text style={styles.heroBadgeText}>
-                  {t("continue_learning") || "CONTINUE LEARNING"}
-                </Text>
+          {forYou.length > 0 ? (
+            <View style={[styles.heroCard, styles.forYouCard]}>
+              {/* Leaves room for the mascot above the first row */}
+              <View style={[styles.heroBadge, styles.forYouBadge]}>
+                <Text style={styles.heroBadgeText}>{t("for_you_today")}</Text>
               </View>
-              <View style={styles.heroContent}>
-                <View style={{ flex: 1 }}>
-                  <Text style={styles.heroTitle}>
-                    {t("lessons") || "LESSON"} {nextLesson.sequence}
-                  </Text>
-                  <Text style={styles.heroDesc} numberOfLines={2}>
-                    {lessonTitle}
-                  </Text>
-                  <Text
+              {forYou.map((item) => (
+                <TouchableOpacity
+                  key={`${item.kind}_${item.id}`}
+                  style={styles.forYouRow}
+                  onPress={() => openItem(item)}
+                >
+                  <View
                     style={[
-                      styles.heroDesc,
-                      { fontSize: 10, marginTop: 4, opacity: 0.8 },
+                      styles.forYouIcon,
+                      { backgroundColor: item.color || "#388e3c" },
                     ]}
-                    numberOfLines={1}
                   >
-                    {lessonDesc}
-                  </Text>
-                </View>
-                <Lessons width={40} height={40} />
-              </View>
-            </TouchableOpacity>
+                    {item.kind === "lesson" ? (
+                      <Lessons width={24} height={24} />
+                    ) : (
+                      <FontAwesome5
+                        name={item.icon || "star"}
+                        size={16}
+                        color="white"
+                      />
+                    )}
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.forYouKind}>
+                      {t(`for_you_kind_${item.kind}`)}
+                      {item.reasons[0]
+                        ? ` · ${t(`for_you_${item.reasons[0]}`)}`
+                        : ""}
+                    </Text>
+                    <Text style={styles.forYouTitle} numberOfLines={1}>
+                      {localizedValue(item, "title", language) || ""}
+                    </Text>
+                    <Text style={styles.forYouDesc} numberOfLines={1}>
+                      {localizedValue(item, "subtitle", language) || ""}
+                    </Text>
+                  </View>
+                  <FontAwesome5 name="chevron-right" size={12} color="#888" />
+                </TouchableOpacity>
+              ))}
+            </View>
           ) : (
             <View style={[styles.heroCard, { backgroundColor: "#333" }]}>
               <Text style={styles.heroTitle}>
@@ -241,6 +320,68 @@ export default function DashboardScreen() {
           </Text>
         </View>
 
+        {/* Crop calendar: where the farmer is in the season */}
+        {calendar && calendar.stages.length > 0 && (
+          <TouchableOpacity
+            style={styles.calendarCard}
+            onPress={() => router.push("/crop-calendar" as any)}
+          >
+            <FontAwesome5
+              name={stage ? STAGE_ICONS[stage.kind] : "calendar-alt"}
+              size={26}
+              color="#69F0AE"
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.calendarTitle}>
+                {stage ? stageTitle(stage, language, t) : t("crop_calendar")}
+                {calendar.sownOn &&
+                  daysSinceSowing(calendar.sownOn) >= 0 &&
+                  ` · ${t("calendar_day").replace(
+                    "{count}",
+                    String(daysSinceSowing(calendar.sownOn)),
+                  )}`}
+              </Text>
+              <Text style={styles.calendarDesc} numberOfLines={1}>
+                {!calendar.sownOn
+                  ? t("calendar_set_sowing")
+                  : nextTask
+                    ? `${
+                        nextTask.date === today
+                          ? t("calendar_today")
+                          : formatDateKey(nextTask.date, language)
+                      }: ${localizedValue(nextTask.task, "title", language)}`
+                    : t("calendar_no_tasks")}
+              </Text>
+            </View>
+            <FontAwesome5 name="chevron-right" size={12} color="#888" />
+          </TouchableOpacity>
+        )}
+
+        {/* Daily review of missed quiz questions */}
+        <TouchableOpacity
+          style={[styles.reviewCard, reviewsDue === 0 && styles.reviewCardDone]}
+          onPress={() => router.push("/review" as any)}
+        >
+          <FontAwesome5
+            name="brain"
+            size={28}
+            color={reviewsDue > 0 ? "#FFD700" : "#666"}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.reviewTitle}>{t("review_title")}</Text>
+            <Text style={styles.reviewDesc}>
+              {reviewsDue > 0
+                ? t("review_due").replace("{count}", String(reviewsDue))
+                : t("review_caught_up")}
+            </Text>
+          </View>
+          {reviewsDue > 0 && (
+            <View style={styles.reviewBadge}>
+              <Text style={styles.reviewBadgeText}>{reviewsDue}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
         <View style={styles.gridContainer}>
           <View style={styles.gridRow}>
             <HubButton
@@ -345,6 +486,24 @@ const styles = StyleSheet.create({
     fontFamily: PIXEL_FONT,
     fontWeight: "bold",
   },
+  headerRight: { flexDirection: "row", alignItems: "center", gap: 8 },
+  syncPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(255, 183, 77, 0.15)",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#FFB74D",
+  },
+  syncText: {
+    color: "#FFB74D",
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    fontSize: 12,
+  },
   coinPill: {
     flexDirection: "row",
     alignItems: "center",
@@ -375,11 +534,36 @@ const styles = StyleSheet.create({
     shadowRadius: 5,
     elevation: 5,
   },
-  lessonHeroCard: {
+  forYouCard: {
     backgroundColor: "#1B3E20",
     borderColor: "#388E3C",
     shadowColor: "#388E3C",
+    padding: 16,
   },
+  forYouBadge: { backgroundColor: "#388e3c", marginBottom: 50 },
+  forYouRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.1)",
+  },
+  forYouIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  forYouKind: {
+    color: "#A5D6A7",
+    fontSize: 10,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  forYouTitle: { color: "white", fontSize: 15, fontWeight: "bold" },
+  forYouDesc: { color: "#CCC", fontSize: 11 },
   heroBadge: {
     alignSelf: "flex-start",
     paddingHorizontal: 8,
@@ -394,12 +578,6 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     fontFamily: PIXEL_FONT,
   },
-  heroContent: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingRight: 80,
-  },
   heroTitle: {
     color: "white",
     fontSize: 18,
@@ -409,6 +587,24 @@ const styles = StyleSheet.create({
   },
   heroDesc: { color: "#CCC", fontSize: 12 },
   progressSection: { marginBottom: 20 },
+  calendarCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    backgroundColor: "#1B2E1F",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: "#388E3C",
+  },
+  calendarTitle: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  calendarDesc: { color: "#C8E6C9", fontSize: 12, marginTop: 4 },
   progressBg: {
     height: 8,
     backgroundColor: "#333",
@@ -427,6 +623,40 @@ const styles = StyleSheet.create({
     fontFamily: PIXEL_FONT,
     textAlign: "center",
   },
+  reviewCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 15,
+    backgroundColor: "rgba(255, 215, 0, 0.1)",
+    borderColor: "#FFD700",
+    borderWidth: 1,
+    borderRadius: 20,
+    padding: 18,
+    marginBottom: 20,
+  },
+  reviewCardDone: { backgroundColor: "#1E1E1E", borderColor: "#333" },
+  reviewTitle: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    textTransform: "uppercase",
+  },
+  reviewDesc: { color: "#CCC", fontSize: 12, marginTop: 4 },
+  reviewBadge: {
+    minWidth: 32,
+    height: 32,
+    borderRadius: 16,
+    paddingHorizontal: 8,
+    backgroundColor: "#FFD700",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  reviewBadgeText: {
+    color: "#121212",
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
   gridContainer: { width: "100%" },
   gridRow: {
     flexDirection: "row",
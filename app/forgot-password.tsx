@@ -0,0 +1,249 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TextStyle,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import OtpOverlay from '@/components/OtpOverlay';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  isValidRecoveryPin,
+  MIN_PASSWORD_LENGTH,
+  RecoveryMethod,
+  resetPassword,
+  sendRecoveryOtp
+} from '@/utils/accountRecovery';
+import { normalizePhone, PhoneAuthError, phoneAuthMessage } from '@/utils/phoneAuth';
+import { supabase } from '@/utils/supabase';
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const { t, isLoading: isTransLoading } = useTranslation();
+
+  const [method, setMethod] = useState<RecoveryMethod>('otp');
+  const [phone, setPhone] = useState('');
+  const [pin, setPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // OTP step
+  const [otpPhone, setOtpPhone] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(30);
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Reset done (every session revoked) -> sign in here with the new password
+  const finishReset = async (normalized: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ phone: normalized, password });
+    Alert.alert(t('reset_password'), t('password_reset_done'), [
+      { text: 'OK', onPress: () => router.replace(error ? '/login' : '/dashboard') },
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      Alert.alert(t('reset_password'), t('err_invalid_phone'));
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(t('reset_password'), t('err_weak_password'));
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert(t('reset_password'), t('err_password_mismatch'));
+      return;
+    }
+    if (method === 'pin' && !isValidRecoveryPin(pin)) {
+      Alert.alert(t('reset_password'), t('err_pin_format'));
+      return;
+    }
+    if (isLoading) return;
+    setIsLoading(true);
+
+    try {
+      if (method === 'pin') {
+        await resetPassword(normalized, 'pin', pin, password);
+        await finishReset(normalized);
+      } else {
+        // The code is collected by OtpOverlay (handleVerify)
+        const retryAfter = await sendRecoveryOtp(normalized);
+        setCooldown(retryAfter);
+        setOtpError(null);
+        setOtpPhone(normalized);
+      }
+    } catch (e) {
+      if (method === 'pin') setPin('');
+      Alert.alert(t('reset_password'), phoneAuthMessage(t, e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otpPhone) return;
+    setIsVerifying(true);
+    setOtpError(null);
+    try {
+      await resetPassword(otpPhone, 'otp', code, password);
+      const normalized = otpPhone;
+      setOtpPhone(null);
+      await finishReset(normalized);
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!otpPhone) return;
+    try {
+      setOtpError(null);
+      return await sendRecoveryOtp(otpPhone);
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+      return e instanceof PhoneAuthError ? e.retryAfter : undefined;
+    }
+  };
+
+  const isActive =
+    !isLoading &&
+    phone.trim() !== '' &&
+    password.length > 0 &&
+    confirmPassword.length > 0 &&
+    (method === 'otp' || pin.length > 0);
+
+  if (isTransLoading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color="#388e3c" /></View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>{t('forgot_password')}</Text>
+        <Text style={styles.description}>{t('reset_password_desc')}</Text>
+
+        {/* Method */}
+        <View style={styles.methodRow}>
+          {(['otp', 'pin'] as RecoveryMethod[]).map((m) => (
+            <TouchableOpacity
+              key={m}
+              style={[styles.methodChip, method === m && styles.methodChipActive]}
+              onPress={() => setMethod(m)}>
+              <Text style={[styles.methodText, method === m && styles.methodTextActive]}>
+                {m === 'otp' ? t('via_sms_code') : t('via_recovery_pin')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.inputLabel}>{t('phone_number')}</Text>
+        <TextInput
+          style={styles.input as StyleProp<TextStyle>}
+          placeholder={t('phone_placeholder')}
+          placeholderTextColor="#A0A0A0"
+          keyboardType="phone-pad"
+          value={phone}
+          onChangeText={setPhone}
+        />
+
+        {method === 'pin' && (
+          <>
+            <Text style={styles.inputLabel}>{t('recovery_pin')}</Text>
+            <TextInput
+              style={styles.input as StyleProp<TextStyle>}
+              placeholder="••••••"
+              placeholderTextColor="#A0A0A0"
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+              value={pin}
+              onChangeText={setPin}
+            />
+          </>
+        )}
+
+        <Text style={styles.inputLabel}>{t('new_password')}</Text>
+        <TextInput
+          style={styles.input as StyleProp<TextStyle>}
+          placeholder="Create a new password"
+          placeholderTextColor="#A0A0A0"
+          secureTextEntry
+          value={password}
+          onChangeText={setPassword}
+        />
+
+        <Text style={styles.inputLabel}>{t('confirm_new_password')}</Text>
+        <TextInput
+          style={styles.input as StyleProp<TextStyle>}
+          placeholder="Confirm your new password"
+          placeholderTextColor="#A0A0A0"
+          secureTextEntry
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+        />
+
+        <TouchableOpacity
+          style={[
+            styles.actionButton,
+            isActive ? styles.actionButtonActive : styles.actionButtonDisabled,
+          ]}
+          disabled={!isActive}
+          onPress={handleSubmit}>
+          <Text style={styles.actionButtonText}>
+            {isLoading
+              ? method === 'otp' ? t('sending_otp') : t('resetting_password')
+              : method === 'otp' ? t('send_otp') : t('reset_password')}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {otpPhone && (
+        <OtpOverlay
+          mobileNo={otpPhone}
+          initialCooldown={cooldown}
+          isVerifying={isVerifying}
+          error={otpError}
+          onConfirm={handleVerify}
+          onResend={handleResend}
+          onClose={() => setOtpPhone(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#151718' },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#151718' },
+  container: { flexGrow: 1, paddingHorizontal: 30, paddingTop: 40, paddingBottom: 30, alignItems: 'center' },
+  title: { color: '#FFFFFF', fontSize: 28, fontWeight: 'bold', marginBottom: 15 },
+  description: { color: '#B0B0B0', fontSize: 14, textAlign: 'center', lineHeight: 20, marginBottom: 20 },
+  methodRow: { flexDirection: 'row', width: '100%', backgroundColor: '#333333', borderRadius: 30, padding: 4, marginBottom: 5 },
+  methodChip: { flex: 1, paddingVertical: 10, borderRadius: 26, alignItems: 'center' },
+  methodChipActive: { backgroundColor: '#388e3c' },
+  methodText: { color: '#B0B0B0', fontSize: 13, fontWeight: 'bold' },
+  methodTextActive: { color: '#FFFFFF' },
+  inputLabel: { color: '#FFFFFF', fontSize: 14, fontWeight: 'bold', alignSelf: 'flex-start', marginBottom: 5, marginTop: 15 },
+  input: { width: '100%', backgroundColor: '#333333', paddingVertical: 14, paddingHorizontal: 20, borderRadius: 30, borderWidth: 1, borderColor: '#444444', color: '#FFFFFF', fontSize: 16 },
+  actionButton: { width: '100%', paddingVertical: 14, borderRadius: 30, marginTop: 25 },
+  actionButtonActive: { backgroundColor: '#388e3c' },
+  actionButtonDisabled: { backgroundColor: '#555555' },
+  actionButtonText: { color: '#FFFFFF', fontSize: 18, fontWeight: 'bold', textAlign: 'center' },
+});
@@ -1,97 +1,219 @@
+import { DEFAULT_LANGUAGE } from '@/constants/translations';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  fetchLessonGame,
+  GameInfo,
+  GameMessage,
+  GameSession,
+  loadGameBundle,
+  parseGameMessage,
+  startGameSession,
+  startMessageScript
+} from '@/utils/games';
+import { recordGuestLesson } from '@/utils/guestProgress';
+import { sendOrQueue } from '@/utils/outbox';
 import { supabase } from '@/utils/supabase';
+import { FontAwesome5 } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   SafeAreaView,
   StyleSheet,
+  Text,
+  TouchableOpacity,
   View
 } from 'react-native';
 import { WebView } from 'react-native-webview';
 
+// Guests can't get a server session. Their plays are saved locally with no
+// coins and are never credited at merge; the account only counts a game once
+// it is replayed signed in (see games_to_replay in utils/guestProgress.ts).
+const guestSession = (): GameSession => ({
+  sessionId: `guest_${Date.now().toString(36)}`,
+  nonce: Math.random().toString(36).slice(2),
+  expiresAt: '',
+});
+
 export default function GameScreen() {
   const router = useRouter();
-  const { id } = useLocalSearchParams();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const lessonId = parseInt(id!);
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
+
+  // Cached so the game opens offline
+  const { data, loading } = useCachedQuery(`lesson_game_v1_${id}_${lang}`, () =>
+    fetchLessonGame(lessonId, lang)
+  );
+  // The cached copy and the fresh one are equal objects; only a changed game
+  // (e.g. a new version) reloads the WebView
+  const gameJson = data ? JSON.stringify(data) : null;
+  const game = useMemo<GameInfo | null>(() => (gameJson ? JSON.parse(gameJson) : null), [gameJson]);
+
+  const webViewRef = useRef<WebView>(null);
+  const startedAtRef = useRef(new Date().toISOString());
+  const [bundle, setBundle] = useState<{ html: string } | { uri: string } | null>(null);
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [isGuest, setIsGuest] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [score, setScore] = useState<number | null>(null);
+  const [round, setRound] = useState(0); // a retry reloads with a new session
   const [isSaving, setIsSaving] = useState(false);
 
-  const GAME_URL = 'https://eclectic-otter-4571bc.netlify.app/'; 
+  useEffect(() => {
+    if (!game) return;
+    let cancelled = false;
+    setBundle(null);
+    setSession(null);
+    setUnavailable(false);
+    setProgress(0);
+    setScore(null);
+
+    (async () => {
+      try {
+        const { data: sessionData } = await supabase.auth.getSession();
+        const signedIn = !!sessionData.session;
+        const [source, play] = await Promise.all([
+          loadGameBundle(game),
+          signedIn ? startGameSession(lessonId) : guestSession(),
+        ]);
+        if (cancelled) return;
+        // Offline with no spare session: never been online with this game
+        if (!play) return setUnavailable(true);
+        setIsGuest(!signedIn);
+        setSession(play);
+        setBundle(source);
+      } catch (error) {
+        console.error('Game load error:', error);
+        if (!cancelled) setUnavailable(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [game, lessonId, round]);
+
+  const retry = (message: string) => {
+    Alert.alert(t('try_again'), message);
+    setRound((r) => r + 1);
+  };
+
+  const handleLoadEnd = () => {
+    if (!session) return;
+    startedAtRef.current = new Date().toISOString();
+    webViewRef.current?.injectJavaScript(
+      startMessageScript({ type: 'start', sessionId: session.sessionId, nonce: session.nonce, lessonId, language: lang })
+    );
+  };
+
+  const handleComplete = async (message: Extract<GameMessage, { type: 'complete' }>) => {
+    if (isSaving || !game || !session) return;
+    if (message.nonce !== session.nonce) return; // not from the game we started
+
+    // Same rules the server applies, so a low score doesn't wait for a round trip
+    if (message.score < game.passScore || message.score > game.maxScore) {
+      return retry(`${message.score}/${game.passScore}`);
+    }
 
-  const handleGameComplete = async () => {
-    if (isSaving || !id) return;
     setIsSaving(true);
-    
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const userId = sessionData.session?.user.id;
-      const lessonId = parseInt(id as string);
-
-      if (userId) {
-        // 1. Fetch Points
-        const { data: lessonData } = await supabase
-          .from('lessons')
-          .select('points')
-          .eq('id', lessonId)
-          .single();
-        
-        const pointsAwarded = lessonData?.points || 150; 
-
-        // 2. Mark Completed
-        const { error: lessonError } = await supabase
-          .from('user_lessons')
-          .upsert(
-            { user_id: userId, lesson_id: lessonId, completed_at: new Date().toISOString() }, 
-            { onConflict: 'user_id,lesson_id' }
-          );
-
-        if (lessonError) throw lessonError;
-
-        // 3. Award Coins
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('coins, xp')
-          .eq('id', userId)
-          .single();
-          
-        if (profile) {
-          const newCoins = (profile.coins || 0) + pointsAwarded;
-          const newXP = (profile.xp || 0) + 100; 
-
-          await supabase
-            .from('profiles')
-            .update({ coins: newCoins, xp: newXP })
-            .eq('id', userId);
+      if (!isGuest) {
+        // Scored on the server (session, signed nonce, play time) before any
+        // coins are credited. Queued in the outbox if the connection dropped.
+        const outcome = await sendOrQueue({
+          kind: 'lesson_complete',
+          lessonId,
+          via: 'game',
+          game: {
+            sessionId: session.sessionId,
+            nonce: message.nonce,
+            score: message.score,
+            startedAt: startedAtRef.current,
+          },
+        });
+        if (!outcome.queued && 'passed' in outcome.result && !outcome.result.passed) {
+          setIsSaving(false);
+          return retry(`${message.score}/${game.passScore}`);
         }
+      } else {
+        // Kept on this device; the account only counts it once replayed signed in
+        await recordGuestLesson({ lessonId, via: 'game', coins: 0, score: message.score });
       }
 
-      // Navigate to Complete
       router.replace({
         pathname: '/complete/[id]',
-        params: { id: id as string }
+        params: { id: String(lessonId) }
       });
-
     } catch (error: any) {
-      console.error("Game Save Error:", error);
-      Alert.alert("Error", "Could not save progress. Please check internet.");
+      console.error('Game Save Error:', error);
+      Alert.alert('Error', 'Could not save progress. Please check internet.');
       setIsSaving(false);
     }
   };
 
   const handleMessage = (event: any) => {
-    // Debugging: This Alert confirms the app received the signal
-    // console.log("Message received from game:", event.nativeEvent.data);
-    
-    if (event.nativeEvent.data === 'lesson_complete') {
-      handleGameComplete();
+    if (!session) return;
+    const message = parseGameMessage(event.nativeEvent.data, session.sessionId);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'progress':
+        setProgress(message.value);
+        break;
+      case 'score':
+        setScore(message.score);
+        break;
+      case 'complete':
+        handleComplete(message);
+        break;
     }
   };
 
+  if (unavailable || (!loading && !game)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loading}>
+          <FontAwesome5 name="gamepad" size={48} color="#555" />
+          <Text style={styles.message}>{t('game_unavailable')}</Text>
+          <TouchableOpacity style={styles.button} onPress={() => router.back()}>
+            <Text style={styles.buttonText}>{t('go_back')}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!bundle || !session || isSaving) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#4CAF50" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
+      <View style={styles.hud}>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+        </View>
+        {score !== null && <Text style={styles.scoreText}>{score}</Text>}
+      </View>
       <WebView
-        source={{ uri: GAME_URL }}
+        key={round}
+        ref={webViewRef}
+        source={bundle}
+        originWhitelist={['*']}
         style={styles.webview}
         onMessage={handleMessage}
+        onLoadEnd={handleLoadEnd}
         javaScriptEnabled={true}
         domStorageEnabled={true}
         startInLoadingState={true}
@@ -115,5 +237,26 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     backgroundColor: '#151718',
-  }
-});
\ No newline at end of file
+    padding: 30,
+  },
+  hud: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    backgroundColor: '#151718',
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    backgroundColor: '#333333',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: { height: '100%', backgroundColor: '#FFD700' },
+  scoreText: { color: '#FFD700', fontSize: 16, fontWeight: 'bold', fontFamily: 'monospace' },
+  message: { color: '#CCCCCC', fontSize: 16, textAlign: 'center', marginVertical: 20 },
+  button: { backgroundColor: '#388E3C', borderRadius: 30, paddingVertical: 14, paddingHorizontal: 40 },
+  buttonText: { color: '#FFFFFF', fontSize: 16, fontWeight: 'bold' },
+});
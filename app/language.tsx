@@ -12,8 +12,8 @@ import {
 } from "react-native";
 
 import { useTranslation } from "@/hooks/useTranslation";
+import { saveGuestChoices } from "@/utils/guestProgress";
 import { supabase } from "@/utils/supabase";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 
 // --- YOUR ORIGINAL LIST (with locked status added) ---
 const LANGUAGES = [
@@ -38,9 +38,8 @@ export default function LanguageScreen() {
       try {
         // 1. Update language
         setLanguage(selectedLanguage);
-        await AsyncStorage.setItem("onboarding_lang", selectedLanguage);
 
-        // 2. Save to DB if logged in
+        // 2. Save to DB if logged in (guests: merged on signup / login)
         const {
           data: { session },
         } = await supabase.auth.getSession();
@@ -63,6 +62,7 @@ export default function LanguageScreen() {
             router.replace("/crop"); // Go to Crop if new
           }
         } else {
+          await saveGuestChoices({ language: selectedLanguage });
           router.replace("/crop");
         }
       } catch (error) {
@@ -1,8 +1,15 @@
 import { FontAwesome5 } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   ActivityIndicator,
+  Alert,
   ImageBackground,
   SafeAreaView,
   ScrollView,
@@ -12,9 +19,36 @@ import {
   View,
 } from "react-native";
 
+import LessonBlocks from "@/components/LessonBlocks";
+import NarrationBar from "@/components/NarrationBar";
 import { DEFAULT_LANGUAGE } from "@/constants/translations";
 import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useNarration } from "@/hooks/useNarration";
 import { useTranslation } from "@/hooks/useTranslation";
+import { prepareGameOffline } from "@/utils/games";
+import { getGuestProgress } from "@/utils/guestProgress";
+import {
+  blockMedia,
+  BlockProgress,
+  blockSegments,
+  contentToBlocks,
+  fetchBlockProgress,
+  LessonBlock,
+} from "@/utils/lessonBlocks";
+import {
+  canDownloadLessonMedia,
+  downloadBytes,
+  downloadLessonMedia,
+  formatBytes,
+  getLessonDownload,
+  getLessonMediaStorageUsed,
+  LessonDownload,
+  lessonMediaUrl,
+  pickLessonMedia,
+  removeLessonDownload,
+} from "@/utils/lessonMedia";
+import { localizedValue } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
 import { supabase } from "@/utils/supabase";
 import { ResizeMode, Video } from "expo-av";
 
@@ -23,21 +57,17 @@ interface LessonDetail {
   title: string;
   description: string;
   sequence: number;
-  content: string;
+  blocks: LessonBlock[]; // text inside is resolved per language when rendered
   points: number;
+  thumbnailUrl: string | null; // storage path or URL, see utils/lessonMedia
+  videoUrl: string | null;
+  narration: string | null; // recording in this language, if uploaded
+  gameId: string | null; // finished by playing this game instead of a quiz
 }
 
 const fetchLessonDetail = async (idStr: string, lang: string) => {
   const lessonId = parseInt(idStr);
 
-  // Dynamic Columns
-  const titleCol = `title_${lang}`;
-  const descCol = `description_${lang}`;
-  const contentCol = `content_${lang}`;
-  const fallbackTitle = `title_${DEFAULT_LANGUAGE}`;
-  const fallbackDesc = `description_${DEFAULT_LANGUAGE}`;
-  const fallbackContent = `content_${DEFAULT_LANGUAGE}`;
-
   const { data: lessonRaw, error } = await supabase
     .from("lessons")
     .select("*")
@@ -50,66 +80,230 @@ const fetchLessonDetail = async (idStr: string, lang: string) => {
     id: lessonRaw.id,
     sequence: lessonRaw.sequence,
     points: lessonRaw.points,
-    title: lessonRaw[titleCol] || lessonRaw[fallbackTitle] || "Lesson",
-    description: lessonRaw[descCol] || lessonRaw[fallbackDesc] || "",
-    content: lessonRaw[contentCol] || lessonRaw[fallbackContent] || "",
+    title: localizedValue(lessonRaw, "title", lang) || "Lesson",
+    description: localizedValue(lessonRaw, "description", lang) || "",
+    blocks:
+      Array.isArray(lessonRaw.blocks) && lessonRaw.blocks.length > 0
+        ? lessonRaw.blocks
+        : contentToBlocks(localizedValue(lessonRaw, "content", lang) || ""),
+    thumbnailUrl: lessonRaw.thumbnail_url ?? null,
+    videoUrl: lessonRaw.video_url ?? null,
+    narration: lessonRaw[`narration_${lang}`] ?? null,
+    gameId: lessonRaw.game_id ?? null,
   };
 
   let isCompleted = false;
-  const { data: sessionData } = await supabase.auth.getSession();
-  if (sessionData.session?.user.id) {
-    const { data } = await supabase
-      .from("user_lessons")
-      .select("id")
-      .eq("user_id", sessionData.session.user.id)
-      .eq("lesson_id", lessonId)
-      .maybeSingle();
+  let blockProgress: Record<string, BlockProgress> = {};
+  const userId = (await supabase.auth.getSession()).data.session?.user.id;
+  if (userId) {
+    const [{ data }, progress] = await Promise.all([
+      supabase
+        .from("user_lessons")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("lesson_id", lessonId)
+        .maybeSingle(),
+      fetchBlockProgress(userId, lessonId),
+    ]);
     if (data) isCompleted = true;
+    blockProgress = progress;
+  } else {
+    const guest = await getGuestProgress();
+    isCompleted = guest.lessons.some((l) => l.lessonId === lessonId);
   }
 
-  return { lesson, isCompleted };
-};
-// Helper to select image based on Lesson ID
-const getLessonImage = (id: number) => {
-  switch (id) {
-    case 1:
-      return require("../../assets/images/Thumbnails/L1 thumb.png");
-    case 2:
-      return require("../../assets/images/Thumbnails/L2 thumb.png");
-    case 4:
-      return require("../../assets/images/Thumbnails/L3 thumb.png");
-    case 3:
-      return require("../../assets/images/Thumbnails/L4 THUMB.png");
-  }
+  return { lesson, isCompleted, blockProgress, signedIn: !!userId };
 };
 
-const getLessonVideo = (id: number) => {
-  switch (id) {
-    case 1:
-      return require("../../assets/images/Thumbnails/L1video.mp4");
-    default:
-      return null; // No video for other lessons yet
-  }
-};
 export default function LessonDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { t, language, isLoading: isTransLoading } = useTranslation();
   const [isPlaying, setIsPlaying] = useState(false);
+  const [download, setDownload] = useState<LessonDownload | null>(null);
+  const [storageUsed, setStorageUsed] = useState(0);
+  const [isDownloading, setIsDownloading] = useState(false);
   const videoRef = useRef<Video>(null);
 
   const { data, loading, isOffline } = useCachedQuery(
-    `lesson_detail_${id}_${language || DEFAULT_LANGUAGE}`,
+    `lesson_detail_blocks_v1_${id}_${language || DEFAULT_LANGUAGE}`,
     () => fetchLessonDetail(id!, language || DEFAULT_LANGUAGE),
   );
 
   const lesson = data?.lesson;
   const isCompleted = data?.isCompleted;
-  const videoSource = lesson ? getLessonVideo(lesson.id) : null;
+  const lessonId = lesson?.id;
+  const remoteThumbnail = lessonMediaUrl(lesson?.thumbnailUrl);
+  const remoteVideo = lessonMediaUrl(lesson?.videoUrl);
+  const thumbnailSource = pickLessonMedia(
+    download,
+    "thumbnail",
+    remoteThumbnail,
+    isOffline,
+  );
+  const videoSource = pickLessonMedia(download, "video", remoteVideo, isOffline);
+  const remoteNarration = lessonMediaUrl(lesson?.narration);
+  // Online and the lesson's media changed since it was downloaded (including
+  // a language switch, which changes the narration)
+  const remoteFiles: [string, string | null][] = [
+    ["thumbnail", remoteThumbnail],
+    ["video", remoteVideo],
+    ["narration", remoteNarration],
+  ];
+  const isDownloadStale =
+    !!download &&
+    !isOffline &&
+    remoteFiles.some(
+      ([key, url]) => download.files[key]?.source !== (url ?? undefined),
+    );
+
+  const lang = language || DEFAULT_LANGUAGE;
+  // Title and description are narration segments 0 and 1; blocks follow
+  const segments = useMemo(
+    () =>
+      lesson
+        ? [
+            lesson.title,
+            lesson.description,
+            ...lesson.blocks.flatMap((b) => blockSegments(b, lang)),
+          ]
+        : [],
+    [lesson, lang],
+  );
+  const narration = useNarration({
+    segments,
+    language: lang,
+    audio: pickLessonMedia(download, "narration", remoteNarration, isOffline),
+  });
+  const readAlong = (segment: number) =>
+    narration.activeIndex === segment && styles.readAlong;
+
+  const blockSource = (block: LessonBlock) =>
+    "url" in block
+      ? pickLessonMedia(
+          download,
+          `block_${block.id}`,
+          lessonMediaUrl(block.url),
+          isOffline,
+        )
+      : null;
+
+  // --- BLOCK PROGRESS ---
+  // A block counts as seen once its top scrolls into view. Seen ids are sent
+  // in batches (through the outbox when offline); guests aren't tracked.
+  const blockProgress = data?.blockProgress;
+  const seenRef = useRef(new Set<string>());
+  const pendingSeenRef = useRef<string[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const blockOffsetsRef = useRef<Record<string, number>>({});
+  const blocksTopRef = useRef(0);
+  const viewportBottomRef = useRef(0);
+
+  useEffect(() => {
+    Object.keys(blockProgress || {}).forEach((blockId) =>
+      seenRef.current.add(blockId),
+    );
+  }, [blockProgress]);
+
+  const trackBlocks = !!data?.signedIn && !!lessonId;
+  const flushSeen = useCallback(() => {
+    flushTimerRef.current = null;
+    const seen = pendingSeenRef.current;
+    pendingSeenRef.current = [];
+    if (!trackBlocks || seen.length === 0) return;
+    sendOrQueue({
+      kind: "block_progress",
+      lessonId: lessonId!,
+      seen,
+      answers: {},
+    }).catch((e) => console.warn("Block progress not saved:", e?.message));
+  }, [trackBlocks, lessonId]);
+
+  // Leaving the lesson sends whatever is still waiting
+  useEffect(
+    () => () => {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+      flushSeen();
+    },
+    [flushSeen],
+  );
+
+  const markVisibleBlocks = () => {
+    Object.entries(blockOffsetsRef.current).forEach(([blockId, y]) => {
+      if (seenRef.current.has(blockId)) return;
+      if (blocksTopRef.current + y > viewportBottomRef.current) return;
+      seenRef.current.add(blockId);
+      pendingSeenRef.current.push(blockId);
+    });
+    if (pendingSeenRef.current.length > 0 && !flushTimerRef.current) {
+      flushTimerRef.current = setTimeout(flushSeen, 2000);
+    }
+  };
+
+  const handleAnswer = (blockId: string, optionIndex: number) => {
+    if (!trackBlocks) return;
+    sendOrQueue({
+      kind: "block_progress",
+      lessonId: lessonId!,
+      seen: [blockId],
+      answers: { [blockId]: optionIndex },
+    }).catch((e) => console.warn("Check answer not saved:", e?.message));
+  };
+
+  useEffect(() => {
+    if (!lessonId || !canDownloadLessonMedia) return;
+    getLessonDownload(lessonId).then(setDownload);
+    getLessonMediaStorageUsed().then(setStorageUsed);
+  }, [lessonId]);
+
+  const handleDownload = async () => {
+    if (!lesson) return;
+    setIsDownloading(true);
+    try {
+      // Quiz question recordings come along so the quiz narrates offline too
+      const { data: questions } = await supabase
+        .from("lesson_quizzes")
+        .select("*")
+        .eq("lesson_id", lesson.id);
+      const quizNarration = Object.fromEntries(
+        (questions || []).map((q) => [
+          `quiz_${q.id}`,
+          q[`narration_${lang}`],
+        ]),
+      );
+
+      const saved = await downloadLessonMedia(lesson.id, {
+        thumbnail: lesson.thumbnailUrl,
+        video: lesson.videoUrl,
+        narration: lesson.narration,
+        ...blockMedia(lesson.blocks),
+        ...quizNarration,
+      });
+      // The game bundle and a session to score one offline play
+      if (lesson.gameId) {
+        await prepareGameOffline(lesson.id, lang, !!data?.signedIn);
+      }
+      setDownload(saved);
+      setStorageUsed(await getLessonMediaStorageUsed());
+    } catch (e) {
+      console.error("Lesson download failed:", e);
+      Alert.alert(t("download_offline"), t("err_download_failed"));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleRemoveDownload = async () => {
+    if (!lesson) return;
+    await removeLessonDownload(lesson.id);
+    setDownload(null);
+    setStorageUsed(await getLessonMediaStorageUsed());
+  };
+
   const handleTakeQuiz = () => {
     if (!lesson) return;
-    // Special case for ID 2 (Game) if needed, otherwise normal quiz
-    if (lesson.id === 2) {
+    narration.stop();
+    if (lesson.gameId) {
       router.push({
         pathname: "/game/[id]",
         params: { id: lesson.id.toString() },
@@ -139,7 +333,19 @@ export default function LessonDetailScreen() {
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <ScrollView contentContainerStyle={styles.scrollContainer}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        scrollEventThrottle={250}
+        onLayout={(e) => {
+          viewportBottomRef.current = e.nativeEvent.layout.height;
+          markVisibleBlocks();
+        }}
+        onScroll={(e) => {
+          const { contentOffset, layoutMeasurement } = e.nativeEvent;
+          viewportBottomRef.current = contentOffset.y + layoutMeasurement.height;
+          markVisibleBlocks();
+        }}
+      >
         {isOffline && (
           <View style={styles.offlineBanner}>
             <Text style={styles.offlineText}>{t("offline_mode")}</Text>
@@ -149,8 +355,12 @@ export default function LessonDetailScreen() {
         <View style={styles.headerRow}>
           <Text style={styles.bigNumber}>{lesson.sequence}</Text>
           <View style={{ flex: 1 }}>
-            <Text style={styles.headerTitle}>{lesson.title}</Text>
-            <Text style={styles.headerDescription}>{lesson.description}</Text>
+            <Text style={[styles.headerTitle, readAlong(0)]}>
+              {lesson.title}
+            </Text>
+            <Text style={[styles.headerDescription, readAlong(1)]}>
+              {lesson.description}
+            </Text>
           </View>
         </View>
 
@@ -170,13 +380,15 @@ export default function LessonDetailScreen() {
             <TouchableOpacity
               activeOpacity={0.8}
               onPress={() => {
-                if (videoSource) setIsPlaying(true);
-                else alert("No video found for this lesson.");
+                if (videoSource) {
+                  narration.stop();
+                  setIsPlaying(true);
+                } else alert("No video found for this lesson.");
               }}
               style={styles.thumbnailContainer}
             >
               <ImageBackground
-                source={getLessonImage(lesson.id)}
+                source={thumbnailSource ?? undefined}
                 style={styles.lessonImage}
                 imageStyle={{ borderRadius: 16 }}
               >
@@ -193,51 +405,91 @@ export default function LessonDetailScreen() {
           )}
         </View>
 
-        <View style={styles.contentContainer}>
-          {lesson.content
-            ?.replace(/\\n/g, "\n")
-            .split("\n")
-            .map((line, index) => {
-              const trimmed = line.trim();
-              if (trimmed.startsWith("##")) {
-                return (
-                  <Text key={index} style={styles.contentHeader}>
-                    {trimmed.replace(/##/g, "").trim()}
-                  </Text>
-                );
-              } else if (trimmed.startsWith("-") || trimmed.startsWith("•")) {
-                return (
-                  <View key={index} style={styles.bulletRow}>
-                    <Text style={styles.bulletPoint}>•</Text>
-                    <Text style={styles.contentText}>
-                      {trimmed.replace(/^-/, "").trim()}
-                    </Text>
-                  </View>
-                );
-              } else if (trimmed.length > 0) {
-                return (
-                  <Text key={index} style={styles.contentText}>
-                    {trimmed}
-                  </Text>
-                );
-              }
-              return <View key={index} style={{ height: 8 }} />;
-            })}
+        {canDownloadLessonMedia &&
+          (remoteThumbnail || remoteVideo || remoteNarration) && (
+          <View style={styles.downloadCard}>
+            <FontAwesome5
+              name={download ? "check-circle" : "download"}
+              size={18}
+              color={download ? "#69F0AE" : "#B0B0B0"}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.downloadTitle}>
+                {download
+                  ? t("saved_offline").replace(
+                      "{size}",
+                      formatBytes(downloadBytes(download)),
+                    )
+                  : t("download_offline")}
+              </Text>
+              {storageUsed > 0 && (
+                <Text style={styles.downloadSub}>
+                  {t("offline_storage_used").replace(
+                    "{size}",
+                    formatBytes(storageUsed),
+                  )}
+                </Text>
+              )}
+            </View>
+            {isDownloading ? (
+              <ActivityIndicator color="#69F0AE" />
+            ) : download && !isDownloadStale ? (
+              <TouchableOpacity onPress={handleRemoveDownload}>
+                <Text style={styles.downloadAction}>
+                  {t("remove_download")}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={handleDownload} disabled={isOffline}>
+                <Text
+                  style={[
+                    styles.downloadAction,
+                    isOffline && { color: "#666" },
+                  ]}
+                >
+                  {download ? t("update_download") : t("download")}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <NarrationBar narration={narration} />
+
+        <View
+          style={styles.contentContainer}
+          onLayout={(e) => {
+            blocksTopRef.current = e.nativeEvent.layout.y;
+            markVisibleBlocks();
+          }}
+        >
+          <LessonBlocks
+            blocks={lesson.blocks}
+            language={lang}
+            segmentStart={2}
+            activeSegment={narration.activeIndex}
+            progress={blockProgress || {}}
+            mediaSource={blockSource}
+            onAnswer={handleAnswer}
+            onBlockLayout={(blockId, y) => {
+              blockOffsetsRef.current[blockId] = y;
+              markVisibleBlocks();
+            }}
+          />
         </View>
 
         <TouchableOpacity
           style={[
             styles.actionButton,
-            (isCompleted || isOffline) && styles.actionButtonCompleted,
+            isCompleted && styles.actionButtonCompleted,
           ]}
           onPress={handleTakeQuiz}
-          disabled={isOffline}
         >
           <Text style={styles.actionButtonText}>
-            {isCompleted
-              ? "PRACTICE QUIZ"
-              : lesson.id === 2
-                ? "START FARMING"
+            {lesson.gameId
+              ? t("play_game")
+              : isCompleted
+                ? "PRACTICE QUIZ"
                 : t("take_quiz")}
           </Text>
         </TouchableOpacity>
@@ -304,6 +556,20 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   videoPlayer: { width: "100%", height: 220, backgroundColor: "black" },
+  downloadCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#2C2C2E",
+    borderRadius: 12,
+    padding: 14,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  downloadTitle: { color: "white", fontSize: 14, fontWeight: "bold" },
+  downloadSub: { color: "#B0B0B0", fontSize: 12, marginTop: 2 },
+  downloadAction: { color: "#69F0AE", fontWeight: "bold", fontSize: 14 },
+  readAlong: { backgroundColor: "#69F0AE33", borderRadius: 4 },
   playButtonContainer: {
     width: 60,
     height: 60,
@@ -315,26 +581,6 @@ const styles = StyleSheet.create({
     borderColor: "rgba(255,255,255,0.3)",
   },
   contentContainer: { marginBottom: 30 },
-  contentHeader: {
-    color: "white",
-    fontSize: 18,
-    fontWeight: "bold",
-    marginTop: 20,
-    marginBottom: 10,
-  },
-  contentText: {
-    color: "#E0E0E0",
-    fontSize: 16,
-    lineHeight: 24,
-    marginBottom: 10,
-  },
-  bulletRow: {
-    flexDirection: "row",
-    alignItems: "flex-start",
-    marginBottom: 8,
-    paddingLeft: 8,
-  },
-  bulletPoint: { color: "#E0E0E0", fontSize: 16, marginRight: 8 },
   actionButton: {
     backgroundColor: "#388E3C",
     paddingVertical: 18,
@@ -3,6 +3,7 @@ import { useRouter } from "expo-router";
 import React, { useMemo } from "react";
 import {
   ActivityIndicator,
+  Alert,
   RefreshControl,
   SafeAreaView,
   ScrollView,
@@ -14,119 +15,132 @@ import {
 
 import { DEFAULT_LANGUAGE } from "@/constants/translations";
 import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { cropName, useCrops } from "@/hooks/useCrops";
 import { useTranslation } from "@/hooks/useTranslation";
+import {
+  fetchLessonGraph,
+  GraphLesson,
+  LessonStatus,
+  pickNextLesson,
+  withLessonStatuses,
+} from "@/utils/lessonGraph";
+import { localizedValue, reportMissingTranslations } from "@/utils/localize";
 import { supabase } from "@/utils/supabase";
 
 import Coin from "../assets/images/coin.svg";
 import Mascot from "../assets/images/Mascot.svg";
 import MascotFarmer from "../assets/images/MascotFarmer.svg";
 
-interface LessonData {
-  id: number;
+interface LessonData extends GraphLesson {
   title: string;
   description: string;
-  sequence: number;
   points: number;
   theme: string | null;
 }
 
 interface Lesson extends LessonData {
-  status: "current" | "completed" | "locked";
+  status: LessonStatus;
 }
 
-const fetchLessonsAndProgress = async (lang: string) => {
-  const { data: sessionData } = await supabase.auth.getSession();
-  const userId = sessionData.session?.user.id;
-
-  const titleCol = `title_${lang}`;
-  const descCol = `description_${lang}`;
-  const fallbackTitle = `title_${DEFAULT_LANGUAGE}`;
-  const fallbackDesc = `description_${DEFAULT_LANGUAGE}`;
-
-  const { data: allLessonsRaw, error: lessonsError } = await supabase
-    .from("lessons")
-    .select("*")
-    .order("sequence", { ascending: true });
-
-  if (lessonsError) throw lessonsError;
-
-  const allLessons: LessonData[] = (allLessonsRaw || []).map((l: any) => ({
-    id: l.id,
-    sequence: l.sequence,
-    points: l.points,
-    title: l[titleCol] || l[fallbackTitle] || "Lesson",
-    description: l[descCol] || l[fallbackDesc] || "",
-    theme: l.theme,
-  }));
-
-  let completedIds = new Set<number>();
-  let lastCompletedSeq = 0;
-
-  if (userId) {
-    const { data: completedLessons } = await supabase
-      .from("user_lessons")
-      .select("lesson_id")
-      .eq("user_id", userId);
+interface LessonModule {
+  id: number | null; // null: lessons not in any module
+  title: string;
+  description: string;
+  targetCrop: string | null;
+}
 
-    if (completedLessons) {
-      completedLessons.forEach((c) => completedIds.add(c.lesson_id));
+interface LessonMap {
+  modules: LessonModule[];
+  lessons: Lesson[];
+  // Kept so queued (offline) completions can unlock lessons in the cache
+  completedIds: number[];
+}
 
-      const completedSeqs = allLessons
-        .filter((l) => completedIds.has(l.id))
-        .map((l) => l.sequence);
+// Horizontal offsets of the nodes down the map, repeating
+const ZIGZAG = [0, 55, 85, 55, 0, -55, -85, -55];
 
-      if (completedSeqs.length > 0) {
-        lastCompletedSeq = Math.max(...completedSeqs);
-      }
-    }
-  }
+const fetchLessonMap = async (lang: string): Promise<LessonMap> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id ?? null;
 
-  const finalLessons: Lesson[] = allLessons.map((lesson) => {
-    let status: "current" | "completed" | "locked" = "locked";
+  const graph = await fetchLessonGraph(userId);
+  reportMissingTranslations(
+    "lessons",
+    graph.lessons.map((l) => l.row),
+    lang,
+  );
 
-    if (completedIds.has(lesson.id)) {
-      status = "completed";
-    } else if (lesson.sequence === lastCompletedSeq + 1) {
-      status = "current";
-    } else if (lastCompletedSeq === 0 && lesson.sequence === 1) {
-      status = "current";
-    }
+  const lessons: LessonData[] = graph.lessons.map(({ row, ...node }) => ({
+    ...node,
+    points: row.points,
+    title: localizedValue(row, "title", lang) || "Lesson",
+    description: localizedValue(row, "description", lang) || "",
+    theme: row.theme,
+  }));
 
-    return { ...lesson, status };
-  });
+  const modules: LessonModule[] = graph.modules.map((m) => ({
+    id: m.id,
+    title: localizedValue(m, "title", lang) || "",
+    description: localizedValue(m, "description", lang) || "",
+    targetCrop: m.target_crop,
+  }));
+  if (lessons.some((l) => l.moduleId === null)) {
+    modules.push({ id: null, title: "", description: "", targetCrop: null });
+  }
 
-  return finalLessons;
+  return {
+    modules,
+    lessons: withLessonStatuses(lessons, graph.completedIds),
+    completedIds: graph.completedIds,
+  };
 };
 
 export default function LessonsScreen() {
   const router = useRouter();
   const { t, language, isLoading: isTransLoading } = useTranslation();
+  const { data: crops } = useCrops();
 
   const {
-    data: lessons,
+    data: lessonMap,
     loading,
     isOffline,
     refresh,
     refreshing,
   } = useCachedQuery(
-    `lessons_list_themed_v2_${language || DEFAULT_LANGUAGE}`,
-    () => fetchLessonsAndProgress(language || DEFAULT_LANGUAGE),
+    `lessons_map_v1_${language || DEFAULT_LANGUAGE}`,
+    () => fetchLessonMap(language || DEFAULT_LANGUAGE),
   );
 
-  const { currentLesson, completedLessons, upcomingLessons, totalScore } =
-    useMemo(() => {
-      const list = lessons || [];
-      return {
-        currentLesson: list.find((l) => l.status === "current"),
-        completedLessons: list.filter((l) => l.status === "completed"),
-        upcomingLessons: list.filter((l) => l.status === "locked"),
-        totalScore: list
-          .filter((l) => l.status === "completed")
-          .reduce((sum, l) => sum + l.points, 0),
-      };
-    }, [lessons]);
-
-  const renderLessonCard = (lesson: Lesson, isCurrent = false) => {
+  const { currentLesson, totalScore } = useMemo(() => {
+    const list = lessonMap?.lessons || [];
+    return {
+      currentLesson: pickNextLesson(list, lessonMap?.completedIds || []),
+      totalScore: list
+        .filter((l) => l.status === "completed")
+        .reduce((sum, l) => sum + l.points, 0),
+    };
+  }, [lessonMap]);
+
+  const openLesson = (lesson: Lesson) => {
+    if (lesson.status === "locked") {
+      const titles = (lessonMap?.lessons || [])
+        .filter(
+          (l) => lesson.requires.includes(l.id) && l.status !== "completed",
+        )
+        .map((l) => l.title);
+      Alert.alert(
+        t("lesson_locked"),
+        t("finish_first").replace("{lessons}", titles.join(", ")),
+      );
+      return;
+    }
+    router.push({
+      pathname: "/lesson/[id]",
+      params: { id: lesson.id.toString() },
+    });
+  };
+
+  const renderLessonCard = (lesson: Lesson) => {
     const isWomenTheme = lesson.theme === "women";
 
     return (
@@ -134,30 +148,13 @@ export default function LessonsScreen() {
         key={lesson.id}
         style={[
           styles.lessonCard,
+          styles.currentLessonCard,
           // Apply Women Theme if matched
-          isWomenTheme && styles.womenLessonCard,
-
-          // Current Lesson Styles
-          isCurrent && styles.currentLessonCard,
-          isCurrent && isWomenTheme && styles.currentWomenLessonCard,
-
-          // Completed Styles (Green overrides pink for clarity)
-          lesson.status === "completed" && styles.completedLessonCard,
-
-          // Locked Styles
-          lesson.status === "locked" && styles.lockedLessonCard,
+          isWomenTheme && styles.currentWomenLessonCard,
         ]}
-        disabled={lesson.status === "locked"}
-        onPress={() =>
-          router.push({
-            pathname: "/lesson/[id]",
-            params: { id: lesson.id.toString() },
-          })
-        }
+        onPress={() => openLesson(lesson)}
       >
-        <Text
-          style={[styles.lessonNumber, isCurrent && styles.currentLessonNumber]}
-        >
+        <Text style={[styles.lessonNumber, styles.currentLessonNumber]}>
           {lesson.sequence}
         </Text>
         <View style={styles.lessonContent}>
@@ -174,7 +171,101 @@ export default function LessonsScreen() {
     );
   };
 
-  if ((loading || isTransLoading) && !lessons) {
+  const renderNode = (lesson: Lesson, index: number) => {
+    const isCurrent = lesson.id === currentLesson?.id;
+    const isWomenTheme = lesson.theme === "women";
+
+    return (
+      <View
+        key={lesson.id}
+        style={[
+          styles.nodeRow,
+          { transform: [{ translateX: ZIGZAG[index % ZIGZAG.length] }] },
+        ]}
+      >
+        <TouchableOpacity
+          style={[
+            styles.node,
+            lesson.optional && styles.sideNode,
+            lesson.status === "available" && styles.availableNode,
+            isWomenTheme && lesson.status === "available" && styles.womenNode,
+            isCurrent && styles.currentNode,
+            lesson.status === "completed" && styles.completedNode,
+            lesson.status === "locked" && styles.lockedNode,
+          ]}
+          onPress={() => openLesson(lesson)}
+        >
+          {lesson.status === "completed" ? (
+            <FontAwesome5
+              name="check"
+              size={lesson.optional ? 18 : 24}
+              color="white"
+            />
+          ) : lesson.status === "locked" ? (
+            <FontAwesome5
+              name="lock"
+              size={lesson.optional ? 16 : 20}
+              color="#777"
+            />
+          ) : (
+            <Text style={styles.nodeNumber}>{lesson.sequence}</Text>
+          )}
+        </TouchableOpacity>
+        <Text
+          style={[
+            styles.nodeTitle,
+            lesson.status === "locked" && styles.lockedNodeTitle,
+          ]}
+          numberOfLines={2}
+        >
+          {lesson.title}
+        </Text>
+        {lesson.optional && (
+          <Text style={styles.sideTag}>{t("side_lesson")}</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderModule = (module: LessonModule) => {
+    const moduleLessons = (lessonMap?.lessons || []).filter(
+      (l) => l.moduleId === module.id,
+    );
+    const done = moduleLessons.filter((l) => l.status === "completed").length;
+
+    return (
+      <View key={module.id ?? "none"} style={styles.moduleSection}>
+        <View style={styles.moduleHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.moduleTitle}>
+              {module.title || t("more_lessons")}
+            </Text>
+            {!!module.description && (
+              <Text style={styles.moduleDescription}>{module.description}</Text>
+            )}
+            {module.targetCrop && (
+              <Text style={styles.cropTrack}>
+                {t("crop_track").replace(
+                  "{crop}",
+                  cropName(
+                    crops,
+                    module.targetCrop,
+                    language || DEFAULT_LANGUAGE,
+                  ),
+                )}
+              </Text>
+            )}
+          </View>
+          <Text style={styles.moduleProgress}>
+            {done}/{moduleLessons.length}
+          </Text>
+        </View>
+        {moduleLessons.map(renderNode)}
+      </View>
+    );
+  };
+
+  if ((loading || isTransLoading) && !lessonMap) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#388e3c" />
@@ -215,34 +306,23 @@ export default function LessonsScreen() {
                 <Text style={styles.currentTagText}>CURRENT LESSON</Text>
               </View>
             </View>
-            {renderLessonCard(currentLesson, true)}
+            {renderLessonCard(currentLesson)}
           </>
         )}
 
-        {/* 2. UPCOMING */}
-        {upcomingLessons.length > 0 && (
-          <>
-            <Text style={styles.sectionTitle}>UPCOMING LESSONS</Text>
-            {upcomingLessons.map((l) => renderLessonCard(l))}
-          </>
-        )}
-
-        {/* 3. COMPLETED */}
-        {completedLessons.length > 0 && (
-          <>
-            <Text style={styles.sectionTitle}>COMPLETED</Text>
-            <View style={styles.completedSectionHeader}>
-              <MascotFarmer
-                width={100}
-                height={100}
-                style={styles.farmerMascot}
-              />
-              <Text style={styles.totalScore}>TOTAL SCORE {totalScore}</Text>
-            </View>
-            {completedLessons
-              .sort((a, b) => b.sequence - a.sequence)
-              .map((l) => renderLessonCard(l))}
-          </>
+        {/* 2. MAP: modules with their lessons */}
+        {(lessonMap?.modules || []).map(renderModule)}
+
+        {/* 3. SCORE */}
+        {totalScore > 0 && (
+          <View style={styles.completedSectionHeader}>
+            <MascotFarmer
+              width={100}
+              height={100}
+              style={styles.farmerMascot}
+            />
+            <Text style={styles.totalScore}>TOTAL SCORE {totalScore}</Text>
+          </View>
         )}
       </ScrollView>
     </SafeAreaView>
@@ -289,13 +369,84 @@ const styles = StyleSheet.create({
   },
   womenTag: { backgroundColor: "#E91E63", borderColor: "#F48FB1" },
   currentTagText: { color: "#FFFFFF", fontSize: 14, fontWeight: "bold" },
-  sectionTitle: {
-    color: "#777",
-    fontSize: 14,
+
+  // Map
+  moduleSection: { marginTop: 30 },
+  moduleHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1E1E1E",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#333",
+    padding: 15,
+    marginBottom: 20,
+  },
+  moduleTitle: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  moduleDescription: { color: "#B0B0B0", fontSize: 13, marginTop: 4 },
+  cropTrack: {
+    color: "#69F0AE",
+    fontSize: 12,
+    fontWeight: "bold",
+    marginTop: 6,
+  },
+  moduleProgress: {
+    color: "#FDD835",
+    fontSize: 18,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    marginLeft: 10,
+  },
+  nodeRow: {
+    alignItems: "center",
+    alignSelf: "center",
+    width: 140,
+    marginBottom: 18,
+  },
+  node: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: "#2C2C2E",
+    borderWidth: 3,
+    borderBottomWidth: 7,
+    borderColor: "#444",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sideNode: { width: 56, height: 56, borderRadius: 28, borderStyle: "dashed" },
+  availableNode: { backgroundColor: "#222", borderColor: "#388e3c" },
+  womenNode: { backgroundColor: "#5D1835", borderColor: "#E91E63" },
+  currentNode: { borderColor: "#FDD835", backgroundColor: "#388e3c" },
+  completedNode: { backgroundColor: "#2E7D32", borderColor: "#1B5E20" },
+  lockedNode: { opacity: 0.6 },
+  nodeNumber: {
+    color: "#FFFFFF",
+    fontSize: 24,
+    fontWeight: "900",
+    fontFamily: "monospace",
+  },
+  nodeTitle: {
+    color: "#FFFFFF",
+    fontSize: 13,
     fontWeight: "bold",
     textAlign: "center",
-    marginVertical: 25,
+    marginTop: 6,
+  },
+  lockedNodeTitle: { color: "#777" },
+  sideTag: {
+    color: "#FDD835",
+    fontSize: 10,
+    fontWeight: "bold",
     letterSpacing: 1,
+    marginTop: 2,
   },
 
   // Base Card
@@ -311,7 +462,6 @@ const styles = StyleSheet.create({
   },
 
   // Theme Styles - LIGHTER PINK HERE
-  womenLessonCard: { backgroundColor: "#5D1835", borderColor: "#E91E63" },
   currentWomenLessonCard: {
     borderColor: "#F48FB1",
     backgroundColor: "#7D2046",
@@ -322,8 +472,6 @@ const styles = StyleSheet.create({
     backgroundColor: "#222",
     borderColor: "#388e3c",
   },
-  lockedLessonCard: { opacity: 0.6 },
-  completedLessonCard: { backgroundColor: "#2E7D32", borderColor: "#388E3C" },
 
   lessonNumber: {
     color: "#555",
@@ -349,6 +497,7 @@ const styles = StyleSheet.create({
   coinIcon: { marginRight: 8 },
   pointsText: { color: "#FDD835", fontSize: 18, fontWeight: "bold" },
   completedSectionHeader: {
+    marginTop: 20,
     flexDirection: "row",
     alignItems: "center",
     justifyContent: "space-between",
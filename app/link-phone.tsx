@@ -0,0 +1,225 @@
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TextStyle,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import OtpOverlay from '@/components/OtpOverlay';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  legacyEmailForUsername,
+  normalizePhone,
+  PhoneAuthError,
+  phoneAuthMessage,
+  sendPhoneOtp,
+  verifyPhoneOtp
+} from '@/utils/phoneAuth';
+import { supabase } from '@/utils/supabase';
+
+// Migration path for accounts created with a username (stored as
+// `<username>@khet.com`): sign in once with the old credentials, then verify
+// a phone number which becomes the login from then on. Kept outside the
+// login/signup routes so the auth guard doesn't redirect mid-flow.
+export default function LinkPhoneScreen() {
+  const router = useRouter();
+  const { t, isLoading: isTransLoading } = useTranslation();
+
+  const [step, setStep] = useState<'account' | 'phone'>('account');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [phone, setPhone] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // OTP step
+  const [otpPhone, setOtpPhone] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(30);
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Already signed in with a legacy account -> straight to the phone step
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      const user = data.session?.user;
+      if (user?.phone) router.replace('/dashboard');
+      else if (user) setStep('phone');
+    });
+  }, [router]);
+
+  const handleSignIn = async () => {
+    if (isLoading) return;
+    setIsLoading(true);
+
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: legacyEmailForUsername(username),
+      password: password,
+    });
+
+    setIsLoading(false);
+    if (error) {
+      Alert.alert('Login Failed', error.message);
+      return;
+    }
+    if (data.user?.phone) {
+      router.replace('/dashboard');
+      return;
+    }
+    setStep('phone');
+  };
+
+  const handleSendCode = async () => {
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      Alert.alert(t('link_phone'), t('err_invalid_phone'));
+      return;
+    }
+    if (isLoading) return;
+    setIsLoading(true);
+    try {
+      const retryAfter = await sendPhoneOtp(normalized, 'link');
+      setCooldown(retryAfter);
+      setOtpError(null);
+      setOtpPhone(normalized);
+    } catch (e) {
+      Alert.alert(t('link_phone'), phoneAuthMessage(t, e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otpPhone) return;
+    setIsVerifying(true);
+    setOtpError(null);
+    try {
+      await verifyPhoneOtp(otpPhone, code, 'link');
+      setOtpPhone(null);
+      Alert.alert(t('link_phone'), t('phone_linked'), [
+        { text: 'OK', onPress: () => router.replace('/dashboard') },
+      ]);
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!otpPhone) return;
+    try {
+      setOtpError(null);
+      return await sendPhoneOtp(otpPhone, 'link');
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+      return e instanceof PhoneAuthError ? e.retryAfter : undefined;
+    }
+  };
+
+  const isActive =
+    !isLoading &&
+    (step === 'account'
+      ? username.trim() !== '' && password.length > 0
+      : phone.trim() !== '');
+
+  if (isTransLoading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.loadingContainer}><ActivityIndicator size="large" color="#388e3c" /></View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>{t('link_phone')}</Text>
+        <Text style={styles.description}>{t('link_phone_desc')}</Text>
+
+        {step === 'account' ? (
+          <>
+            <Text style={styles.inputLabel}>{t('username')}</Text>
+            <TextInput
+              style={styles.input as StyleProp<TextStyle>}
+              placeholder="Enter your username"
+              placeholderTextColor="#A0A0A0"
+              autoCapitalize="none"
+              value={username}
+              onChangeText={setUsername}
+            />
+
+            <Text style={styles.inputLabel}>{t('password')}</Text>
+            <TextInput
+              style={styles.input as StyleProp<TextStyle>}
+              placeholder="Enter your password"
+              placeholderTextColor="#A0A0A0"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+          </>
+        ) : (
+          <>
+            <Text style={styles.inputLabel}>{t('phone_number')}</Text>
+            <TextInput
+              style={styles.input as StyleProp<TextStyle>}
+              placeholder={t('phone_placeholder')}
+              placeholderTextColor="#A0A0A0"
+              keyboardType="phone-pad"
+              value={phone}
+              onChangeText={setPhone}
+            />
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.actionButton,
+            isActive ? styles.actionButtonActive : styles.actionButtonDisabled,
+          ]}
+          disabled={!isActive}
+          onPress={step === 'account' ? handleSignIn : handleSendCode}>
+          <Text style={styles.actionButtonText}>
+            {step === 'account'
+              ? isLoading ? t('logging_in') : t('login')
+              : isLoading ? t('sending_otp') : t('send_otp')}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {otpPhone && (
+        <OtpOverlay
+          mobileNo={otpPhone}
+          initialCooldown={cooldown}
+          isVerifying={isVerifying}
+          error={otpError}
+          onConfirm={handleVerify}
+          onResend={handleResend}
+          onClose={() => setOtpPhone(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#151718' },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#151718' },
+  container: { flexGrow: 1, paddingHorizontal: 30, paddingTop: 40, paddingBottom: 30, alignItems: 'center' },
+  title: { color: '#FFFFFF', fontSize: 28, fontWeight: 'bold', marginBottom: 15 },
+  description: { color: '#B0B0B0', fontSize: 14, textAlign: 'center', lineHeight: 20, marginBottom: 15 },
+  inputLabel: { color: '#FFFFFF', fontSize: 14, fontWeight: 'bold', alignSelf: 'flex-start', marginBottom: 5, marginTop: 15 },
+  input: { width: '100%', backgroundColor: '#333333', paddingVertical: 14, paddingHorizontal: 20, borderRadius: 30, borderWidth: 1, borderColor: '#444444', color: '#FFFFFF', fontSize: 16 },
+  actionButton: { width: '100%', paddingVertical: 14, borderRadius: 30, marginTop: 25 },
+  actionButtonActive: { backgroundColor: '#388e3c' },
+  actionButtonDisabled: { backgroundColor: '#555555' },
+  actionButtonText: { color: '#FFFFFF', fontSize: 18, fontWeight: 'bold', textAlign: 'center' },
+});
@@ -1,5 +1,5 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'; // <--- Added
-import { useLocalSearchParams, useRouter } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useRouter } from 'expo-router';
 import React, { useState } from 'react';
 import {
   ActivityIndicator,
@@ -15,68 +15,123 @@ import {
   View
 } from 'react-native';
 
+import OtpOverlay from '@/components/OtpOverlay';
 import { useTranslation } from '@/hooks/useTranslation';
+import { mergeGuestProgress } from '@/utils/guestProgress';
+import {
+  normalizePhone,
+  PhoneAuthError,
+  phoneAuthMessage,
+  sendPhoneOtp,
+  verifyPhoneOtp
+} from '@/utils/phoneAuth';
 import { supabase } from '@/utils/supabase';
 import UserIcon from '../assets/images/user.svg';
 
 export default function LoginScreen() {
   const router = useRouter();
   const { t, isLoading: isTransLoading } = useTranslation();
-  // Check if we came from completing a lesson
-  const { lesson_completed } = useLocalSearchParams<{ lesson_completed?: string }>();
 
-  const [username, setUsername] = useState('');
+  const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  const getEmailFromUsername = (usr: string) => {
-    const cleanUser = usr.toLowerCase().replace(/[^a-z0-9]/g, '');
-    return `${cleanUser}@khet.com`;
+  // OTP step
+  const [otpPhone, setOtpPhone] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(30);
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const finishLogin = async () => {
+    // Lessons finished as a guest on this device move into the account
+    // (re-graded on the server, coins credited once)
+    try {
+      const merged = await mergeGuestProgress();
+      if (merged?.applied && (merged.lessons_merged > 0 || merged.games_to_replay > 0)) {
+        const notes = [
+          merged.lessons_merged > 0 &&
+            t('guest_progress_merged')
+              .replace('{lessons}', String(merged.lessons_merged))
+              .replace('{coins}', String(merged.coins_awarded)),
+          // Guest game plays aren't credited without a signed-in session
+          merged.games_to_replay > 0 &&
+            t('guest_games_replay').replace('{count}', String(merged.games_to_replay)),
+        ];
+        Alert.alert(t('login'), notes.filter(Boolean).join('\n\n'));
+      }
+    } catch (e) {
+      // Kept on the device and retried by the outbox flush
+      console.error('Error merging guest progress:', e);
+    }
+    await AsyncStorage.setItem('onboarding_reward_claimed', 'true');
+
+    // Go to lessons to continue
+    router.replace('/lessons');
   };
 
   const handleLogin = async () => {
-    if (username.trim() !== '' && password.length >= 1 && !isLoading) {
-      setIsLoading(true);
-      
-      const emailToLogin = getEmailFromUsername(username);
-
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: emailToLogin,
-        password: password,
-      });
-
-      if (error) {
-        Alert.alert('Login Failed', error.message);
-        setIsLoading(false);
-      } else if (data.session) {
-        
-        // --- SYNC PROGRESS LOGIC ---
-        // If the user just completed Lesson 1 as a guest, save it now!
-        if (lesson_completed) {
-            const lessonId = parseInt(lesson_completed);
-            const userId = data.session.user.id;
-            
-            await supabase.from('user_lessons').upsert({
-                user_id: userId,
-                lesson_id: lessonId,
-                completed_at: new Date().toISOString()
-            });
-
-            // Also mark onboarding as done locally
-            await AsyncStorage.setItem('onboarding_reward_claimed', 'true');
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      Alert.alert(t('login'), t('err_invalid_phone'));
+      return;
+    }
+    if (isLoading) return;
+    setIsLoading(true);
+
+    try {
+      if (usePassword) {
+        const { data, error } = await supabase.auth.signInWithPassword({
+          phone: normalized,
+          password: password,
+        });
+        if (error) {
+          Alert.alert('Login Failed', error.message);
+        } else if (data.session) {
+          await finishLogin();
         }
-        // ---------------------------
-
-        setIsLoading(false);
-        // Go to lessons to continue
-        router.replace('/lessons');
+      } else {
+        // 1. Send the code, 2. OtpOverlay collects it (handleVerify)
+        const retryAfter = await sendPhoneOtp(normalized, 'login');
+        setCooldown(retryAfter);
+        setOtpError(null);
+        setOtpPhone(normalized);
       }
-    } else {
-      Alert.alert('Invalid Input', 'Please enter your username and password.');
+    } catch (e) {
+      Alert.alert('Login Failed', phoneAuthMessage(t, e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otpPhone) return;
+    setIsVerifying(true);
+    setOtpError(null);
+    try {
+      const session = await verifyPhoneOtp(otpPhone, code, 'login');
+      setOtpPhone(null);
+      if (session) await finishLogin();
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!otpPhone) return;
+    try {
+      setOtpError(null);
+      return await sendPhoneOtp(otpPhone, 'login');
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+      return e instanceof PhoneAuthError ? e.retryAfter : undefined;
     }
   };
 
-  const isLoginActive = username.trim() !== '' && password.length > 0 && !isLoading;
+  const isLoginActive =
+    phone.trim() !== '' && (!usePassword || password.length > 0) && !isLoading;
 
   if (isTransLoading) {
     return (
@@ -88,32 +143,39 @@ export default function LoginScreen() {
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <ScrollView contentContainerStyle={styles.container}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
         <Text style={styles.title}>{t('login')}</Text>
 
         <View style={styles.avatarContainer}>
           <UserIcon width={100} height={100} />
         </View>
         
-        <Text style={styles.inputLabel}>{t('username')}</Text>
+        <Text style={styles.inputLabel}>{t('phone_number')}</Text>
         <TextInput
           style={styles.input as StyleProp<TextStyle>}
-          placeholder="Enter your username"
+          placeholder={t('phone_placeholder')}
           placeholderTextColor="#A0A0A0"
-          autoCapitalize="none"
-          value={username}
-          onChangeText={setUsername}
+          keyboardType="phone-pad"
+          value={phone}
+          onChangeText={setPhone}
         />
 
-        <Text style={styles.inputLabel}>{t('password')}</Text>
-        <TextInput
-          style={styles.input as StyleProp<TextStyle>}
-          placeholder="Enter your password"
-          placeholderTextColor="#A0A0A0"
-          secureTextEntry
-          value={password}
-          onChangeText={setPassword}
-        />
+        {usePassword && (
+          <>
+            <Text style={styles.inputLabel}>{t('password')}</Text>
+            <TextInput
+              style={styles.input as StyleProp<TextStyle>}
+              placeholder="Enter your password"
+              placeholderTextColor="#A0A0A0"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+            <TouchableOpacity style={styles.forgotButton} onPress={() => router.push('/forgot-password')}>
+              <Text style={styles.forgotText}>{t('forgot_password')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
 
         <TouchableOpacity
           style={[
@@ -123,7 +185,15 @@ export default function LoginScreen() {
           disabled={!isLoginActive}
           onPress={handleLogin}>
           <Text style={styles.actionButtonText}>
-            {isLoading ? t('logging_in') : t('login')}
+            {isLoading
+              ? usePassword ? t('logging_in') : t('sending_otp')
+              : usePassword ? t('login') : t('send_otp')}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.switchModeButton} onPress={() => setUsePassword(!usePassword)}>
+          <Text style={styles.switchModeText}>
+            {usePassword ? t('use_otp_instead') : t('use_password_instead')}
           </Text>
         </TouchableOpacity>
 
@@ -134,9 +204,29 @@ export default function LoginScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Accounts from before phone login */}
+        <View style={styles.accountLinkContainer}>
+          <Text style={styles.accountLinkText}>{t('legacy_account_prompt')}</Text>
+          <TouchableOpacity onPress={() => router.push('/link-phone')}>
+            <Text style={styles.createOneText}>{t('link_phone')}</Text>
+          </TouchableOpacity>
+        </View>
+
         <Text style={styles.dataNote}>{t('data_note')}</Text>
 
       </ScrollView>
+
+      {otpPhone && (
+        <OtpOverlay
+          mobileNo={otpPhone}
+          initialCooldown={cooldown}
+          isVerifying={isVerifying}
+          error={otpError}
+          onConfirm={handleVerify}
+          onResend={handleResend}
+          onClose={() => setOtpPhone(null)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -153,7 +243,11 @@ const styles = StyleSheet.create({
   actionButtonActive: { backgroundColor: '#388e3c' },
   actionButtonDisabled: { backgroundColor: '#555555' },
   actionButtonText: { color: '#FFFFFF', fontSize: 18, fontWeight: 'bold', textAlign: 'center' },
-  accountLinkContainer: { flexDirection: 'row', marginTop: 20 },
+  forgotButton: { alignSelf: 'flex-end', marginTop: 10, padding: 5 },
+  forgotText: { color: '#388e3c', fontSize: 14 },
+  switchModeButton: { marginTop: 15, padding: 5 },
+  switchModeText: { color: '#B0B0B0', fontSize: 14, textDecorationLine: 'underline' },
+  accountLinkContainer: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', marginTop: 20 },
   accountLinkText: { color: '#B0B0B0', fontSize: 14, marginRight: 5 },
   createOneText: { color: '#388e3c', fontSize: 14, textDecorationLine: 'underline' },
   dataNote: { color: '#B0B0B0', fontSize: 12, marginTop: 30, marginBottom: 10, textAlign: 'center' },
@@ -1,89 +1,82 @@
-import { supabase } from '@/utils/supabase';
+import CropIcon from '@/components/CropIcon';
+import { INDIAN_STATES } from '@/constants/states';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { cropName, findCrop, useCrops } from '@/hooks/useCrops';
+import { MandiPrice, medianPrice, nearestMandis, useFarmProfile, useMarketPrices } from '@/hooks/useMarketPrices';
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchPriceAlerts } from '@/utils/priceAlerts';
 import { FontAwesome5 } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import React, { useEffect, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   ActivityIndicator,
-  Image,
   RefreshControl,
   SafeAreaView,
   ScrollView,
   StyleSheet,
   Text,
   TextInput,
+  TouchableOpacity,
   View
 } from 'react-native';
 
-// --- 1. IMPORT SVGs ---
-import BananaIcon from '../assets/images/Banana.svg';
-import PepperIcon from '../assets/images/black_pepper.svg';
-import CardamomIcon from '../assets/images/cardamom.svg';
-import CoconutIcon from '../assets/images/coconut.svg';
-import CoffeeIcon from '../assets/images/coffee.svg';
-// Fallback PNGs for crops without SVGs
-const RiceImg = require('../assets/images/crops/rice.png');
-const GingerImg = require('../assets/images/crops/ginger.png');
-const CashewImg = require('../assets/images/crops/cashew.png');
-
 import { Platform } from 'react-native';
 // Uses San Francisco on iOS and Roboto on Android
 const PIXEL_FONT = Platform.OS === 'ios' ? 'System' : 'Roboto';
 
+const formatRupees = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
 export default function MarketPricesScreen() {
-  const [prices, setPrices] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const router = useRouter();
+  const { language } = useTranslation();
   const [searchQuery, setSearchQuery] = useState('');
-  
-  // Track the overall last sync time
-  const [globalSyncTime, setGlobalSyncTime] = useState<string>('Never');
+  const { data: crops } = useCrops();
 
-  const fetchPrices = async () => {
-    try {
-      // Fetch real data from Supabase
-      const { data, error } = await supabase
-        .from('market_prices')
-        .select('*')
-        .order('name');
-      
-      if (error) throw error;
-      
-      if (data) {
-        setPrices(data);
-        setGlobalSyncTime(new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
-      }
-    } catch (err) {
-      console.error('Fetch error:', err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
+  // undefined = follow the profile's state; null = All India
+  const [pickedState, setPickedState] = useState<string | null | undefined>(undefined);
+  const { data: farm } = useFarmProfile();
+  const homeState = farm?.state ?? null;
+  const selectedState = pickedState === undefined ? homeState : pickedState;
+
+  // Cached so the list (and the way into the history screens) works offline
+  const { data, loading, isOffline, refresh, refreshing } = useMarketPrices(selectedState);
+  const globalSyncTime = data?.syncedAt || 'Never';
 
-  useEffect(() => {
-    fetchPrices();
-  }, []);
+  const { data: alertsData } = useCachedQuery('price_alerts_v1', fetchPriceAlerts);
+  const unseenAlerts = (alertsData?.events || []).filter((e) => !e.seen_at).length;
 
-  const filteredPrices = prices.filter(p => 
-    p.name.toLowerCase().includes(searchQuery.toLowerCase())
+  // Home state first, then the rest alphabetically
+  const stateOptions = useMemo(
+    () => (homeState ? [homeState, ...INDIAN_STATES.filter((s) => s !== homeState)] : INDIAN_STATES),
+    [homeState]
   );
 
-  // --- HELPER: Get Icon based on Crop ID ---
-  const renderCropIcon = (cropId: string) => {
-    const style = styles.cropIcon;
-    switch (cropId) {
-      case 'banana': return <BananaIcon width={45} height={45} />;
-      case 'black_pepper': return <PepperIcon width={45} height={45} />;
-      case 'cardamom': return <CardamomIcon width={45} height={45} />;
-      case 'coconut': return <CoconutIcon width={45} height={45} />;
-      case 'coffee': return <CoffeeIcon width={45} height={45} />;
-      // Fallbacks for missing SVGs
-      case 'rice': return <Image source={RiceImg} style={style} />;
-      case 'ginger': return <Image source={GingerImg} style={style} />;
-      case 'cashew': return <Image source={CashewImg} style={style} />;
-      default: return <FontAwesome5 name="leaf" size={32} color="#4CAF50" />;
-    }
-  };
+  // Catalogue crops only, in catalogue order; crops with mandi reports in
+  // the selected state come first
+  const filteredPrices = useMemo(() => {
+    const prices: any[] = data?.rows || [];
+    const mandis = data?.mandis || [];
+    const order = (cropId: string) => findCrop(crops, cropId)?.sort_order ?? Number.MAX_SAFE_INTEGER;
+    return prices
+      .filter((p) => !crops || findCrop(crops, p.crop_id))
+      .map((p) => {
+        const cropMandis = mandis.filter((m) => m.crop_id === p.crop_id);
+        return {
+          ...p,
+          displayName: findCrop(crops, p.crop_id) ? cropName(crops, p.crop_id, language) : p.name,
+          iconKey: findCrop(crops, p.crop_id)?.icon_key ?? p.crop_id,
+          statePrice: medianPrice(cropMandis.map((m) => m.modal_price)),
+          nearby: nearestMandis(cropMandis, farm?.district ?? null),
+        };
+      })
+      .filter((p) => p.displayName.toLowerCase().includes(searchQuery.toLowerCase()))
+      .sort(
+        (a, b) =>
+          Number(b.statePrice !== null) - Number(a.statePrice !== null) ||
+          order(a.crop_id) - order(b.crop_id)
+      );
+  }, [data, crops, language, searchQuery, farm]);
 
   const getTrendStyles = (trend: string) => {
     switch(trend) {
@@ -110,9 +103,26 @@ export default function MarketPricesScreen() {
           <Text style={styles.headerTitle}>MARKET RATES</Text>
           <Text style={styles.headerSubtitle}>Sync: {globalSyncTime}</Text>
         </View>
-        <View style={styles.liveBadge}>
-          <View style={styles.liveDot} />
-          <Text style={styles.liveText}>LIVE</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.bellBtn} onPress={() => router.push('/price-alerts')}>
+            <FontAwesome5 name="bell" size={16} color="#CCC" />
+            {unseenAlerts > 0 && (
+              <View style={styles.bellBadge}>
+                <Text style={styles.bellBadgeText}>{unseenAlerts > 9 ? '9+' : unseenAlerts}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          {isOffline ? (
+            <View style={[styles.liveBadge, styles.offlineBadge]}>
+              <FontAwesome5 name="wifi" size={9} color="#999" style={{ marginRight: 6 }} />
+              <Text style={[styles.liveText, { color: '#999' }]}>OFFLINE</Text>
+            </View>
+          ) : (
+            <View style={styles.liveBadge}>
+              <View style={styles.liveDot} />
+              <Text style={styles.liveText}>LIVE</Text>
+            </View>
+          )}
         </View>
       </View>
 
@@ -130,6 +140,32 @@ export default function MarketPricesScreen() {
         </View>
       </View>
 
+      {/* State Filter */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.stateScroll}
+        contentContainerStyle={styles.stateRow}
+      >
+        {[null, ...stateOptions].map((state) => {
+          const active = state === selectedState;
+          return (
+            <TouchableOpacity
+              key={state ?? 'all'}
+              style={[styles.stateChip, active && styles.stateChipActive]}
+              onPress={() => setPickedState(state)}
+            >
+              {state !== null && state === homeState && (
+                <FontAwesome5 name="map-marker-alt" size={10} color={active ? '#FFF' : '#888'} />
+              )}
+              <Text style={[styles.stateChipText, active && styles.stateChipTextActive]}>
+                {state ?? 'All India'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
       {loading ? (
         <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>
       ) : (
@@ -137,7 +173,7 @@ export default function MarketPricesScreen() {
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
           refreshControl={
-            <RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); fetchPrices(); }} tintColor="#388E3C"/>
+            <RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#388E3C"/>
           }
         >
           {filteredPrices.length === 0 ? (
@@ -148,19 +184,25 @@ export default function MarketPricesScreen() {
           ) : (
             filteredPrices.map((item) => {
               const trendStyle = getTrendStyles(item.trend);
+              const shownPrice = item.statePrice ?? Number(item.price);
               
               return (
-                <View key={item.id} style={styles.card}>
+                <TouchableOpacity
+                  key={item.id}
+                  style={styles.card}
+                  activeOpacity={0.8}
+                  onPress={() => router.push({ pathname: '/price/[id]', params: { id: item.crop_id } })}
+                >
                   <View style={styles.cardRow}>
                     
                     {/* Icon Box */}
                     <View style={styles.iconBox}>
-                      {renderCropIcon(item.crop_id)}
+                      <CropIcon iconKey={item.iconKey} />
                     </View>
 
                     {/* Name & Unit */}
                     <View style={styles.infoCol}>
-                      <Text style={styles.cropName} numberOfLines={1}>{item.name}</Text>
+                      <Text style={styles.cropName} numberOfLines={1}>{item.displayName}</Text>
                       <Text style={styles.cropUnit}>
                         Updated: {formatDate(item.last_updated)}
                       </Text>
@@ -168,11 +210,37 @@ export default function MarketPricesScreen() {
 
                     {/* Price & Trend */}
                     <View style={styles.priceCol}>
-                      <Text style={styles.priceText}>₹{item.price.toLocaleString()}</Text>
+                      <Text style={styles.priceText}>{formatRupees(shownPrice)}</Text>
                       <Text style={styles.perUnitText}>/ {item.unit}</Text>
                     </View>
                   </View>
 
+                  {/* Nearest Mandis (min / modal / max) */}
+                  {selectedState && (
+                    <View style={styles.mandiList}>
+                      {item.nearby.length === 0 ? (
+                        <Text style={styles.mandiEmpty}>No mandi in {selectedState} reported today</Text>
+                      ) : (
+                        item.nearby.map((m: MandiPrice) => (
+                          <View key={`${m.market}-${m.variety}`} style={styles.mandiRow}>
+                            <View style={{ flex: 1 }}>
+                              <Text style={styles.mandiName} numberOfLines={1}>{m.market}</Text>
+                              <Text style={styles.mandiDistrict} numberOfLines={1}>
+                                {m.district}{m.variety ? ` · ${m.variety}` : ''}
+                              </Text>
+                            </View>
+                            <View style={styles.mandiPrices}>
+                              <Text style={styles.mandiModal}>{formatRupees(m.modal_price)}</Text>
+                              <Text style={styles.mandiRange}>
+                                {formatRupees(m.min_price)} - {formatRupees(m.max_price)}
+                              </Text>
+                            </View>
+                          </View>
+                        ))
+                      )}
+                    </View>
+                  )}
+
                   {/* Footer Strip */}
                   <View style={styles.cardFooter}>
                      <View style={[styles.trendPill, { backgroundColor: trendStyle.bg }]}>
@@ -181,9 +249,16 @@ export default function MarketPricesScreen() {
                           {item.trend === 'stable' ? 'Stable' : `₹${item.change}`}
                         </Text>
                      </View>
-                     <Text style={styles.marketLabel}>Avg. Mandi Price</Text>
+                     <View style={styles.historyLink}>
+                       <Text style={styles.marketLabel}>
+                         {item.statePrice !== null
+                           ? `National median ${formatRupees(Number(item.price))}`
+                           : `National median${item.mandi_count ? ` · ${item.mandi_count} mandis` : ''}`}
+                       </Text>
+                       <FontAwesome5 name="chart-line" size={10} color="#555" />
+                     </View>
                   </View>
-                </View>
+                </TouchableOpacity>
               );
             })
           )}
@@ -204,9 +279,17 @@ const styles = StyleSheet.create({
   headerTitle: { color: '#FFF', fontSize: 20, fontWeight: 'bold', fontFamily: PIXEL_FONT, letterSpacing: 1 },
   headerSubtitle: { color: '#666', fontSize: 12, marginTop: 4, fontFamily: PIXEL_FONT },
   
+  headerActions: { flexDirection: 'row', alignItems: 'center', gap: 14 },
+  bellBtn: { padding: 6 },
+  bellBadge: {
+    position: 'absolute', top: -2, right: -4, minWidth: 16, height: 16, borderRadius: 8,
+    backgroundColor: '#FFD700', justifyContent: 'center', alignItems: 'center', paddingHorizontal: 3
+  },
+  bellBadgeText: { color: '#000', fontSize: 9, fontWeight: 'bold' },
   liveBadge: { flexDirection: 'row', alignItems: 'center', backgroundColor: 'rgba(255, 0, 0, 0.2)', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12, borderWidth: 1, borderColor: 'rgba(255,0,0,0.3)' },
   liveDot: { width: 6, height: 6, borderRadius: 3, backgroundColor: '#FF5252', marginRight: 6 },
   liveText: { color: '#FF5252', fontSize: 10, fontWeight: 'bold' },
+  offlineBadge: { backgroundColor: 'rgba(255, 255, 255, 0.05)', borderColor: '#333' },
 
   // Search
   searchWrapper: { paddingHorizontal: 20, marginBottom: 20 },
@@ -218,6 +301,18 @@ const styles = StyleSheet.create({
   },
   searchInput: { flex: 1, color: 'white', fontSize: 16, fontFamily: PIXEL_FONT },
 
+  // State Filter
+  stateScroll: { flexGrow: 0, marginBottom: 16 },
+  stateRow: { paddingHorizontal: 20, gap: 8 },
+  stateChip: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16,
+    backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#333'
+  },
+  stateChipActive: { backgroundColor: '#388E3C', borderColor: '#388E3C' },
+  stateChipText: { color: '#888', fontSize: 12, fontWeight: 'bold', fontFamily: PIXEL_FONT },
+  stateChipTextActive: { color: '#FFF' },
+
   // List
   loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center' },
   listContent: { paddingHorizontal: 20, paddingBottom: 50 },
@@ -245,7 +340,6 @@ const styles = StyleSheet.create({
     marginRight: 16,
     borderWidth: 1, borderColor: '#333'
   },
-  cropIcon: { width: 35, height: 35, resizeMode: 'contain' },
 
   infoCol: { flex: 1 },
   cropName: { color: '#FFF', fontSize: 16, fontWeight: 'bold', marginBottom: 4, letterSpacing: 0.5 },
@@ -255,6 +349,16 @@ const styles = StyleSheet.create({
   priceText: { color: '#E0E0E0', fontSize: 20, fontWeight: 'bold', fontFamily: PIXEL_FONT },
   perUnitText: { color: '#666', fontSize: 12 },
 
+  // Mandi rows inside Card
+  mandiList: { paddingHorizontal: 16, paddingBottom: 12, gap: 8 },
+  mandiRow: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#151515', borderRadius: 8, padding: 10 },
+  mandiName: { color: '#CCC', fontSize: 13, fontWeight: 'bold' },
+  mandiDistrict: { color: '#666', fontSize: 11, marginTop: 2, fontFamily: PIXEL_FONT },
+  mandiPrices: { alignItems: 'flex-end', marginLeft: 10 },
+  mandiModal: { color: '#E0E0E0', fontSize: 14, fontWeight: 'bold', fontFamily: PIXEL_FONT },
+  mandiRange: { color: '#666', fontSize: 10, marginTop: 2, fontFamily: PIXEL_FONT },
+  mandiEmpty: { color: '#555', fontSize: 11, fontStyle: 'italic', fontFamily: PIXEL_FONT },
+
   // Footer Strip inside Card
   cardFooter: { 
     flexDirection: 'row', 
@@ -268,5 +372,6 @@ const styles = StyleSheet.create({
   },
   trendPill: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6, gap: 5 },
   trendText: { fontSize: 11, fontWeight: 'bold' },
+  historyLink: { flexDirection: 'row', alignItems: 'center', gap: 8 },
   marketLabel: { color: '#444', fontSize: 10, textTransform: 'uppercase', letterSpacing: 1, fontFamily: PIXEL_FONT },
 });
\ No newline at end of file
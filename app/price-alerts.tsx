@@ -0,0 +1,355 @@
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { cropName as catalogueName, useCrops } from '@/hooks/useCrops';
+import { useFarmProfile } from '@/hooks/useMarketPrices';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  createPriceAlert,
+  deletePriceAlert,
+  describeAlert,
+  fetchPriceAlerts,
+  markPriceAlertEventsSeen,
+  PriceAlert,
+  PriceAlertKind,
+  updatePriceAlert
+} from '@/utils/priceAlerts';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+const PIXEL_FONT = Platform.OS === 'ios' ? 'System' : 'Roboto';
+
+const KIND_OPTIONS: { kind: PriceAlertKind; label: string; icon: string }[] = [
+  { kind: 'above', label: 'Above ₹', icon: 'arrow-up' },
+  { kind: 'below', label: 'Below ₹', icon: 'arrow-down' },
+  { kind: 'move', label: 'Daily move %', icon: 'exchange-alt' },
+];
+
+interface Draft {
+  id: string | null; // null = new alert
+  crop_id: string | null;
+  kind: PriceAlertKind;
+  threshold: string;
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function PriceAlertsScreen() {
+  const { crop: cropParam } = useLocalSearchParams<{ crop?: string }>();
+
+  const { data, loading, isOffline, refresh, refreshing } = useCachedQuery('price_alerts_v1', fetchPriceAlerts);
+  const { language } = useTranslation();
+  const { data: catalogue } = useCrops();
+  const { data: farm } = useFarmProfile();
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const crops = catalogue || [];
+  const cropName = (cropId: string) => catalogueName(crops, cropId, language);
+
+  // Unread markers stay visible for this visit; the server is told right away
+  const [unseenIds, setUnseenIds] = useState<Set<string> | null>(null);
+  useEffect(() => {
+    if (!data || unseenIds) return;
+    const unseen = data.events.filter((e) => !e.seen_at).map((e) => e.id);
+    setUnseenIds(new Set(unseen));
+    if (unseen.length > 0) {
+      markPriceAlertEventsSeen().catch((e) => console.log('Mark seen failed', e));
+    }
+  }, [data, unseenIds]);
+
+  const openNew = (cropId?: string) =>
+    setDraft({ id: null, crop_id: cropId ?? farm?.crops[0] ?? crops[0]?.id ?? null, kind: 'above', threshold: '' });
+
+  // Opened from a crop's price screen -> start a new alert for it
+  const openedFromParam = useRef(false);
+  useEffect(() => {
+    if (cropParam && !openedFromParam.current) {
+      openedFromParam.current = true;
+      setDraft({ id: null, crop_id: cropParam, kind: 'above', threshold: '' });
+    }
+  }, [cropParam]);
+
+  const openEdit = (alert: PriceAlert) =>
+    setDraft({ id: alert.id, crop_id: alert.crop_id, kind: alert.kind, threshold: String(alert.threshold) });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const threshold = parseFloat(draft.threshold);
+    if (!draft.crop_id) {
+      Alert.alert('Error', 'Pick a crop for this alert.');
+      return;
+    }
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      Alert.alert('Error', draft.kind === 'move' ? 'Enter a percentage above 0.' : 'Enter a price above 0.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = { crop_id: draft.crop_id, kind: draft.kind, threshold };
+      if (draft.id) await updatePriceAlert(draft.id, input);
+      else await createPriceAlert(input);
+      setDraft(null);
+      refresh();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not save the alert. Check your connection.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (alert: PriceAlert, enabled: boolean) => {
+    try {
+      await updatePriceAlert(alert.id, { is_enabled: enabled });
+      refresh();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not update the alert.');
+    }
+  };
+
+  const handleDelete = (alert: PriceAlert) => {
+    Alert.alert('Delete alert?', `${cropName(alert.crop_id)} ${describeAlert(alert)}`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deletePriceAlert(alert.id);
+            refresh();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Could not delete the alert.');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>
+    );
+  }
+
+  const alerts = data?.alerts || [];
+  const events = data?.events || [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#388E3C" />}
+      >
+        {isOffline && (
+          <View style={styles.offlineBanner}>
+            <FontAwesome5 name="wifi" size={12} color="#999" />
+            <Text style={styles.offlineText}>Offline - changes need a connection</Text>
+          </View>
+        )}
+
+        {/* --- MY ALERTS --- */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionLabel}>MY ALERTS</Text>
+          <TouchableOpacity style={styles.addBtn} onPress={() => openNew()}>
+            <FontAwesome5 name="plus" size={10} color="#FFF" />
+            <Text style={styles.addBtnText}>NEW</Text>
+          </TouchableOpacity>
+        </View>
+
+        {alerts.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No alerts yet. Get told when a crop&apos;s mandi price crosses a level or jumps in a day.
+          </Text>
+        ) : (
+          alerts.map((alert) => (
+            <View key={alert.id} style={[styles.card, !alert.is_enabled && { opacity: 0.5 }]}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.cardTitle}>{cropName(alert.crop_id)}</Text>
+                <Text style={styles.cardSub}>{describeAlert(alert)}</Text>
+              </View>
+              <Switch
+                value={alert.is_enabled}
+                onValueChange={(v) => handleToggle(alert, v)}
+                trackColor={{ false: '#333', true: '#388E3C' }}
+                thumbColor="#FFF"
+              />
+              <TouchableOpacity style={styles.iconBtn} onPress={() => openEdit(alert)}>
+                <FontAwesome5 name="pen" size={13} color="#888" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconBtn} onPress={() => handleDelete(alert)}>
+                <FontAwesome5 name="trash" size={13} color="#FF5252" />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        {/* --- TRIGGERED --- */}
+        <Text style={[styles.sectionLabel, { marginTop: 30, marginBottom: 12 }]}>TRIGGERED</Text>
+        {events.length === 0 ? (
+          <Text style={styles.emptyText}>Nothing yet. Prices are checked after every market refresh.</Text>
+        ) : (
+          events.map((event) => {
+            const up = event.kind === 'above' || (event.change_percent ?? 0) > 0;
+            return (
+              <View key={event.id} style={styles.eventRow}>
+                <FontAwesome5 name={up ? 'arrow-up' : 'arrow-down'} size={14} color={up ? '#69F0AE' : '#FF5252'} />
+                <View style={{ flex: 1, marginLeft: 12 }}>
+                  <Text style={styles.cardTitle}>
+                    {cropName(event.crop_id)} ₹{Math.round(event.price).toLocaleString('en-IN')}
+                  </Text>
+                  <Text style={styles.cardSub}>
+                    {describeAlert(event)}
+                    {event.change_percent !== null &&
+                      ` · ${event.change_percent > 0 ? '+' : ''}${event.change_percent.toFixed(1)}% today`}
+                  </Text>
+                  <Text style={styles.eventTime}>{formatWhen(event.triggered_at)}</Text>
+                </View>
+                {unseenIds?.has(event.id) && <View style={styles.unreadDot} />}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {/* --- CREATE / EDIT --- */}
+      <Modal visible={draft !== null} transparent animationType="slide" onRequestClose={() => setDraft(null)}>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{draft?.id ? 'EDIT ALERT' : 'NEW ALERT'}</Text>
+
+            <Text style={styles.fieldLabel}>CROP</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {crops.map((c) => (
+                <TouchableOpacity
+                  key={c.id}
+                  style={[styles.chip, draft?.crop_id === c.id && styles.chipActive]}
+                  onPress={() => draft && setDraft({ ...draft, crop_id: c.id })}
+                >
+                  <Text style={[styles.chipText, draft?.crop_id === c.id && styles.chipTextActive]}>{cropName(c.id)}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.fieldLabel}>NOTIFY WHEN PRICE</Text>
+            <View style={styles.chipRow}>
+              {KIND_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.kind}
+                  style={[styles.chip, draft?.kind === option.kind && styles.chipActive]}
+                  onPress={() => draft && setDraft({ ...draft, kind: option.kind })}
+                >
+                  <FontAwesome5 name={option.icon} size={10} color={draft?.kind === option.kind ? '#FFF' : '#888'} />
+                  <Text style={[styles.chipText, draft?.kind === option.kind && styles.chipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              keyboardType="numeric"
+              placeholder={draft?.kind === 'move' ? 'e.g. 5 (%)' : 'e.g. 8000 (₹ / quintal)'}
+              placeholderTextColor="#555"
+              value={draft?.threshold ?? ''}
+              onChangeText={(text) => draft && setDraft({ ...draft, threshold: text })}
+            />
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelBtn} onPress={() => setDraft(null)}>
+                <Text style={styles.cancelText}>CANCEL</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveBtn} onPress={handleSave} disabled={saving}>
+                {saving ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveText}>SAVE</Text>}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 50 },
+
+  offlineBanner: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    backgroundColor: '#1A1A1A', borderRadius: 10, padding: 10, marginBottom: 16,
+    borderWidth: 1, borderColor: '#333'
+  },
+  offlineText: { color: '#999', fontSize: 12, fontFamily: PIXEL_FONT },
+
+  sectionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  sectionLabel: { color: '#888', fontSize: 12, fontWeight: 'bold', letterSpacing: 1, fontFamily: PIXEL_FONT },
+  addBtn: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    backgroundColor: '#388E3C', paddingHorizontal: 12, paddingVertical: 6, borderRadius: 8
+  },
+  addBtnText: { color: '#FFF', fontSize: 11, fontWeight: 'bold' },
+  emptyText: { color: '#555', fontSize: 13, lineHeight: 19, fontFamily: PIXEL_FONT },
+
+  card: {
+    flexDirection: 'row', alignItems: 'center',
+    backgroundColor: '#1A1A1A', borderRadius: 12, padding: 14, marginBottom: 10,
+    borderWidth: 1, borderColor: '#2A2A2A'
+  },
+  cardTitle: { color: '#FFF', fontSize: 15, fontWeight: 'bold' },
+  cardSub: { color: '#888', fontSize: 12, marginTop: 3, fontFamily: PIXEL_FONT },
+  iconBtn: { padding: 8, marginLeft: 4 },
+
+  eventRow: {
+    flexDirection: 'row', alignItems: 'center',
+    backgroundColor: '#151515', borderRadius: 12, padding: 14, marginBottom: 8
+  },
+  eventTime: { color: '#555', fontSize: 10, marginTop: 4, fontFamily: PIXEL_FONT },
+  unreadDot: { width: 8, height: 8, borderRadius: 4, backgroundColor: '#FFD700' },
+
+  // Modal
+  modalBackdrop: { flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.7)' },
+  modalCard: {
+    backgroundColor: '#1A1A1A', borderTopLeftRadius: 20, borderTopRightRadius: 20, padding: 20,
+    borderWidth: 1, borderColor: '#333'
+  },
+  modalTitle: { color: '#FFF', fontSize: 16, fontWeight: 'bold', letterSpacing: 1, marginBottom: 16 },
+  fieldLabel: { color: '#666', fontSize: 11, letterSpacing: 1, marginBottom: 8, marginTop: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  chip: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    paddingHorizontal: 12, paddingVertical: 7, borderRadius: 16,
+    backgroundColor: '#252525', borderWidth: 1, borderColor: '#333'
+  },
+  chipActive: { backgroundColor: '#388E3C', borderColor: '#388E3C' },
+  chipText: { color: '#888', fontSize: 12, fontWeight: 'bold' },
+  chipTextActive: { color: '#FFF' },
+  input: {
+    backgroundColor: '#0D0D0D', color: '#FFF', borderRadius: 10, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 14, height: 48, fontSize: 16, marginTop: 8, fontFamily: PIXEL_FONT
+  },
+  modalActions: { flexDirection: 'row', gap: 10, marginTop: 20 },
+  cancelBtn: { flex: 1, paddingVertical: 14, borderRadius: 10, alignItems: 'center', backgroundColor: '#252525' },
+  cancelText: { color: '#888', fontWeight: 'bold' },
+  saveBtn: { flex: 1, paddingVertical: 14, borderRadius: 10, alignItems: 'center', backgroundColor: '#388E3C' },
+  saveText: { color: '#FFF', fontWeight: 'bold' },
+});
@@ -0,0 +1,201 @@
+import CropIcon from '@/components/CropIcon';
+import PriceChart from '@/components/PriceChart';
+import { cropName, findCrop, useCrops } from '@/hooks/useCrops';
+import { summarizePrices, usePriceHistory } from '@/hooks/usePriceHistory';
+import { useTranslation } from '@/hooks/useTranslation';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View
+} from 'react-native';
+
+const PIXEL_FONT = Platform.OS === 'ios' ? 'System' : 'Roboto';
+
+const RANGES = [7, 30, 90];
+
+const formatPrice = (value: number) =>
+  `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+export default function PriceDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { language } = useTranslation();
+  const { data: crops } = useCrops();
+  const catalogueCrop = findCrop(crops, id);
+  const { width } = useWindowDimensions();
+  const [range, setRange] = useState(30);
+
+  const { data, loading, isOffline, refresh, refreshing } = usePriceHistory(id);
+  const crop = data?.crop;
+
+  const summary = useMemo(
+    () => summarizePrices(data?.points || [], range),
+    [data, range]
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingView}><ActivityIndicator size="large" color="#388E3C" /></View>
+    );
+  }
+
+  const change = summary.changePercent;
+  const changeColor = change === null || change === 0 ? '#B0B0B0' : change > 0 ? '#69F0AE' : '#FF5252';
+  const chartColor = change !== null && change < 0 ? '#FF5252' : '#4CAF50';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#388E3C" />}
+      >
+        {isOffline && (
+          <View style={styles.offlineBanner}>
+            <FontAwesome5 name="wifi" size={12} color="#999" />
+            <Text style={styles.offlineText}>Offline - showing saved prices</Text>
+          </View>
+        )}
+
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.iconBox}>
+            <CropIcon iconKey={catalogueCrop?.icon_key ?? id} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.cropName} numberOfLines={1}>{catalogueCrop ? cropName(crops, id, language) : crop?.name || id}</Text>
+            <Text style={styles.cropUnit}>per {crop?.unit || catalogueCrop?.unit || 'Quintal'}</Text>
+          </View>
+          {crop && (
+            <Text style={styles.currentPrice}>{formatPrice(Number(crop.price))}</Text>
+          )}
+        </View>
+
+        {/* Range Tabs */}
+        <View style={styles.tabs}>
+          {RANGES.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.tab, range === days && styles.tabActive]}
+              onPress={() => setRange(days)}
+            >
+              <Text style={[styles.tabText, range === days && styles.tabTextActive]}>{days}D</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Chart */}
+        <View style={styles.chartCard}>
+          <View style={styles.changeRow}>
+            <Text style={styles.changeLabel}>{range}-day change</Text>
+            <Text style={[styles.changeValue, { color: changeColor }]}>
+              {change === null ? '--' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+            </Text>
+          </View>
+          <PriceChart points={summary.points} width={width - 72} color={chartColor} />
+        </View>
+
+        {/* Stats */}
+        {summary.points.length > 0 && (
+          <View style={styles.statsRow}>
+            <View style={styles.statBox}>
+              <Text style={styles.statLabel}>MIN</Text>
+              <Text style={styles.statValue}>{formatPrice(summary.min)}</Text>
+            </View>
+            <View style={styles.statBox}>
+              <Text style={styles.statLabel}>AVG</Text>
+              <Text style={styles.statValue}>{formatPrice(summary.avg)}</Text>
+            </View>
+            <View style={styles.statBox}>
+              <Text style={styles.statLabel}>MAX</Text>
+              <Text style={styles.statValue}>{formatPrice(summary.max)}</Text>
+            </View>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.alertBtn}
+          onPress={() => router.push({ pathname: '/price-alerts', params: { crop: id } })}
+        >
+          <FontAwesome5 name="bell" size={14} color="#FFD700" />
+          <Text style={styles.alertBtnText}>SET PRICE ALERT</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.footnote}>
+          {summary.points.length} day{summary.points.length === 1 ? '' : 's'} of modal mandi prices
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#0D0D0D' },
+  loadingView: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D' },
+  content: { padding: 20, paddingBottom: 50 },
+
+  offlineBanner: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    backgroundColor: '#1A1A1A', borderRadius: 10, padding: 10, marginBottom: 16,
+    borderWidth: 1, borderColor: '#333'
+  },
+  offlineText: { color: '#999', fontSize: 12, fontFamily: PIXEL_FONT },
+
+  // Header
+  header: { flexDirection: 'row', alignItems: 'center', marginBottom: 20 },
+  iconBox: {
+    width: 56, height: 56,
+    backgroundColor: '#252525',
+    borderRadius: 14,
+    justifyContent: 'center', alignItems: 'center',
+    marginRight: 16,
+    borderWidth: 1, borderColor: '#333'
+  },
+  cropName: { color: '#FFF', fontSize: 18, fontWeight: 'bold', letterSpacing: 0.5 },
+  cropUnit: { color: '#666', fontSize: 12, marginTop: 4, fontFamily: PIXEL_FONT },
+  currentPrice: { color: '#E0E0E0', fontSize: 22, fontWeight: 'bold', fontFamily: PIXEL_FONT },
+
+  // Tabs
+  tabs: { flexDirection: 'row', backgroundColor: '#1A1A1A', borderRadius: 12, padding: 4, marginBottom: 16 },
+  tab: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: 'center' },
+  tabActive: { backgroundColor: '#388E3C' },
+  tabText: { color: '#888', fontWeight: 'bold', fontSize: 13, fontFamily: PIXEL_FONT },
+  tabTextActive: { color: '#FFF' },
+
+  // Chart
+  chartCard: {
+    backgroundColor: '#1A1A1A', borderRadius: 16, padding: 16, marginBottom: 16,
+    borderWidth: 1, borderColor: '#2A2A2A'
+  },
+  changeRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  changeLabel: { color: '#888', fontSize: 12, textTransform: 'uppercase', letterSpacing: 1, fontFamily: PIXEL_FONT },
+  changeValue: { fontSize: 16, fontWeight: 'bold', fontFamily: PIXEL_FONT },
+
+  // Stats
+  statsRow: { flexDirection: 'row', gap: 10 },
+  statBox: {
+    flex: 1, backgroundColor: '#1A1A1A', borderRadius: 12, paddingVertical: 12, alignItems: 'center',
+    borderWidth: 1, borderColor: '#2A2A2A'
+  },
+  statLabel: { color: '#666', fontSize: 10, letterSpacing: 1, marginBottom: 4, fontFamily: PIXEL_FONT },
+  statValue: { color: '#E0E0E0', fontSize: 15, fontWeight: 'bold', fontFamily: PIXEL_FONT },
+
+  alertBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 10,
+    marginTop: 20, paddingVertical: 14, borderRadius: 12,
+    backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#FFD700'
+  },
+  alertBtnText: { color: '#FFD700', fontWeight: 'bold', letterSpacing: 1, fontFamily: PIXEL_FONT },
+  footnote: { color: '#444', fontSize: 11, textAlign: 'center', marginTop: 20, fontFamily: PIXEL_FONT },
+});
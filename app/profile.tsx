@@ -7,6 +7,7 @@ import {
   ActivityIndicator,
   Alert,
   Image,
+  Platform,
   RefreshControl,
   SafeAreaView,
   ScrollView,
@@ -25,7 +26,12 @@ import Animated, {
 import Svg, { Defs, LinearGradient, Path, Stop } from "react-native-svg";
 
 import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { cropName, useCrops } from "@/hooks/useCrops";
 import { useTranslation } from "@/hooks/useTranslation";
+import { toFarmProfile, verifyAgriStack } from "@/utils/agristack";
+import { canEditContent } from "@/utils/contentAdmin";
+import { fetchUserCropId, filterByTargetCrop } from "@/utils/crops";
+import { fetchCurrentSeason, isQuestInSeason } from "@/utils/questSeasons";
 import { supabase } from "@/utils/supabase";
 
 // Assets
@@ -35,31 +41,6 @@ import UserIcon from "../assets/images/UserImage.svg";
 const PIXEL_FONT = "monospace";
 const AnimatedPath = Animated.createAnimatedComponent(Path);
 
-// --- MOCK DATABASE ---
-const MOCK_DB: Record<string, any> = {
-  "AGRI-001": {
-    landSize: "2.5 Hectares",
-    location: "Punjab",
-    soilType: "Alluvial",
-    primaryCrop: "Rice",
-    status: "Active",
-  },
-  "AGRI-002": {
-    landSize: "5.0 Acres",
-    location: "Kerala",
-    soilType: "Laterite",
-    primaryCrop: "Banana",
-    status: "Active",
-  },
-  "AGRI-003": {
-    landSize: "1.2 Hectares",
-    location: "Karnataka",
-    soilType: "Red Loam",
-    primaryCrop: "Coffee",
-    status: "Active",
-  },
-};
-
 // --- GAUGE COMPONENT ---
 const Gauge = ({ score }: { score: number }) => {
   const radius = 80;
@@ -141,12 +122,11 @@ const Gauge = ({ score }: { score: number }) => {
 
 export default function ProfileScreen() {
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
+  const { data: crops } = useCrops();
 
   const [agriStackId, setAgriStackId] = useState("");
   const [isVerifying, setIsVerifying] = useState(false);
-  const [isLinked, setIsLinked] = useState(false);
-  const [fetchedData, setFetchedData] = useState<any>(null);
 
   const [uploading, setUploading] = useState(false); // Avatar upload state
 
@@ -160,7 +140,7 @@ export default function ProfileScreen() {
       .select("*")
       .eq("id", userId)
       .single();
-    const userCrop = profile?.selected_crop;
+    const userCrop = await fetchUserCropId(userId);
 
     const { count: totalLessons } = await supabase
       .from("lessons")
@@ -173,22 +153,22 @@ export default function ProfileScreen() {
       ? (completedLessons || 0) / totalLessons
       : 0;
 
-    let questQuery = supabase
-      .from("quests")
-      .select("*", { count: "exact", head: true });
-    if (userCrop)
-      questQuery = questQuery.or(
-        `target_crop.is.null,target_crop.eq.${userCrop}`,
-      );
-    else questQuery = questQuery.is("target_crop", null);
-
-    const { count: totalQuests } = await questQuery;
+    // Quests count for the current season
+    const season = await fetchCurrentSeason();
+    const { data: quests } = await filterByTargetCrop(
+      supabase.from("quests").select("id, season_id"),
+      userCrop,
+    );
+    const totalQuests = (quests || []).filter((q) =>
+      isQuestInSeason(q, season),
+    ).length;
     const { count: completedQuests } = await supabase
       .from("user_quests")
       .select("*", { count: "exact", head: true })
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .eq("season_id", season.id);
     const questsScore =
-      totalQuests && totalQuests > 0 ? (completedQuests || 0) / totalQuests : 0;
+      totalQuests > 0 ? (completedQuests || 0) / totalQuests : 0;
 
     const finalScore = Math.round(
       lessonsScore * 100 * 0.6 + questsScore * 100 * 0.4,
@@ -207,6 +187,9 @@ export default function ProfileScreen() {
     refreshing,
   } = useCachedQuery("profile_avatar_fixed", fetchProfileAndScore);
 
+  const farm = toFarmProfile(profile);
+  const isLinked = farm.status === "verified";
+
   // --- AVATAR PICKER LOGIC ---
   const pickAvatar = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -270,27 +253,28 @@ export default function ProfileScreen() {
     }
   };
 
-  const handleVerifyAgriStack = () => {
+  const handleVerifyAgriStack = async () => {
     const id = agriStackId.trim().toUpperCase();
     if (!id) return Alert.alert("Error", "Enter Valid ID");
     setIsVerifying(true);
-    setTimeout(() => {
-      setIsVerifying(false);
-      if (MOCK_DB[id]) {
-        setIsLinked(true);
-        setFetchedData(MOCK_DB[id]);
+    try {
+      // Looked up by the verify-agristack edge function and saved to the profile
+      const result = await verifyAgriStack(id);
+      if (result.status === "verified") {
+        setAgriStackId("");
         Alert.alert("Success", "AgriStack Verified!");
+      } else if (result.status === "taken") {
+        Alert.alert("Error", "This AgriStack ID is linked to another account.");
       } else {
-        setIsLinked(true);
-        setFetchedData({
-          landSize: "Unknown",
-          location: "Registered Farm",
-          soilType: "Standard",
-          primaryCrop: "Mixed",
-        });
-        Alert.alert("Notice", "ID Linked (Limited Data)");
+        Alert.alert("Not Found", "No farmer with this ID in AgriStack.");
       }
-    }, 1500);
+      await refresh();
+    } catch (error: any) {
+      console.error("AgriStack verify error:", error);
+      Alert.alert("Error", "Could not reach AgriStack. Try again later.");
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   return (
@@ -343,7 +327,10 @@ export default function ProfileScreen() {
             </Text>
             <View style={styles.roleBadge}>
               <Text style={styles.roleText}>
-                {profile?.selected_crop || "Mixed"} Farmer
+                {profile?.selected_crop
+                  ? cropName(crops, profile.selected_crop, language)
+                  : "Mixed"}{" "}
+                Farmer
               </Text>
             </View>
           </View>
@@ -415,10 +402,12 @@ export default function ProfileScreen() {
                 <Text style={styles.statusText}>LINKED</Text>
               </View>
             ) : (
-              <Text style={{ color: "#666", fontSize: 12 }}>Not Linked</Text>
+              <Text style={{ color: "#666", fontSize: 12 }}>
+                {farm.status === "not_found" ? "ID Not Found" : "Not Linked"}
+              </Text>
             )}
           </View>
-          {isLinked && fetchedData ? (
+          {isLinked ? (
             <View
               style={{
                 marginTop: 15,
@@ -428,11 +417,32 @@ export default function ProfileScreen() {
               }}
             >
               <Text style={{ color: "#DDD", fontSize: 12 }}>
-                • Land: {fetchedData.landSize}
+                • ID: {farm.agristackId}
+              </Text>
+              <Text style={{ color: "#DDD", fontSize: 12 }}>
+                • Land:{" "}
+                {farm.landSizeHectares != null
+                  ? `${farm.landSizeHectares} Hectares`
+                  : "Unknown"}
               </Text>
               <Text style={{ color: "#DDD", fontSize: 12 }}>
-                • Crop: {fetchedData.primaryCrop}
+                • Location:{" "}
+                {[farm.district, farm.state].filter(Boolean).join(", ") ||
+                  "Unknown"}
               </Text>
+              <Text style={{ color: "#DDD", fontSize: 12 }}>
+                • Soil: {farm.soilType || "Unknown"}
+              </Text>
+              <Text style={{ color: "#DDD", fontSize: 12 }}>
+                • Crops:{" "}
+                {farm.crops.map((c) => cropName(crops, c, language)).join(", ") ||
+                  "Mixed"}
+              </Text>
+              {farm.verifiedAt && (
+                <Text style={{ color: "#888", fontSize: 10, marginTop: 6 }}>
+                  Verified on {new Date(farm.verifiedAt).toLocaleDateString()}
+                </Text>
+              )}
             </View>
           ) : (
             <View style={styles.linkInputContainer}>
@@ -487,6 +497,20 @@ export default function ProfileScreen() {
             </Text>
             <FontAwesome5 name="chevron-right" size={12} color="#666" />
           </TouchableOpacity>
+          {Platform.OS === "web" && canEditContent(profile?.role) && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push("/admin")}
+            >
+              <View style={[styles.menuIcon, { backgroundColor: "#FFF8E1" }]}>
+                <FontAwesome5 name="edit" size={14} color="#FFA000" />
+              </View>
+              <Text style={styles.menuText}>
+                {t("content_admin") || "Content Admin"}
+              </Text>
+              <FontAwesome5 name="chevron-right" size={12} color="#666" />
+            </TouchableOpacity>
+          )}
         </View>
 
         <TouchableOpacity
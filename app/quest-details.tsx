@@ -1,8 +1,14 @@
 import { FontAwesome5 } from "@expo/vector-icons";
-import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import {
+    Stack,
+    useFocusEffect,
+    useLocalSearchParams,
+    useRouter,
+} from "expo-router";
+import React, { useCallback, useState } from "react";
 import {
     ActivityIndicator,
+    Alert,
     SafeAreaView,
     ScrollView,
     StyleSheet,
@@ -11,53 +17,189 @@ import {
     View,
 } from "react-native";
 
+import { useTranslation } from "@/hooks/useTranslation";
+import { localizeRow } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
+import { fetchQuestSubmissions, QuestSubmission } from "@/utils/questProof";
+import { fetchCurrentSeason, QuestSeason } from "@/utils/questSeasons";
+import {
+    activityOpensAt,
+    fetchQuestSteps,
+    fetchStepProgress,
+    QuestStep,
+} from "@/utils/questSteps";
 import { supabase } from "@/utils/supabase";
 import Qcoin from "../assets/images/Qcoin.svg";
 
-const QUEST_REWARD = 1000;
+const STEP_ICONS: Record<QuestStep["kind"], string> = {
+  lesson: "book-open",
+  question: "question",
+  photo: "camera",
+  activity: "seedling",
+};
 
 export default function QuestDetailsScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
+  const { t, language } = useTranslation();
 
   const [quest, setQuest] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [isCompleted, setIsCompleted] = useState(false);
+  const [submission, setSubmission] = useState<QuestSubmission | null>(null);
+  const [steps, setSteps] = useState<QuestStep[]>([]);
+  const [doneSteps, setDoneSteps] = useState<number[]>([]);
+  const [season, setSeason] = useState<QuestSeason | null>(null);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isLogging, setIsLogging] = useState(false);
 
-  useEffect(() => {
-    const fetchQuestAndStatus = async () => {
-      if (!id) return;
+  const fetchQuestAndStatus = useCallback(async () => {
+    if (!id) return;
 
-      const { data: sessionData } = await supabase.auth.getSession();
-      const userId = sessionData.session?.user?.id;
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user?.id;
+    setIsSignedIn(!!userId);
 
-      // 1. Fetch Quest Info
-      const { data: questData, error } = await supabase
-        .from("quests")
-        .select("*")
-        .eq("id", id)
-        .single();
+    // 1. Fetch Quest Info
+    const { data: questData } = await supabase
+      .from("quests")
+      .select("*")
+      .eq("id", id)
+      .single();
 
-      if (questData) {
-        setQuest({ ...questData, xp_reward: QUEST_REWARD });
-      }
+    if (questData) {
+      setQuest(localizeRow("quests", questData, language));
+    }
+    const questSteps = questData
+      ? await fetchQuestSteps(questData.id, language).catch(() => [])
+      : [];
+    setSteps(questSteps);
+
+    // 2. Check if completed this season
+    const season = await fetchCurrentSeason().catch(() => null);
+    setSeason(season);
+    if (userId) {
+      const { data: statusData } = season
+        ? await supabase
+            .from("user_quests")
+            .select("*")
+            .eq("user_id", userId)
+            .eq("quest_id", id)
+            .eq("season_id", season.id)
+            .maybeSingle()
+        : { data: null };
+
+      if (statusData) setIsCompleted(true);
+
+      // 3. Checklist: done steps, then check off any finished lessons that
+      // are next in line
+      let done: number[] = [];
+      if (season && questSteps.length > 0) {
+        const progress = await fetchStepProgress(userId, season.id).catch(
+          () => ({}) as Record<number, number[]>,
+        );
+        done = progress[questData.id] || [];
+
+        const lessonIds = questSteps
+          .filter((step) => step.kind === "lesson" && step.lessonId)
+          .map((step) => step.lessonId!);
+        const { data: lessonRows } = lessonIds.length
+          ? await supabase
+              .from("user_lessons")
+              .select("lesson_id")
+              .eq("user_id", userId)
+              .in("lesson_id", lessonIds)
+          : { data: [] };
+        const finishedLessons = (lessonRows || []).map((r) => r.lesson_id);
 
-      // 2. Check if completed
-      if (userId) {
-        const { data: statusData } = await supabase
-          .from("user_quests")
-          .select("*")
-          .eq("user_id", userId)
-          .eq("quest_id", id)
-          .maybeSingle();
+        for (const step of questSteps) {
+          if (done.includes(step.id)) continue;
+          if (step.kind !== "lesson" || !finishedLessons.includes(step.lessonId)) break;
+          try {
+            await sendOrQueue({ kind: "quest_step", questId: questData.id, stepId: step.id });
+            done = [...done, step.id];
+          } catch (e) {
+            console.warn("Lesson step not checked off:", e);
+            break;
+          }
+        }
+        if (done.length >= questSteps.length) setIsCompleted(true);
+      }
+      setDoneSteps(done);
 
-        if (statusData) setIsCompleted(true);
+      if (
+        questData?.proof_type === "photo" ||
+        questSteps.some((step) => step.kind === "photo")
+      ) {
+        const submissions = await fetchQuestSubmissions(userId).catch(
+          () => ({}) as Record<number, QuestSubmission>,
+        );
+        setSubmission(submissions[questData.id] ?? null);
       }
+    }
+
+    setLoading(false);
+  }, [id, language]);
+
+  // Reloaded on return from a lesson, the quiz or the camera
+  useFocusEffect(
+    useCallback(() => {
+      fetchQuestAndStatus();
+    }, [fetchQuestAndStatus]),
+  );
 
-      setLoading(false);
-    };
-    fetchQuestAndStatus();
-  }, [id]);
+  const nextStep = steps.find((step) => !doneSteps.includes(step.id));
+  const opensAt =
+    nextStep?.kind === "activity" && season
+      ? activityOpensAt(nextStep, season)
+      : null;
+  const activityLocked = !!opensAt && opensAt.getTime() > Date.now();
+
+  const handleStep = async (step: QuestStep) => {
+    if (!isSignedIn) {
+      Alert.alert(quest.title, t("quest_sign_in"));
+      return;
+    }
+
+    switch (step.kind) {
+      case "lesson":
+        router.push({
+          pathname: "/lesson/[id]",
+          params: { id: String(step.lessonId) },
+        });
+        break;
+      case "question":
+        router.push({
+          pathname: "/quest-quiz",
+          params: { id: quest.id, stepId: step.id },
+        });
+        break;
+      case "photo":
+        router.push({ pathname: "/quest-proof", params: { id: quest.id } });
+        break;
+      case "activity":
+        setIsLogging(true);
+        try {
+          const outcome = await sendOrQueue({
+            kind: "quest_step",
+            questId: quest.id,
+            stepId: step.id,
+          });
+          if (outcome.queued) {
+            Alert.alert(t("offline_mode"), t("step_queued"));
+          }
+          const done = [...doneSteps, step.id];
+          setDoneSteps(done);
+          if (done.length >= steps.length) setIsCompleted(true);
+        } catch (e: any) {
+          console.error("Activity step error:", e);
+          Alert.alert("Error", e.message || "An unexpected error occurred.");
+        } finally {
+          setIsLogging(false);
+        }
+        break;
+    }
+  };
 
   if (loading) {
     return (
@@ -123,6 +265,60 @@ export default function QuestDetailsScreen() {
           <Text style={styles.sectionHeader}>MISSION DETAILS</Text>
           <Text style={styles.description}>{quest.description}</Text>
         </View>
+
+        {steps.length > 0 && (
+          <View style={styles.infoSection}>
+            <Text style={styles.sectionHeader}>
+              {t("quest_tasks")} · {doneSteps.length}/{steps.length}
+            </Text>
+            {steps.map((step, index) => {
+              const done = isCompleted || doneSteps.includes(step.id);
+              const isNext = !isCompleted && step.id === nextStep?.id;
+              const inReview =
+                isNext &&
+                step.kind === "photo" &&
+                submission?.status === "pending_review";
+              return (
+                <View
+                  key={step.id}
+                  style={[
+                    styles.stepRow,
+                    isNext && styles.stepRowNext,
+                    done && styles.stepRowDone,
+                  ]}
+                >
+                  <View style={[styles.stepIcon, done && styles.stepIconDone]}>
+                    <FontAwesome5
+                      name={done ? "check" : isNext ? STEP_ICONS[step.kind] : "lock"}
+                      size={14}
+                      color={done ? "white" : isNext ? "#E1BEE7" : "#666"}
+                    />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.stepTitle, !done && !isNext && styles.stepTitleLocked]}>
+                      {index + 1}. {step.title || t(`step_${step.kind}`)}
+                    </Text>
+                    {inReview && (
+                      <Text style={styles.stepNote}>{t("proof_in_review")}</Text>
+                    )}
+                    {isNext && activityLocked && (
+                      <Text style={styles.stepNote}>
+                        {t("step_opens_on")} {opensAt!.toLocaleDateString(language)}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {!isCompleted && submission?.status === "rejected" && (
+          <View style={styles.reviewCard}>
+            <Text style={styles.sectionHeader}>{t("proof_rejected")}</Text>
+            <Text style={styles.description}>{submission.reviewComment}</Text>
+          </View>
+        )}
       </ScrollView>
 
       <View style={styles.footer}>
@@ -131,6 +327,56 @@ export default function QuestDetailsScreen() {
             <Text style={styles.btnText}>MISSION ACCOMPLISHED</Text>
             <FontAwesome5 name="check-circle" size={16} color="white" />
           </View>
+        ) : nextStep ? (
+          nextStep.kind === "photo" && submission?.status === "pending_review" ? (
+            <View style={styles.pendingButton}>
+              <Text style={styles.btnText}>{t("proof_in_review")}</Text>
+              <FontAwesome5 name="hourglass-half" size={14} color="white" />
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.startButton, activityLocked && styles.lockedButton]}
+              onPress={() => handleStep(nextStep)}
+              disabled={activityLocked || isLogging}
+              activeOpacity={0.8}
+            >
+              {isLogging ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Text style={styles.btnText}>
+                    {t(`step_action_${nextStep.kind}`)}
+                  </Text>
+                  <FontAwesome5
+                    name={STEP_ICONS[nextStep.kind]}
+                    size={14}
+                    color="white"
+                  />
+                </>
+              )}
+            </TouchableOpacity>
+          )
+        ) : submission?.status === "pending_review" ? (
+          <View style={styles.pendingButton}>
+            <Text style={styles.btnText}>{t("proof_in_review")}</Text>
+            <FontAwesome5 name="hourglass-half" size={14} color="white" />
+          </View>
+        ) : quest.proof_type === "photo" ? (
+          // Field task: finished with a photo an extension worker approves
+          <TouchableOpacity
+            style={styles.startButton}
+            onPress={() =>
+              router.push({ pathname: "/quest-proof", params: { id: quest.id } })
+            }
+            activeOpacity={0.8}
+          >
+            <Text style={styles.btnText}>
+              {submission?.status === "rejected"
+                ? t("proof_retake")
+                : t("proof_add_photo")}
+            </Text>
+            <FontAwesome5 name="camera" size={14} color="white" />
+          </TouchableOpacity>
         ) : (
           <TouchableOpacity
             style={styles.startButton}
@@ -252,6 +498,50 @@ const styles = StyleSheet.create({
     gap: 10,
     elevation: 5,
   },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#1E1E1E",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  stepRowNext: { borderColor: "#7B1FA2" },
+  stepRowDone: { backgroundColor: "#1B2E1B", borderColor: "#2E7D32" },
+  stepIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "rgba(123, 31, 162, 0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepIconDone: { backgroundColor: "#2E7D32" },
+  stepTitle: { color: "#E0E0E0", fontSize: 15, fontWeight: "bold" },
+  stepTitleLocked: { color: "#666" },
+  stepNote: { color: "#FFB74D", fontSize: 12, marginTop: 4 },
+  lockedButton: { backgroundColor: "#444" },
+  reviewCard: {
+    backgroundColor: "rgba(255, 82, 82, 0.1)",
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#FF5252",
+    marginBottom: 20,
+  },
+  pendingButton: {
+    backgroundColor: "#EF6C00",
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 10,
+    opacity: 0.8,
+  },
   completedButton: {
     backgroundColor: "#2E7D32",
     flexDirection: "row",
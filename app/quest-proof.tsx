@@ -0,0 +1,271 @@
+import { FontAwesome5 } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useTranslation } from "@/hooks/useTranslation";
+import { localizeRow } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
+import { keepProofPhoto, QuestProof } from "@/utils/questProof";
+import { supabase } from "@/utils/supabase";
+
+const PIXEL_FONT = "monospace";
+
+const fetchQuest = async (id: string, language: string) => {
+  const { data, error } = await supabase
+    .from("quests")
+    .select("*")
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  return localizeRow("quests", data, language);
+};
+
+// Photo proof for a field-task quest. The photo keeps its EXIF time and place
+// for the reviewer; offline it waits in the outbox and uploads later.
+export default function QuestProofScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
+
+  const { data: quest, loading } = useCachedQuery(
+    `quest_proof_${id}_${lang}`,
+    () => fetchQuest(id!, lang),
+  );
+
+  const [proof, setProof] = useState<QuestProof | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleTakePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert(t("proof_add_photo"), t("proof_camera_permission"));
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ["images"],
+      quality: 0.6,
+      exif: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    try {
+      setProof(await keepProofPhoto(parseInt(id!), result.assets[0]));
+    } catch (e: any) {
+      console.error("Proof photo not kept:", e);
+      Alert.alert("Error", e.message);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!proof) return;
+    setIsSubmitting(true);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      if (!sessionData.session) {
+        Alert.alert(t("proof_add_photo"), t("proof_sign_in"));
+        return;
+      }
+
+      const outcome = await sendOrQueue({ kind: "quest_proof", proof });
+      Alert.alert(
+        outcome.queued ? t("offline_mode") : t("proof_in_review"),
+        outcome.queued ? t("proof_queued") : t("proof_sent"),
+      );
+      router.replace("/quests");
+    } catch (e: any) {
+      console.error("Proof submit error:", e);
+      Alert.alert("Error", e.message || "An unexpected error occurred.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading || !quest) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#7B1FA2" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <FontAwesome5 name="arrow-left" size={20} color="white" />
+        </TouchableOpacity>
+
+        <Text style={styles.headerTitle}>{quest.title}</Text>
+        <Text style={styles.hint}>{t("proof_hint")}</Text>
+
+        <TouchableOpacity
+          style={styles.photoBox}
+          onPress={handleTakePhoto}
+          activeOpacity={0.8}
+        >
+          {proof ? (
+            <Image source={{ uri: proof.photoUri }} style={styles.photo} />
+          ) : (
+            <>
+              <FontAwesome5 name="camera" size={40} color="#B39DDB" />
+              <Text style={styles.photoBoxText}>{t("proof_add_photo")}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {proof && (
+          <View style={styles.metaCard}>
+            <View style={styles.metaRow}>
+              <FontAwesome5 name="clock" size={14} color="#888" />
+              <Text style={styles.metaText}>
+                {proof.takenAt
+                  ? new Date(proof.takenAt).toLocaleString()
+                  : t("proof_no_time")}
+              </Text>
+            </View>
+            <View style={styles.metaRow}>
+              <FontAwesome5 name="map-marker-alt" size={14} color="#888" />
+              <Text style={styles.metaText}>
+                {proof.latitude !== null && proof.longitude !== null
+                  ? `${proof.latitude.toFixed(4)}, ${proof.longitude.toFixed(4)}`
+                  : t("proof_no_location")}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleTakePhoto}>
+              <Text style={styles.retakeText}>{t("proof_retake")}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.submitButton, !proof && styles.submitDisabled]}
+          onPress={handleSubmit}
+          disabled={!proof || isSubmitting}
+          activeOpacity={0.8}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <>
+              <Text style={styles.btnText}>{t("proof_submit")}</Text>
+              <FontAwesome5 name="paper-plane" size={14} color="white" />
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#121212" },
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: "#121212",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollContent: { padding: 24, paddingBottom: 100 },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.1)",
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  headerTitle: {
+    color: "white",
+    fontSize: 24,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    marginBottom: 8,
+  },
+  hint: { color: "#B39DDB", fontSize: 14, lineHeight: 20, marginBottom: 24 },
+  photoBox: {
+    height: 280,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderStyle: "dashed",
+    borderColor: "#7B1FA2",
+    backgroundColor: "rgba(123, 31, 162, 0.1)",
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+    gap: 12,
+  },
+  photoBoxText: {
+    color: "#E1BEE7",
+    fontSize: 14,
+    fontWeight: "bold",
+    letterSpacing: 1,
+  },
+  photo: { width: "100%", height: "100%" },
+  metaCard: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: "#333",
+    gap: 10,
+  },
+  metaRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  metaText: { color: "#E0E0E0", fontSize: 14, fontFamily: PIXEL_FONT },
+  retakeText: {
+    color: "#B39DDB",
+    fontSize: 13,
+    fontWeight: "bold",
+    textAlign: "right",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: "#121212",
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+  },
+  submitButton: {
+    backgroundColor: "#7B1FA2",
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 10,
+  },
+  submitDisabled: { backgroundColor: "#444" },
+  btnText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "bold",
+    letterSpacing: 1,
+  },
+});
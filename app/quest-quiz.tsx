@@ -13,18 +13,18 @@ import {
     View,
 } from "react-native";
 
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
 import { useCachedQuery } from "@/hooks/useCachedQuery";
 import { useTranslation } from "@/hooks/useTranslation";
+import { localizeGroup, localizeRow } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
 import { supabase } from "@/utils/supabase";
 
 import QCoin from "../assets/images/Qcoin.svg";
 
 const PIXEL_FONT = "monospace";
 
-// Force 1000 XP constant
-const QUEST_REWARD = 1000;
-
-const fetchQuiz = async (id: string) => {
+const fetchQuiz = async (id: string, language: string) => {
   const { data, error } = await supabase
     .from("quests")
     .select("*")
@@ -32,19 +32,25 @@ const fetchQuiz = async (id: string) => {
     .single();
 
   if (error) throw error;
-  return { ...data, xp_reward: QUEST_REWARD }; // Visual Override
+  // The answer is compared as text, so it must come from the options' language
+  return localizeGroup(
+    localizeRow("quests", data, language),
+    ["quiz_question", "quiz_options", "correct_answer"],
+    language,
+  );
 };
 
 export default function QuizScreen() {
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
-  const { t } = useTranslation();
+  // stepId: answering the question step of a multi-step quest
+  const { id, stepId } = useLocalSearchParams<{ id: string; stepId?: string }>();
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
 
-  const {
-    data: quizData,
-    loading,
-    isOffline,
-  } = useCachedQuery(`quest_quiz_final_${id}`, () => fetchQuiz(id!));
+  const { data: quizData, loading } = useCachedQuery(
+    `quest_quiz_final_${id}_${lang}`,
+    () => fetchQuiz(id!, lang),
+  );
 
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -54,10 +60,6 @@ export default function QuizScreen() {
 
   const handleSubmit = async () => {
     if (!selectedAnswer || !quizData) return;
-    if (isOffline) {
-      Alert.alert("Offline", "Please connect to internet to complete quest.");
-      return;
-    }
 
     setIsSubmitting(true);
     const isCorrect = selectedAnswer === quizData.correct_answer;
@@ -71,46 +73,26 @@ export default function QuizScreen() {
         const userId = session.session?.user.id;
 
         if (userId) {
-          // --- STEP 1: MARK AS COMPLETE ---
-          // We insert into user_quests. If it fails, we catch the error.
-          const { error: insertError } = await supabase
-            .from("user_quests")
-            .insert({ user_id: userId, quest_id: quizData.id });
-
-          // If error is NOT "duplicate key" (code 23505), then it's a real error.
-          if (insertError && insertError.code !== "23505") {
-             console.error("Quest Insert Error:", insertError);
-             Alert.alert("Error Saving Quest", insertError.message);
-             setIsSubmitting(false);
-             return; 
-          }
-
-          // --- STEP 2: ADD COINS ---
-          // Only proceed if there was NO error, or if it was a duplicate (already done)
-          // We fetch the profile first to get the current balance.
-          const { data: profile, error: fetchError } = await supabase
-            .from("profiles")
-            .select("quest_coins")
-            .eq("id", userId)
-            .single();
-
-          if (fetchError) {
-             console.error("Profile Fetch Error:", fetchError);
-             // We don't stop here, but we warn.
-          } else {
-             const currentCoins = profile?.quest_coins || 0;
-             const newBalance = currentCoins + QUEST_REWARD;
-             
-             // Update the coins
-             const { error: updateError } = await supabase
-               .from("profiles")
-               .update({ quest_coins: newBalance })
-               .eq("id", userId);
-
-             if (updateError) {
-                 console.error("Coin Update Error:", updateError);
-                 Alert.alert("Error Adding Coins", updateError.message);
-             }
+          // Marks the quest complete and credits quest coins once (server-side ledger).
+          // Re-submitting an already completed quest is a no-op.
+          // Offline, the completion is queued and synced later.
+          const outcome = await sendOrQueue(
+            stepId
+              ? {
+                  kind: "quest_step",
+                  questId: quizData.id,
+                  stepId: parseInt(stepId),
+                  answer: selectedAnswer,
+                }
+              : {
+                  kind: "quest_complete",
+                  questId: quizData.id,
+                  answer: selectedAnswer,
+                  reward: quizData.xp_reward,
+                },
+          );
+          if (outcome.queued) {
+            Alert.alert(t("offline_mode"), t("quest_saved_offline"));
           }
         }
       } catch (err: any) {
@@ -123,7 +105,8 @@ export default function QuizScreen() {
 
   const handleContinue = () => {
     if (resultState === "correct") {
-      router.replace("/quests"); // Go back to list
+      if (stepId) router.back(); // Back to the checklist
+      else router.replace("/quests"); // Go back to list
     } else {
       setResultState("none");
       setSelectedAnswer(null);
@@ -149,7 +132,7 @@ export default function QuizScreen() {
           </Text>
           <View style={styles.xpTag}>
             <QCoin width={16} height={16} />
-            <Text style={styles.xpText}>+{QUEST_REWARD} QP</Text>
+            <Text style={styles.xpText}>+{quizData.xp_reward} QP</Text>
           </View>
         </View>
 
@@ -190,7 +173,7 @@ export default function QuizScreen() {
                 onPress={() =>
                   resultState === "none" && setSelectedAnswer(option)
                 }
-                disabled={resultState !== "none" || isOffline}
+                disabled={resultState !== "none"}
                 activeOpacity={0.8}
               >
                 <FontAwesome5
@@ -0,0 +1,257 @@
+import { FontAwesome5 } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useTranslation } from "@/hooks/useTranslation";
+import {
+  fetchCurrentSeason,
+  fetchSeasons,
+  fetchSeasonStandings,
+  seasonLabel,
+  seasonTimeLeft,
+} from "@/utils/questSeasons";
+import { supabase } from "@/utils/supabase";
+
+import Qcoin from "../assets/images/Qcoin.svg";
+
+const PIXEL_FONT = "monospace";
+
+// --- FETCHER ---
+// The current season plus the archive of closed ones, and the board of the
+// one being looked at
+const fetchSeasonData = async (seasonId: number | null) => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const [current, seasons] = await Promise.all([
+    fetchCurrentSeason(),
+    fetchSeasons(),
+  ]);
+  const archive = seasons.filter((s) => s.closedAt);
+  const season =
+    seasons.find((s) => s.id === seasonId) ??
+    seasons.find((s) => s.id === current.id) ??
+    current;
+  const standings = await fetchSeasonStandings(season);
+
+  return {
+    current,
+    archive,
+    season,
+    standings,
+    userId: sessionData.session?.user?.id ?? null,
+  };
+};
+
+export default function QuestSeasonScreen() {
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
+  const [seasonId, setSeasonId] = useState<number | null>(null);
+
+  const { data, loading, isOffline, refresh, refreshing } = useCachedQuery(
+    `quest_season_v1_${seasonId ?? "current"}`,
+    () => fetchSeasonData(seasonId),
+  );
+
+  if (loading && !data) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#7B1FA2" />
+      </SafeAreaView>
+    );
+  }
+
+  const seasons = data ? [data.current, ...data.archive] : [];
+  const isCurrent = !!data && data.season.id === data.current.id;
+  const timeLeft = data && isCurrent ? seasonTimeLeft(data.season) : null;
+  const myStanding = data?.standings.find((s) => s.userId === data.userId);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor="#7B1FA2"
+          />
+        }
+      >
+        {isOffline && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t("offline_mode")}</Text>
+          </View>
+        )}
+
+        {/* --- SEASON PICKER --- */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {seasons.map((season) => {
+            const active = season.id === data?.season.id;
+            return (
+              <TouchableOpacity
+                key={season.id}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() =>
+                  setSeasonId(season.id === data?.current.id ? null : season.id)
+                }
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {seasonLabel(season, lang)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {data && (
+          <View style={styles.seasonCard}>
+            <Text style={styles.seasonTitle}>
+              {seasonLabel(data.season, lang)}
+            </Text>
+            <Text style={styles.seasonSub}>
+              {timeLeft
+                ? `${t("season_ends_in")} ${timeLeft}`
+                : t("season_ended")}
+            </Text>
+            {myStanding && (
+              <Text style={styles.myRank}>
+                #{myStanding.rank} · {myStanding.questCoins.toLocaleString()} QP
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* --- STANDINGS --- */}
+        {data?.standings.map((standing) => (
+          <View
+            key={standing.userId}
+            style={[
+              styles.row,
+              standing.userId === data.userId && styles.rowMine,
+            ]}
+          >
+            <Text
+              style={[styles.rank, standing.rank <= 3 && styles.rankTop]}
+            >
+              {standing.rank}
+            </Text>
+            <Text style={styles.name} numberOfLines={1}>
+              {standing.fullName || "Farmer"}
+            </Text>
+            <View style={styles.coins}>
+              <Qcoin width={14} height={14} />
+              <Text style={styles.coinsText}>
+                {standing.questCoins.toLocaleString()}
+              </Text>
+            </View>
+          </View>
+        ))}
+
+        {data?.standings.length === 0 && (
+          <View style={styles.empty}>
+            <FontAwesome5 name="trophy" size={32} color="#555" />
+            <Text style={styles.emptyText}>{t("season_no_standings")}</Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#121212" },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#121212",
+  },
+  scrollContent: { padding: 20, paddingBottom: 50 },
+  offlineBanner: {
+    backgroundColor: "#C62828",
+    padding: 5,
+    alignItems: "center",
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  offlineText: { color: "white", fontWeight: "bold" },
+
+  chipRow: { gap: 8, paddingBottom: 16 },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: "#1E1E1E",
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  chipActive: { backgroundColor: "#7B1FA2", borderColor: "#B39DDB" },
+  chipText: { color: "#AAA", fontSize: 12 },
+  chipTextActive: { color: "white", fontWeight: "bold" },
+
+  seasonCard: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: "#7B1FA2",
+    alignItems: "center",
+  },
+  seasonTitle: {
+    color: "white",
+    fontSize: 22,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  seasonSub: { color: "#B39DDB", fontSize: 13, marginTop: 6 },
+  myRank: {
+    color: "#FFD700",
+    fontSize: 16,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    marginTop: 12,
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1E1E1E",
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#333",
+    gap: 12,
+  },
+  rowMine: { borderColor: "#B39DDB", backgroundColor: "#2A1F33" },
+  rank: {
+    color: "#888",
+    fontSize: 16,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+    width: 32,
+    textAlign: "center",
+  },
+  rankTop: { color: "#FFD700" },
+  name: { flex: 1, color: "white", fontSize: 15, fontWeight: "bold" },
+  coins: { flexDirection: "row", alignItems: "center", gap: 6 },
+  coinsText: { color: "#E1BEE7", fontWeight: "bold", fontFamily: PIXEL_FONT },
+
+  empty: { alignItems: "center", marginTop: 40, gap: 12 },
+  emptyText: { color: "#666", textAlign: "center" },
+});
@@ -1,6 +1,6 @@
 import { FontAwesome5 } from "@expo/vector-icons";
 import { useFocusEffect, useRouter } from "expo-router";
-import React, { useCallback } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   ActivityIndicator,
   RefreshControl,
@@ -12,52 +12,59 @@ import {
   View,
 } from "react-native";
 
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
 import { useCachedQuery } from "@/hooks/useCachedQuery";
 import { useTranslation } from "@/hooks/useTranslation";
+import { fetchUserCropId, filterByTargetCrop } from "@/utils/crops";
+import { localizeRows, reportMissingTranslations } from "@/utils/localize";
+import { fetchQuestSubmissions, QuestSubmission } from "@/utils/questProof";
+import {
+  fetchCurrentSeason,
+  isQuestInSeason,
+  seasonLabel,
+  seasonTimeLeft,
+} from "@/utils/questSeasons";
+import { fetchStepCounts, fetchStepProgress } from "@/utils/questSteps";
 import { supabase } from "@/utils/supabase";
 
 import Qcoin from "../assets/images/Qcoin.svg";
 
 const PIXEL_FONT = "monospace";
-const QUEST_REWARD = 1000;
 
 // --- FETCHER ---
-const fetchQuestsData = async () => {
+const fetchQuestsData = async (language: string) => {
   const { data: sessionData } = await supabase.auth.getSession();
   const userId = sessionData.session?.user?.id;
+  const season = await fetchCurrentSeason();
 
-  // 1. Get User Crop
-  let userCrop = null;
-  if (userId) {
-    const { data: p } = await supabase
-      .from("profiles")
-      .select("selected_crop")
-      .eq("id", userId)
-      .single();
-    userCrop = p?.selected_crop;
-  }
+  // 1. Get User Crop (must be an active catalogue crop)
+  const userCrop = userId ? await fetchUserCropId(userId) : null;
 
   // 2. Fetch Filtered Quests (Generic OR Specific)
-  let query = supabase.from("quests").select("*").order("id");
-
-  if (userCrop) {
-    query = query.or(`target_crop.is.null,target_crop.eq.${userCrop}`);
-  } else {
-    query = query.is("target_crop", null);
-  }
-
-  const { data: questsData, error } = await query;
+  const { data: questsData, error } = await filterByTargetCrop(
+    supabase.from("quests").select("*").order("id"),
+    userCrop,
+  );
   if (error) throw error;
+  reportMissingTranslations("quests", questsData || [], language);
+
+  const seasonQuests = (questsData || []).filter((q) =>
+    isQuestInSeason(q, season),
+  );
 
-  // 3. Check Completion
+  // 3. Check Completion (this season)
   let completedIds = new Set();
   let userCoins = 0;
+  let submissions: Record<number, QuestSubmission> = {};
+  let doneSteps: Record<number, number[]> = {};
+  const stepCounts = await fetchStepCounts();
 
   if (userId) {
     const { data: uq } = await supabase
       .from("user_quests")
       .select("quest_id")
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .eq("season_id", season.id);
     uq?.forEach((i) => completedIds.add(i.quest_id));
 
     const { data: p } = await supabase
@@ -66,24 +73,34 @@ const fetchQuestsData = async () => {
       .eq("id", userId)
       .single();
     userCoins = p?.quest_coins || 0;
+
+    // Photo quests: latest proof and its review
+    submissions = await fetchQuestSubmissions(userId);
+
+    // Multi-step quests: checklist progress this season
+    doneSteps = await fetchStepProgress(userId, season.id);
   }
 
-  const finalQuests = (questsData || []).map((q) => ({
+  const finalQuests = localizeRows("quests", seasonQuests, language).map((q) => ({
     ...q,
-    xp_reward: QUEST_REWARD,
     isCompleted: completedIds.has(q.id),
+    stepCount: stepCounts[q.id] || 0,
+    doneSteps: doneSteps[q.id] || [],
+    proofStatus: submissions[q.id]?.status ?? null,
+    reviewComment: submissions[q.id]?.reviewComment ?? null,
   }));
 
-  return { quests: finalQuests, userCoins };
+  return { quests: finalQuests, userCoins, season };
 };
 
 export default function QuestsScreen() {
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
+  const lang = language || DEFAULT_LANGUAGE;
 
   const { data, loading, isOffline, refresh, refreshing } = useCachedQuery(
-    "quests_page_clean_v1",
-    fetchQuestsData,
+    `quests_page_clean_v1_${lang}`,
+    () => fetchQuestsData(lang),
   );
 
   useFocusEffect(
@@ -94,6 +111,15 @@ export default function QuestsScreen() {
 
   const quests = data?.quests || [];
   const userCoins = data?.userCoins || 0;
+  const season = data?.season;
+
+  // Countdown; also runs offline from the cached season
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+  const timeLeft = season ? seasonTimeLeft(season, now) : null;
 
   if (loading && !data) {
     return (
@@ -127,7 +153,9 @@ export default function QuestsScreen() {
             <Text style={styles.headerTitle}>
               {t("monthly_quests") || "QUESTS"}
             </Text>
-            <Text style={styles.headerSub}>Complete tasks to earn coins</Text>
+            <Text style={styles.headerSub}>
+              {season ? seasonLabel(season, lang) : "Complete tasks to earn coins"}
+            </Text>
           </View>
           <View style={styles.coinBadge}>
             <Qcoin width={18} height={18} />
@@ -135,6 +163,24 @@ export default function QuestsScreen() {
           </View>
         </View>
 
+        {/* --- SEASON --- */}
+        {season && (
+          <TouchableOpacity
+            style={styles.seasonBar}
+            onPress={() => router.push("/quest-season" as any)}
+            activeOpacity={0.7}
+          >
+            <FontAwesome5 name="hourglass-half" size={14} color="#B39DDB" />
+            <Text style={styles.seasonText}>
+              {timeLeft
+                ? `${t("season_ends_in")} ${timeLeft}`
+                : t("season_ended")}
+            </Text>
+            <Text style={styles.seasonLink}>{t("season_standings")}</Text>
+            <FontAwesome5 name="chevron-right" size={12} color="#B39DDB" />
+          </TouchableOpacity>
+        )}
+
         {/* --- QUEST LIST --- */}
         {quests.map((quest) => (
           <TouchableOpacity
@@ -183,14 +229,43 @@ export default function QuestsScreen() {
               <Text style={styles.cardDesc} numberOfLines={1}>
                 {quest.isCompleted
                   ? "Completed on " + new Date().toLocaleDateString()
-                  : quest.description}
+                  : quest.proofStatus === "rejected" && quest.reviewComment
+                    ? quest.reviewComment
+                    : quest.description}
               </Text>
+              {!quest.isCompleted && quest.stepCount > 0 && (
+                <View style={styles.stepsRow}>
+                  <View style={styles.stepsTrack}>
+                    <View
+                      style={[
+                        styles.stepsFill,
+                        {
+                          width: `${(quest.doneSteps.length / quest.stepCount) * 100}%`,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.stepsText}>
+                    {quest.doneSteps.length}/{quest.stepCount}
+                  </Text>
+                </View>
+              )}
             </View>
 
             {/* Right Side */}
-            {!quest.isCompleted && (
+            {!quest.isCompleted && quest.proofStatus === "pending_review" ? (
+              <View style={[styles.rewardPill, styles.reviewPill]}>
+                <FontAwesome5 name="hourglass-half" size={10} color="#FFB74D" />
+                <Text style={styles.reviewText}>{t("proof_in_review")}</Text>
+              </View>
+            ) : !quest.isCompleted && quest.proofStatus === "rejected" ? (
+              <View style={[styles.rewardPill, styles.rejectedPill]}>
+                <FontAwesome5 name="redo" size={10} color="#FF5252" />
+                <Text style={styles.rejectedText}>{t("proof_retake")}</Text>
+              </View>
+            ) : !quest.isCompleted && (
               <View style={styles.rewardPill}>
-                <Text style={styles.rewardText}>+{QUEST_REWARD}</Text>
+                <Text style={styles.rewardText}>+{quest.xp_reward}</Text>
               </View>
             )}
           </TouchableOpacity>
@@ -238,6 +313,26 @@ const styles = StyleSheet.create({
   },
   headerSub: { color: "#888", fontSize: 12, marginTop: 4 },
 
+  seasonBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "rgba(123, 31, 162, 0.15)",
+    borderWidth: 1,
+    borderColor: "#7B1FA2",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 20,
+  },
+  seasonText: {
+    flex: 1,
+    color: "#E1BEE7",
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
+  seasonLink: { color: "#B39DDB", fontSize: 12, fontWeight: "bold" },
+
   coinBadge: {
     flexDirection: "row",
     alignItems: "center",
@@ -293,6 +388,27 @@ const styles = StyleSheet.create({
   },
   cardDesc: { color: "#888", fontSize: 12 },
   textCompleted: { color: "#81C784", textDecorationLine: "line-through" },
+  stepsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+    marginRight: 10,
+  },
+  stepsTrack: {
+    flex: 1,
+    height: 6,
+    backgroundColor: "#333",
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  stepsFill: { height: "100%", backgroundColor: "#B39DDB" },
+  stepsText: {
+    color: "#B39DDB",
+    fontSize: 11,
+    fontWeight: "bold",
+    fontFamily: PIXEL_FONT,
+  },
 
   rewardPill: {
     backgroundColor: "rgba(255, 215, 0, 0.15)",
@@ -301,6 +417,20 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
   rewardText: { color: "#FFD700", fontSize: 12, fontWeight: "bold" },
+  reviewPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(255, 183, 77, 0.15)",
+  },
+  reviewText: { color: "#FFB74D", fontSize: 11, fontWeight: "bold" },
+  rejectedPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "rgba(255, 82, 82, 0.15)",
+  },
+  rejectedText: { color: "#FF5252", fontSize: 11, fontWeight: "bold" },
 
   emptyText: { color: "#666", textAlign: "center", marginTop: 40 },
 });
@@ -1,5 +1,5 @@
 import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -12,17 +12,107 @@ import {
   View,
 } from "react-native";
 
+import NarrationBar from "@/components/NarrationBar";
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useNarration } from "@/hooks/useNarration";
 import { useTranslation } from "@/hooks/useTranslation";
+import { recordGuestLesson } from "@/utils/guestProgress";
+import {
+  getLessonDownload,
+  LessonDownload,
+  narrationUrl,
+  pickLessonMedia,
+} from "@/utils/lessonMedia";
+import { localizedValue, reportMissingTranslations } from "@/utils/localize";
+import { sendOrQueue } from "@/utils/outbox";
+import { QuizAttempt } from "@/utils/review";
 import { supabase } from "@/utils/supabase";
 
 // 1. UPDATED INTERFACE: Uses 'correctOptionIndex' (number) instead of text
-interface QuizData {
+interface QuizQuestion {
   id: number;
   question: string;
   options: string[];
   correctOptionIndex: number;
+  explanation: string | null;
+  narration: string | null; // recording URL in this language, if uploaded
+}
+
+// A lesson quiz is N questions (ordered by `position`) plus its pass threshold
+interface QuizData {
+  lessonId: number;
+  points: number;
+  passPercentage: number;
+  questions: QuizQuestion[];
 }
 
+// Cached so the quiz can still be taken offline (completion goes to the outbox)
+const fetchQuiz = async (
+  idStr: string,
+  language: string,
+): Promise<QuizData | null> => {
+  const lessonId = parseInt(idStr);
+
+  const [quizRes, lessonRes] = await Promise.all([
+    supabase
+      .from("lesson_quizzes")
+      .select("*")
+      .eq("lesson_id", lessonId)
+      .order("position", { ascending: true })
+      .order("id", { ascending: true }),
+    supabase
+      .from("lessons")
+      .select("points, pass_percentage")
+      .eq("id", lessonId)
+      .maybeSingle(),
+  ]);
+
+  if (quizRes.error) throw quizRes.error;
+  if (lessonRes.error) throw lessonRes.error;
+  if (!quizRes.data || quizRes.data.length === 0) {
+    console.warn("No quiz found for this lesson.");
+    return null;
+  }
+  reportMissingTranslations("lesson_quizzes", quizRes.data, language);
+
+  return {
+    lessonId,
+    points: lessonRes.data?.points || 0,
+    passPercentage: lessonRes.data?.pass_percentage ?? 70,
+    // 4. FALLBACK: Translated columns resolve via utils/localize.ts
+    questions: quizRes.data.map((row: any) => ({
+      id: row.id,
+      question: localizedValue(row, "question", language) || "",
+      options: localizedValue<string[]>(row, "options", language) || [],
+      // 5. CORRECTNESS: Use the numeric index from DB
+      correctOptionIndex: row.correct_option_index,
+      explanation: localizedValue(row, "explanation", language) || null,
+      narration: narrationUrl(row, language),
+    })),
+  };
+};
+
+// Every answer is stored, right or wrong; missed questions come back in the
+// Review session. Guests have no account to review from.
+const sendAttempts = async (attempts: QuizAttempt[]) => {
+  if (attempts.length === 0) return;
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) return;
+  try {
+    await sendOrQueue({
+      kind: "quiz_attempts",
+      source: "lesson",
+      answers: attempts,
+    });
+  } catch (error) {
+    console.error("Quiz attempts not saved:", error);
+  }
+};
+
+const scorePercent = (correct: number, total: number) =>
+  total > 0 ? Math.round((correct * 100) / total) : 0;
+
 export default function QuizScreen() {
   const router = useRouter();
 
@@ -31,58 +121,41 @@ export default function QuizScreen() {
 
   const { id } = useLocalSearchParams<{ id: string }>();
 
-  const [quiz, setQuiz] = useState<QuizData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  // Re-fetches if language changes (the key changes)
+  const { data: quiz, loading, isOffline } = useCachedQuery(
+    `lesson_quiz_${id}_${language || DEFAULT_LANGUAGE}`,
+    () => fetchQuiz(id!, language || DEFAULT_LANGUAGE),
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [answerStatus, setAnswerStatus] = useState<
     "correct" | "incorrect" | null
   >(null);
+  const [showResults, setShowResults] = useState(false);
   const [shakeAnimation] = useState(new Animated.Value(0));
   const [isSaving, setIsSaving] = useState(false);
+  const [download, setDownload] = useState<LessonDownload | null>(null);
+  const attemptsRef = useRef<QuizAttempt[]>([]); // this run, not yet sent
 
+  // Answers given before leaving mid-quiz still count
   useEffect(() => {
-    fetchQuizData();
-  }, [id, language]); // Re-fetch if language changes
-
-  const fetchQuizData = async () => {
-    try {
-      if (!id) return;
-      const lessonId = parseInt(id);
-
-      // 3. LOGIC: Check appropriate column based on language
-      const langSuffix =
-        language === "hi" ? "_hi" : language === "pa" ? "_pa" : "";
-
-      const { data: quizData, error } = await supabase
-        .from("lesson_quizzes")
-        .select("*")
-        .eq("lesson_id", lessonId)
-        .single();
-
-      if (error || !quizData) {
-        console.warn("No quiz found or error fetching.");
-      } else {
-        // 4. FALLBACK: Use translated text if available, otherwise default
-        const questionText =
-          quizData[`question${langSuffix}`] || quizData["question"];
-        const optionsList =
-          quizData[`options${langSuffix}`] || quizData["options"];
-
-        setQuiz({
-          id: quizData.id,
-          question: questionText,
-          options: optionsList || [],
-          // 5. CORRECTNESS: Use the numeric index from DB
-          correctOptionIndex: quizData.correct_option_index,
-        });
-      }
-    } catch (err) {
-      console.error("Error fetching quiz:", err);
-    } finally {
-      setLoading(false);
-    }
+    const pending = attemptsRef;
+    return () => {
+      sendAttempts(pending.current);
+    };
+  }, []);
+
+  const flushAttempts = () => {
+    sendAttempts(attemptsRef.current);
+    attemptsRef.current = [];
   };
 
+  // Question recordings saved with "Download for offline" on the lesson
+  useEffect(() => {
+    if (id) getLessonDownload(parseInt(id)).then(setDownload);
+  }, [id]);
+
   const startShake = () => {
     shakeAnimation.setValue(0);
     Animated.spring(shakeAnimation, {
@@ -94,7 +167,46 @@ export default function QuizScreen() {
     }).start(() => shakeAnimation.setValue(0));
   };
 
-  const saveProgress = async () => {
+  const questions = quiz?.questions || [];
+  const total = questions.length;
+  const correctCount = answers.filter(
+    (answer, i) => answer === questions[i]?.correctOptionIndex,
+  ).length;
+  const score = scorePercent(correctCount, total);
+  const passed = !!quiz && score >= quiz.passPercentage;
+
+  // Narrates the question, then each option (segment 1 + option index)
+  const currentQuestion = questions[currentIndex];
+  const narrationSegments = useMemo(
+    () =>
+      currentQuestion
+        ? [currentQuestion.question, ...currentQuestion.options]
+        : [],
+    [currentQuestion],
+  );
+  const narration = useNarration({
+    segments: narrationSegments,
+    language: language || DEFAULT_LANGUAGE,
+    audio: currentQuestion
+      ? pickLessonMedia(
+          download,
+          `quiz_${currentQuestion.id}`,
+          currentQuestion.narration,
+          isOffline,
+        )
+      : null,
+  });
+
+  const resetQuiz = () => {
+    setAnswers([]);
+    setCurrentIndex(0);
+    setSelectedIndex(null);
+    setAnswerStatus(null);
+    setShowResults(false);
+  };
+
+  // `quizAnswers` is omitted only for lessons that have no quiz rows
+  const saveProgress = async (quizAnswers?: number[]) => {
     if (isSaving || !id) return;
     setIsSaving(true);
 
@@ -102,46 +214,58 @@ export default function QuizScreen() {
       const { data: sessionData } = await supabase.auth.getSession();
       const userId = sessionData.session?.user.id;
       const lessonId = parseInt(id);
+      // What the server will credit for this score (used while offline)
+      let coins = quiz ? Math.round((quiz.points * score) / 100) : undefined;
 
       if (userId) {
-        const { data: lessonData } = await supabase
-          .from("lessons")
-          .select("points")
-          .eq("id", lessonId)
-          .single();
-
-        const pointsAwarded = lessonData?.points || 100;
-
-        const { error: lessonError } = await supabase
-          .from("user_lessons")
-          .upsert(
-            {
-              user_id: userId,
-              lesson_id: lessonId,
-              completed_at: new Date().toISOString(),
-            },
-            { onConflict: "user_id,lesson_id" },
-          );
-
-        if (lessonError) throw lessonError;
-
-        const { data: profile } = await supabase
-          .from("profiles")
-          .select("coins, xp")
-          .eq("id", userId)
-          .single();
-
-        if (profile) {
-          const newCoins = (profile.coins || 0) + pointsAwarded;
-          const newXP = (profile.xp || 0) + 50;
-
-          await supabase
-            .from("profiles")
-            .update({ coins: newCoins, xp: newXP })
-            .eq("id", userId);
+        // The server re-grades the answers, marks the lesson complete and
+        // credits coins/XP once. Offline, the attempt is queued and replayed.
+        const outcome = await sendOrQueue({
+          kind: "lesson_complete",
+          lessonId,
+          via: "quiz",
+          points: coins,
+          ...(quizAnswers && { answers: quizAnswers }),
+        });
+
+        if (!outcome.queued && "correct" in outcome.result) {
+          if (!outcome.result.passed) {
+            // Quiz changed since it was cached; the server score wins
+            Alert.alert(
+              t("try_again"),
+              `${outcome.result.correct}/${outcome.result.total}`,
+            );
+            resetQuiz();
+            setIsSaving(false);
+            return;
+          }
+          coins = outcome.result.coins_awarded;
         }
+      } else {
+        // Guests keep their progress on the device until they sign up / log in
+        await recordGuestLesson({
+          lessonId,
+          via: "quiz",
+          coins: coins ?? 0,
+          ...(quizAnswers && {
+            answers: quizAnswers,
+            correct: correctCount,
+            total,
+          }),
+        });
       }
-      router.push({ pathname: "/complete/[id]", params: { id: id } });
+
+      router.push({
+        pathname: "/complete/[id]",
+        params: quizAnswers
+          ? {
+              id: id,
+              correct: String(correctCount),
+              total: String(total),
+              coins: String(coins ?? 0),
+            }
+          : { id: id },
+      });
     } catch (error: any) {
       console.error("Save Progress Error:", error);
       Alert.alert("Error", "Could not save progress.");
@@ -150,24 +274,31 @@ export default function QuizScreen() {
   };
 
   const handleCheckAnswer = () => {
-    if (!selectedAnswer || !quiz) return;
-
-    // 6. CHECK: Compare the index of the selected string with the correct index
-    const selectedIndex = quiz.options.indexOf(selectedAnswer);
-    const isCorrect = selectedIndex === quiz.correctOptionIndex;
-
+    const current = questions[currentIndex];
+    if (selectedIndex === null || !current) return;
+
+    // 6. CHECK: Compare the selected index with the correct index
+    const isCorrect = selectedIndex === current.correctOptionIndex;
+
+    attemptsRef.current.push({
+      questionId: current.id,
+      chosenIndex: selectedIndex,
+      isCorrect,
+      answeredAt: new Date().toISOString(),
+    });
+    setAnswers((prev) => [...prev, selectedIndex]);
     setAnswerStatus(isCorrect ? "correct" : "incorrect");
+    if (!isCorrect) startShake();
+  };
 
-    if (isCorrect) {
-      setTimeout(() => {
-        saveProgress();
-      }, 1000);
+  const handleNext = () => {
+    setSelectedIndex(null);
+    setAnswerStatus(null);
+    if (currentIndex + 1 < total) {
+      setCurrentIndex(currentIndex + 1);
     } else {
-      startShake();
-      setTimeout(() => {
-        setAnswerStatus(null);
-        setSelectedAnswer(null);
-      }, 1500);
+      setShowResults(true);
+      flushAttempts();
     }
   };
 
@@ -191,6 +322,19 @@ export default function QuizScreen() {
     );
   }
 
+  // Never opened online before, so there is nothing cached to show
+  if (!quiz && isOffline) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.loadingContainer}>
+          <Text style={{ color: "white", textAlign: "center", fontSize: 18 }}>
+            {t("offline_mode")}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   if (!quiz) {
     return (
       <SafeAreaView style={styles.safeArea}>
@@ -205,7 +349,10 @@ export default function QuizScreen() {
           >
             No quiz required for this lesson.
           </Text>
-          <TouchableOpacity style={styles.confirmButton} onPress={saveProgress}>
+          <TouchableOpacity
+            style={[styles.confirmButton, styles.confirmButtonActive]}
+            onPress={() => saveProgress()}
+          >
             <Text style={styles.confirmButtonText}>Complete Lesson</Text>
           </TouchableOpacity>
         </View>
@@ -213,22 +360,96 @@ export default function QuizScreen() {
     );
   }
 
+  // --- FINAL SCORE ---
+  if (showResults) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <View style={styles.resultCard}>
+            <Text style={styles.resultLabel}>YOUR SCORE</Text>
+            <Text
+              style={[
+                styles.resultScore,
+                passed ? styles.feedbackCorrect : styles.feedbackIncorrect,
+              ]}
+            >
+              {score}%
+            </Text>
+            <Text style={styles.resultDetail}>
+              {correctCount}/{total} correct
+            </Text>
+            <Text style={styles.resultDetail}>
+              Pass mark: {quiz.passPercentage}%
+            </Text>
+            <Text
+              style={[
+                styles.feedbackText,
+                passed ? styles.feedbackCorrect : styles.feedbackIncorrect,
+                { marginTop: 20 },
+              ]}
+            >
+              {passed ? t("excellent_work") : t("try_again")}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, styles.confirmButtonActive]}
+            onPress={() => (passed ? saveProgress(answers) : resetQuiz())}
+          >
+            <Text style={styles.confirmButtonText}>
+              {passed ? "FINISH LESSON" : "TRY AGAIN"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const current = questions[currentIndex];
+  const isLast = currentIndex + 1 === total;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView contentContainerStyle={styles.container}>
-        <Text style={styles.question}>{quiz.question}</Text>
+        {/* Progress */}
+        <View style={styles.progressHeader}>
+          <Text style={styles.progressLabel}>
+            QUESTION {currentIndex + 1}/{total}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${((currentIndex + (answerStatus ? 1 : 0)) / total) * 100}%`,
+                },
+              ]}
+            />
+          </View>
+        </View>
+
+        <NarrationBar narration={narration} />
+
+        <Text
+          style={[
+            styles.question,
+            narration.activeIndex === 0 && styles.readAlong,
+          ]}
+        >
+          {current.question}
+        </Text>
 
         <View style={styles.gridContainer}>
-          {quiz.options.map((option: string, index: number) => {
-            const isSelected = selectedAnswer === option;
+          {current.options.map((option: string, index: number) => {
+            const isSelected = selectedIndex === index;
 
             // 7. RENDER CHECK: Compare INDEX, not string
-            const isCorrect = index === quiz.correctOptionIndex;
+            const isCorrect = index === current.correctOptionIndex;
 
             const buttonStyle = [
               styles.optionButton,
               isSelected && styles.optionButtonSelected,
-              answerStatus === "correct" && isCorrect && styles.optionCorrect,
+              !!answerStatus && isCorrect && styles.optionCorrect,
               answerStatus === "incorrect" &&
                 isSelected &&
                 styles.optionIncorrect,
@@ -246,10 +467,17 @@ export default function QuizScreen() {
               >
                 <TouchableOpacity
                   style={buttonStyle}
-                  onPress={() => !answerStatus && setSelectedAnswer(option)}
+                  onPress={() => !answerStatus && setSelectedIndex(index)}
                   disabled={!!answerStatus}
                 >
-                  <Text style={styles.optionText}>{option}</Text>
+                  <Text
+                    style={[
+                      styles.optionText,
+                      narration.activeIndex === index + 1 && styles.readAlong,
+                    ]}
+                  >
+                    {option}
+                  </Text>
                 </TouchableOpacity>
               </Animated.View>
             );
@@ -271,18 +499,33 @@ export default function QuizScreen() {
           )}
         </View>
 
-        <TouchableOpacity
-          style={[
-            styles.confirmButton,
-            selectedAnswer
-              ? styles.confirmButtonActive
-              : styles.confirmButtonDisabled,
-          ]}
-          disabled={!selectedAnswer || !!answerStatus || isSaving}
-          onPress={handleCheckAnswer}
-        >
-          <Text style={styles.confirmButtonText}>{t("submit_answer")}</Text>
-        </TouchableOpacity>
+        {answerStatus && current.explanation && (
+          <Text style={styles.explanationText}>{current.explanation}</Text>
+        )}
+
+        {answerStatus ? (
+          <TouchableOpacity
+            style={[styles.confirmButton, styles.confirmButtonActive]}
+            onPress={handleNext}
+          >
+            <Text style={styles.confirmButtonText}>
+              {isLast ? "SEE RESULTS" : "NEXT"}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.confirmButton,
+              selectedIndex !== null
+                ? styles.confirmButtonActive
+                : styles.confirmButtonDisabled,
+            ]}
+            disabled={selectedIndex === null || isSaving}
+            onPress={handleCheckAnswer}
+          >
+            <Text style={styles.confirmButtonText}>{t("submit_answer")}</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -297,6 +540,22 @@ const styles = StyleSheet.create({
     backgroundColor: "#151718",
   },
   container: { flexGrow: 1, padding: 20, justifyContent: "space-between" },
+  progressHeader: { marginBottom: 30 },
+  progressLabel: {
+    color: "#888",
+    fontSize: 12,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 10,
+    backgroundColor: "#333333",
+    borderRadius: 5,
+    overflow: "hidden",
+  },
+  progressFill: { height: "100%", backgroundColor: "#4CAF50" },
   question: {
     color: "#FFFFFF",
     fontSize: 24,
@@ -342,6 +601,35 @@ const styles = StyleSheet.create({
   feedbackText: { fontSize: 20, fontWeight: "bold", fontFamily: "monospace" },
   feedbackCorrect: { color: "#388e3c" },
   feedbackIncorrect: { color: "#D32F2F" },
+  explanationText: {
+    color: "#E0E0E0",
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: "center",
+    backgroundColor: "#1E1E1E",
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 10,
+  },
+  resultCard: {
+    flexGrow: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  resultLabel: {
+    color: "#888",
+    fontSize: 14,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    letterSpacing: 1.5,
+  },
+  resultScore: {
+    fontSize: 72,
+    fontWeight: "900",
+    fontFamily: "monospace",
+    marginVertical: 10,
+  },
+  resultDetail: { color: "#CCCCCC", fontSize: 16, marginTop: 4 },
   confirmButton: {
     width: "100%",
     paddingVertical: 16,
@@ -356,4 +644,5 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     textAlign: "center",
   },
+  readAlong: { backgroundColor: "#69F0AE33", borderRadius: 4 },
 });
@@ -0,0 +1,357 @@
+import { FontAwesome5 } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { useTranslation } from "@/hooks/useTranslation";
+import { sendOrQueue } from "@/utils/outbox";
+import {
+  fetchDueReviews,
+  QuizAttempt,
+  REVIEW_COINS,
+  ReviewQuestion,
+} from "@/utils/review";
+import { supabase } from "@/utils/supabase";
+
+import Coin from "../assets/images/coin.svg";
+
+// Daily Review: missed quiz questions that are due again (SM-2 schedule kept
+// on the server, see utils/review.ts). Cached so a session works offline; the
+// answers go through the outbox.
+const fetchReviewSession = async (lang: string): Promise<ReviewQuestion[]> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) return [];
+  return fetchDueReviews(userId, lang);
+};
+
+export default function ReviewScreen() {
+  const router = useRouter();
+  const { t, language, isLoading: isTransLoading } = useTranslation();
+
+  const { data, loading, isOffline } = useCachedQuery(
+    `review_session_v1_${language || DEFAULT_LANGUAGE}`,
+    () => fetchReviewSession(language || DEFAULT_LANGUAGE),
+  );
+
+  // Fixed once the session starts, so answered questions don't shift the
+  // list when the cache is patched
+  const [session, setSession] = useState<ReviewQuestion[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [coinsEarned, setCoinsEarned] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const questions = session ?? data ?? [];
+  const current = questions[currentIndex];
+  const answered = attempts.length > currentIndex;
+  const correctCount = attempts.filter((a) => a.isCorrect).length;
+
+  const handleCheck = () => {
+    if (selectedIndex === null || !current) return;
+    if (!session) setSession(questions);
+    setAttempts((prev) => [
+      ...prev,
+      {
+        questionId: current.id,
+        chosenIndex: selectedIndex,
+        isCorrect: selectedIndex === current.correctOptionIndex,
+        answeredAt: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  const handleFinish = async () => {
+    setIsSaving(true);
+    try {
+      const outcome = await sendOrQueue({
+        kind: "quiz_attempts",
+        source: "review",
+        answers: attempts,
+      });
+      // Queued: what the server will pay once it syncs
+      setCoinsEarned(
+        outcome.queued
+          ? correctCount * REVIEW_COINS
+          : outcome.result.coins_awarded,
+      );
+    } catch (error) {
+      console.error("Review not saved:", error);
+      setCoinsEarned(0);
+    } finally {
+      setIsSaving(false);
+      setFinished(true);
+    }
+  };
+
+  const handleNext = () => {
+    setSelectedIndex(null);
+    if (currentIndex + 1 < questions.length) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      handleFinish();
+    }
+  };
+
+  if (((loading || isTransLoading) && !data) || isSaving) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#388e3c" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // --- SUMMARY / NOTHING DUE ---
+  if (finished || !current) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <View style={styles.centered}>
+            <FontAwesome5
+              name={finished ? "brain" : "check-circle"}
+              size={64}
+              color="#4CAF50"
+            />
+            <Text style={styles.summaryTitle}>
+              {finished ? t("review_complete") : t("review_caught_up")}
+            </Text>
+            {finished ? (
+              <>
+                <Text style={styles.summaryDetail}>
+                  {correctCount}/{attempts.length} {t("review_correct")}
+                </Text>
+                <View style={styles.coinRow}>
+                  <Coin width={28} height={28} />
+                  <Text style={styles.coinText}>+{coinsEarned}</Text>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.summaryDetail}>
+                {isOffline && !data
+                  ? t("offline_mode")
+                  : t("review_empty_hint")}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            style={[styles.confirmButton, styles.confirmButtonActive]}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.confirmButtonText}>{t("review_done")}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const lastAttempt = answered ? attempts[currentIndex] : null;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.progressHeader}>
+          <Text style={styles.progressLabel}>
+            {t("review_title").toUpperCase()} {currentIndex + 1}/
+            {questions.length}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${(attempts.length / questions.length) * 100}%`,
+                },
+              ]}
+            />
+          </View>
+        </View>
+
+        <Text style={styles.question}>{current.question}</Text>
+
+        {current.options.map((option, index) => {
+          const isSelected = selectedIndex === index;
+          const isCorrect = index === current.correctOptionIndex;
+          return (
+            <TouchableOpacity
+              key={index}
+              style={[
+                styles.optionButton,
+                isSelected && styles.optionButtonSelected,
+                answered && isCorrect && styles.optionCorrect,
+                answered && isSelected && !isCorrect && styles.optionIncorrect,
+              ]}
+              onPress={() => setSelectedIndex(index)}
+              disabled={answered}
+            >
+              <Text style={styles.optionText}>{option}</Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={{ flex: 1 }} />
+
+        {lastAttempt && (
+          <Text
+            style={[
+              styles.feedbackText,
+              lastAttempt.isCorrect
+                ? styles.feedbackCorrect
+                : styles.feedbackIncorrect,
+            ]}
+          >
+            {lastAttempt.isCorrect ? t("excellent_work") : t("try_again")}
+          </Text>
+        )}
+        {lastAttempt && current.explanation && (
+          <Text style={styles.explanationText}>{current.explanation}</Text>
+        )}
+
+        {answered ? (
+          <TouchableOpacity
+            style={[styles.confirmButton, styles.confirmButtonActive]}
+            onPress={handleNext}
+          >
+            <Text style={styles.confirmButtonText}>
+              {currentIndex + 1 < questions.length ? "NEXT" : "SEE RESULTS"}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.confirmButton,
+              selectedIndex !== null
+                ? styles.confirmButtonActive
+                : styles.confirmButtonDisabled,
+            ]}
+            disabled={selectedIndex === null}
+            onPress={handleCheck}
+          >
+            <Text style={styles.confirmButtonText}>{t("submit_answer")}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: "#151718" },
+  centered: { flex: 1, justifyContent: "center", alignItems: "center" },
+  container: { flexGrow: 1, padding: 20, justifyContent: "space-between" },
+  progressHeader: { marginBottom: 30 },
+  progressLabel: {
+    color: "#888",
+    fontSize: 12,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 10,
+    backgroundColor: "#333333",
+    borderRadius: 5,
+    overflow: "hidden",
+  },
+  progressFill: { height: "100%", backgroundColor: "#FFD700" },
+  question: {
+    color: "#FFFFFF",
+    fontSize: 22,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    textAlign: "center",
+    marginBottom: 30,
+  },
+  optionButton: {
+    backgroundColor: "#333333",
+    borderRadius: 20,
+    paddingVertical: 18,
+    paddingHorizontal: 15,
+    marginBottom: 15,
+    alignItems: "center",
+    borderWidth: 2,
+    borderColor: "#444",
+  },
+  optionButtonSelected: { borderColor: "#388e3c" },
+  optionCorrect: { backgroundColor: "#388e3c", borderColor: "#4CAF50" },
+  optionIncorrect: { backgroundColor: "#D32F2F", borderColor: "#F44336" },
+  optionText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "500",
+    textAlign: "center",
+  },
+  feedbackText: {
+    fontSize: 20,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    textAlign: "center",
+    marginVertical: 10,
+  },
+  feedbackCorrect: { color: "#388e3c" },
+  feedbackIncorrect: { color: "#D32F2F" },
+  explanationText: {
+    color: "#E0E0E0",
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: "center",
+    backgroundColor: "#1E1E1E",
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 10,
+  },
+  summaryTitle: {
+    color: "#FFFFFF",
+    fontSize: 22,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+    textAlign: "center",
+    marginTop: 20,
+  },
+  summaryDetail: {
+    color: "#CCCCCC",
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 10,
+  },
+  coinRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 20,
+  },
+  coinText: {
+    color: "#FFD700",
+    fontSize: 28,
+    fontWeight: "bold",
+    fontFamily: "monospace",
+  },
+  confirmButton: {
+    width: "100%",
+    paddingVertical: 16,
+    borderRadius: 30,
+    marginTop: 10,
+  },
+  confirmButtonDisabled: { backgroundColor: "#555555", opacity: 0.7 },
+  confirmButtonActive: { backgroundColor: "#388e3c" },
+  confirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+});
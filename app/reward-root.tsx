@@ -34,6 +34,8 @@ import Svg, {
 } from 'react-native-svg';
 
 import { useTranslation } from '@/hooks/useTranslation';
+import { isInsufficientCoinsError } from '@/utils/ledger';
+import { sendOrQueue } from '@/utils/outbox';
 import { supabase } from '@/utils/supabase';
 
 import Checkmark from '../assets/images/check.svg';
@@ -196,9 +198,26 @@ export default function RewardRootScreen() {
         text: "Unlock", 
         onPress: async () => {
           if (!userId) return;
-          
-          // Optimistic UI
-          setUserPoints(prev => prev - node.cost);
+
+          try {
+            // The server charges the cost and rejects overdrafts
+            const outcome = await sendOrQueue({ kind: 'reward_unlock', rewardId: node.id });
+            if (outcome.queued) {
+              setUserPoints(prev => prev - node.cost);
+              Alert.alert(t('offline_mode'), t('reward_unlock_offline'));
+              return;
+            }
+            setUserPoints(outcome.result.coins);
+          } catch (e: any) {
+            if (isInsufficientCoinsError(e)) {
+              Alert.alert(t('available_coins'), `You need ${node.cost} coins.`);
+            } else {
+              console.error(e);
+              Alert.alert("Error", e.message || "Could not unlock reward.");
+            }
+            return;
+          }
+
           setRewards(prev => prev.map(r => 
             r.id === node.id ? { ...r, isUnlocked: true, isCurrent: false } : 
             r.id === node.id + 1 ? { ...r, isCurrent: true } : r
@@ -206,9 +225,6 @@ export default function RewardRootScreen() {
 
           setActiveReward(node);
           setModalVisible(true);
-
-          await supabase.from('profiles').update({ coins: userPoints - node.cost }).eq('id', userId);
-          await supabase.from('user_rewards').insert({ user_id: userId, reward_id: node.id });
         }
       }
     ]);
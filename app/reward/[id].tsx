@@ -1,3 +1,5 @@
+import { useTranslation } from '@/hooks/useTranslation';
+import { localizeRow } from '@/utils/localize';
 import { supabase } from '@/utils/supabase';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
@@ -20,6 +22,7 @@ import XIcon from '../../assets/images/x-twitter.svg';
 export default function RewardScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
+  const { language } = useTranslation();
   const [isGuest, setIsGuest] = useState(true);
   const [loading, setLoading] = useState(true);
   const [rewardData, setRewardData] = useState<any>(null);
@@ -39,17 +42,18 @@ export default function RewardScreen() {
           .single();
         
         if (data) {
-          setRewardData(data);
+          setRewardData(localizeRow('rewards', data, language));
         }
       }
       setLoading(false);
     };
     init();
-  }, [id]);
+  }, [id, language]);
 
   const handleContinue = () => {
     if (isGuest) {
-      router.replace({ pathname: '/login', params: { lesson_completed: id } });
+      // Guest progress is merged into the account on signup / login
+      router.replace('/signup');
     } else {
       router.replace('/dashboard'); 
     }
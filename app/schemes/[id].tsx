@@ -1,25 +1,45 @@
-import { GOV_SCHEMES } from "@/constants/schemes";
+import NarrationBar from "@/components/NarrationBar";
+import { DEFAULT_LANGUAGE } from "@/constants/translations";
+import { useNarration } from "@/hooks/useNarration";
+import { useSchemes } from "@/hooks/useSchemes";
 import { useTranslation } from "@/hooks/useTranslation";
+import { narrationUrl } from "@/utils/lessonMedia";
+import { localizedValue } from "@/utils/localize";
 import { FontAwesome5 } from "@expo/vector-icons";
 import { Stack, useLocalSearchParams } from "expo-router";
-import React from "react";
-import { ScrollView, StyleSheet, Text, View } from "react-native";
+import React, { useMemo } from "react";
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from "react-native";
 
-const InfoSection = ({ title, icon, color, items }: any) => {
+// `segment` is the section title's narration index; its items follow it
+const InfoSection = ({
+  title,
+  icon,
+  color,
+  items,
+  segment,
+  activeIndex,
+}: any) => {
   if (!items || items.length === 0) return null;
+  const highlight = (i: number) => activeIndex === i && styles.readAlong;
   return (
     <View style={styles.sectionContainer}>
       <View style={styles.sectionHeader}>
         <View style={[styles.sectionIcon, { backgroundColor: color }]}>
           <FontAwesome5 name={icon} size={14} color="white" />
         </View>
-        <Text style={[styles.sectionTitle, { color: color }]}>{title}</Text>
+        <Text
+          style={[styles.sectionTitle, { color: color }, highlight(segment)]}
+        >
+          {title}
+        </Text>
       </View>
       <View style={styles.card}>
         {items.map((item: string, index: number) => (
           <View key={index} style={styles.listItem}>
             <View style={[styles.bullet, { backgroundColor: color }]} />
-            <Text style={styles.listText}>{item}</Text>
+            <Text style={[styles.listText, highlight(segment + 1 + index)]}>
+              {item}
+            </Text>
           </View>
         ))}
       </View>
@@ -30,13 +50,69 @@ const InfoSection = ({ title, icon, color, items }: any) => {
 export default function SchemeDetailScreen() {
   const { id } = useLocalSearchParams();
   const { t, language } = useTranslation();
-  const isHindi = language === "hi";
 
   // FIX: Ensure ID is always a string
   const schemeId = Array.isArray(id) ? id[0] : id;
 
-  // Find the scheme from your hardcoded file
-  const scheme = GOV_SCHEMES.find((s) => s.id === schemeId);
+  // Same cached catalogue as the list, so details open offline too
+  const { data: schemes, loading } = useSchemes();
+  const scheme = schemes?.find((s) => s.id === schemeId);
+  const lang = language || DEFAULT_LANGUAGE;
+
+  const title = localizedValue(scheme, "title", lang) || "";
+  const desc = localizedValue(scheme, "desc", lang) || "";
+  const sections = useMemo(() => {
+    let segment = 2; // 0 and 1 are the title and description
+    return [
+      {
+        field: "benefits",
+        title: t("benefits") || "Benefits",
+        icon: "gift",
+        color: "#4CAF50",
+      },
+      {
+        field: "eligibility",
+        title: t("eligibility") || "Eligibility",
+        icon: "user-check",
+        color: "#2196F3",
+      },
+      {
+        field: "steps",
+        title: t("process") || "Process",
+        icon: "walking",
+        color: "#9C27B0",
+      },
+    ]
+      .map((section) => ({
+        ...section,
+        items: localizedValue<string[]>(scheme, section.field, lang) || [],
+      }))
+      .filter((section) => section.items.length > 0)
+      .map((section) => {
+        const start = segment;
+        segment += 1 + section.items.length;
+        return { ...section, segment: start };
+      });
+  }, [scheme, lang, t]);
+
+  const recording = narrationUrl(scheme ?? null, lang);
+  const narration = useNarration({
+    segments: [
+      title,
+      desc,
+      ...sections.flatMap((section) => [section.title, ...section.items]),
+    ],
+    language: lang,
+    audio: recording ? { uri: recording } : null,
+  });
+
+  if (loading && !scheme) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
 
   if (!scheme) {
     return (
@@ -53,9 +129,6 @@ export default function SchemeDetailScreen() {
     );
   }
 
-  const title = isHindi ? scheme.title_hi : scheme.title_en;
-  const desc = isHindi ? scheme.desc_hi : scheme.desc_en;
-
   return (
     <View style={styles.container}>
       <Stack.Screen
@@ -75,33 +148,37 @@ export default function SchemeDetailScreen() {
           <View style={[styles.heroIcon, { backgroundColor: scheme.color }]}>
             <FontAwesome5 name={scheme.icon as any} size={32} color="white" />
           </View>
-          <Text style={styles.heroTitle}>{title}</Text>
-          <Text style={styles.heroDesc}>{desc}</Text>
+          <Text
+            style={[
+              styles.heroTitle,
+              narration.activeIndex === 0 && styles.readAlong,
+            ]}
+          >
+            {title}
+          </Text>
+          <Text
+            style={[
+              styles.heroDesc,
+              narration.activeIndex === 1 && styles.readAlong,
+            ]}
+          >
+            {desc}
+          </Text>
         </View>
 
-        {/* Benefits */}
-        <InfoSection
-          title={t("benefits") || "Benefits"}
-          icon="gift"
-          color="#4CAF50"
-          items={isHindi ? scheme.benefits_hi : scheme.benefits_en}
-        />
-
-        {/* Eligibility */}
-        <InfoSection
-          title={t("eligibility") || "Eligibility"}
-          icon="user-check"
-          color="#2196F3"
-          items={isHindi ? scheme.eligibility_hi : scheme.eligibility_en}
-        />
+        <NarrationBar narration={narration} />
 
-        {/* Process (How to Apply) */}
-        <InfoSection
-          title={t("process") || "Process"}
-          icon="walking"
-          color="#9C27B0"
-          items={isHindi ? scheme.steps_hi : scheme.steps_en}
-        />
+        {sections.map((section) => (
+          <InfoSection
+            key={section.field}
+            title={section.title}
+            icon={section.icon}
+            color={section.color}
+            items={section.items}
+            segment={section.segment}
+            activeIndex={narration.activeIndex}
+          />
+        ))}
       </ScrollView>
     </View>
   );
@@ -165,4 +242,5 @@ const styles = StyleSheet.create({
     marginRight: 10,
   },
   listText: { color: "#ddd", fontSize: 14, lineHeight: 20, flex: 1 },
+  readAlong: { backgroundColor: "#69F0AE33", borderRadius: 4 },
 });
@@ -1,49 +1,295 @@
-import { GOV_SCHEMES } from "@/constants/schemes";
+import { INDIAN_STATES } from "@/constants/states";
+import { TranslationKeys } from "@/constants/translations";
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { cropName, useCrops } from "@/hooks/useCrops";
+import { Scheme, useSchemes } from "@/hooks/useSchemes";
 import { useTranslation } from "@/hooks/useTranslation";
+import { FARM_PROFILE_COLUMNS, toFarmProfile } from "@/utils/agristack";
+import { getGuestProgress } from "@/utils/guestProgress";
+import { localizedValue, reportMissingTranslations } from "@/utils/localize";
+import {
+  EligibilityStatus,
+  FarmerAnswers,
+  formatReason,
+  rankSchemes,
+  SchemeMatch,
+} from "@/utils/schemeEligibility";
+import { supabase } from "@/utils/supabase";
 import { FontAwesome5 } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Stack, useRouter } from "expo-router";
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
+    ActivityIndicator,
     FlatList,
+    Modal,
+    RefreshControl,
     SafeAreaView,
+    ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from "react-native";
 
+// Questionnaire answers are kept on the phone (guests too); land size and
+// state are also saved to the profile when signed in.
+const ANSWERS_STORAGE_KEY = "@scheme_answers";
+
+const EMPTY_ANSWERS: FarmerAnswers = {
+  landHectares: null,
+  crop: null,
+  state: null,
+  hasLandRecords: null,
+  hasBankAccount: null,
+  agristackLinked: false,
+};
+
+const STATUS_STYLE: Record<
+  EligibilityStatus,
+  { color: string; icon: string; label: TranslationKeys }
+> = {
+  likely_eligible: {
+    color: "#4CAF50",
+    icon: "check-circle",
+    label: "likely_eligible",
+  },
+  check: {
+    color: "#FFB74D",
+    icon: "question-circle",
+    label: "check_eligibility",
+  },
+  not_eligible: {
+    color: "#EF5350",
+    icon: "times-circle",
+    label: "not_eligible",
+  },
+};
+
+const REASON_ICON = { pass: "check", fail: "times", unknown: "question" };
+
+// --- DATA FETCHER ---
+const fetchFarmerProfile = async (): Promise<Partial<FarmerAnswers>> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  const guestCrop = (await getGuestProgress()).crop;
+
+  if (!userId) return { crop: guestCrop };
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select(FARM_PROFILE_COLUMNS)
+    .eq("id", userId)
+    .single();
+
+  if (error) throw error;
+  const farm = toFarmProfile(profile);
+  const verified = farm.status === "verified";
+
+  return {
+    crop: profile?.selected_crop || guestCrop,
+    landHectares: farm.landSizeHectares,
+    state: farm.state,
+    agristackLinked: verified,
+    // Land registered on AgriStack implies land records exist
+    ...(verified && { hasLandRecords: true }),
+  };
+};
+
+const YesNo = ({
+  value,
+  onChange,
+  t,
+}: {
+  value: boolean | null;
+  onChange: (v: boolean) => void;
+  t: (key: TranslationKeys) => string;
+}) => (
+  <View style={styles.yesNoRow}>
+    {[true, false].map((option) => (
+      <TouchableOpacity
+        key={String(option)}
+        style={[styles.chip, value === option && styles.chipActive]}
+        onPress={() => onChange(option)}
+      >
+        <Text
+          style={[styles.chipText, value === option && styles.chipTextActive]}
+        >
+          {option ? t("yes") : t("no")}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
 export default function SchemesListScreen() {
   const router = useRouter();
   const { t, language } = useTranslation();
-  const isHindi = language === "hi";
 
-  const renderItem = ({ item }: { item: (typeof GOV_SCHEMES)[0] }) => (
-    <TouchableOpacity
-      style={[styles.card, { borderLeftColor: item.color }]}
-      onPress={() =>
-        router.push({ pathname: "/schemes/[id]", params: { id: item.id } })
+  const { data: schemes, loading, isOffline, refresh, refreshing } =
+    useSchemes();
+  const { data: crops } = useCrops();
+  const { data: profileAnswers } = useCachedQuery(
+    "scheme_farmer_profile_v1",
+    fetchFarmerProfile,
+  );
+
+  const [storedAnswers, setStoredAnswers] =
+    useState<Partial<FarmerAnswers> | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<FarmerAnswers>(EMPTY_ANSWERS);
+  const [landText, setLandText] = useState("");
+
+  useEffect(() => {
+    AsyncStorage.getItem(ANSWERS_STORAGE_KEY).then((raw) => {
+      if (raw) setStoredAnswers(JSON.parse(raw));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (schemes) reportMissingTranslations("schemes", schemes, language);
+  }, [schemes, language]);
+
+  // Profile facts fill in anything the questionnaire hasn't answered.
+  // Crop and AgriStack link always come from the profile, and
+  // AgriStack-verified farm details override the questionnaire.
+  const answers: FarmerAnswers = useMemo(() => {
+    const fromProfile = Object.fromEntries(
+      Object.entries(profileAnswers || {}).filter(([, v]) => v != null),
+    );
+    return {
+      ...EMPTY_ANSWERS,
+      ...fromProfile,
+      ...storedAnswers,
+      ...(profileAnswers?.agristackLinked && fromProfile),
+      crop: profileAnswers?.crop ?? storedAnswers?.crop ?? null,
+      agristackLinked: !!profileAnswers?.agristackLinked,
+    };
+  }, [storedAnswers, profileAnswers]);
+
+  const hasAnswered = storedAnswers !== null;
+
+  const matches: SchemeMatch[] = useMemo(
+    () =>
+      hasAnswered
+        ? rankSchemes(schemes || [], answers)
+        : (schemes || []).map((scheme) => ({
+            scheme,
+            status: "check" as const,
+            reasons: [],
+          })),
+    [schemes, answers, hasAnswered],
+  );
+
+  const openForm = () => {
+    setDraft(answers);
+    setLandText(
+      answers.landHectares != null ? String(answers.landHectares) : "",
+    );
+    setShowForm(true);
+  };
+
+  const saveAnswers = async () => {
+    const land = parseFloat(landText.replace(",", "."));
+    const next: FarmerAnswers = {
+      ...draft,
+      landHectares: Number.isFinite(land) && land >= 0 ? land : null,
+    };
+
+    setStoredAnswers(next);
+    setShowForm(false);
+    await AsyncStorage.setItem(ANSWERS_STORAGE_KEY, JSON.stringify(next));
+
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const userId = sessionData.session?.user.id;
+      // Verified profiles keep the registry's land and state
+      if (userId && !answers.agristackLinked) {
+        const { error } = await supabase
+          .from("profiles")
+          .update({
+            land_size_hectares: next.landHectares,
+            farm_state: next.state,
+          })
+          .eq("id", userId);
+        if (error) throw error;
       }
-      activeOpacity={0.8}
-    >
-      <View style={[styles.iconBox, { backgroundColor: item.color }]}>
-        <FontAwesome5 name={item.icon as any} size={24} color="white" />
-      </View>
-      <View style={styles.cardContent}>
-        <Text style={styles.cardTitle}>
-          {isHindi ? item.title_hi : item.title_en}
-        </Text>
-        <Text style={styles.cardDesc} numberOfLines={2}>
-          {isHindi ? item.desc_hi : item.desc_en}
-        </Text>
-        <View style={styles.ctaRow}>
-          <Text style={[styles.ctaText, { color: item.color }]}>
-            {t("view_details") || "View Details"}
+    } catch (e) {
+      // Answers are still saved on the phone
+      console.warn("Could not save scheme answers to profile", e);
+    }
+  };
+
+  const renderItem = ({ item }: { item: SchemeMatch }) => {
+    const scheme: Scheme = item.scheme;
+    const badge = STATUS_STYLE[item.status];
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, { borderLeftColor: scheme.color }]}
+        onPress={() =>
+          router.push({ pathname: "/schemes/[id]", params: { id: scheme.id } })
+        }
+        activeOpacity={0.8}
+      >
+        <View style={[styles.iconBox, { backgroundColor: scheme.color }]}>
+          <FontAwesome5 name={scheme.icon as any} size={24} color="white" />
+        </View>
+        <View style={styles.cardContent}>
+          {hasAnswered && (
+            <View style={[styles.badge, { borderColor: badge.color }]}>
+              <FontAwesome5 name={badge.icon} size={10} color={badge.color} />
+              <Text style={[styles.badgeText, { color: badge.color }]}>
+                {t(badge.label)}
+              </Text>
+            </View>
+          )}
+          <Text style={styles.cardTitle}>
+            {localizedValue(scheme, "title", language)}
+          </Text>
+          <Text style={styles.cardDesc} numberOfLines={2}>
+            {localizedValue(scheme, "desc", language)}
           </Text>
-          <FontAwesome5 name="arrow-right" size={12} color={item.color} />
+
+          {item.reasons.map((reason, index) => (
+            <View key={index} style={styles.reasonRow}>
+              <FontAwesome5
+                name={REASON_ICON[reason.outcome]}
+                size={10}
+                color={
+                  reason.outcome === "pass"
+                    ? "#4CAF50"
+                    : reason.outcome === "fail"
+                      ? "#EF5350"
+                      : "#FFB74D"
+                }
+                style={{ width: 14 }}
+              />
+              <Text style={styles.reasonText}>
+                {formatReason(t, reason, crops, language)}
+              </Text>
+            </View>
+          ))}
+
+          <View style={styles.ctaRow}>
+            <Text style={[styles.ctaText, { color: scheme.color }]}>
+              {t("view_details") || "View Details"}
+            </Text>
+            <FontAwesome5 name="arrow-right" size={12} color={scheme.color} />
+          </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading && !schemes) {
+    return (
+      <SafeAreaView style={[styles.container, styles.center]}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </SafeAreaView>
+    );
+  }
 
   return (
     <SafeAreaView style={styles.container}>
@@ -53,21 +299,131 @@ export default function SchemesListScreen() {
         <Text style={styles.subHeader}>
           {t("schemes_subtitle") || "Empowering Farmers"}
         </Text>
+        {isOffline && (
+          <Text style={styles.offlineText}>{t("offline_mode")}</Text>
+        )}
       </View>
 
       <FlatList
-        data={GOV_SCHEMES}
-        keyExtractor={(item) => item.id}
+        data={matches}
+        keyExtractor={(item) => item.scheme.id}
         renderItem={renderItem}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor="#4CAF50"
+          />
+        }
+        ListHeaderComponent={
+          <TouchableOpacity
+            style={styles.checkCard}
+            onPress={openForm}
+            activeOpacity={0.8}
+          >
+            <FontAwesome5 name="clipboard-check" size={24} color="#FFD700" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.checkTitle}>{t("eligibility_check")}</Text>
+              <Text style={styles.checkDesc}>
+                {hasAnswered ? t("edit_answers") : t("eligibility_intro")}
+              </Text>
+            </View>
+            <FontAwesome5 name="chevron-right" size={14} color="#888" />
+          </TouchableOpacity>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {isOffline ? t("offline_mode") : t("no_data")}
+          </Text>
+        }
       />
+
+      {/* --- ELIGIBILITY QUESTIONNAIRE --- */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={showForm}
+        onRequestClose={() => setShowForm(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalSheet}>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.modalTitle}>{t("eligibility_check")}</Text>
+              <Text style={styles.checkDesc}>{t("eligibility_intro")}</Text>
+
+              <Text style={styles.label}>{t("your_crop")}</Text>
+              <Text style={styles.readOnlyValue}>
+                {draft.crop
+                  ? cropName(crops, draft.crop, language).toUpperCase()
+                  : t("not_set")}
+              </Text>
+
+              <Text style={styles.label}>{t("land_size_hectares")}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="decimal-pad"
+                placeholder="e.g. 1.5"
+                placeholderTextColor="#666"
+                value={landText}
+                onChangeText={setLandText}
+              />
+
+              <Text style={styles.label}>{t("your_state")}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {INDIAN_STATES.map((state) => (
+                  <TouchableOpacity
+                    key={state}
+                    style={[
+                      styles.chip,
+                      draft.state === state && styles.chipActive,
+                    ]}
+                    onPress={() => setDraft({ ...draft, state })}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        draft.state === state && styles.chipTextActive,
+                      ]}
+                    >
+                      {state}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={styles.label}>{t("has_land_records")}</Text>
+              <YesNo
+                t={t}
+                value={draft.hasLandRecords}
+                onChange={(v) => setDraft({ ...draft, hasLandRecords: v })}
+              />
+
+              <Text style={styles.label}>{t("has_bank_account")}</Text>
+              <YesNo
+                t={t}
+                value={draft.hasBankAccount}
+                onChange={(v) => setDraft({ ...draft, hasBankAccount: v })}
+              />
+
+              <TouchableOpacity
+                style={styles.submitButton}
+                onPress={saveAnswers}
+              >
+                <Text style={styles.submitText}>{t("find_my_schemes")}</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: "#121212" },
+  center: { justifyContent: "center", alignItems: "center" },
   header: { padding: 20, paddingBottom: 10 },
   subHeader: {
     color: "#aaa",
@@ -76,7 +432,22 @@ const styles = StyleSheet.create({
     letterSpacing: 1,
     fontWeight: "bold",
   },
+  offlineText: { color: "#FFB74D", fontSize: 12, marginTop: 4 },
   listContent: { padding: 15 },
+  emptyText: { color: "#888", textAlign: "center", marginTop: 40 },
+  checkCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    backgroundColor: "#1E1E1E",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: "#FFD700",
+  },
+  checkTitle: { color: "white", fontSize: 16, fontWeight: "bold" },
+  checkDesc: { color: "#bbb", fontSize: 12, lineHeight: 18, marginTop: 2 },
   card: {
     backgroundColor: "#1E1E1E",
     borderRadius: 12,
@@ -99,6 +470,18 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 6,
+  },
+  badgeText: { fontSize: 10, fontWeight: "bold", letterSpacing: 1 },
   cardTitle: {
     color: "white",
     fontSize: 16,
@@ -106,6 +489,58 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   cardDesc: { color: "#bbb", fontSize: 12, lineHeight: 18, marginBottom: 10 },
-  ctaRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+  reasonRow: { flexDirection: "row", alignItems: "center", marginBottom: 4 },
+  reasonText: { color: "#ddd", fontSize: 12, flex: 1 },
+  ctaRow: { flexDirection: "row", alignItems: "center", gap: 6, marginTop: 6 },
   ctaText: { fontSize: 12, fontWeight: "bold" },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "flex-end",
+  },
+  modalSheet: {
+    backgroundColor: "#1E1E1E",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: { color: "white", fontSize: 20, fontWeight: "bold" },
+  label: {
+    color: "#aaa",
+    fontSize: 13,
+    fontWeight: "bold",
+    marginTop: 18,
+    marginBottom: 8,
+  },
+  readOnlyValue: { color: "white", fontSize: 16, fontWeight: "bold" },
+  input: {
+    backgroundColor: "#2C2C2E",
+    color: "white",
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  yesNoRow: { flexDirection: "row" },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  chipActive: { backgroundColor: "#388E3C", borderColor: "#4CAF50" },
+  chipText: { color: "#ccc", fontSize: 13 },
+  chipTextActive: { color: "white", fontWeight: "bold" },
+  submitButton: {
+    backgroundColor: "#4CAF50",
+    borderRadius: 30,
+    paddingVertical: 14,
+    alignItems: "center",
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  submitText: { color: "white", fontSize: 16, fontWeight: "bold" },
 });
@@ -13,16 +13,26 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-// Import AsyncStorage to retrieve guest progress
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import OtpOverlay from '@/components/OtpOverlay';
 import { useTranslation } from '@/hooks/useTranslation';
+import { isValidRecoveryPin, setRecoveryPin } from '@/utils/accountRecovery';
+import { getGuestProgress, mergeGuestProgress } from '@/utils/guestProgress';
+import { claimSignupBonus } from '@/utils/ledger';
+import {
+  normalizePhone,
+  PhoneAuthError,
+  phoneAuthMessage,
+  sendPhoneOtp,
+  verifyPhoneOtp
+} from '@/utils/phoneAuth';
 import { supabase } from '@/utils/supabase';
 import UserIcon from '../assets/images/user.svg';
 
 export default function SignupScreen() {
   const router = useRouter();
-  const { t, isLoading: isTransLoading } = useTranslation();
+  const { t, language, isLoading: isTransLoading } = useTranslation();
 
   // --- Form State ---
   const [fullName, setFullName] = useState('');
@@ -30,12 +40,14 @@ export default function SignupScreen() {
   const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [pin, setPin] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const getEmailFromUsername = (usr: string) => {
-    const cleanUser = usr.toLowerCase().replace(/[^a-z0-9]/g, '');
-    return `${cleanUser}@khet.com`;
-  };
+  // OTP step
+  const [otpPhone, setOtpPhone] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(30);
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
 
   const handleSignup = async () => {
     // 1. Validation
@@ -48,89 +60,119 @@ export default function SignupScreen() {
       Alert.alert('Password Mismatch', 'Passwords do not match. Please try again.');
       return;
     }
-    
-    setIsLoading(true);
-
-    const emailToRegister = getEmailFromUsername(username);
 
-    // 2. Sign Up (Auth)
-    const { data: authData, error: authError } = await supabase.auth.signUp({
-      email: emailToRegister,
-      password: password,
-    });
+    if (!isValidRecoveryPin(pin)) {
+      Alert.alert('Recovery PIN', t('err_pin_format'));
+      return;
+    }
 
-    if (authError) {
-      Alert.alert('Signup Failed', authError.message);
-      setIsLoading(false);
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      Alert.alert('Signup Failed', t('err_invalid_phone'));
       return;
     }
+    
+    setIsLoading(true);
 
-    // --- CRITICAL CHECK: HANDLE EMAIL CONFIRMATION ---
-    // If Supabase requires email confirmation, session will be null.
-    if (!authData.session && authData.user) {
+    // 2. Send the code; OtpOverlay collects it (completeSignup)
+    try {
+      const retryAfter = await sendPhoneOtp(normalized, 'signup', {
+        full_name: fullName,
+        username: username,
+      });
+      setCooldown(retryAfter);
+      setOtpError(null);
+      setOtpPhone(normalized);
+    } catch (e) {
+      Alert.alert('Signup Failed', phoneAuthMessage(t, e));
+    } finally {
       setIsLoading(false);
-      Alert.alert(
-        'Check your Email',
-        'Please confirm your email address to finish logging in.',
-        [{ text: 'OK', onPress: () => router.replace('/login') }]
-      );
+    }
+  };
+
+  const handleResend = async () => {
+    if (!otpPhone) return;
+    try {
+      setOtpError(null);
+      return await sendPhoneOtp(otpPhone, 'signup', { full_name: fullName, username: username });
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+      return e instanceof PhoneAuthError ? e.retryAfter : undefined;
+    }
+  };
+
+  const completeSignup = async (code: string) => {
+    if (!otpPhone) return;
+    setIsVerifying(true);
+    setOtpError(null);
+
+    // 3. Verify (creates the auth user and signs in)
+    let session;
+    try {
+      session = await verifyPhoneOtp(otpPhone, code, 'signup');
+    } catch (e) {
+      setOtpError(phoneAuthMessage(t, e));
+      setIsVerifying(false);
       return;
     }
-    // -------------------------------------------------
+    const mobileNo = otpPhone;
+    setOtpPhone(null);
+    setIsVerifying(false);
+    if (!session) return;
 
-    // 3. RETRIEVE ONBOARDING CHOICES
-    let crop = 'FARMER';
-    let lang = 'en';
-    
+    // Password is optional for login (OTP works too) but kept as a fallback
+    const { error: passwordError } = await supabase.auth.updateUser({ password });
+    if (passwordError) console.error('Error setting password:', passwordError);
+
+    // Lets the user reset their password without SMS (see forgot-password)
     try {
-      const storedCrop = await AsyncStorage.getItem('onboarding_crop');
-      const storedLang = await AsyncStorage.getItem('onboarding_lang');
-      
-      if (storedCrop) crop = storedCrop;
-      if (storedLang) lang = storedLang;
+      await setRecoveryPin(pin);
     } catch (e) {
-      console.log('Error reading onboarding data:', e);
+      console.error('Error setting recovery PIN:', e);
     }
 
-    // 4. Create Profile & Save Progress
-    if (authData.session?.user) {
-        const userId = authData.session.user.id;
-
-        // A. Save Profile
-        const { error: profileError } = await supabase
-            .from('profiles')
-            .upsert({
-                id: userId,
-                full_name: fullName,          
-                username: username,          
-                mobile_no: phone,             
-                selected_crop: crop,          
-                language: lang,              
-                coins: 1000, 
-                xp: 100
-            });
-        
-        if (profileError) {
-            console.error('Profile creation error:', profileError);
-            Alert.alert('Error', 'Account created but profile failed to save.');
-        } else {
-            // B. Mark Lesson 1 as Complete in DB
-            const { error: lessonError } = await supabase.from('user_lessons').upsert({
-                user_id: userId,
-                lesson_id: 1, 
-                completed_at: new Date().toISOString()
-            });
-            
-            if (lessonError) console.error("Error saving lesson:", lessonError);
-
-            // C. Clear onboarding flags
-            await AsyncStorage.setItem('onboarding_reward_claimed', 'true');
+    // 4. ONBOARDING CHOICES (made as a guest)
+    const guest = await getGuestProgress();
+
+    // 5. Create Profile & Save Progress
+    const userId = session.user.id;
+
+    // A. Save Profile
+    const { error: profileError } = await supabase
+        .from('profiles')
+        .upsert({
+            id: userId,
+            full_name: fullName,          
+            username: username,          
+            mobile_no: mobileNo,             
+            selected_crop: guest.crop,          
+            language: guest.language || language || 'en'
+        });
+    
+    if (profileError) {
+        console.error('Profile creation error:', profileError);
+        Alert.alert('Error', 'Account created but profile failed to save.');
+    } else {
+        // B. Welcome bonus (credited once through the coin ledger)
+        try {
+            await claimSignupBonus();
+        } catch (e) {
+            console.error("Error claiming signup bonus:", e);
+        }
+
+        // C. Lessons finished as a guest (re-graded, coins credited once).
+        // On failure the store is kept and retried by the outbox flush.
+        try {
+            await mergeGuestProgress();
+        } catch (e) {
+            console.error("Error merging guest progress:", e);
         }
-    }
 
-    setIsLoading(false);
+        // D. Clear onboarding flags
+        await AsyncStorage.setItem('onboarding_reward_claimed', 'true');
+    }
     
-    // 5. Navigate to Lessons
+    // 6. Navigate to Lessons
     // Use replace to prevent going back to signup
     router.replace('/lessons');
   };
@@ -174,7 +216,7 @@ export default function SignupScreen() {
         <Text style={styles.inputLabel}>PHONE NUMBER</Text>
         <TextInput
           style={styles.input as StyleProp<TextStyle>}
-          placeholder="Enter mobile number"
+          placeholder={t('phone_placeholder')}
           placeholderTextColor="#777"
           keyboardType="phone-pad"
           value={phone}
@@ -201,6 +243,19 @@ export default function SignupScreen() {
           onChangeText={setConfirmPassword}
         />
 
+        <Text style={styles.inputLabel}>{t('recovery_pin')}</Text>
+        <TextInput
+          style={styles.input as StyleProp<TextStyle>}
+          placeholder="6-digit PIN"
+          placeholderTextColor="#777"
+          keyboardType="number-pad"
+          maxLength={6}
+          secureTextEntry
+          value={pin}
+          onChangeText={setPin}
+        />
+        <Text style={styles.hintText}>{t('recovery_pin_hint')}</Text>
+
         <TouchableOpacity
           style={[
             styles.actionButton,
@@ -209,7 +264,7 @@ export default function SignupScreen() {
           disabled={isLoading}
           onPress={handleSignup}>
           <Text style={styles.actionButtonText}>
-            {isLoading ? 'REGISTERING...' : 'REGISTER'}
+            {isLoading ? t('sending_otp') : 'REGISTER'}
           </Text>
         </TouchableOpacity>
 
@@ -221,6 +276,18 @@ export default function SignupScreen() {
         </View>
 
       </ScrollView>
+
+      {otpPhone && (
+        <OtpOverlay
+          mobileNo={otpPhone}
+          initialCooldown={cooldown}
+          isVerifying={isVerifying}
+          error={otpError}
+          onConfirm={completeSignup}
+          onResend={handleResend}
+          onClose={() => setOtpPhone(null)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -233,6 +300,7 @@ const styles = StyleSheet.create({
   avatarContainer: { backgroundColor: '#1E1E1E', borderRadius: 50, padding: 15, marginBottom: 25, borderWidth: 1, borderColor: '#333' },
   inputLabel: { color: '#AAAAAA', fontSize: 12, fontWeight: '800', alignSelf: 'flex-start', marginBottom: 8, marginTop: 15, letterSpacing: 0.5 },
   input: { width: '100%', backgroundColor: '#1E1E1E', paddingVertical: 14, paddingHorizontal: 20, borderRadius: 12, borderWidth: 1, borderColor: '#333333', color: '#FFFFFF', fontSize: 16 },
+  hintText: { color: '#777777', fontSize: 12, alignSelf: 'flex-start', marginTop: 6 },
   actionButton: { width: '100%', paddingVertical: 16, borderRadius: 30, marginTop: 35 },
   actionButtonActive: { backgroundColor: '#388e3c' },
   actionButtonDisabled: { backgroundColor: '#333333' },
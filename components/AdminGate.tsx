@@ -0,0 +1,51 @@
+import { FontAwesome5 } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Platform, StyleSheet, Text, View } from 'react-native';
+
+import { canEditContent, ContentRole, fetchMyRole } from '@/utils/contentAdmin';
+
+// The admin console only runs in the web build and only for content roles.
+// RLS enforces the same rule on every write.
+export default function AdminGate({ children }: { children: React.ReactNode }) {
+  const [role, setRole] = useState<ContentRole | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetchMyRole()
+      .then(setRole)
+      .catch((e) => {
+        console.error('Role check failed:', e);
+        setRole(null);
+      });
+  }, []);
+
+  if (Platform.OS !== 'web') {
+    return (
+      <View style={styles.center}>
+        <FontAwesome5 name="desktop" size={32} color="#666" />
+        <Text style={styles.message}>The content console is available in the web app.</Text>
+      </View>
+    );
+  }
+
+  if (role === undefined) {
+    return (
+      <View style={styles.center}><ActivityIndicator size="large" color="#388E3C" /></View>
+    );
+  }
+
+  if (!canEditContent(role)) {
+    return (
+      <View style={styles.center}>
+        <FontAwesome5 name="lock" size={32} color="#666" />
+        <Text style={styles.message}>You need an admin or extension worker role to edit content.</Text>
+      </View>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#0D0D0D', padding: 30, gap: 16 },
+  message: { color: '#999', fontSize: 14, textAlign: 'center' },
+});
@@ -0,0 +1,21 @@
+import { CROP_IMAGES, CROP_SVGS } from '@/constants/cropAssets';
+import { FontAwesome5 } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet } from 'react-native';
+
+// Crop artwork by `crops.icon_key`: SVG if we have one, else the photo, else a leaf
+export default function CropIcon({ iconKey, size = 45 }: { iconKey?: string | null; size?: number }) {
+  const Svg = iconKey ? CROP_SVGS[iconKey] : undefined;
+  if (Svg) return <Svg width={size} height={size} />;
+
+  const image = iconKey ? CROP_IMAGES[iconKey] : undefined;
+  if (image) {
+    return <Image source={image} style={[styles.cropIcon, { width: size * 0.78, height: size * 0.78 }]} />;
+  }
+
+  return <FontAwesome5 name="leaf" size={size * 0.7} color="#4CAF50" />;
+}
+
+const styles = StyleSheet.create({
+  cropIcon: { resizeMode: 'contain' },
+});
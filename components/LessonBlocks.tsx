@@ -0,0 +1,341 @@
+import { FontAwesome5 } from '@expo/vector-icons';
+import { Audio, ResizeMode, Video } from 'expo-av';
+import React, { useEffect, useRef, useState } from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  BlockProgress,
+  blockList,
+  blockText,
+  LessonBlock,
+  segmentStarts,
+} from '@/utils/lessonBlocks';
+
+const PIXEL_FONT = 'monospace';
+
+type MediaSource = { uri: string } | null;
+
+interface LessonBlocksProps {
+  blocks: LessonBlock[];
+  language: string;
+  segmentStart: number; // narration segment of the first block
+  activeSegment: number | null;
+  progress: Record<string, BlockProgress>;
+  mediaSource: (block: LessonBlock) => MediaSource; // remote or downloaded
+  onAnswer: (blockId: string, optionIndex: number) => void;
+  onBlockLayout?: (blockId: string, y: number) => void;
+}
+
+// Renders `lessons.blocks` in the pixel style of the lesson path
+export default function LessonBlocks({
+  blocks,
+  language,
+  segmentStart,
+  activeSegment,
+  progress,
+  mediaSource,
+  onAnswer,
+  onBlockLayout,
+}: LessonBlocksProps) {
+  const starts = segmentStarts(blocks, language, segmentStart);
+
+  return (
+    <View>
+      {blocks.map((block) => {
+        // Read-along: `offset` is the segment within this block
+        const highlight = (offset: number) =>
+          activeSegment === starts[block.id] + offset && styles.readAlong;
+
+        return (
+          <View key={block.id} onLayout={(e) => onBlockLayout?.(block.id, e.nativeEvent.layout.y)}>
+            <Block
+              block={block}
+              language={language}
+              highlight={highlight}
+              progress={progress[block.id]}
+              media={mediaSource(block)}
+              onAnswer={(index) => onAnswer(block.id, index)}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+interface BlockProps {
+  block: LessonBlock;
+  language: string;
+  highlight: (offset: number) => false | typeof styles.readAlong;
+  progress?: BlockProgress;
+  media: MediaSource;
+  onAnswer: (optionIndex: number) => void;
+}
+
+function Block({ block, language, highlight, progress, media, onAnswer }: BlockProps) {
+  switch (block.type) {
+    case 'heading':
+      return <Text style={[styles.heading, highlight(0)]}>{blockText(block.text, language)}</Text>;
+
+    case 'paragraph':
+      return <Text style={[styles.paragraph, highlight(0)]}>{blockText(block.text, language)}</Text>;
+
+    case 'callout': {
+      const isTip = block.variant === 'tip';
+      return (
+        <View style={[styles.pixelCard, isTip ? styles.tipCard : styles.warningCard]}>
+          <FontAwesome5
+            name={isTip ? 'lightbulb' : 'exclamation-triangle'}
+            size={18}
+            color={isTip ? '#69F0AE' : '#FFD700'}
+          />
+          <Text style={[styles.calloutText, highlight(0)]}>{blockText(block.text, language)}</Text>
+        </View>
+      );
+    }
+
+    case 'image':
+      return (
+        <View style={styles.mediaBlock}>
+          {media ? (
+            <Image source={media} style={styles.image} resizeMode="cover" />
+          ) : (
+            <MissingMedia icon="image" />
+          )}
+          <Caption text={blockText(block.caption, language)} style={highlight(0)} />
+        </View>
+      );
+
+    case 'video':
+      return (
+        <View style={styles.mediaBlock}>
+          {media ? (
+            <Video source={media} style={styles.video} useNativeControls resizeMode={ResizeMode.CONTAIN} />
+          ) : (
+            <MissingMedia icon="video" />
+          )}
+          <Caption text={blockText(block.caption, language)} style={highlight(0)} />
+        </View>
+      );
+
+    case 'audio':
+      return (
+        <View style={styles.mediaBlock}>
+          <AudioClip source={media} />
+          <Caption text={blockText(block.caption, language)} style={highlight(0)} />
+        </View>
+      );
+
+    case 'steps': {
+      const hasTitle = !!block.title;
+      const numbered = block.numbered !== false;
+      return (
+        <View style={styles.stepsBlock}>
+          {hasTitle && <Text style={[styles.stepsTitle, highlight(0)]}>{blockText(block.title, language)}</Text>}
+          {blockList(block.items, language).map((item, index) => (
+            <View key={index} style={styles.stepRow}>
+              {numbered ? (
+                <View style={styles.stepNumber}>
+                  <Text style={styles.stepNumberText}>{index + 1}</Text>
+                </View>
+              ) : (
+                <Text style={styles.bullet}>■</Text>
+              )}
+              <Text style={[styles.paragraph, styles.stepText, highlight(index + (hasTitle ? 1 : 0))]}>
+                {item}
+              </Text>
+            </View>
+          ))}
+        </View>
+      );
+    }
+
+    case 'check':
+      return (
+        <CheckQuestion
+          block={block}
+          language={language}
+          highlight={highlight}
+          progress={progress}
+          onAnswer={onAnswer}
+        />
+      );
+  }
+}
+
+function CheckQuestion({
+  block,
+  language,
+  highlight,
+  progress,
+  onAnswer,
+}: Omit<BlockProps, 'block' | 'media'> & { block: Extract<LessonBlock, { type: 'check' }> }) {
+  const { t } = useTranslation();
+  // Picks up an answer given on an earlier visit
+  const [selected, setSelected] = useState<number | null>(progress?.answerIndex ?? null);
+  useEffect(() => {
+    if (progress?.answerIndex != null) setSelected(progress.answerIndex);
+  }, [progress?.answerIndex]);
+
+  const answered = selected !== null;
+  const isCorrect = selected === block.correct_index;
+  const explanation = blockText(block.explanation, language);
+
+  return (
+    <View style={[styles.pixelCard, styles.checkCard]}>
+      <Text style={styles.checkLabel}>{t('quick_check')}</Text>
+      <Text style={[styles.checkQuestion, highlight(0)]}>{blockText(block.question, language)}</Text>
+
+      {blockList(block.options, language).map((option, index) => {
+        const isPicked = selected === index;
+        return (
+          <TouchableOpacity
+            key={index}
+            disabled={answered && isCorrect}
+            style={[
+              styles.checkOption,
+              answered && index === block.correct_index && isCorrect && styles.checkOptionCorrect,
+              isPicked && !isCorrect && styles.checkOptionWrong,
+            ]}
+            onPress={() => {
+              setSelected(index);
+              onAnswer(index);
+            }}
+          >
+            <Text style={[styles.checkOptionText, highlight(index + 1)]}>{option}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {answered && (
+        <Text style={[styles.checkFeedback, { color: isCorrect ? '#69F0AE' : '#FF5252' }]}>
+          {isCorrect ? '✔ ' : '✘ '}
+          {isCorrect ? explanation || t('excellent_work') : t('try_again')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function AudioClip({ source }: { source: MediaSource }) {
+  const { t } = useTranslation();
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+    };
+  }, [source?.uri]);
+
+  const toggle = async () => {
+    if (!source) return;
+    try {
+      if (!soundRef.current) {
+        const { sound } = await Audio.Sound.createAsync(source, { shouldPlay: true }, (status) => {
+          if (!status.isLoaded) return;
+          setIsPlaying(status.isPlaying && !status.didJustFinish);
+          // Rewind so the next tap plays it again
+          if (status.didJustFinish) soundRef.current?.setPositionAsync(0);
+        });
+        soundRef.current = sound;
+      } else if (isPlaying) {
+        await soundRef.current.pauseAsync();
+      } else {
+        await soundRef.current.playAsync();
+      }
+    } catch (e) {
+      console.error('Audio block failed:', e);
+    }
+  };
+
+  return (
+    <TouchableOpacity style={[styles.pixelCard, styles.audioCard]} onPress={toggle} disabled={!source}>
+      <FontAwesome5 name={isPlaying ? 'pause' : 'play'} size={16} color={source ? '#69F0AE' : '#555'} />
+      <Text style={styles.audioText}>
+        {!source ? t('audio_unavailable') : isPlaying ? t('narration_pause') : t('play_audio')}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const MissingMedia = ({ icon }: { icon: string }) => (
+  <View style={[styles.image, styles.missingMedia]}>
+    <FontAwesome5 name={icon} size={28} color="#555" />
+  </View>
+);
+
+const Caption = ({ text, style }: { text: string; style: any }) =>
+  text ? <Text style={[styles.caption, style]}>{text}</Text> : null;
+
+const styles = StyleSheet.create({
+  readAlong: { backgroundColor: '#69F0AE33' },
+
+  heading: {
+    color: '#69F0AE',
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: PIXEL_FONT,
+    marginTop: 20,
+    marginBottom: 10,
+    textTransform: 'uppercase',
+  },
+  paragraph: { color: '#E0E0E0', fontSize: 16, lineHeight: 26, marginBottom: 12 },
+
+  // Chunky "pixel" card: square corners and a heavier bottom/right edge
+  pixelCard: {
+    borderWidth: 2,
+    borderBottomWidth: 5,
+    borderRightWidth: 5,
+    borderRadius: 2,
+    padding: 14,
+    marginBottom: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  tipCard: { flexDirection: 'row', gap: 12, borderColor: '#388E3C' },
+  warningCard: { flexDirection: 'row', gap: 12, borderColor: '#FFD700' },
+  calloutText: { flex: 1, color: '#E0E0E0', fontSize: 15, lineHeight: 22 },
+
+  mediaBlock: { marginBottom: 16 },
+  image: { width: '100%', height: 200, borderRadius: 2, borderWidth: 2, borderColor: '#333' },
+  video: { width: '100%', height: 220, backgroundColor: 'black', borderRadius: 2 },
+  missingMedia: { justifyContent: 'center', alignItems: 'center', backgroundColor: '#2C2C2E' },
+  caption: { color: '#999', fontSize: 13, marginTop: 6, fontFamily: PIXEL_FONT },
+  audioCard: { flexDirection: 'row', alignItems: 'center', gap: 12, borderColor: '#69F0AE', marginBottom: 0 },
+  audioText: { color: '#69F0AE', fontFamily: PIXEL_FONT, fontWeight: 'bold' },
+
+  stepsBlock: { marginBottom: 12 },
+  stepsTitle: { color: '#FFD700', fontFamily: PIXEL_FONT, fontWeight: 'bold', fontSize: 15, marginBottom: 10 },
+  stepRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 10 },
+  stepNumber: {
+    width: 26,
+    height: 26,
+    backgroundColor: '#388E3C',
+    borderBottomWidth: 3,
+    borderBottomColor: '#1B5E20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 1,
+  },
+  stepNumberText: { color: 'white', fontFamily: PIXEL_FONT, fontWeight: 'bold' },
+  bullet: { color: '#69F0AE', fontSize: 10, lineHeight: 26 },
+  stepText: { flex: 1 },
+
+  checkCard: { borderColor: '#FFD700' },
+  checkLabel: { color: '#FFD700', fontFamily: PIXEL_FONT, fontWeight: 'bold', fontSize: 12, marginBottom: 8 },
+  checkQuestion: { color: 'white', fontSize: 16, fontWeight: 'bold', marginBottom: 12 },
+  checkOption: {
+    borderWidth: 2,
+    borderColor: '#444',
+    borderBottomWidth: 4,
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#232323',
+  },
+  checkOptionCorrect: { borderColor: '#69F0AE', backgroundColor: '#1B5E2055' },
+  checkOptionWrong: { borderColor: '#FF5252', backgroundColor: '#B71C1C33' },
+  checkOptionText: { color: '#E0E0E0', fontSize: 15 },
+  checkFeedback: { marginTop: 6, fontSize: 14, fontWeight: 'bold' },
+});
@@ -0,0 +1,207 @@
+import { FontAwesome5 } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { saveLesson, uploadLessonFile } from '@/utils/contentAdmin';
+import { BLOCK_TYPES, LessonBlock, LessonBlockType, validateBlock } from '@/utils/lessonBlocks';
+
+// Admin console: `lessons.blocks` as an ordered list of JSON cards. Each card
+// is edited as text and only parsed/validated on save, so half-typed JSON
+// doesn't get lost.
+const TEMPLATES: Record<LessonBlockType, Record<string, unknown>> = {
+  heading: { type: 'heading', text: { en: '' } },
+  paragraph: { type: 'paragraph', text: { en: '' } },
+  image: { type: 'image', url: '', caption: { en: '' } },
+  video: { type: 'video', url: '', caption: { en: '' } },
+  audio: { type: 'audio', url: '', caption: { en: '' } },
+  callout: { type: 'callout', variant: 'tip', text: { en: '' } },
+  steps: { type: 'steps', title: { en: '' }, items: { en: [''] }, numbered: true },
+  check: { type: 'check', question: { en: '' }, options: { en: ['', ''] }, correct_index: 0, explanation: { en: '' } },
+};
+
+// Media picked from the library; audio blocks take a bucket path or URL
+const UPLOADABLE: Partial<Record<LessonBlockType, 'images' | 'videos'>> = { image: 'images', video: 'videos' };
+
+interface BlockDraft {
+  key: string;
+  type: string;
+  json: string;
+  error: string | null;
+}
+
+const toDraft = (block: any, index: number): BlockDraft => ({
+  key: `${block?.id ?? 'block'}_${index}`,
+  type: block?.type ?? '?',
+  json: JSON.stringify(block, null, 2),
+  error: null,
+});
+
+interface LessonBlocksEditorProps {
+  lessonId: number;
+  blocks: LessonBlock[] | null;
+  onSaved: (blocks: LessonBlock[] | null) => void;
+}
+
+export default function LessonBlocksEditor({ lessonId, blocks, onSaved }: LessonBlocksEditorProps) {
+  // Seeded once; saving the lesson basics must not reset unsaved blocks
+  const [drafts, setDrafts] = useState<BlockDraft[]>(() => (blocks || []).map(toDraft));
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const update = (key: string, json: string) =>
+    setDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, json, error: null } : d)));
+
+  const move = (index: number, by: number) =>
+    setDrafts((prev) => {
+      const target = index + by;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const remove = (key: string) => setDrafts((prev) => prev.filter((d) => d.key !== key));
+
+  const add = (type: LessonBlockType) => {
+    const block = { id: `${type}-${Date.now().toString(36)}`, ...TEMPLATES[type] };
+    setDrafts((prev) => [...prev, toDraft(block, prev.length)]);
+  };
+
+  const handleUpload = async (draft: BlockDraft) => {
+    let block: any;
+    try {
+      block = JSON.parse(draft.json);
+    } catch {
+      return Alert.alert('Invalid JSON', 'Fix the block before uploading.');
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: [UPLOADABLE[block.type as LessonBlockType]!],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    setBusy(draft.key);
+    try {
+      const path = await uploadLessonFile(lessonId, `block_${block.id}`, result.assets[0]);
+      update(draft.key, JSON.stringify({ ...block, url: path }, null, 2));
+    } catch (e: any) {
+      Alert.alert('Upload failed', e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const parsed: LessonBlock[] = [];
+    const seenIds = new Set<string>();
+    const checked = drafts.map((draft) => {
+      let block: any;
+      try {
+        block = JSON.parse(draft.json);
+      } catch {
+        return { ...draft, error: 'Invalid JSON' };
+      }
+      const error = validateBlock(block) ?? (seenIds.has(block.id) ? `Duplicate id "${block.id}"` : null);
+      seenIds.add(block?.id);
+      if (!error) parsed.push(block);
+      return { ...draft, type: block?.type ?? '?', error };
+    });
+    setDrafts(checked);
+    if (checked.some((d) => d.error)) return Alert.alert('Fix the blocks', 'Some blocks have errors.');
+
+    setBusy('save');
+    try {
+      // No blocks: the app falls back to the CONTENT field
+      const saved = await saveLesson({ id: lessonId, blocks: parsed.length ? parsed : null });
+      onSaved(saved.blocks);
+      Alert.alert('Saved', 'Lesson blocks updated.');
+    } catch (e: any) {
+      Alert.alert('Save failed', e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View>
+      {drafts.length === 0 && (
+        <Text style={styles.hint}>No blocks yet: the lesson shows its CONTENT text. Add blocks to build a rich lesson.</Text>
+      )}
+
+      {drafts.map((draft, index) => (
+        <View key={draft.key} style={[styles.card, draft.error && styles.cardError]}>
+          <View style={styles.headerRow}>
+            <Text style={styles.blockType}>{index + 1}. {draft.type.toUpperCase()}</Text>
+            <View style={styles.headerActions}>
+              {UPLOADABLE[draft.type as LessonBlockType] && (
+                <TouchableOpacity onPress={() => handleUpload(draft)} disabled={!!busy}>
+                  {busy === draft.key ? <ActivityIndicator color="#69F0AE" /> : <FontAwesome5 name="upload" size={14} color="#69F0AE" />}
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => move(index, -1)} disabled={index === 0}>
+                <FontAwesome5 name="arrow-up" size={14} color={index === 0 ? '#333' : '#AAA'} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => move(index, 1)} disabled={index === drafts.length - 1}>
+                <FontAwesome5 name="arrow-down" size={14} color={index === drafts.length - 1 ? '#333' : '#AAA'} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => remove(draft.key)}>
+                <FontAwesome5 name="trash" size={14} color="#FF5252" />
+              </TouchableOpacity>
+            </View>
+          </View>
+          <TextInput
+            style={styles.jsonInput}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={draft.json}
+            onChangeText={(v) => update(draft.key, v)}
+          />
+          {draft.error && <Text style={styles.errorText}>{draft.error}</Text>}
+        </View>
+      ))}
+
+      <Text style={styles.inputLabel}>ADD BLOCK</Text>
+      <View style={styles.chipRow}>
+        {BLOCK_TYPES.map((type) => (
+          <TouchableOpacity key={type} style={styles.chip} onPress={() => add(type)}>
+            <FontAwesome5 name="plus" size={10} color="#69F0AE" />
+            <Text style={styles.chipText}>{type}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.saveBtn} onPress={handleSave} disabled={!!busy}>
+          {busy === 'save' ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>SAVE BLOCKS</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { color: '#777', fontSize: 13, marginBottom: 12 },
+  card: { backgroundColor: '#141414', borderRadius: 14, padding: 16, marginBottom: 12, borderWidth: 1, borderColor: '#2A2A2A' },
+  cardError: { borderColor: '#FF5252' },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  headerActions: { flexDirection: 'row', alignItems: 'center', gap: 18 },
+  blockType: { color: '#FFD700', fontWeight: 'bold', letterSpacing: 1 },
+  jsonInput: {
+    backgroundColor: '#1A1A1A', color: '#E0E0E0', borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    padding: 10, fontSize: 13, fontFamily: 'monospace', minHeight: 120, textAlignVertical: 'top'
+  },
+  errorText: { color: '#FF5252', fontSize: 12, marginTop: 6 },
+
+  inputLabel: { color: '#AAA', fontSize: 12, fontWeight: 'bold', letterSpacing: 0.5, marginBottom: 6, marginTop: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#333'
+  },
+  chipText: { color: '#AAA', fontSize: 12 },
+
+  actionsRow: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 12, marginBottom: 16 },
+  saveBtn: { backgroundColor: '#388E3C', borderRadius: 10, paddingVertical: 10, paddingHorizontal: 20, minWidth: 140, alignItems: 'center' },
+  saveBtnText: { color: '#FFF', fontWeight: 'bold', letterSpacing: 1 },
+});
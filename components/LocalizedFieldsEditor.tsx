@@ -0,0 +1,86 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { SUPPORTED_LANGUAGES } from '@/utils/localize';
+
+// Admin console: one row per field, one column per language (`title_en`,
+// `title_hi`, ...) so translations are edited side by side.
+export interface LocalizedField {
+  name: string; // base field, e.g. 'title'
+  label: string;
+  multiline?: boolean;
+  list?: boolean; // text[] column, one item per line
+}
+
+interface LocalizedFieldsEditorProps {
+  fields: LocalizedField[];
+  values: Record<string, any>;
+  onChange: (column: string, value: string | string[]) => void;
+}
+
+// List columns are edited line by line; drop the blank lines before saving
+export const cleanLocalizedLists = (
+  fields: LocalizedField[],
+  values: Record<string, any>
+) => {
+  const cleaned = { ...values };
+  fields
+    .filter((f) => f.list)
+    .forEach((f) =>
+      SUPPORTED_LANGUAGES.forEach((lang) => {
+        const column = `${f.name}_${lang}`;
+        if (Array.isArray(cleaned[column])) {
+          cleaned[column] = cleaned[column].map((item: string) => item.trim()).filter(Boolean);
+        }
+      })
+    );
+  return cleaned;
+};
+
+export default function LocalizedFieldsEditor({ fields, values, onChange }: LocalizedFieldsEditorProps) {
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.labelCell} />
+        {SUPPORTED_LANGUAGES.map((lang) => (
+          <Text key={lang} style={styles.langHeader}>{lang.toUpperCase()}</Text>
+        ))}
+      </View>
+
+      {fields.map((field) => (
+        <View key={field.name} style={styles.row}>
+          <Text style={[styles.labelCell, styles.label]}>{field.label}</Text>
+          {SUPPORTED_LANGUAGES.map((lang) => {
+            const column = `${field.name}_${lang}`;
+            const value = values[column];
+            return (
+              <TextInput
+                key={column}
+                style={[styles.input, (field.multiline || field.list) && styles.inputMultiline]}
+                multiline={field.multiline || field.list}
+                placeholder={field.list ? 'One per line' : ''}
+                placeholderTextColor="#555"
+                value={field.list ? (value || []).join('\n') : value ?? ''}
+                onChangeText={(text) => onChange(column, field.list ? text.split('\n') : text)}
+              />
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, marginBottom: 8 },
+  labelCell: { width: 120 },
+  label: { color: '#AAA', fontSize: 12, fontWeight: 'bold', paddingTop: 10, letterSpacing: 0.5 },
+  langHeader: { flex: 1, color: '#69F0AE', fontSize: 12, fontWeight: 'bold', letterSpacing: 1 },
+  input: {
+    flex: 1, minWidth: 0,
+    backgroundColor: '#1A1A1A', color: '#FFF',
+    borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 10, paddingVertical: 8, fontSize: 13
+  },
+  inputMultiline: { minHeight: 90, textAlignVertical: 'top' },
+});
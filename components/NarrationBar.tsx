@@ -0,0 +1,65 @@
+import { FontAwesome5 } from '@expo/vector-icons';
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+import { useNarration } from '@/hooks/useNarration';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface NarrationBarProps {
+  narration: ReturnType<typeof useNarration>;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Play/pause + speed for a useNarration() instance; the screen does the
+// read-along highlighting with `narration.activeIndex`
+export default function NarrationBar({ narration, style }: NarrationBarProps) {
+  const { t } = useTranslation();
+  const { isPlaying, rate, usesRecording, toggle, cycleRate } = narration;
+
+  return (
+    <View style={[styles.bar, style]}>
+      <TouchableOpacity style={styles.playButton} onPress={toggle}>
+        <FontAwesome5 name={isPlaying ? 'pause' : 'volume-up'} size={16} color="#0D0D0D" />
+      </TouchableOpacity>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.title}>{isPlaying ? t('narration_pause') : t('narration_listen')}</Text>
+        <Text style={styles.subtitle}>
+          {usesRecording ? t('narration_recorded') : t('narration_device_voice')}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.rateButton} onPress={cycleRate}>
+        <Text style={styles.rateText}>{rate}x</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#2C2C2E',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 20,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#69F0AE',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: { color: 'white', fontSize: 14, fontWeight: 'bold' },
+  subtitle: { color: '#B0B0B0', fontSize: 12, marginTop: 2 },
+  rateButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#69F0AE',
+  },
+  rateText: { color: '#69F0AE', fontWeight: 'bold', fontSize: 13 },
+});
@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import {
-    Alert,
+    ActivityIndicator,
     StyleProp,
     StyleSheet,
     Text,
@@ -11,22 +11,49 @@ import {
     ViewStyle,
 } from 'react-native';
 
+import { useTranslation } from '@/hooks/useTranslation';
+import { maskPhone } from '@/utils/phoneAuth';
+
 type ViewAndTextStyle = ViewStyle & TextStyle;
 
+// Verification step shown after a code is sent (login, signup, phone linking).
+// The parent verifies the code and passes back `error` / `isVerifying`.
 interface OtpOverlayProps {
   onConfirm: (code: string) => void;
   onClose: () => void;
-  mobileNo: string;
-  onResend: () => void;
+  mobileNo: string; // E.164
+  onResend: () => Promise<number | void>; // resolves the next cooldown (seconds)
+  initialCooldown?: number;
+  isVerifying?: boolean;
+  error?: string | null;
 }
 
-export default function OtpOverlay({ onConfirm, onClose, mobileNo, onResend }: OtpOverlayProps) {
-  const [otp, setOtp] = useState<string[]>(['', '', '', '', '', '']);
-  const [timer, setTimer] = useState(30);
+const EMPTY_OTP = ['', '', '', '', '', ''];
+
+export default function OtpOverlay({
+  onConfirm,
+  onClose,
+  mobileNo,
+  onResend,
+  initialCooldown = 30,
+  isVerifying = false,
+  error = null,
+}: OtpOverlayProps) {
+  const { t } = useTranslation();
+  const [otp, setOtp] = useState<string[]>(EMPTY_OTP);
+  const [timer, setTimer] = useState(initialCooldown);
   const [isResending, setIsResending] = useState(false);
   
   const inputRefs = useRef<TextInput[]>([]);
 
+  // A rejected code clears the boxes for the next try
+  useEffect(() => {
+    if (error) {
+      setOtp(EMPTY_OTP);
+      inputRefs.current[0]?.focus();
+    }
+  }, [error]);
+
   useEffect(() => {
     const countdown = setInterval(() => {
       setTimer((prev) => (prev > 0 ? prev - 1 : 0));
@@ -47,14 +74,17 @@ export default function OtpOverlay({ onConfirm, onClose, mobileNo, onResend }: O
   const handleResendOtp = async () => {
     if (timer === 0 && !isResending) {
       setIsResending(true);
-      await onResend(); 
-      setIsResending(false);
-      setTimer(30);
-      Alert.alert('Success', 'New OTP sent!');
+      try {
+        const cooldown = await onResend();
+        setTimer(cooldown ?? 30);
+        setOtp(EMPTY_OTP);
+      } finally {
+        setIsResending(false);
+      }
     }
   };
 
-  const isOtpComplete = otp.every(digit => digit.length === 1);
+  const isOtpComplete = otp.every(digit => digit.length === 1) && !isVerifying;
   const resendDisabled = timer !== 0 || isResending;
 
   return (
@@ -63,7 +93,10 @@ export default function OtpOverlay({ onConfirm, onClose, mobileNo, onResend }: O
         <TouchableOpacity style={overlayStyles.closeButton} onPress={onClose}>
           <Text style={overlayStyles.closeText}>X</Text>
         </TouchableOpacity>
-        <Text style={overlayStyles.enterOtpText}>ENTER 6-DIGIT OTP</Text>
+        <Text style={overlayStyles.enterOtpText}>{t('enter_otp')}</Text>
+        <Text style={overlayStyles.sentToText}>
+          {t('otp_sent_to').replace('{phone}', maskPhone(mobileNo))}
+        </Text>
         
         <View style={overlayStyles.otpInputContainer}>
           {otp.map((digit, index) => (
@@ -96,15 +129,25 @@ export default function OtpOverlay({ onConfirm, onClose, mobileNo, onResend }: O
           ]}
           disabled={!isOtpComplete}
           onPress={() => onConfirm(otp.join(''))}>
-          <Text style={overlayStyles.confirmButtonText}>CONFIRM</Text>
+          {isVerifying ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={overlayStyles.confirmButtonText}>{t('confirm')}</Text>
+          )}
         </TouchableOpacity>
+
+        {error && <Text style={overlayStyles.errorText}>{error}</Text>}
         
         <TouchableOpacity onPress={handleResendOtp} disabled={resendDisabled}>
           <Text style={[
             overlayStyles.resendText,
             resendDisabled && { opacity: 0.5 }
           ]}>
-            {isResending ? 'SENDING...' : `RESEND OTP? ${timer > 0 ? `${timer}SEC` : 'RESEND'}`}
+            {isResending
+              ? t('sending_otp')
+              : timer > 0
+                ? t('resend_otp_in').replace('{seconds}', String(timer))
+                : t('resend_otp')}
           </Text>
         </TouchableOpacity>
       </View>
@@ -118,6 +161,8 @@ interface OverlayStyles {
   closeButton: ViewStyle;
   closeText: TextStyle;
   enterOtpText: TextStyle;
+  sentToText: TextStyle;
+  errorText: TextStyle;
   otpInputContainer: ViewStyle;
   otpInput: ViewAndTextStyle; 
   confirmButton: ViewStyle;
@@ -132,7 +177,9 @@ const overlayStyles = StyleSheet.create<OverlayStyles>({
   otpBox: { width: '90%', maxWidth: 380, backgroundColor: '#333333', borderRadius: 20, padding: 30, alignItems: 'center', borderWidth: 1, borderColor: '#444444' },
   closeButton: { position: 'absolute', top: 15, right: 15, padding: 5 },
   closeText: { color: '#FFFFFF', fontSize: 20, fontWeight: 'bold' },
-  enterOtpText: { color: '#FFFFFF', fontSize: 20, fontWeight: 'bold', marginBottom: 20, marginTop: 10, letterSpacing: 1.5, borderBottomWidth: 2, borderColor: '#FFFFFF', paddingBottom: 5 },
+  enterOtpText: { color: '#FFFFFF', fontSize: 20, fontWeight: 'bold', marginBottom: 8, marginTop: 10, letterSpacing: 1.5, borderBottomWidth: 2, borderColor: '#FFFFFF', paddingBottom: 5 },
+  sentToText: { color: '#B0B0B0', fontSize: 13, marginBottom: 20, textAlign: 'center' },
+  errorText: { color: '#FF5252', fontSize: 13, marginBottom: 15, textAlign: 'center' },
   otpInputContainer: { flexDirection: 'row', justifyContent: 'space-between', width: '100%', marginBottom: 25, gap: 8 },
   otpInput: { width: 40, height: 50, backgroundColor: '#151718', borderRadius: 8, borderWidth: 1, borderColor: '#555555', color: '#FFFFFF', fontSize: 20, fontWeight: 'bold', textAlign: 'center' },
   confirmButton: { width: '80%', paddingVertical: 12, borderRadius: 30, marginBottom: 15 },
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Defs, Line, LinearGradient, Path, Stop } from 'react-native-svg';
+
+import { PricePoint } from '@/hooks/usePriceHistory';
+
+interface PriceChartProps {
+  points: PricePoint[]; // oldest first
+  width: number;
+  height?: number;
+  color?: string;
+}
+
+const PADDING = 12;
+
+// Simple line + area chart. Y axis is scaled to the range's min/max so small
+// daily moves stay visible.
+export default function PriceChart({ points, width, height = 180, color = '#4CAF50' }: PriceChartProps) {
+  if (points.length < 2) {
+    return (
+      <View style={[styles.empty, { width, height }]}>
+        <Text style={styles.emptyText}>
+          {points.length === 0 ? 'No price history yet' : 'Not enough days to draw a trend'}
+        </Text>
+      </View>
+    );
+  }
+
+  const prices = points.map((p) => p.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const span = max - min || 1; // flat series -> draw through the middle
+
+  const x = (i: number) => PADDING + (i / (points.length - 1)) * (width - PADDING * 2);
+  const y = (price: number) =>
+    max === min ? height / 2 : PADDING + (1 - (price - min) / span) * (height - PADDING * 2);
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.price)}`).join(' ');
+  const area = `${line} L${x(points.length - 1)},${height} L${x(0)},${height} Z`;
+  const last = points[points.length - 1];
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        <Defs>
+          <LinearGradient id="priceFill" x1="0" y1="0" x2="0" y2="1">
+            <Stop offset="0" stopColor={color} stopOpacity="0.35" />
+            <Stop offset="1" stopColor={color} stopOpacity="0" />
+          </LinearGradient>
+        </Defs>
+
+        {/* Guides at the range high / low */}
+        <Line x1={PADDING} x2={width - PADDING} y1={y(max)} y2={y(max)} stroke="#333" strokeDasharray="4,4" />
+        <Line x1={PADDING} x2={width - PADDING} y1={y(min)} y2={y(min)} stroke="#333" strokeDasharray="4,4" />
+
+        <Path d={area} fill="url(#priceFill)" />
+        <Path d={line} stroke={color} strokeWidth={2.5} fill="none" strokeLinejoin="round" strokeLinecap="round" />
+        <Circle cx={x(points.length - 1)} cy={y(last.price)} r={4} fill={color} />
+      </Svg>
+
+      <View style={styles.axisRow}>
+        <Text style={styles.axisText}>{formatDay(points[0].date)}</Text>
+        <Text style={styles.axisText}>{formatDay(last.date)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+const styles = StyleSheet.create({
+  empty: { justifyContent: 'center', alignItems: 'center' },
+  emptyText: { color: '#666', fontSize: 12 },
+  axisRow: { flexDirection: 'row', justifyContent: 'space-between', paddingHorizontal: PADDING, marginTop: 6 },
+  axisText: { color: '#666', fontSize: 10 },
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { STAGE_KINDS, StageKind } from '@/utils/cropCalendar';
+
+// Admin console: when and where a lesson or quest matters most (`months`,
+// `states`; see *_recommendation_targeting.sql) and its crop calendar
+// `stage` (*_crop_calendar.sql). The "For you today" feed and the crop
+// calendar read these; nothing is hidden from the map or the quest list.
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface TargetingEditorProps {
+  values: Record<string, any>;
+  onChange: (column: 'months' | 'states' | 'stage', value: any) => void;
+}
+
+// States are typed comma separated; drop the blanks before saving
+export const cleanTargeting = (values: Record<string, any>) => ({
+  ...values,
+  months: [...(values.months || [])].sort((a: number, b: number) => a - b),
+  states: (values.states || []).map((s: string) => s.trim()).filter(Boolean),
+});
+
+export default function TargetingEditor({ values, onChange }: TargetingEditorProps) {
+  const months: number[] = values.months || [];
+
+  const toggleMonth = (month: number) =>
+    onChange('months', months.includes(month) ? months.filter((m) => m !== month) : [...months, month]);
+
+  return (
+    <View>
+      <Text style={styles.label}>BEST MONTHS (NONE = ALL YEAR)</Text>
+      <View style={styles.chipRow}>
+        {MONTHS.map((label, index) => {
+          const active = months.includes(index + 1);
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => toggleMonth(index + 1)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>CROP CALENDAR STAGE</Text>
+      <View style={styles.chipRow}>
+        {[null, ...STAGE_KINDS].map((stage: StageKind | null) => {
+          const active = (values.stage ?? null) === stage;
+          return (
+            <TouchableOpacity
+              key={stage ?? 'none'}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange('stage', stage)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {stage ? stage.replace('_', ' ') : 'Any stage'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>STATES (COMMA SEPARATED, EMPTY = EVERYWHERE)</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Kerala, Punjab"
+        placeholderTextColor="#555"
+        value={(values.states || []).join(',')}
+        onChangeText={(text) => onChange('states', text.split(','))}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { color: '#AAA', fontSize: 12, fontWeight: 'bold', letterSpacing: 0.5, marginBottom: 6, marginTop: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, backgroundColor: '#1A1A1A', borderWidth: 1, borderColor: '#333' },
+  chipActive: { backgroundColor: '#388E3C', borderColor: '#4CAF50' },
+  chipText: { color: '#AAA', fontSize: 12 },
+  chipTextActive: { color: '#FFF', fontWeight: 'bold' },
+  input: {
+    backgroundColor: '#1A1A1A', color: '#FFF',
+    borderRadius: 8, borderWidth: 1, borderColor: '#333',
+    paddingHorizontal: 10, paddingVertical: 8, fontSize: 13, marginBottom: 8
+  },
+});
@@ -0,0 +1,32 @@
+import React from "react";
+import { SvgProps } from "react-native-svg";
+
+import BananaIcon from "../assets/images/Banana.svg";
+import PepperIcon from "../assets/images/black_pepper.svg";
+import CardamomIcon from "../assets/images/cardamom.svg";
+import CoconutIcon from "../assets/images/coconut.svg";
+import CoffeeIcon from "../assets/images/coffee.svg";
+
+// Bundled crop artwork, keyed by `crops.icon_key`. The crop list itself lives
+// in the `crops` table; only new artwork needs a code change here.
+
+// Line icons (market cards, price detail)
+export const CROP_SVGS: Record<string, React.FC<SvgProps>> = {
+  banana: BananaIcon,
+  black_pepper: PepperIcon,
+  cardamom: CardamomIcon,
+  coconut: CoconutIcon,
+  coffee: CoffeeIcon,
+};
+
+// Photos (crop picker; icon fallback for crops without an SVG)
+export const CROP_IMAGES: Record<string, any> = {
+  banana: require("../assets/images/crops/banana.png"),
+  coffee: require("../assets/images/crops/coffee.png"),
+  coconut: require("../assets/images/crops/coconut.png"),
+  rice: require("../assets/images/crops/rice.png"),
+  cardamom: require("../assets/images/crops/cardamom.png"),
+  black_pepper: require("../assets/images/crops/black_pepper.png"),
+  ginger: require("../assets/images/crops/ginger.png"),
+  cashew: require("../assets/images/crops/cashew.png"),
+};
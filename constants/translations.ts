@@ -84,7 +84,197 @@ export type TranslationKeys =
   // --- NEW KEYS ADDED ---
   | "change_crop"
   | "change_language"
-  | "settings";
+  | "settings"
+  // --- Scheme eligibility ---
+  | "eligibility_check"
+  | "eligibility_intro"
+  | "land_size_hectares"
+  | "your_state"
+  | "your_crop"
+  | "has_land_records"
+  | "has_bank_account"
+  | "yes"
+  | "no"
+  | "not_set"
+  | "find_my_schemes"
+  | "edit_answers"
+  | "likely_eligible"
+  | "check_eligibility"
+  | "not_eligible"
+  | "reason_open_to_all"
+  | "reason_land_within"
+  | "reason_land_over"
+  | "reason_land_under"
+  | "reason_land_unknown"
+  | "reason_crop_ok"
+  | "reason_crop_not"
+  | "reason_crop_unknown"
+  | "reason_state_ok"
+  | "reason_state_not"
+  | "reason_state_unknown"
+  | "reason_records_ok"
+  | "reason_records_missing"
+  | "reason_records_unknown"
+  | "reason_bank_ok"
+  | "reason_bank_missing"
+  | "reason_bank_unknown"
+  | "reason_agristack_ok"
+  | "reason_agristack_missing"
+  // --- Phone OTP auth ---
+  | "phone_number"
+  | "phone_placeholder"
+  | "send_otp"
+  | "sending_otp"
+  | "enter_otp"
+  | "otp_sent_to"
+  | "resend_otp_in"
+  | "resend_otp"
+  | "verifying"
+  | "use_password_instead"
+  | "use_otp_instead"
+  | "legacy_account_prompt"
+  | "link_phone"
+  | "link_phone_desc"
+  | "phone_linked"
+  | "err_invalid_phone"
+  | "err_no_account"
+  | "err_phone_taken"
+  | "err_too_many_requests"
+  | "err_locked"
+  | "err_invalid_code"
+  | "err_not_authenticated"
+  | "err_otp_generic"
+  // --- Account recovery ---
+  | "forgot_password"
+  | "reset_password"
+  | "reset_password_desc"
+  | "via_sms_code"
+  | "via_recovery_pin"
+  | "recovery_pin"
+  | "recovery_pin_hint"
+  | "new_password"
+  | "confirm_new_password"
+  | "resetting_password"
+  | "password_reset_done"
+  | "err_password_mismatch"
+  | "err_weak_password"
+  | "err_pin_format"
+  | "err_no_pin"
+  // --- Guest progress ---
+  | "guest_progress_merged"
+  // --- Content admin ---
+  | "content_admin"
+  // --- Lesson downloads ---
+  | "download_offline"
+  | "download"
+  | "saved_offline"
+  | "offline_storage_used"
+  | "remove_download"
+  | "update_download"
+  | "err_download_failed"
+  // --- Narration ---
+  | "narration_listen"
+  | "narration_pause"
+  | "narration_recorded"
+  | "narration_device_voice"
+  // --- Lesson blocks ---
+  | "quick_check"
+  | "play_audio"
+  | "audio_unavailable"
+  // --- Lesson map ---
+  | "lesson_locked"
+  | "finish_first"
+  | "side_lesson"
+  | "more_lessons"
+  | "crop_track"
+  // --- Review ---
+  | "review_title"
+  | "review_due"
+  | "review_caught_up"
+  | "review_empty_hint"
+  | "review_complete"
+  | "review_correct"
+  | "review_done"
+  // --- Mini-games ---
+  | "play_game"
+  | "game_unavailable"
+  | "go_back"
+  // --- Quest photo proof ---
+  | "proof_add_photo"
+  | "proof_retake"
+  | "proof_in_review"
+  | "proof_rejected"
+  | "proof_camera_permission"
+  | "proof_sign_in"
+  | "proof_queued"
+  | "proof_sent"
+  | "proof_hint"
+  | "proof_no_time"
+  | "proof_no_location"
+  | "proof_submit"
+  // --- Quest seasons ---
+  | "season_ends_in"
+  | "season_ended"
+  | "season_standings"
+  | "season_no_standings"
+  // --- Quest steps ---
+  | "quest_tasks"
+  | "quest_sign_in"
+  | "step_queued"
+  | "step_lesson"
+  | "step_question"
+  | "step_photo"
+  | "step_activity"
+  | "step_opens_on"
+  | "step_action_lesson"
+  | "step_action_question"
+  | "step_action_photo"
+  | "step_action_activity"
+  // --- For you today ---
+  | "for_you_today"
+  | "for_you_kind_lesson"
+  | "for_you_kind_quest"
+  | "for_you_kind_scheme"
+  | "for_you_next_lesson"
+  | "for_you_weak_topic"
+  | "for_you_in_progress"
+  | "for_you_eligible"
+  | "for_you_in_season"
+  | "for_you_your_crop"
+  | "for_you_your_state"
+  | "for_you_small_farm"
+  | "for_you_ending_soon"
+  // --- Crop calendar ---
+  | "crop_calendar"
+  | "calendar_no_crop"
+  | "calendar_choose_crop"
+  | "calendar_no_stages"
+  | "calendar_set_sowing"
+  | "calendar_sowing_date"
+  | "calendar_save_date"
+  | "calendar_change"
+  | "calendar_today"
+  | "calendar_day"
+  | "calendar_sowing_in"
+  | "calendar_season_over"
+  | "calendar_now"
+  | "calendar_stages"
+  | "calendar_upcoming"
+  | "calendar_no_tasks"
+  | "calendar_date_queued"
+  | "stage_sowing"
+  | "stage_irrigation"
+  | "stage_fertilising"
+  | "stage_pest_watch"
+  | "stage_harvest"
+  | "for_you_crop_stage"
+  // --- Offline sync ---
+  | "sync_rejected_title"
+  | "sync_rejected"
+  | "quest_saved_offline"
+  | "reward_unlock_offline"
+  // --- Guest game replays ---
+  | "guest_games_replay";
 
 // Define the structure of the translations
 type Translations = Record<TranslationKeys, string>;
@@ -181,6 +371,196 @@ const translations: LanguageMap = {
     change_crop: "Change Crop",
     change_language: "Change Language",
     settings: "Settings",
+    // --- Scheme eligibility ---
+    eligibility_check: "Check Your Eligibility",
+    eligibility_intro: "Answer a few questions to see which schemes fit you.",
+    land_size_hectares: "Land size (hectares)",
+    your_state: "Your state",
+    your_crop: "Your crop",
+    has_land_records: "Do you have land records in your name?",
+    has_bank_account: "Do you have a bank account linked to Aadhaar?",
+    yes: "Yes",
+    no: "No",
+    not_set: "Not set",
+    find_my_schemes: "FIND MY SCHEMES",
+    edit_answers: "Edit answers",
+    likely_eligible: "LIKELY ELIGIBLE",
+    check_eligibility: "CHECK",
+    not_eligible: "NOT ELIGIBLE",
+    reason_open_to_all: "Open to all farmers",
+    reason_land_within: "{land} ha is within the {limit} ha limit",
+    reason_land_over: "{land} ha is above the {limit} ha limit",
+    reason_land_under: "{land} ha is below the {limit} ha minimum",
+    reason_land_unknown: "Add your land size",
+    reason_crop_ok: "{crop} is covered",
+    reason_crop_not: "{crop} is not covered",
+    reason_crop_unknown: "Select your crop",
+    reason_state_ok: "Available in {state}",
+    reason_state_not: "Not available in {state}",
+    reason_state_unknown: "Add your state",
+    reason_records_ok: "Land records available",
+    reason_records_missing: "Needs land records in your name",
+    reason_records_unknown: "Tell us about your land records",
+    reason_bank_ok: "Bank account available",
+    reason_bank_missing: "Needs a bank account",
+    reason_bank_unknown: "Tell us about your bank account",
+    reason_agristack_ok: "AgriStack ID linked",
+    reason_agristack_missing: "Link your AgriStack ID in Profile",
+    // --- Phone OTP auth ---
+    phone_number: "PHONE NUMBER",
+    phone_placeholder: "10-digit mobile number",
+    send_otp: "SEND OTP",
+    sending_otp: "SENDING OTP...",
+    enter_otp: "ENTER 6-DIGIT OTP",
+    otp_sent_to: "Code sent to {phone}",
+    resend_otp_in: "RESEND OTP IN {seconds}S",
+    resend_otp: "RESEND OTP",
+    verifying: "VERIFYING...",
+    use_password_instead: "Use password instead",
+    use_otp_instead: "Login with OTP instead",
+    legacy_account_prompt: "Signed up with a username before?",
+    link_phone: "Link your phone",
+    link_phone_desc: "Sign in once with your old username and password, then verify your phone. After that you log in with your phone number.",
+    phone_linked: "Phone linked! Use it to log in from now on.",
+    err_invalid_phone: "Enter a valid 10-digit mobile number.",
+    err_no_account: "No account uses this number. Sign up first.",
+    err_phone_taken: "This number already has an account. Log in instead.",
+    err_too_many_requests: "Too many codes requested. Try again in {seconds} seconds.",
+    err_locked: "Too many wrong codes. Try again after {time}.",
+    err_invalid_code: "Wrong code. {attempts} attempts left.",
+    err_not_authenticated: "Please sign in again.",
+    err_otp_generic: "Something went wrong. Check your connection and try again.",
+    // --- Account recovery ---
+    forgot_password: "Forgot password?",
+    reset_password: "RESET PASSWORD",
+    reset_password_desc: "Prove it's you with an SMS code or your recovery PIN, then choose a new password. You will be signed out on all other devices.",
+    via_sms_code: "SMS CODE",
+    via_recovery_pin: "RECOVERY PIN",
+    recovery_pin: "RECOVERY PIN",
+    recovery_pin_hint: "6 digits. Lets you reset your password without SMS.",
+    new_password: "NEW PASSWORD",
+    confirm_new_password: "CONFIRM NEW PASSWORD",
+    resetting_password: "UPDATING...",
+    password_reset_done: "Password updated. Other devices have been signed out.",
+    err_password_mismatch: "Passwords do not match.",
+    err_weak_password: "Password must be at least 6 characters.",
+    err_pin_format: "Recovery PIN must be 6 digits.",
+    err_no_pin: "No recovery PIN is set for this account. Use an SMS code.",
+    // --- Guest progress ---
+    guest_progress_merged: "{lessons} lessons and {coins} coins from this device were added to your account.",
+    // --- Content admin ---
+    content_admin: "Content Admin",
+    // --- Lesson downloads ---
+    download_offline: "Download for offline",
+    download: "Download",
+    saved_offline: "Saved for offline · {size}",
+    offline_storage_used: "Offline lessons use {size} on this phone",
+    remove_download: "Remove",
+    update_download: "Update",
+    err_download_failed: "Could not download this lesson. Check your connection and try again.",
+    // --- Narration ---
+    narration_listen: "Listen",
+    narration_pause: "Pause",
+    narration_recorded: "Recorded narration",
+    narration_device_voice: "Phone voice",
+    // --- Lesson blocks ---
+    quick_check: "QUICK CHECK",
+    play_audio: "Play audio",
+    audio_unavailable: "Audio unavailable",
+    // --- Lesson map ---
+    lesson_locked: "Lesson locked",
+    finish_first: "Finish these lessons first: {lessons}",
+    side_lesson: "SIDE LESSON",
+    more_lessons: "More lessons",
+    crop_track: "{crop} track",
+    // --- Review ---
+    review_title: "Daily Review",
+    review_due: "{count} questions to review today",
+    review_caught_up: "All caught up!",
+    review_empty_hint: "Questions you miss in lesson quizzes come back here to practise.",
+    review_complete: "Review complete!",
+    review_correct: "correct",
+    review_done: "DONE",
+    // --- Mini-games ---
+    play_game: "PLAY GAME",
+    game_unavailable: "This game isn't ready yet. Connect to the internet once to download it for offline play.",
+    go_back: "GO BACK",
+    // --- Quest photo proof ---
+    proof_add_photo: "ADD PHOTO PROOF",
+    proof_retake: "RETAKE PHOTO",
+    proof_in_review: "In review",
+    proof_rejected: "Your photo was not accepted",
+    proof_camera_permission: "Allow camera access to photograph your work.",
+    proof_sign_in: "Sign in to send photo proof.",
+    proof_queued: "Your photo is saved and will upload when you're back online.",
+    proof_sent: "An extension worker will check your photo. Quest coins are added once it's approved.",
+    proof_hint: "Take a clear photo of the finished task in your field. Keep location on so the reviewer can see where it was taken.",
+    proof_no_time: "No capture time in photo",
+    proof_no_location: "No location in photo",
+    proof_submit: "SEND FOR REVIEW",
+    // --- Quest seasons ---
+    season_ends_in: "Ends in",
+    season_ended: "Season over",
+    season_standings: "SEASON STANDINGS",
+    season_no_standings: "No quest coins earned in this season yet.",
+    // --- Quest steps ---
+    quest_tasks: "TASKS",
+    quest_sign_in: "Sign in to save your quest progress.",
+    step_queued: "Task saved on your phone. It will sync when you are online.",
+    step_lesson: "Read the lesson",
+    step_question: "Answer the question",
+    step_photo: "Upload a photo",
+    step_activity: "Log the activity",
+    step_opens_on: "Opens on",
+    step_action_lesson: "OPEN LESSON",
+    step_action_question: "ANSWER",
+    step_action_photo: "ADD PHOTO PROOF",
+    step_action_activity: "I DID IT TODAY",
+    // --- For you today ---
+    for_you_today: "FOR YOU TODAY",
+    for_you_kind_lesson: "LESSON",
+    for_you_kind_quest: "QUEST",
+    for_you_kind_scheme: "SCHEME",
+    for_you_next_lesson: "Up next",
+    for_you_weak_topic: "Go over again",
+    for_you_in_progress: "Keep going",
+    for_you_eligible: "You may be eligible",
+    for_you_in_season: "Right for this month",
+    for_you_your_crop: "For your crop",
+    for_you_your_state: "For your state",
+    for_you_small_farm: "Fits your land size",
+    for_you_ending_soon: "Season ends soon",
+    // --- Crop calendar ---
+    crop_calendar: "Crop Calendar",
+    calendar_no_crop: "Choose your crop to see its calendar.",
+    calendar_choose_crop: "Choose crop",
+    calendar_no_stages: "There is no calendar for this crop yet.",
+    calendar_set_sowing: "When did you sow?",
+    calendar_sowing_date: "Sown on",
+    calendar_save_date: "SAVE DATE",
+    calendar_change: "CHANGE",
+    calendar_today: "Today",
+    calendar_day: "Day {count}",
+    calendar_sowing_in: "Sowing in {count} days",
+    calendar_season_over: "This season is over. Set the sowing date of your next crop.",
+    calendar_now: "NOW",
+    calendar_stages: "STAGES",
+    calendar_upcoming: "UPCOMING TASKS",
+    calendar_no_tasks: "No tasks in the next 30 days.",
+    calendar_date_queued: "Saved on this phone. It will sync when you are back online.",
+    stage_sowing: "Sowing",
+    stage_irrigation: "Irrigation",
+    stage_fertilising: "Fertilising",
+    stage_pest_watch: "Pest watch",
+    stage_harvest: "Harvest",
+    for_you_crop_stage: "For this stage",
+    // --- Offline sync ---
+    sync_rejected_title: "Not saved",
+    sync_rejected: "{count} change(s) made offline could not be saved and were undone.",
+    quest_saved_offline: "Quest saved on your phone. It will sync when you are online.",
+    reward_unlock_offline: "Your reward will unlock when you are back online.",
+    // --- Guest game replays ---
+    guest_games_replay: "Play {count} game lesson(s) again to add them to your account.",
   },
 
   // 2. Hindi (hi)
@@ -270,6 +650,196 @@ const translations: LanguageMap = {
     change_crop: "फ़सल बदलें",
     change_language: "भाषा बदलें",
     settings: "सेटिंग्स",
+    // --- Scheme eligibility ---
+    eligibility_check: "अपनी पात्रता जांचें",
+    eligibility_intro: "कुछ सवालों के जवाब दें और जानें कौन सी योजनाएं आपके लिए हैं।",
+    land_size_hectares: "भूमि का आकार (हेक्टेयर)",
+    your_state: "आपका राज्य",
+    your_crop: "आपकी फसल",
+    has_land_records: "क्या आपके नाम पर भूमि रिकॉर्ड है?",
+    has_bank_account: "क्या आपका आधार से जुड़ा बैंक खाता है?",
+    yes: "हाँ",
+    no: "नहीं",
+    not_set: "सेट नहीं",
+    find_my_schemes: "मेरी योजनाएं खोजें",
+    edit_answers: "जवाब बदलें",
+    likely_eligible: "संभवतः पात्र",
+    check_eligibility: "जांचें",
+    not_eligible: "पात्र नहीं",
+    reason_open_to_all: "सभी किसानों के लिए",
+    reason_land_within: "{land} हेक्टेयर, {limit} हेक्टेयर की सीमा के भीतर है",
+    reason_land_over: "{land} हेक्टेयर, {limit} हेक्टेयर की सीमा से अधिक है",
+    reason_land_under: "{land} हेक्टेयर, न्यूनतम {limit} हेक्टेयर से कम है",
+    reason_land_unknown: "अपनी भूमि का आकार जोड़ें",
+    reason_crop_ok: "{crop} शामिल है",
+    reason_crop_not: "{crop} शामिल नहीं है",
+    reason_crop_unknown: "अपनी फसल चुनें",
+    reason_state_ok: "{state} में उपलब्ध",
+    reason_state_not: "{state} में उपलब्ध नहीं",
+    reason_state_unknown: "अपना राज्य जोड़ें",
+    reason_records_ok: "भूमि रिकॉर्ड उपलब्ध",
+    reason_records_missing: "आपके नाम पर भूमि रिकॉर्ड चाहिए",
+    reason_records_unknown: "अपने भूमि रिकॉर्ड के बारे में बताएं",
+    reason_bank_ok: "बैंक खाता उपलब्ध",
+    reason_bank_missing: "बैंक खाता चाहिए",
+    reason_bank_unknown: "अपने बैंक खाते के बारे में बताएं",
+    reason_agristack_ok: "AgriStack ID जुड़ी है",
+    reason_agristack_missing: "प्रोफ़ाइल में अपनी AgriStack ID जोड़ें",
+    // --- Phone OTP auth ---
+    phone_number: "मोबाइल नंबर",
+    phone_placeholder: "10 अंकों का मोबाइल नंबर",
+    send_otp: "OTP भेजें",
+    sending_otp: "OTP भेजा जा रहा है...",
+    enter_otp: "6 अंकों का OTP डालें",
+    otp_sent_to: "{phone} पर कोड भेजा गया",
+    resend_otp_in: "{seconds} सेकंड में दोबारा भेजें",
+    resend_otp: "OTP दोबारा भेजें",
+    verifying: "जाँच हो रही है...",
+    use_password_instead: "पासवर्ड से लॉगिन करें",
+    use_otp_instead: "OTP से लॉगिन करें",
+    legacy_account_prompt: "पहले यूज़रनेम से खाता बनाया था?",
+    link_phone: "अपना फ़ोन जोड़ें",
+    link_phone_desc: "एक बार अपने पुराने यूज़रनेम और पासवर्ड से लॉगिन करें, फिर अपना फ़ोन सत्यापित करें। इसके बाद आप फ़ोन नंबर से लॉगिन करेंगे।",
+    phone_linked: "फ़ोन जुड़ गया! अब इसी से लॉगिन करें।",
+    err_invalid_phone: "सही 10 अंकों का मोबाइल नंबर डालें।",
+    err_no_account: "इस नंबर से कोई खाता नहीं है। पहले साइन अप करें।",
+    err_phone_taken: "इस नंबर से पहले से खाता है। लॉगिन करें।",
+    err_too_many_requests: "बहुत सारे कोड माँगे गए। {seconds} सेकंड बाद फिर कोशिश करें।",
+    err_locked: "बहुत सारे गलत कोड। {time} के बाद फिर कोशिश करें।",
+    err_invalid_code: "गलत कोड। {attempts} प्रयास बाकी।",
+    err_not_authenticated: "कृपया फिर से लॉगिन करें।",
+    err_otp_generic: "कुछ गलत हुआ। इंटरनेट जाँचें और फिर कोशिश करें।",
+    // --- Account recovery ---
+    forgot_password: "पासवर्ड भूल गए?",
+    reset_password: "पासवर्ड रीसेट करें",
+    reset_password_desc: "SMS कोड या रिकवरी PIN से पुष्टि करें, फिर नया पासवर्ड चुनें। बाकी सभी डिवाइस से लॉगआउट हो जाएगा।",
+    via_sms_code: "SMS कोड",
+    via_recovery_pin: "रिकवरी PIN",
+    recovery_pin: "रिकवरी PIN",
+    recovery_pin_hint: "6 अंक। इससे बिना SMS के पासवर्ड रीसेट कर सकते हैं।",
+    new_password: "नया पासवर्ड",
+    confirm_new_password: "नए पासवर्ड की पुष्टि करें",
+    resetting_password: "अपडेट हो रहा है...",
+    password_reset_done: "पासवर्ड अपडेट हो गया। बाकी डिवाइस से लॉगआउट कर दिया गया है।",
+    err_password_mismatch: "पासवर्ड मेल नहीं खाते।",
+    err_weak_password: "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए।",
+    err_pin_format: "रिकवरी PIN 6 अंकों का होना चाहिए।",
+    err_no_pin: "इस खाते में रिकवरी PIN नहीं है। SMS कोड का उपयोग करें।",
+    // --- Guest progress ---
+    guest_progress_merged: "इस डिवाइस से {lessons} पाठ और {coins} सिक्के आपके खाते में जोड़े गए।",
+    // --- Content admin ---
+    content_admin: "सामग्री प्रबंधन",
+    // --- Lesson downloads ---
+    download_offline: "ऑफ़लाइन के लिए डाउनलोड करें",
+    download: "डाउनलोड",
+    saved_offline: "ऑफ़लाइन के लिए सहेजा गया · {size}",
+    offline_storage_used: "ऑफ़लाइन पाठ इस फ़ोन पर {size} ले रहे हैं",
+    remove_download: "हटाएं",
+    update_download: "अपडेट करें",
+    err_download_failed: "यह पाठ डाउनलोड नहीं हो सका। अपना कनेक्शन जांचें और फिर से प्रयास करें।",
+    // --- Narration ---
+    narration_listen: "सुनें",
+    narration_pause: "रोकें",
+    narration_recorded: "रिकॉर्ड की गई आवाज़",
+    narration_device_voice: "फ़ोन की आवाज़",
+    // --- Lesson blocks ---
+    quick_check: "झटपट जाँच",
+    play_audio: "ऑडियो चलाएं",
+    audio_unavailable: "ऑडियो उपलब्ध नहीं",
+    // --- Lesson map ---
+    lesson_locked: "पाठ बंद है",
+    finish_first: "पहले ये पाठ पूरे करें: {lessons}",
+    side_lesson: "अतिरिक्त पाठ",
+    more_lessons: "और पाठ",
+    crop_track: "{crop} पाठ्यक्रम",
+    // --- Review ---
+    review_title: "रोज़ का दोहराव",
+    review_due: "आज दोहराने के लिए {count} प्रश्न",
+    review_caught_up: "सब दोहरा लिया!",
+    review_empty_hint: "पाठ क्विज़ में गलत हुए प्रश्न अभ्यास के लिए यहाँ वापस आते हैं।",
+    review_complete: "दोहराव पूरा!",
+    review_correct: "सही",
+    review_done: "पूरा",
+    // --- Mini-games ---
+    play_game: "खेल खेलें",
+    game_unavailable: "यह खेल अभी तैयार नहीं है। ऑफ़लाइन खेलने के लिए इसे डाउनलोड करने हेतु एक बार इंटरनेट से जुड़ें।",
+    go_back: "वापस जाएँ",
+    // --- Quest photo proof ---
+    proof_add_photo: "फ़ोटो प्रमाण जोड़ें",
+    proof_retake: "फ़ोटो दोबारा लें",
+    proof_in_review: "समीक्षा में",
+    proof_rejected: "आपकी फ़ोटो स्वीकार नहीं हुई",
+    proof_camera_permission: "अपने काम की फ़ोटो लेने के लिए कैमरा की अनुमति दें।",
+    proof_sign_in: "फ़ोटो प्रमाण भेजने के लिए साइन इन करें।",
+    proof_queued: "आपकी फ़ोटो सहेज ली गई है और ऑनलाइन होने पर अपलोड होगी।",
+    proof_sent: "एक विस्तार कार्यकर्ता आपकी फ़ोटो जाँचेगा। स्वीकृति के बाद क्वेस्ट सिक्के जुड़ेंगे।",
+    proof_hint: "अपने खेत में पूरे किए गए काम की साफ़ फ़ोटो लें। लोकेशन चालू रखें ताकि समीक्षक देख सके कि फ़ोटो कहाँ ली गई।",
+    proof_no_time: "फ़ोटो में समय नहीं है",
+    proof_no_location: "फ़ोटो में लोकेशन नहीं है",
+    proof_submit: "समीक्षा के लिए भेजें",
+    // --- Quest seasons ---
+    season_ends_in: "समाप्ति में",
+    season_ended: "सीज़न समाप्त",
+    season_standings: "सीज़न रैंकिंग",
+    season_no_standings: "इस सीज़न में अभी तक कोई क्वेस्ट सिक्का नहीं कमाया गया।",
+    // --- Quest steps ---
+    quest_tasks: "कार्य",
+    quest_sign_in: "क्वेस्ट प्रगति सहेजने के लिए साइन इन करें।",
+    step_queued: "कार्य आपके फ़ोन में सहेजा गया। ऑनलाइन होने पर सिंक होगा।",
+    step_lesson: "पाठ पढ़ें",
+    step_question: "प्रश्न का उत्तर दें",
+    step_photo: "फ़ोटो अपलोड करें",
+    step_activity: "गतिविधि दर्ज करें",
+    step_opens_on: "खुलेगा",
+    step_action_lesson: "पाठ खोलें",
+    step_action_question: "उत्तर दें",
+    step_action_photo: "फ़ोटो प्रमाण जोड़ें",
+    step_action_activity: "मैंने आज किया",
+    // --- For you today ---
+    for_you_today: "आज आपके लिए",
+    for_you_kind_lesson: "पाठ",
+    for_you_kind_quest: "क्वेस्ट",
+    for_you_kind_scheme: "योजना",
+    for_you_next_lesson: "अगला",
+    for_you_weak_topic: "फिर से दोहराएं",
+    for_you_in_progress: "जारी रखें",
+    for_you_eligible: "आप पात्र हो सकते हैं",
+    for_you_in_season: "इस महीने के लिए",
+    for_you_your_crop: "आपकी फसल के लिए",
+    for_you_your_state: "आपके राज्य के लिए",
+    for_you_small_farm: "आपकी ज़मीन के अनुसार",
+    for_you_ending_soon: "सीज़न जल्द खत्म",
+    // --- Crop calendar ---
+    crop_calendar: "फसल कैलेंडर",
+    calendar_no_crop: "कैलेंडर देखने के लिए अपनी फसल चुनें।",
+    calendar_choose_crop: "फसल चुनें",
+    calendar_no_stages: "इस फसल का कैलेंडर अभी उपलब्ध नहीं है।",
+    calendar_set_sowing: "आपने कब बुवाई की?",
+    calendar_sowing_date: "बुवाई की तारीख",
+    calendar_save_date: "तारीख सहेजें",
+    calendar_change: "बदलें",
+    calendar_today: "आज",
+    calendar_day: "दिन {count}",
+    calendar_sowing_in: "{count} दिन में बुवाई",
+    calendar_season_over: "यह सीज़न पूरा हो गया। अगली फसल की बुवाई की तारीख डालें।",
+    calendar_now: "अभी",
+    calendar_stages: "चरण",
+    calendar_upcoming: "आने वाले काम",
+    calendar_no_tasks: "अगले 30 दिनों में कोई काम नहीं।",
+    calendar_date_queued: "इस फ़ोन पर सहेजा गया। ऑनलाइन होने पर सिंक होगा।",
+    stage_sowing: "बुवाई",
+    stage_irrigation: "सिंचाई",
+    stage_fertilising: "खाद देना",
+    stage_pest_watch: "कीट निगरानी",
+    stage_harvest: "कटाई",
+    for_you_crop_stage: "इस चरण के लिए",
+    // --- Offline sync ---
+    sync_rejected_title: "सहेजा नहीं गया",
+    sync_rejected: "ऑफ़लाइन किए गए {count} बदलाव सहेजे नहीं जा सके और वापस ले लिए गए।",
+    quest_saved_offline: "क्वेस्ट आपके फ़ोन पर सहेजा गया। ऑनलाइन होने पर यह सिंक हो जाएगा।",
+    reward_unlock_offline: "ऑनलाइन वापस आने पर आपका इनाम अनलॉक हो जाएगा।",
+    // --- Guest game replays ---
+    guest_games_replay: "{count} खेल पाठ अपने खाते में जोड़ने के लिए उन्हें फिर से खेलें।",
   },
 
   // 3. Punjabi (pa)
@@ -359,6 +929,196 @@ const translations: LanguageMap = {
     change_crop: "Fasal Badlo",
     change_language: "Bhasha Badlo",
     settings: "Settings",
+    // --- Scheme eligibility ---
+    eligibility_check: "ਆਪਣੀ ਯੋਗਤਾ ਜਾਂਚੋ",
+    eligibility_intro: "ਕੁਝ ਸਵਾਲਾਂ ਦੇ ਜਵਾਬ ਦਿਓ ਅਤੇ ਜਾਣੋ ਕਿਹੜੀਆਂ ਯੋਜਨਾਵਾਂ ਤੁਹਾਡੇ ਲਈ ਹਨ।",
+    land_size_hectares: "ਜ਼ਮੀਨ ਦਾ ਆਕਾਰ (ਹੈਕਟੇਅਰ)",
+    your_state: "ਤੁਹਾਡਾ ਰਾਜ",
+    your_crop: "ਤੁਹਾਡੀ ਫ਼ਸਲ",
+    has_land_records: "ਕੀ ਤੁਹਾਡੇ ਨਾਂ 'ਤੇ ਜ਼ਮੀਨ ਦਾ ਰਿਕਾਰਡ ਹੈ?",
+    has_bank_account: "ਕੀ ਤੁਹਾਡਾ ਆਧਾਰ ਨਾਲ ਜੁੜਿਆ ਬੈਂਕ ਖਾਤਾ ਹੈ?",
+    yes: "ਹਾਂ",
+    no: "ਨਹੀਂ",
+    not_set: "ਸੈੱਟ ਨਹੀਂ",
+    find_my_schemes: "ਮੇਰੀਆਂ ਯੋਜਨਾਵਾਂ ਲੱਭੋ",
+    edit_answers: "ਜਵਾਬ ਬਦਲੋ",
+    likely_eligible: "ਸੰਭਵ ਤੌਰ 'ਤੇ ਯੋਗ",
+    check_eligibility: "ਜਾਂਚੋ",
+    not_eligible: "ਯੋਗ ਨਹੀਂ",
+    reason_open_to_all: "ਸਾਰੇ ਕਿਸਾਨਾਂ ਲਈ",
+    reason_land_within: "{land} ਹੈਕਟੇਅਰ, {limit} ਹੈਕਟੇਅਰ ਦੀ ਹੱਦ ਦੇ ਅੰਦਰ ਹੈ",
+    reason_land_over: "{land} ਹੈਕਟੇਅਰ, {limit} ਹੈਕਟੇਅਰ ਦੀ ਹੱਦ ਤੋਂ ਵੱਧ ਹੈ",
+    reason_land_under: "{land} ਹੈਕਟੇਅਰ, ਘੱਟੋ-ਘੱਟ {limit} ਹੈਕਟੇਅਰ ਤੋਂ ਘੱਟ ਹੈ",
+    reason_land_unknown: "ਆਪਣੀ ਜ਼ਮੀਨ ਦਾ ਆਕਾਰ ਦੱਸੋ",
+    reason_crop_ok: "{crop} ਸ਼ਾਮਲ ਹੈ",
+    reason_crop_not: "{crop} ਸ਼ਾਮਲ ਨਹੀਂ ਹੈ",
+    reason_crop_unknown: "ਆਪਣੀ ਫ਼ਸਲ ਚੁਣੋ",
+    reason_state_ok: "{state} ਵਿੱਚ ਉਪਲਬਧ",
+    reason_state_not: "{state} ਵਿੱਚ ਉਪਲਬਧ ਨਹੀਂ",
+    reason_state_unknown: "ਆਪਣਾ ਰਾਜ ਦੱਸੋ",
+    reason_records_ok: "ਜ਼ਮੀਨ ਦਾ ਰਿਕਾਰਡ ਉਪਲਬਧ",
+    reason_records_missing: "ਤੁਹਾਡੇ ਨਾਂ 'ਤੇ ਜ਼ਮੀਨ ਦਾ ਰਿਕਾਰਡ ਚਾਹੀਦਾ ਹੈ",
+    reason_records_unknown: "ਆਪਣੇ ਜ਼ਮੀਨ ਦੇ ਰਿਕਾਰਡ ਬਾਰੇ ਦੱਸੋ",
+    reason_bank_ok: "ਬੈਂਕ ਖਾਤਾ ਉਪਲਬਧ",
+    reason_bank_missing: "ਬੈਂਕ ਖਾਤਾ ਚਾਹੀਦਾ ਹੈ",
+    reason_bank_unknown: "ਆਪਣੇ ਬੈਂਕ ਖਾਤੇ ਬਾਰੇ ਦੱਸੋ",
+    reason_agristack_ok: "AgriStack ID ਜੁੜੀ ਹੈ",
+    reason_agristack_missing: "ਪ੍ਰੋਫਾਈਲ ਵਿੱਚ ਆਪਣੀ AgriStack ID ਜੋੜੋ",
+    // --- Phone OTP auth ---
+    phone_number: "ਮੋਬਾਈਲ ਨੰਬਰ",
+    phone_placeholder: "10 ਅੰਕਾਂ ਦਾ ਮੋਬਾਈਲ ਨੰਬਰ",
+    send_otp: "OTP ਭੇਜੋ",
+    sending_otp: "OTP ਭੇਜਿਆ ਜਾ ਰਿਹਾ ਹੈ...",
+    enter_otp: "6 ਅੰਕਾਂ ਦਾ OTP ਪਾਓ",
+    otp_sent_to: "{phone} 'ਤੇ ਕੋਡ ਭੇਜਿਆ ਗਿਆ",
+    resend_otp_in: "{seconds} ਸਕਿੰਟ ਵਿੱਚ ਦੁਬਾਰਾ ਭੇਜੋ",
+    resend_otp: "OTP ਦੁਬਾਰਾ ਭੇਜੋ",
+    verifying: "ਜਾਂਚ ਹੋ ਰਹੀ ਹੈ...",
+    use_password_instead: "ਪਾਸਵਰਡ ਨਾਲ ਲੌਗਇਨ ਕਰੋ",
+    use_otp_instead: "OTP ਨਾਲ ਲੌਗਇਨ ਕਰੋ",
+    legacy_account_prompt: "ਪਹਿਲਾਂ ਯੂਜ਼ਰਨੇਮ ਨਾਲ ਖਾਤਾ ਬਣਾਇਆ ਸੀ?",
+    link_phone: "ਆਪਣਾ ਫ਼ੋਨ ਜੋੜੋ",
+    link_phone_desc: "ਇੱਕ ਵਾਰ ਆਪਣੇ ਪੁਰਾਣੇ ਯੂਜ਼ਰਨੇਮ ਅਤੇ ਪਾਸਵਰਡ ਨਾਲ ਲੌਗਇਨ ਕਰੋ, ਫਿਰ ਆਪਣਾ ਫ਼ੋਨ ਪੁਸ਼ਟੀ ਕਰੋ। ਇਸ ਤੋਂ ਬਾਅਦ ਤੁਸੀਂ ਫ਼ੋਨ ਨੰਬਰ ਨਾਲ ਲੌਗਇਨ ਕਰੋਗੇ।",
+    phone_linked: "ਫ਼ੋਨ ਜੁੜ ਗਿਆ! ਹੁਣ ਇਸੇ ਨਾਲ ਲੌਗਇਨ ਕਰੋ।",
+    err_invalid_phone: "ਸਹੀ 10 ਅੰਕਾਂ ਦਾ ਮੋਬਾਈਲ ਨੰਬਰ ਪਾਓ।",
+    err_no_account: "ਇਸ ਨੰਬਰ ਨਾਲ ਕੋਈ ਖਾਤਾ ਨਹੀਂ ਹੈ। ਪਹਿਲਾਂ ਸਾਈਨ ਅੱਪ ਕਰੋ।",
+    err_phone_taken: "ਇਸ ਨੰਬਰ ਨਾਲ ਪਹਿਲਾਂ ਹੀ ਖਾਤਾ ਹੈ। ਲੌਗਇਨ ਕਰੋ।",
+    err_too_many_requests: "ਬਹੁਤ ਸਾਰੇ ਕੋਡ ਮੰਗੇ ਗਏ। {seconds} ਸਕਿੰਟ ਬਾਅਦ ਮੁੜ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    err_locked: "ਬਹੁਤ ਸਾਰੇ ਗਲਤ ਕੋਡ। {time} ਤੋਂ ਬਾਅਦ ਮੁੜ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    err_invalid_code: "ਗਲਤ ਕੋਡ। {attempts} ਕੋਸ਼ਿਸ਼ਾਂ ਬਾਕੀ।",
+    err_not_authenticated: "ਕਿਰਪਾ ਕਰਕੇ ਮੁੜ ਲੌਗਇਨ ਕਰੋ।",
+    err_otp_generic: "ਕੁਝ ਗਲਤ ਹੋ ਗਿਆ। ਇੰਟਰਨੈੱਟ ਜਾਂਚੋ ਅਤੇ ਮੁੜ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    // --- Account recovery ---
+    forgot_password: "ਪਾਸਵਰਡ ਭੁੱਲ ਗਏ?",
+    reset_password: "ਪਾਸਵਰਡ ਰੀਸੈੱਟ ਕਰੋ",
+    reset_password_desc: "SMS ਕੋਡ ਜਾਂ ਰਿਕਵਰੀ PIN ਨਾਲ ਪੁਸ਼ਟੀ ਕਰੋ, ਫਿਰ ਨਵਾਂ ਪਾਸਵਰਡ ਚੁਣੋ। ਬਾਕੀ ਸਾਰੀਆਂ ਡਿਵਾਈਸਾਂ ਤੋਂ ਲੌਗਆਉਟ ਹੋ ਜਾਵੇਗਾ।",
+    via_sms_code: "SMS ਕੋਡ",
+    via_recovery_pin: "ਰਿਕਵਰੀ PIN",
+    recovery_pin: "ਰਿਕਵਰੀ PIN",
+    recovery_pin_hint: "6 ਅੰਕ। ਇਸ ਨਾਲ ਬਿਨਾਂ SMS ਦੇ ਪਾਸਵਰਡ ਰੀਸੈੱਟ ਕਰ ਸਕਦੇ ਹੋ।",
+    new_password: "ਨਵਾਂ ਪਾਸਵਰਡ",
+    confirm_new_password: "ਨਵੇਂ ਪਾਸਵਰਡ ਦੀ ਪੁਸ਼ਟੀ ਕਰੋ",
+    resetting_password: "ਅੱਪਡੇਟ ਹੋ ਰਿਹਾ ਹੈ...",
+    password_reset_done: "ਪਾਸਵਰਡ ਅੱਪਡੇਟ ਹੋ ਗਿਆ। ਬਾਕੀ ਡਿਵਾਈਸਾਂ ਤੋਂ ਲੌਗਆਉਟ ਕਰ ਦਿੱਤਾ ਗਿਆ ਹੈ।",
+    err_password_mismatch: "ਪਾਸਵਰਡ ਮੇਲ ਨਹੀਂ ਖਾਂਦੇ।",
+    err_weak_password: "ਪਾਸਵਰਡ ਘੱਟੋ-ਘੱਟ 6 ਅੱਖਰਾਂ ਦਾ ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ।",
+    err_pin_format: "ਰਿਕਵਰੀ PIN 6 ਅੰਕਾਂ ਦਾ ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ।",
+    err_no_pin: "ਇਸ ਖਾਤੇ ਵਿੱਚ ਰਿਕਵਰੀ PIN ਨਹੀਂ ਹੈ। SMS ਕੋਡ ਵਰਤੋ।",
+    // --- Guest progress ---
+    guest_progress_merged: "ਇਸ ਡਿਵਾਈਸ ਤੋਂ {lessons} ਪਾਠ ਅਤੇ {coins} ਸਿੱਕੇ ਤੁਹਾਡੇ ਖਾਤੇ ਵਿੱਚ ਜੋੜੇ ਗਏ।",
+    // --- Content admin ---
+    content_admin: "ਸਮੱਗਰੀ ਪ੍ਰਬੰਧਨ",
+    // --- Lesson downloads ---
+    download_offline: "ਔਫਲਾਈਨ ਲਈ ਡਾਊਨਲੋਡ ਕਰੋ",
+    download: "ਡਾਊਨਲੋਡ",
+    saved_offline: "ਔਫਲਾਈਨ ਲਈ ਸੰਭਾਲਿਆ · {size}",
+    offline_storage_used: "ਔਫਲਾਈਨ ਪਾਠ ਇਸ ਫ਼ੋਨ 'ਤੇ {size} ਵਰਤ ਰਹੇ ਹਨ",
+    remove_download: "ਹਟਾਓ",
+    update_download: "ਅੱਪਡੇਟ ਕਰੋ",
+    err_download_failed: "ਇਹ ਪਾਠ ਡਾਊਨਲੋਡ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਆਪਣਾ ਕਨੈਕਸ਼ਨ ਜਾਂਚੋ ਅਤੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    // --- Narration ---
+    narration_listen: "ਸੁਣੋ",
+    narration_pause: "ਰੋਕੋ",
+    narration_recorded: "ਰਿਕਾਰਡ ਕੀਤੀ ਆਵਾਜ਼",
+    narration_device_voice: "ਫ਼ੋਨ ਦੀ ਆਵਾਜ਼",
+    // --- Lesson blocks ---
+    quick_check: "ਝਟਪਟ ਜਾਂਚ",
+    play_audio: "ਆਡੀਓ ਚਲਾਓ",
+    audio_unavailable: "ਆਡੀਓ ਉਪਲਬਧ ਨਹੀਂ",
+    // --- Lesson map ---
+    lesson_locked: "ਪਾਠ ਬੰਦ ਹੈ",
+    finish_first: "ਪਹਿਲਾਂ ਇਹ ਪਾਠ ਪੂਰੇ ਕਰੋ: {lessons}",
+    side_lesson: "ਵਾਧੂ ਪਾਠ",
+    more_lessons: "ਹੋਰ ਪਾਠ",
+    crop_track: "{crop} ਪਾਠਕ੍ਰਮ",
+    // --- Review ---
+    review_title: "ਰੋਜ਼ਾਨਾ ਦੁਹਰਾਈ",
+    review_due: "ਅੱਜ ਦੁਹਰਾਉਣ ਲਈ {count} ਸਵਾਲ",
+    review_caught_up: "ਸਭ ਦੁਹਰਾ ਲਿਆ!",
+    review_empty_hint: "ਪਾਠ ਕੁਇਜ਼ ਵਿੱਚ ਗਲਤ ਹੋਏ ਸਵਾਲ ਅਭਿਆਸ ਲਈ ਇੱਥੇ ਵਾਪਸ ਆਉਂਦੇ ਹਨ।",
+    review_complete: "ਦੁਹਰਾਈ ਪੂਰੀ!",
+    review_correct: "ਸਹੀ",
+    review_done: "ਪੂਰਾ",
+    // --- Mini-games ---
+    play_game: "ਖੇਡ ਖੇਡੋ",
+    game_unavailable: "ਇਹ ਖੇਡ ਅਜੇ ਤਿਆਰ ਨਹੀਂ ਹੈ। ਔਫਲਾਈਨ ਖੇਡਣ ਲਈ ਇਸਨੂੰ ਡਾਊਨਲੋਡ ਕਰਨ ਵਾਸਤੇ ਇੱਕ ਵਾਰ ਇੰਟਰਨੈੱਟ ਨਾਲ ਜੁੜੋ।",
+    go_back: "ਵਾਪਸ ਜਾਓ",
+    // --- Quest photo proof ---
+    proof_add_photo: "ਫੋਟੋ ਸਬੂਤ ਜੋੜੋ",
+    proof_retake: "ਫੋਟੋ ਦੁਬਾਰਾ ਲਓ",
+    proof_in_review: "ਸਮੀਖਿਆ ਵਿੱਚ",
+    proof_rejected: "ਤੁਹਾਡੀ ਫੋਟੋ ਸਵੀਕਾਰ ਨਹੀਂ ਹੋਈ",
+    proof_camera_permission: "ਆਪਣੇ ਕੰਮ ਦੀ ਫੋਟੋ ਲੈਣ ਲਈ ਕੈਮਰੇ ਦੀ ਇਜਾਜ਼ਤ ਦਿਓ।",
+    proof_sign_in: "ਫੋਟੋ ਸਬੂਤ ਭੇਜਣ ਲਈ ਸਾਈਨ ਇਨ ਕਰੋ।",
+    proof_queued: "ਤੁਹਾਡੀ ਫੋਟੋ ਸੰਭਾਲ ਲਈ ਗਈ ਹੈ ਅਤੇ ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਅੱਪਲੋਡ ਹੋਵੇਗੀ।",
+    proof_sent: "ਇੱਕ ਵਿਸਥਾਰ ਕਰਮਚਾਰੀ ਤੁਹਾਡੀ ਫੋਟੋ ਦੀ ਜਾਂਚ ਕਰੇਗਾ। ਮਨਜ਼ੂਰੀ ਤੋਂ ਬਾਅਦ ਕੁਐਸਟ ਸਿੱਕੇ ਜੁੜਨਗੇ।",
+    proof_hint: "ਆਪਣੇ ਖੇਤ ਵਿੱਚ ਪੂਰੇ ਕੀਤੇ ਕੰਮ ਦੀ ਸਾਫ਼ ਫੋਟੋ ਲਓ। ਲੋਕੇਸ਼ਨ ਚਾਲੂ ਰੱਖੋ ਤਾਂ ਜੋ ਸਮੀਖਿਅਕ ਵੇਖ ਸਕੇ ਕਿ ਫੋਟੋ ਕਿੱਥੇ ਲਈ ਗਈ।",
+    proof_no_time: "ਫੋਟੋ ਵਿੱਚ ਸਮਾਂ ਨਹੀਂ ਹੈ",
+    proof_no_location: "ਫੋਟੋ ਵਿੱਚ ਲੋਕੇਸ਼ਨ ਨਹੀਂ ਹੈ",
+    proof_submit: "ਸਮੀਖਿਆ ਲਈ ਭੇਜੋ",
+    // --- Quest seasons ---
+    season_ends_in: "ਖ਼ਤਮ ਹੋਣ ਵਿੱਚ",
+    season_ended: "ਸੀਜ਼ਨ ਖ਼ਤਮ",
+    season_standings: "ਸੀਜ਼ਨ ਰੈਂਕਿੰਗ",
+    season_no_standings: "ਇਸ ਸੀਜ਼ਨ ਵਿੱਚ ਅਜੇ ਤੱਕ ਕੋਈ ਕੁਐਸਟ ਸਿੱਕਾ ਨਹੀਂ ਕਮਾਇਆ ਗਿਆ।",
+    // --- Quest steps ---
+    quest_tasks: "ਕੰਮ",
+    quest_sign_in: "ਕੁਐਸਟ ਪ੍ਰਗਤੀ ਸੰਭਾਲਣ ਲਈ ਸਾਈਨ ਇਨ ਕਰੋ।",
+    step_queued: "ਕੰਮ ਤੁਹਾਡੇ ਫ਼ੋਨ ਵਿੱਚ ਸੰਭਾਲਿਆ ਗਿਆ। ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਸਿੰਕ ਹੋਵੇਗਾ।",
+    step_lesson: "ਪਾਠ ਪੜ੍ਹੋ",
+    step_question: "ਸਵਾਲ ਦਾ ਜਵਾਬ ਦਿਓ",
+    step_photo: "ਫੋਟੋ ਅੱਪਲੋਡ ਕਰੋ",
+    step_activity: "ਗਤੀਵਿਧੀ ਦਰਜ ਕਰੋ",
+    step_opens_on: "ਖੁੱਲ੍ਹੇਗਾ",
+    step_action_lesson: "ਪਾਠ ਖੋਲ੍ਹੋ",
+    step_action_question: "ਜਵਾਬ ਦਿਓ",
+    step_action_photo: "ਫੋਟੋ ਸਬੂਤ ਜੋੜੋ",
+    step_action_activity: "ਮੈਂ ਅੱਜ ਕੀਤਾ",
+    // --- For you today ---
+    for_you_today: "ਅੱਜ ਤੁਹਾਡੇ ਲਈ",
+    for_you_kind_lesson: "ਪਾਠ",
+    for_you_kind_quest: "ਕੁਐਸਟ",
+    for_you_kind_scheme: "ਯੋਜਨਾ",
+    for_you_next_lesson: "ਅਗਲਾ",
+    for_you_weak_topic: "ਦੁਬਾਰਾ ਦੁਹਰਾਓ",
+    for_you_in_progress: "ਜਾਰੀ ਰੱਖੋ",
+    for_you_eligible: "ਤੁਸੀਂ ਯੋਗ ਹੋ ਸਕਦੇ ਹੋ",
+    for_you_in_season: "ਇਸ ਮਹੀਨੇ ਲਈ",
+    for_you_your_crop: "ਤੁਹਾਡੀ ਫ਼ਸਲ ਲਈ",
+    for_you_your_state: "ਤੁਹਾਡੇ ਰਾਜ ਲਈ",
+    for_you_small_farm: "ਤੁਹਾਡੀ ਜ਼ਮੀਨ ਮੁਤਾਬਕ",
+    for_you_ending_soon: "ਸੀਜ਼ਨ ਜਲਦੀ ਖ਼ਤਮ",
+    // --- Crop calendar ---
+    crop_calendar: "ਫ਼ਸਲ ਕੈਲੰਡਰ",
+    calendar_no_crop: "ਕੈਲੰਡਰ ਦੇਖਣ ਲਈ ਆਪਣੀ ਫ਼ਸਲ ਚੁਣੋ।",
+    calendar_choose_crop: "ਫ਼ਸਲ ਚੁਣੋ",
+    calendar_no_stages: "ਇਸ ਫ਼ਸਲ ਦਾ ਕੈਲੰਡਰ ਅਜੇ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।",
+    calendar_set_sowing: "ਤੁਸੀਂ ਬਿਜਾਈ ਕਦੋਂ ਕੀਤੀ?",
+    calendar_sowing_date: "ਬਿਜਾਈ ਦੀ ਤਾਰੀਖ",
+    calendar_save_date: "ਤਾਰੀਖ ਸੰਭਾਲੋ",
+    calendar_change: "ਬਦਲੋ",
+    calendar_today: "ਅੱਜ",
+    calendar_day: "ਦਿਨ {count}",
+    calendar_sowing_in: "{count} ਦਿਨਾਂ ਵਿੱਚ ਬਿਜਾਈ",
+    calendar_season_over: "ਇਹ ਸੀਜ਼ਨ ਪੂਰਾ ਹੋ ਗਿਆ। ਅਗਲੀ ਫ਼ਸਲ ਦੀ ਬਿਜਾਈ ਦੀ ਤਾਰੀਖ ਪਾਓ।",
+    calendar_now: "ਹੁਣ",
+    calendar_stages: "ਪੜਾਅ",
+    calendar_upcoming: "ਆਉਣ ਵਾਲੇ ਕੰਮ",
+    calendar_no_tasks: "ਅਗਲੇ 30 ਦਿਨਾਂ ਵਿੱਚ ਕੋਈ ਕੰਮ ਨਹੀਂ।",
+    calendar_date_queued: "ਇਸ ਫ਼ੋਨ 'ਤੇ ਸੰਭਾਲਿਆ ਗਿਆ। ਆਨਲਾਈਨ ਹੋਣ 'ਤੇ ਸਿੰਕ ਹੋਵੇਗਾ।",
+    stage_sowing: "ਬਿਜਾਈ",
+    stage_irrigation: "ਸਿੰਚਾਈ",
+    stage_fertilising: "ਖਾਦ ਪਾਉਣਾ",
+    stage_pest_watch: "ਕੀੜਿਆਂ ਦੀ ਨਿਗਰਾਨੀ",
+    stage_harvest: "ਵਾਢੀ",
+    for_you_crop_stage: "ਇਸ ਪੜਾਅ ਲਈ",
+    // --- Offline sync ---
+    sync_rejected_title: "ਸੇਵ ਨਹੀਂ ਹੋਇਆ",
+    sync_rejected: "ਆਫ਼ਲਾਈਨ ਕੀਤੀਆਂ {count} ਤਬਦੀਲੀਆਂ ਸੇਵ ਨਹੀਂ ਹੋ ਸਕੀਆਂ ਅਤੇ ਵਾਪਸ ਲੈ ਲਈਆਂ ਗਈਆਂ।",
+    quest_saved_offline: "ਕੁਐਸਟ ਤੁਹਾਡੇ ਫ਼ੋਨ 'ਤੇ ਸੰਭਾਲੀ ਗਈ। ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਇਹ ਸਿੰਕ ਹੋ ਜਾਵੇਗੀ।",
+    reward_unlock_offline: "ਮੁੜ ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਤੁਹਾਡਾ ਇਨਾਮ ਅਨਲੌਕ ਹੋ ਜਾਵੇਗਾ।",
+    // --- Guest game replays ---
+    guest_games_replay: "{count} ਖੇਡ ਪਾਠ ਆਪਣੇ ਖਾਤੇ ਵਿੱਚ ਜੋੜਨ ਲਈ ਉਨ੍ਹਾਂ ਨੂੰ ਦੁਬਾਰਾ ਖੇਡੋ।",
   },
 
   // 4. Malayalam (ml)
@@ -448,6 +1208,196 @@ const translations: LanguageMap = {
     change_crop: "വിള മാറ്റുക",
     change_language: "ഭാഷ മാറ്റുക",
     settings: "ക്രമീകരണങ്ങൾ",
+    // --- Scheme eligibility ---
+    eligibility_check: "നിങ്ങളുടെ യോഗ്യത പരിശോധിക്കുക",
+    eligibility_intro: "ഏതൊക്കെ പദ്ധതികൾ നിങ്ങൾക്ക് അനുയോജ്യമാണെന്ന് അറിയാൻ ചില ചോദ്യങ്ങൾക്ക് ഉത്തരം നൽകുക.",
+    land_size_hectares: "ഭൂമിയുടെ വിസ്തീർണ്ണം (ഹെക്ടർ)",
+    your_state: "നിങ്ങളുടെ സംസ്ഥാനം",
+    your_crop: "നിങ്ങളുടെ വിള",
+    has_land_records: "നിങ്ങളുടെ പേരിൽ ഭൂരേഖകൾ ഉണ്ടോ?",
+    has_bank_account: "ആധാറുമായി ബന്ധിപ്പിച്ച ബാങ്ക് അക്കൗണ്ട് ഉണ്ടോ?",
+    yes: "അതെ",
+    no: "ഇല്ല",
+    not_set: "നൽകിയിട്ടില്ല",
+    find_my_schemes: "എന്റെ പദ്ധതികൾ കണ്ടെത്തുക",
+    edit_answers: "ഉത്തരങ്ങൾ മാറ്റുക",
+    likely_eligible: "യോഗ്യതയുണ്ടാകാം",
+    check_eligibility: "പരിശോധിക്കുക",
+    not_eligible: "യോഗ്യതയില്ല",
+    reason_open_to_all: "എല്ലാ കർഷകർക്കും",
+    reason_land_within: "{land} ഹെക്ടർ, {limit} ഹെക്ടർ പരിധിക്കുള്ളിലാണ്",
+    reason_land_over: "{land} ഹെക്ടർ, {limit} ഹെക്ടർ പരിധിക്ക് മുകളിലാണ്",
+    reason_land_under: "{land} ഹെക്ടർ, കുറഞ്ഞത് {limit} ഹെക്ടറിൽ താഴെയാണ്",
+    reason_land_unknown: "നിങ്ങളുടെ ഭൂമിയുടെ വിസ്തീർണ്ണം ചേർക്കുക",
+    reason_crop_ok: "{crop} ഉൾപ്പെടുന്നു",
+    reason_crop_not: "{crop} ഉൾപ്പെടുന്നില്ല",
+    reason_crop_unknown: "നിങ്ങളുടെ വിള തിരഞ്ഞെടുക്കുക",
+    reason_state_ok: "{state}-ൽ ലഭ്യമാണ്",
+    reason_state_not: "{state}-ൽ ലഭ്യമല്ല",
+    reason_state_unknown: "നിങ്ങളുടെ സംസ്ഥാനം ചേർക്കുക",
+    reason_records_ok: "ഭൂരേഖകൾ ലഭ്യമാണ്",
+    reason_records_missing: "നിങ്ങളുടെ പേരിൽ ഭൂരേഖകൾ ആവശ്യമാണ്",
+    reason_records_unknown: "നിങ്ങളുടെ ഭൂരേഖകളെക്കുറിച്ച് അറിയിക്കുക",
+    reason_bank_ok: "ബാങ്ക് അക്കൗണ്ട് ഉണ്ട്",
+    reason_bank_missing: "ബാങ്ക് അക്കൗണ്ട് ആവശ്യമാണ്",
+    reason_bank_unknown: "നിങ്ങളുടെ ബാങ്ക് അക്കൗണ്ടിനെക്കുറിച്ച് അറിയിക്കുക",
+    reason_agristack_ok: "AgriStack ID ബന്ധിപ്പിച്ചു",
+    reason_agristack_missing: "പ്രൊഫൈലിൽ നിങ്ങളുടെ AgriStack ID ബന്ധിപ്പിക്കുക",
+    // --- Phone OTP auth ---
+    phone_number: "മൊബൈൽ നമ്പർ",
+    phone_placeholder: "10 അക്ക മൊബൈൽ നമ്പർ",
+    send_otp: "OTP അയയ്ക്കുക",
+    sending_otp: "OTP അയയ്ക്കുന്നു...",
+    enter_otp: "6 അക്ക OTP നൽകുക",
+    otp_sent_to: "{phone} എന്ന നമ്പറിലേക്ക് കോഡ് അയച്ചു",
+    resend_otp_in: "{seconds} സെക്കൻഡിൽ വീണ്ടും അയയ്ക്കാം",
+    resend_otp: "OTP വീണ്ടും അയയ്ക്കുക",
+    verifying: "പരിശോധിക്കുന്നു...",
+    use_password_instead: "പാസ്‌വേഡ് ഉപയോഗിക്കുക",
+    use_otp_instead: "OTP ഉപയോഗിച്ച് ലോഗിൻ ചെയ്യുക",
+    legacy_account_prompt: "മുമ്പ് ഉപയോക്തൃനാമം ഉപയോഗിച്ച് അക്കൗണ്ട് എടുത്തിരുന്നോ?",
+    link_phone: "ഫോൺ ബന്ധിപ്പിക്കുക",
+    link_phone_desc: "പഴയ ഉപയോക്തൃനാമവും പാസ്‌വേഡും ഉപയോഗിച്ച് ഒരിക്കൽ ലോഗിൻ ചെയ്ത് ഫോൺ സ്ഥിരീകരിക്കുക. അതിനുശേഷം ഫോൺ നമ്പർ ഉപയോഗിച്ച് ലോഗിൻ ചെയ്യാം.",
+    phone_linked: "ഫോൺ ബന്ധിപ്പിച്ചു! ഇനി ഇതുപയോഗിച്ച് ലോഗിൻ ചെയ്യുക.",
+    err_invalid_phone: "ശരിയായ 10 അക്ക മൊബൈൽ നമ്പർ നൽകുക.",
+    err_no_account: "ഈ നമ്പറിൽ അക്കൗണ്ടില്ല. ആദ്യം സൈൻ അപ്പ് ചെയ്യുക.",
+    err_phone_taken: "ഈ നമ്പറിൽ ഇതിനകം അക്കൗണ്ടുണ്ട്. ലോഗിൻ ചെയ്യുക.",
+    err_too_many_requests: "വളരെയധികം കോഡുകൾ ആവശ്യപ്പെട്ടു. {seconds} സെക്കൻഡിന് ശേഷം വീണ്ടും ശ്രമിക്കുക.",
+    err_locked: "വളരെയധികം തെറ്റായ കോഡുകൾ. {time}-ന് ശേഷം വീണ്ടും ശ്രമിക്കുക.",
+    err_invalid_code: "തെറ്റായ കോഡ്. {attempts} ശ്രമങ്ങൾ ബാക്കി.",
+    err_not_authenticated: "ദയവായി വീണ്ടും ലോഗിൻ ചെയ്യുക.",
+    err_otp_generic: "എന്തോ പിശക് സംഭവിച്ചു. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.",
+    // --- Account recovery ---
+    forgot_password: "പാസ്‌വേഡ് മറന്നോ?",
+    reset_password: "പാസ്‌വേഡ് പുനഃസജ്ജമാക്കുക",
+    reset_password_desc: "SMS കോഡ് അല്ലെങ്കിൽ റിക്കവറി PIN ഉപയോഗിച്ച് സ്ഥിരീകരിച്ച് പുതിയ പാസ്‌വേഡ് തിരഞ്ഞെടുക്കുക. മറ്റെല്ലാ ഉപകരണങ്ങളിൽ നിന്നും ലോഗൗട്ട് ആകും.",
+    via_sms_code: "SMS കോഡ്",
+    via_recovery_pin: "റിക്കവറി PIN",
+    recovery_pin: "റിക്കവറി PIN",
+    recovery_pin_hint: "6 അക്കങ്ങൾ. SMS ഇല്ലാതെ പാസ്‌വേഡ് പുനഃസജ്ജമാക്കാൻ സഹായിക്കും.",
+    new_password: "പുതിയ പാസ്‌വേഡ്",
+    confirm_new_password: "പുതിയ പാസ്‌വേഡ് സ്ഥിരീകരിക്കുക",
+    resetting_password: "അപ്ഡേറ്റ് ചെയ്യുന്നു...",
+    password_reset_done: "പാസ്‌വേഡ് അപ്ഡേറ്റ് ചെയ്തു. മറ്റ് ഉപകരണങ്ങളിൽ നിന്ന് ലോഗൗട്ട് ചെയ്തു.",
+    err_password_mismatch: "പാസ്‌വേഡുകൾ പൊരുത്തപ്പെടുന്നില്ല.",
+    err_weak_password: "പാസ്‌വേഡിന് കുറഞ്ഞത് 6 അക്ഷരങ്ങൾ വേണം.",
+    err_pin_format: "റിക്കവറി PIN 6 അക്കങ്ങൾ ആയിരിക്കണം.",
+    err_no_pin: "ഈ അക്കൗണ്ടിന് റിക്കവറി PIN ഇല്ല. SMS കോഡ് ഉപയോഗിക്കുക.",
+    // --- Guest progress ---
+    guest_progress_merged: "ഈ ഉപകരണത്തിൽ നിന്നുള്ള {lessons} പാഠങ്ങളും {coins} നാണയങ്ങളും നിങ്ങളുടെ അക്കൗണ്ടിൽ ചേർത്തു.",
+    // --- Content admin ---
+    content_admin: "ഉള്ളടക്ക മാനേജ്മെന്റ്",
+    // --- Lesson downloads ---
+    download_offline: "ഓഫ്‌ലൈനായി ഡൗൺലോഡ് ചെയ്യുക",
+    download: "ഡൗൺലോഡ്",
+    saved_offline: "ഓഫ്‌ലൈനായി സംരക്ഷിച്ചു · {size}",
+    offline_storage_used: "ഓഫ്‌ലൈൻ പാഠങ്ങൾ ഈ ഫോണിൽ {size} ഉപയോഗിക്കുന്നു",
+    remove_download: "നീക്കം ചെയ്യുക",
+    update_download: "അപ്ഡേറ്റ് ചെയ്യുക",
+    err_download_failed: "ഈ പാഠം ഡൗൺലോഡ് ചെയ്യാനായില്ല. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.",
+    // --- Narration ---
+    narration_listen: "കേൾക്കുക",
+    narration_pause: "നിർത്തുക",
+    narration_recorded: "റെക്കോർഡ് ചെയ്ത ശബ്ദം",
+    narration_device_voice: "ഫോണിന്റെ ശബ്ദം",
+    // --- Lesson blocks ---
+    quick_check: "ചെറു പരിശോധന",
+    play_audio: "ഓഡിയോ പ്ലേ ചെയ്യുക",
+    audio_unavailable: "ഓഡിയോ ലഭ്യമല്ല",
+    // --- Lesson map ---
+    lesson_locked: "പാഠം ലോക്ക് ചെയ്തിരിക്കുന്നു",
+    finish_first: "ആദ്യം ഈ പാഠങ്ങൾ പൂർത്തിയാക്കുക: {lessons}",
+    side_lesson: "അധിക പാഠം",
+    more_lessons: "കൂടുതൽ പാഠങ്ങൾ",
+    crop_track: "{crop} പാഠ്യപദ്ധതി",
+    // --- Review ---
+    review_title: "ദിവസേനയുള്ള പുനരവലോകനം",
+    review_due: "ഇന്ന് പുനരവലോകനം ചെയ്യാൻ {count} ചോദ്യങ്ങൾ",
+    review_caught_up: "എല്ലാം പൂർത്തിയായി!",
+    review_empty_hint: "പാഠ ക്വിസുകളിൽ തെറ്റിയ ചോദ്യങ്ങൾ പരിശീലനത്തിനായി ഇവിടെ തിരികെ വരും.",
+    review_complete: "പുനരവലോകനം പൂർത്തിയായി!",
+    review_correct: "ശരി",
+    review_done: "പൂർത്തിയായി",
+    // --- Mini-games ---
+    play_game: "ഗെയിം കളിക്കുക",
+    game_unavailable: "ഈ ഗെയിം ഇതുവരെ തയ്യാറായിട്ടില്ല. ഓഫ്‌ലൈനായി കളിക്കാൻ ഡൗൺലോഡ് ചെയ്യുന്നതിന് ഒരിക്കൽ ഇന്റർനെറ്റുമായി ബന്ധിപ്പിക്കുക.",
+    go_back: "തിരികെ പോകുക",
+    // --- Quest photo proof ---
+    proof_add_photo: "ഫോട്ടോ തെളിവ് ചേർക്കുക",
+    proof_retake: "ഫോട്ടോ വീണ്ടും എടുക്കുക",
+    proof_in_review: "പരിശോധനയിൽ",
+    proof_rejected: "നിങ്ങളുടെ ഫോട്ടോ സ്വീകരിച്ചില്ല",
+    proof_camera_permission: "നിങ്ങളുടെ ജോലിയുടെ ഫോട്ടോ എടുക്കാൻ ക്യാമറ അനുമതി നൽകുക.",
+    proof_sign_in: "ഫോട്ടോ തെളിവ് അയയ്ക്കാൻ സൈൻ ഇൻ ചെയ്യുക.",
+    proof_queued: "നിങ്ങളുടെ ഫോട്ടോ സേവ് ചെയ്തു, ഓൺലൈനാകുമ്പോൾ അപ്‌ലോഡ് ചെയ്യും.",
+    proof_sent: "ഒരു വിജ്ഞാന വ്യാപന പ്രവർത്തകൻ നിങ്ങളുടെ ഫോട്ടോ പരിശോധിക്കും. അംഗീകരിച്ചാൽ ക്വസ്റ്റ് നാണയങ്ങൾ ലഭിക്കും.",
+    proof_hint: "നിങ്ങളുടെ വയലിൽ പൂർത്തിയാക്കിയ ജോലിയുടെ വ്യക്തമായ ഫോട്ടോ എടുക്കുക. എവിടെ എടുത്തതാണെന്ന് പരിശോധകന് കാണാൻ ലൊക്കേഷൻ ഓണാക്കി വെക്കുക.",
+    proof_no_time: "ഫോട്ടോയിൽ സമയം ഇല്ല",
+    proof_no_location: "ഫോട്ടോയിൽ ലൊക്കേഷൻ ഇല്ല",
+    proof_submit: "പരിശോധനയ്ക്ക് അയയ്ക്കുക",
+    // --- Quest seasons ---
+    season_ends_in: "അവസാനിക്കാൻ",
+    season_ended: "സീസൺ കഴിഞ്ഞു",
+    season_standings: "സീസൺ റാങ്കിംഗ്",
+    season_no_standings: "ഈ സീസണിൽ ഇതുവരെ ക്വസ്റ്റ് നാണയങ്ങളൊന്നും നേടിയിട്ടില്ല.",
+    // --- Quest steps ---
+    quest_tasks: "ജോലികൾ",
+    quest_sign_in: "ക്വസ്റ്റ് പുരോഗതി സേവ് ചെയ്യാൻ സൈൻ ഇൻ ചെയ്യുക.",
+    step_queued: "ജോലി ഫോണിൽ സേവ് ചെയ്തു. ഓൺലൈനാകുമ്പോൾ സിങ്ക് ചെയ്യും.",
+    step_lesson: "പാഠം വായിക്കുക",
+    step_question: "ചോദ്യത്തിന് ഉത്തരം നൽകുക",
+    step_photo: "ഫോട്ടോ അപ്‌ലോഡ് ചെയ്യുക",
+    step_activity: "പ്രവർത്തനം രേഖപ്പെടുത്തുക",
+    step_opens_on: "തുറക്കുന്നത്",
+    step_action_lesson: "പാഠം തുറക്കുക",
+    step_action_question: "ഉത്തരം നൽകുക",
+    step_action_photo: "ഫോട്ടോ തെളിവ് ചേർക്കുക",
+    step_action_activity: "ഞാൻ ഇന്ന് ചെയ്തു",
+    // --- For you today ---
+    for_you_today: "ഇന്ന് നിങ്ങൾക്കായി",
+    for_you_kind_lesson: "പാഠം",
+    for_you_kind_quest: "ക്വസ്റ്റ്",
+    for_you_kind_scheme: "പദ്ധതി",
+    for_you_next_lesson: "അടുത്തത്",
+    for_you_weak_topic: "വീണ്ടും പഠിക്കുക",
+    for_you_in_progress: "തുടരുക",
+    for_you_eligible: "നിങ്ങൾക്ക് അർഹതയുണ്ടാകാം",
+    for_you_in_season: "ഈ മാസത്തിന് യോജിച്ചത്",
+    for_you_your_crop: "നിങ്ങളുടെ വിളയ്ക്ക്",
+    for_you_your_state: "നിങ്ങളുടെ സംസ്ഥാനത്തിന്",
+    for_you_small_farm: "നിങ്ങളുടെ ഭൂമിക്ക് യോജിച്ചത്",
+    for_you_ending_soon: "സീസൺ ഉടൻ അവസാനിക്കും",
+    // --- Crop calendar ---
+    crop_calendar: "വിള കലണ്ടർ",
+    calendar_no_crop: "കലണ്ടർ കാണാൻ നിങ്ങളുടെ വിള തിരഞ്ഞെടുക്കുക.",
+    calendar_choose_crop: "വിള തിരഞ്ഞെടുക്കുക",
+    calendar_no_stages: "ഈ വിളയ്ക്ക് ഇതുവരെ കലണ്ടർ ഇല്ല.",
+    calendar_set_sowing: "എപ്പോഴാണ് വിതച്ചത്?",
+    calendar_sowing_date: "വിതച്ച തീയതി",
+    calendar_save_date: "തീയതി സേവ് ചെയ്യുക",
+    calendar_change: "മാറ്റുക",
+    calendar_today: "ഇന്ന്",
+    calendar_day: "ദിവസം {count}",
+    calendar_sowing_in: "{count} ദിവസത്തിനുള്ളിൽ വിതയ്ക്കൽ",
+    calendar_season_over: "ഈ സീസൺ കഴിഞ്ഞു. അടുത്ത വിളയുടെ വിതയ്ക്കൽ തീയതി നൽകുക.",
+    calendar_now: "ഇപ്പോൾ",
+    calendar_stages: "ഘട്ടങ്ങൾ",
+    calendar_upcoming: "വരാനിരിക്കുന്ന ജോലികൾ",
+    calendar_no_tasks: "അടുത്ത 30 ദിവസം ജോലികളൊന്നുമില്ല.",
+    calendar_date_queued: "ഈ ഫോണിൽ സേവ് ചെയ്തു. ഓൺലൈനാകുമ്പോൾ സിങ്ക് ചെയ്യും.",
+    stage_sowing: "വിതയ്ക്കൽ",
+    stage_irrigation: "ജലസേചനം",
+    stage_fertilising: "വളപ്രയോഗം",
+    stage_pest_watch: "കീടനിരീക്ഷണം",
+    stage_harvest: "വിളവെടുപ്പ്",
+    for_you_crop_stage: "ഈ ഘട്ടത്തിന്",
+    // --- Offline sync ---
+    sync_rejected_title: "സേവ് ചെയ്തില്ല",
+    sync_rejected: "ഓഫ്‌ലൈനായി വരുത്തിയ {count} മാറ്റങ്ങൾ സേവ് ചെയ്യാനായില്ല, അവ പിൻവലിച്ചു.",
+    quest_saved_offline: "ക്വസ്റ്റ് നിങ്ങളുടെ ഫോണിൽ സേവ് ചെയ്തു. ഓൺലൈനാകുമ്പോൾ ഇത് സിങ്ക് ആകും.",
+    reward_unlock_offline: "വീണ്ടും ഓൺലൈനാകുമ്പോൾ നിങ്ങളുടെ സമ്മാനം അൺലോക്ക് ആകും.",
+    // --- Guest game replays ---
+    guest_games_replay: "{count} ഗെയിം പാഠങ്ങൾ അക്കൗണ്ടിൽ ചേർക്കാൻ അവ വീണ്ടും കളിക്കുക.",
   },
 };
 
@@ -1,6 +1,8 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useCallback, useEffect, useRef, useState } from "react";
 
+import { withPendingMutations } from "@/utils/outbox";
+
 export function useCachedQuery<T>(key: string, fetcher: () => Promise<T>) {
   const [data, setData] = useState<T | null>(null);
   const [loading, setLoading] = useState(true);
@@ -43,7 +45,8 @@ export function useCachedQuery<T>(key: string, fetcher: () => Promise<T>) {
 
       // 2. Then, try to fetch fresh data from the network
       try {
-        const result = await fetcher();
+        // Completions still waiting in the offline outbox are layered on top
+        const result = await withPendingMutations(key, await fetcher());
 
         if (isMounted.current) {
           await AsyncStorage.setItem(key, JSON.stringify(result));
@@ -0,0 +1,42 @@
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { localizedValue } from "@/utils/localize";
+import { supabase } from "@/utils/supabase";
+
+// Row of the `crops` table. Keeps every name_<lang> column so a language
+// switch works offline; resolve with cropName() / utils/localize.ts.
+export interface Crop {
+  id: string;
+  sort_order: number;
+  commodity_aliases: string[];
+  unit: string;
+  icon_key: string | null;
+  [localizedColumn: string]: any;
+}
+
+const fetchCrops = async (): Promise<Crop[]> => {
+  const { data, error } = await supabase
+    .from("crops")
+    .select("*")
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useCrops = () => useCachedQuery("crops_catalogue_v1", fetchCrops);
+
+export const findCrop = (crops: Crop[] | null | undefined, id: string) =>
+  crops?.find((c) => c.id === id);
+
+// Localized crop name; unknown ids (e.g. a retired crop) get a readable id
+export const cropName = (
+  crops: Crop[] | null | undefined,
+  id: string,
+  language: string,
+) => {
+  const crop = findCrop(crops, id);
+  return (
+    (crop && localizedValue<string>(crop, "name", language)) ||
+    id.replace(/_/g, " ")
+  );
+};
@@ -0,0 +1,109 @@
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import {
+  FARM_PROFILE_COLUMNS,
+  FarmProfile,
+  toFarmProfile,
+} from "@/utils/agristack";
+import { supabase } from "@/utils/supabase";
+
+export interface MandiPrice {
+  crop_id: string;
+  state: string;
+  district: string;
+  market: string;
+  variety: string;
+  min_price: number;
+  modal_price: number;
+  max_price: number;
+  arrival_date: string | null;
+}
+
+export interface MarketData {
+  rows: any[]; // market_prices rows; price = national median
+  mandis: MandiPrice[]; // only for the selected state
+  syncedAt: string;
+}
+
+const fetchMarket = async (state: string | null): Promise<MarketData> => {
+  const [pricesRes, mandiRes] = await Promise.all([
+    supabase.from("market_prices").select("*").order("name"),
+    state
+      ? supabase
+          .from("mandi_prices")
+          .select(
+            "crop_id, state, district, market, variety, min_price, modal_price, max_price, arrival_date",
+          )
+          .ilike("state", state)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (pricesRes.error) throw pricesRes.error;
+  if (mandiRes.error) throw mandiRes.error;
+
+  return {
+    rows: pricesRes.data || [],
+    mandis: (mandiRes.data || []).map((m: any) => ({
+      ...m,
+      min_price: Number(m.min_price),
+      modal_price: Number(m.modal_price),
+      max_price: Number(m.max_price),
+    })),
+    syncedAt: new Date().toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+  };
+};
+
+// state = null -> national prices only
+export const useMarketPrices = (state: string | null) =>
+  useCachedQuery(`market_prices_v2_${state ?? "all"}`, () =>
+    fetchMarket(state),
+  );
+
+// State/district (AgriStack-verified or from the schemes questionnaire) and crops
+const fetchFarmProfile = async (): Promise<FarmProfile | null> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(FARM_PROFILE_COLUMNS)
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+
+  return toFarmProfile(data);
+};
+
+export const useFarmProfile = () =>
+  useCachedQuery("market_farm_profile_v1", fetchFarmProfile);
+
+// --- AGGREGATES ---
+export const medianPrice = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Mandis have no coordinates in the feed, so "nearest" means the farmer's
+// own district first, then the rest of the state by modal price.
+export const nearestMandis = (
+  mandis: MandiPrice[],
+  district: string | null,
+  limit = 3,
+) => {
+  const home = district?.toLowerCase();
+  return [...mandis]
+    .sort(
+      (a, b) =>
+        Number(b.district.toLowerCase() === home) -
+          Number(a.district.toLowerCase() === home) ||
+        b.modal_price - a.modal_price,
+    )
+    .slice(0, limit);
+};
@@ -0,0 +1,183 @@
+import { Audio, AVPlaybackStatus } from "expo-av";
+import * as Speech from "expo-speech";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Reads a list of text segments aloud (lesson lines, a quiz question and its
+// options, a scheme's sections). Uses the uploaded recording when there is one
+// and on-device speech otherwise. `activeIndex` is the segment being read, for
+// read-along highlighting.
+export const NARRATION_RATES = [0.75, 1, 1.25, 1.5];
+
+// Device voices are picked by locale
+const SPEECH_LOCALES: Record<string, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+  pa: "pa-IN",
+  ml: "ml-IN",
+};
+
+interface NarrationOptions {
+  segments: string[];
+  language: string;
+  audio?: { uri: string } | null; // recording, remote or downloaded
+}
+
+// Recordings carry no timings, so estimate the segment from how much of the
+// text has been read at this point of the audio
+const segmentAt = (segments: string[], fraction: number) => {
+  const total = segments.reduce((sum, s) => sum + s.length, 0) || 1;
+  let read = 0;
+  for (let i = 0; i < segments.length; i++) {
+    read += segments[i].length;
+    if (read / total >= fraction) return i;
+  }
+  return segments.length - 1;
+};
+
+export function useNarration({ segments, language, audio }: NarrationOptions) {
+  const audioUri = audio?.uri ?? null;
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [rate, setRate] = useState(1);
+  // Switches to true when the recording can't be loaded (e.g. offline)
+  const [recordingFailed, setRecordingFailed] = useState(false);
+  const usesRecording = !!audioUri && !recordingFailed;
+
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const runRef = useRef(0); // bumped on every stop so stale speech callbacks are ignored
+  const rateRef = useRef(rate);
+  const segmentsRef = useRef(segments);
+  const languageRef = useRef(language);
+  useEffect(() => {
+    segmentsRef.current = segments;
+    languageRef.current = language;
+  }, [segments, language]);
+
+  const stop = useCallback(() => {
+    runRef.current += 1;
+    Speech.stop();
+    soundRef.current?.unloadAsync();
+    soundRef.current = null;
+    setIsPlaying(false);
+    setActiveIndex(null);
+  }, []);
+
+  const speakFrom = useCallback((index: number, run: number) => {
+    if (run !== runRef.current) return;
+    const list = segmentsRef.current;
+    if (index >= list.length) {
+      setIsPlaying(false);
+      setActiveIndex(null);
+      return;
+    }
+
+    setActiveIndex(index);
+    Speech.speak(list[index], {
+      language: SPEECH_LOCALES[languageRef.current] ?? languageRef.current,
+      rate: rateRef.current,
+      onDone: () => speakFrom(index + 1, run),
+      onError: (e) => {
+        console.error("Narration speech failed:", e);
+        if (run === runRef.current) {
+          setIsPlaying(false);
+          setActiveIndex(null);
+        }
+      },
+    });
+  }, []);
+
+  const onStatus = useCallback((status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    if (status.didJustFinish) {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+      setIsPlaying(false);
+      setActiveIndex(null);
+    } else if (status.isPlaying && status.durationMillis) {
+      setActiveIndex(
+        segmentAt(
+          segmentsRef.current,
+          status.positionMillis / status.durationMillis,
+        ),
+      );
+    }
+  }, []);
+
+  const playRecording = async (uri: string) => {
+    if (soundRef.current) {
+      await soundRef.current.playAsync();
+      return;
+    }
+    try {
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        {
+          shouldPlay: true,
+          rate: rateRef.current,
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: 250,
+        },
+        onStatus,
+      );
+      soundRef.current = sound;
+    } catch (e) {
+      console.warn("Narration recording unavailable, using device voice:", e);
+      setRecordingFailed(true);
+      runRef.current += 1;
+      speakFrom(0, runRef.current);
+    }
+  };
+
+  const toggle = () => {
+    if (isPlaying) {
+      // Keep activeIndex so speech resumes from the same segment
+      if (usesRecording) soundRef.current?.pauseAsync();
+      else {
+        runRef.current += 1;
+        Speech.stop();
+      }
+      setIsPlaying(false);
+      return;
+    }
+
+    setIsPlaying(true);
+    if (audioUri && usesRecording) playRecording(audioUri);
+    else {
+      runRef.current += 1;
+      speakFrom(activeIndex ?? 0, runRef.current);
+    }
+  };
+
+  const cycleRate = () => {
+    const nextIndex = (NARRATION_RATES.indexOf(rate) + 1) % NARRATION_RATES.length;
+    const next = NARRATION_RATES[nextIndex];
+    rateRef.current = next;
+    setRate(next);
+
+    if (usesRecording) soundRef.current?.setRateAsync(next, true);
+    else if (isPlaying) {
+      // Speech rate is fixed per utterance; restart the current segment
+      runRef.current += 1;
+      Speech.stop();
+      speakFrom(activeIndex ?? 0, runRef.current);
+    }
+  };
+
+  // New content (next quiz question, language switch) starts from the top
+  const contentKey = `${language}|${audioUri}|${segments.join("\n")}`;
+  useEffect(() => {
+    setRecordingFailed(false);
+    return stop;
+  }, [contentKey, stop]);
+
+  return {
+    isPlaying,
+    activeIndex,
+    rate,
+    usesRecording,
+    toggle,
+    cycleRate,
+    stop,
+  };
+}
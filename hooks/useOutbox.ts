@@ -0,0 +1,57 @@
+import NetInfo from "@react-native-community/netinfo";
+import { useEffect, useState } from "react";
+import { AppState } from "react-native";
+
+import {
+  flushOutbox,
+  getOutbox,
+  OutboxEntry,
+  subscribeOutbox,
+} from "@/utils/outbox";
+
+// How often we retry while something is still waiting to sync
+const RETRY_INTERVAL_MS = 30000;
+
+// Pending (not yet synced) completions, e.g. for the dashboard sync badge
+export function useOutbox() {
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    getOutbox().then((entries) => active && setPending(entries));
+    const unsubscribe = subscribeOutbox(setPending);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { pending, pendingCount: pending.length, flush: flushOutbox };
+}
+
+// Mounted once in the root layout: replays the outbox whenever we come back online
+export function useOutboxSync() {
+  useEffect(() => {
+    flushOutbox();
+
+    const unsubscribeNet = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        flushOutbox();
+      }
+    });
+
+    const appStateSub = AppState.addEventListener("change", (status) => {
+      if (status === "active") flushOutbox();
+    });
+
+    const retryTimer = setInterval(async () => {
+      if ((await getOutbox()).length > 0) flushOutbox();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      unsubscribeNet();
+      appStateSub.remove();
+      clearInterval(retryTimer);
+    };
+  }, []);
+}
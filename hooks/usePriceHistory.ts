@@ -0,0 +1,87 @@
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { supabase } from "@/utils/supabase";
+
+// Longest range the detail screen offers; shorter ranges slice this locally
+// so switching tabs works offline.
+export const HISTORY_DAYS = 90;
+
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  price: number;
+}
+
+export interface PriceHistory {
+  crop: any | null; // market_prices row (name, price, unit, trend, ...)
+  points: PricePoint[]; // oldest first
+}
+
+const daysAgo = (days: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+};
+
+const fetchPriceHistory = async (cropId: string): Promise<PriceHistory> => {
+  const [cropRes, historyRes] = await Promise.all([
+    supabase
+      .from("market_prices")
+      .select("*")
+      .eq("crop_id", cropId)
+      .maybeSingle(),
+    supabase
+      .from("market_price_history")
+      .select("price_date, price")
+      .eq("crop_id", cropId)
+      .gte("price_date", daysAgo(HISTORY_DAYS - 1))
+      .order("price_date", { ascending: true }),
+  ]);
+
+  if (cropRes.error) throw cropRes.error;
+  if (historyRes.error) throw historyRes.error;
+
+  return {
+    crop: cropRes.data,
+    points: (historyRes.data || []).map((row: any) => ({
+      date: row.price_date,
+      price: Number(row.price),
+    })),
+  };
+};
+
+export const usePriceHistory = (cropId: string) =>
+  useCachedQuery(`price_history_v1_${cropId}`, () =>
+    fetchPriceHistory(cropId),
+  );
+
+// --- RANGE STATS ---
+export interface PriceSummary {
+  points: PricePoint[];
+  min: number;
+  max: number;
+  avg: number;
+  changePercent: number | null; // first -> last point in range
+}
+
+export const summarizePrices = (
+  points: PricePoint[],
+  days: number,
+): PriceSummary => {
+  const cutoff = daysAgo(days - 1);
+  const inRange = points.filter((p) => p.date >= cutoff);
+  if (inRange.length === 0) {
+    return { points: [], min: 0, max: 0, avg: 0, changePercent: null };
+  }
+
+  const prices = inRange.map((p) => p.price);
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+
+  return {
+    points: inRange,
+    min: Math.min(...prices),
+    max: Math.max(...prices),
+    avg: prices.reduce((sum, p) => sum + p, 0) / prices.length,
+    changePercent:
+      inRange.length > 1 && first > 0 ? ((last - first) / first) * 100 : null,
+  };
+};
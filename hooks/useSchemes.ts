@@ -0,0 +1,38 @@
+import { useCachedQuery } from "@/hooks/useCachedQuery";
+import { supabase } from "@/utils/supabase";
+
+// Rows keep every language column (title_en, title_hi, title_pa, ...) so a
+// language switch works offline; resolve them with utils/localize.ts.
+export interface Scheme {
+  id: string;
+  sort_order: number;
+  icon: string; // FontAwesome5 icon name
+  color: string;
+  rules: SchemeRules;
+  [localizedColumn: string]: any;
+}
+
+// Mirrors the `rules` jsonb column (see *_schemes_catalogue.sql)
+export interface SchemeRules {
+  max_land_hectares?: number;
+  min_land_hectares?: number;
+  crops?: string[];
+  states?: string[];
+  requires_land_records?: boolean;
+  requires_bank_account?: boolean;
+  requires_agristack?: boolean;
+  months?: number[]; // when to suggest it; ranking only, not eligibility
+}
+
+export const fetchSchemes = async (): Promise<Scheme[]> => {
+  const { data, error } = await supabase
+    .from("schemes")
+    .select("*")
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((s: any) => ({ ...s, rules: s.rules || {} }));
+};
+
+export const useSchemes = () =>
+  useCachedQuery("schemes_catalogue_v1", fetchSchemes);
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Uploads the lesson mini-games in games/<id>/index.html to the
+ * `lesson-media` Supabase Storage bucket at games/<id>/index.html, the
+ * bundle_path registered for them in the games table (see
+ * supabase/migrations/20261019001900_lesson_games.sql). Bump the game's
+ * `version` after uploading a new build so devices fetch it again.
+ *
+ * Usage:
+ *   EXPO_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run upload-games
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { createClient } = require("@supabase/supabase-js");
+
+const BUCKET = "lesson-media";
+const gamesDir = path.join(process.cwd(), "games");
+
+const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceKey) {
+  console.error(
+    "Set EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to upload games."
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceKey, {
+  auth: { persistSession: false },
+});
+
+(async () => {
+  const games = fs
+    .readdirSync(gamesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name);
+
+  for (const game of games) {
+    const filePath = path.join(gamesDir, game, "index.html");
+    if (!fs.existsSync(filePath)) {
+      console.warn(`⚠️ Skipping ${game}: no index.html`);
+      continue;
+    }
+
+    const target = `games/${game}/index.html`;
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(target, fs.readFileSync(filePath), {
+        contentType: "text/html",
+        upsert: true,
+      });
+
+    if (error) {
+      console.error(`❌ ${game}: ${error.message}`);
+      process.exitCode = 1;
+    } else {
+      console.log(`✅ ${game} -> ${BUCKET}/${target}`);
+    }
+  }
+})();
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Uploads the lesson media that used to ship inside the app bundle to the
+ * `lesson-media` Supabase Storage bucket, at the paths set on the lessons rows
+ * by supabase/migrations/20261019001400_lesson_media_storage.sql.
+ *
+ * Usage:
+ *   EXPO_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run upload-lesson-media
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { createClient } = require("@supabase/supabase-js");
+
+const BUCKET = "lesson-media";
+const sourceDir = path.join(process.cwd(), "assets/images/Thumbnails");
+
+const files = [
+  { file: "L1 thumb.png", path: "lessons/1/thumbnail.png", type: "image/png" },
+  { file: "L2 thumb.png", path: "lessons/2/thumbnail.png", type: "image/png" },
+  { file: "L3 thumb.png", path: "lessons/3/thumbnail.png", type: "image/png" },
+  { file: "L4 THUMB.png", path: "lessons/4/thumbnail.png", type: "image/png" },
+  { file: "L1video.mp4", path: "lessons/1/video.mp4", type: "video/mp4" },
+];
+
+const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceKey) {
+  console.error(
+    "Set EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to upload lesson media."
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceKey, {
+  auth: { persistSession: false },
+});
+
+(async () => {
+  for (const entry of files) {
+    const filePath = path.join(sourceDir, entry.file);
+    if (!fs.existsSync(filePath)) {
+      console.warn(`⚠️ Skipping missing file ${entry.file}`);
+      continue;
+    }
+
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(entry.path, fs.readFileSync(filePath), {
+        contentType: entry.type,
+        upsert: true,
+      });
+
+    if (error) {
+      console.error(`❌ ${entry.file}: ${error.message}`);
+      process.exitCode = 1;
+    } else {
+      console.log(`✅ ${entry.file} -> ${BUCKET}/${entry.path}`);
+    }
+  }
+})();
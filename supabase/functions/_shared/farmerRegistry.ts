@@ -0,0 +1,124 @@
+// Farmer registry (AgriStack) lookups behind one interface, so the edge
+// function can run against the real registry or the built-in mock.
+// Kept free of Deno globals so it can also be imported from Node tests.
+
+export interface FarmerRecord {
+  farmerId: string;
+  landSizeHectares: number | null;
+  state: string | null;
+  district: string | null;
+  soilType: string | null;
+  crops: string[]; // app crop ids (rice, banana, ...)
+}
+
+export interface FarmerRegistryProvider {
+  name: string;
+  // Resolves null when the registry has no such farmer
+  lookup(farmerId: string): Promise<FarmerRecord | null>;
+}
+
+// Thrown when the registry itself cannot be reached (not the farmer's fault)
+export class RegistryUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RegistryUnavailableError';
+  }
+}
+
+const ACRES_PER_HECTARE = 2.4711;
+
+export const normalizeFarmerId = (id: string) => id.trim().toUpperCase();
+
+// Registry crop names -> app crop ids
+const toCropId = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '_');
+
+// --- MOCK PROVIDER ---
+const MOCK_RECORDS: Record<string, FarmerRecord> = {
+  'AGRI-001': {
+    farmerId: 'AGRI-001',
+    landSizeHectares: 2.5,
+    state: 'Punjab',
+    district: 'Ludhiana',
+    soilType: 'Alluvial',
+    crops: ['rice'],
+  },
+  'AGRI-002': {
+    farmerId: 'AGRI-002',
+    landSizeHectares: Math.round((5.0 / ACRES_PER_HECTARE) * 100) / 100,
+    state: 'Kerala',
+    district: 'Thrissur',
+    soilType: 'Laterite',
+    crops: ['banana', 'coconut'],
+  },
+  'AGRI-003': {
+    farmerId: 'AGRI-003',
+    landSizeHectares: 1.2,
+    state: 'Karnataka',
+    district: 'Kodagu',
+    soilType: 'Red Loam',
+    crops: ['coffee', 'black_pepper'],
+  },
+};
+
+export const createMockFarmerRegistry = (
+  records: Record<string, FarmerRecord> = MOCK_RECORDS,
+): FarmerRegistryProvider => ({
+  name: 'mock',
+  lookup: async (farmerId) => records[normalizeFarmerId(farmerId)] ?? null,
+});
+
+// --- HTTP PROVIDER ---
+// Expects GET {baseUrl}/farmers/{id} -> { farmer_id, land_area, land_unit,
+// state, district, soil_type, crops: string[] }, 404 when unknown.
+export const createHttpFarmerRegistry = (
+  baseUrl: string,
+  apiKey: string,
+  fetchImpl: typeof fetch = fetch,
+): FarmerRegistryProvider => ({
+  name: 'http',
+  lookup: async (farmerId) => {
+    const id = normalizeFarmerId(farmerId);
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/farmers/${encodeURIComponent(id)}`, {
+        headers: { Authorization: `Bearer ${apiKey}`, Accept: 'application/json' },
+      });
+    } catch (e) {
+      throw new RegistryUnavailableError(`Registry unreachable: ${(e as Error).message}`);
+    }
+
+    if (res.status === 404) return null;
+    if (!res.ok) throw new RegistryUnavailableError(`Registry responded ${res.status}`);
+
+    const json = await res.json();
+    const area = json.land_area != null ? Number(json.land_area) : null;
+    const inAcres = String(json.land_unit ?? '').toLowerCase().startsWith('acre');
+
+    return {
+      farmerId: id,
+      landSizeHectares:
+        area === null || Number.isNaN(area)
+          ? null
+          : Math.round((inAcres ? area / ACRES_PER_HECTARE : area) * 100) / 100,
+      state: json.state ?? null,
+      district: json.district ?? null,
+      soilType: json.soil_type ?? null,
+      crops: Array.isArray(json.crops) ? json.crops.map(toCropId) : [],
+    };
+  },
+});
+
+// Real registry when configured. The mock (local dev / demos) has to be
+// switched on explicitly, so a deploy missing its registry settings fails
+// closed instead of verifying the mock farmers.
+export const getFarmerRegistry = (config: {
+  url?: string;
+  apiKey?: string;
+  useMock?: boolean;
+}): FarmerRegistryProvider => {
+  if (config.url && config.apiKey) {
+    return createHttpFarmerRegistry(config.url, config.apiKey);
+  }
+  if (config.useMock) return createMockFarmerRegistry();
+  throw new RegistryUnavailableError('Farmer registry is not configured');
+};
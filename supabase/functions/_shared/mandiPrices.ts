@@ -0,0 +1,73 @@
+// Parsing and aggregation of the data.gov.in daily mandi price feed.
+// Kept free of Deno globals so it can also be imported from Node tests.
+
+export interface MandiPrice {
+  crop_id: string;
+  state: string;
+  district: string;
+  market: string;
+  variety: string;
+  min_price: number;
+  modal_price: number;
+  max_price: number;
+  arrival_date: string | null; // YYYY-MM-DD
+}
+
+export interface CropSummary {
+  median: number; // national median of modal prices
+  min: number;
+  max: number;
+  mandiCount: number;
+}
+
+const toNumber = (value: unknown) => {
+  const n = parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+// Feed dates are dd/mm/yyyy
+const toIsoDate = (value: unknown) => {
+  const m = String(value ?? '').match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : null;
+};
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// One row per market + variety (the feed can repeat a market per grade; the
+// last one wins). Rows without a usable modal price are dropped, and min/max
+// fall back to the modal price when the feed leaves them blank.
+export const parseMandiRecords = (cropId: string, records: any[]): MandiPrice[] => {
+  const byMarket = new Map<string, MandiPrice>();
+
+  for (const r of records) {
+    const modal = toNumber(r.modal_price);
+    if (modal === null || modal <= 0) continue;
+
+    const row: MandiPrice = {
+      crop_id: cropId,
+      state: String(r.state ?? '').trim(),
+      district: String(r.district ?? '').trim(),
+      market: String(r.market ?? '').trim(),
+      variety: String(r.variety ?? '').trim(),
+      min_price: toNumber(r.min_price) ?? modal,
+      modal_price: modal,
+      max_price: toNumber(r.max_price) ?? modal,
+      arrival_date: toIsoDate(r.arrival_date),
+    };
+    byMarket.set([row.state, row.district, row.market, row.variety].join('|'), row);
+  }
+
+  return [...byMarket.values()];
+};
+
+export const summarizeCrop = (rows: MandiPrice[]): CropSummary => ({
+  median: median(rows.map((r) => r.modal_price)),
+  min: Math.min(...rows.map((r) => r.min_price)),
+  max: Math.max(...rows.map((r) => r.max_price)),
+  mandiCount: rows.length,
+});
@@ -0,0 +1,66 @@
+// OTP resend throttling and lockout rules for the phone-auth function.
+// Kept free of Deno globals so it can also be imported from Node tests.
+
+export const RESEND_COOLDOWN_SECONDS = 30;
+export const MAX_SENDS_PER_HOUR = 5;
+export const MAX_FAILED_VERIFICATIONS = 5; // within FAILURE_WINDOW_MINUTES
+export const FAILURE_WINDOW_MINUTES = 15;
+export const LOCKOUT_MINUTES = 30;
+
+export interface OtpEvent {
+  kind: 'sent' | 'failed' | 'verified';
+  created_at: string;
+}
+
+export interface OtpStatus {
+  lockedUntil: string | null;
+  retryAfterSeconds: number; // 0 = a code may be sent now
+  attemptsLeft: number; // wrong codes allowed before lockout
+}
+
+const MINUTE = 60 * 1000;
+
+// Indian mobile numbers: 10 digits (optionally prefixed with 0 / 91 / +91)
+export const normalizePhone = (input: string): string | null => {
+  let digits = input.replace(/[^\d]/g, '');
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+};
+
+// `events` = this phone's events from the last hour, any order
+export const otpStatus = (events: OtpEvent[], now = new Date()): OtpStatus => {
+  const t = (e: OtpEvent) => new Date(e.created_at).getTime();
+  const sorted = [...events].sort((a, b) => t(a) - t(b));
+
+  // A successful verification wipes earlier failures
+  const lastVerified = sorted.filter((e) => e.kind === 'verified').pop();
+  const failures = sorted.filter(
+    (e) =>
+      e.kind === 'failed' &&
+      (!lastVerified || t(e) > t(lastVerified)) &&
+      t(e) > now.getTime() - FAILURE_WINDOW_MINUTES * MINUTE,
+  );
+
+  let lockedUntil: string | null = null;
+  if (failures.length >= MAX_FAILED_VERIFICATIONS) {
+    const until = t(failures[failures.length - 1]) + LOCKOUT_MINUTES * MINUTE;
+    if (until > now.getTime()) lockedUntil = new Date(until).toISOString();
+  }
+
+  const sends = sorted.filter((e) => e.kind === 'sent' && t(e) > now.getTime() - 60 * MINUTE);
+  let retryAt = 0;
+  if (sends.length > 0) {
+    retryAt = t(sends[sends.length - 1]) + RESEND_COOLDOWN_SECONDS * 1000;
+  }
+  if (sends.length >= MAX_SENDS_PER_HOUR) {
+    // Wait until the oldest send in the window falls out of it
+    retryAt = Math.max(retryAt, t(sends[sends.length - MAX_SENDS_PER_HOUR]) + 60 * MINUTE);
+  }
+
+  return {
+    lockedUntil,
+    retryAfterSeconds: Math.max(0, Math.ceil((retryAt - now.getTime()) / 1000)),
+    attemptsLeft: Math.max(0, MAX_FAILED_VERIFICATIONS - failures.length),
+  };
+};
@@ -0,0 +1,82 @@
+// Price alert evaluation for update-prices.
+// Kept free of Deno globals so it can also be imported from Node tests.
+
+export type PriceAlertKind = 'above' | 'below' | 'move';
+
+export interface PriceAlert {
+  id: string;
+  user_id: string;
+  crop_id: string;
+  kind: PriceAlertKind;
+  threshold: number;
+  condition_met: boolean;
+  last_triggered_at: string | null;
+}
+
+export interface CropQuote {
+  price: number;
+  prevPrice: number; // previous day's anchor (see update-prices)
+}
+
+export interface AlertOutcome {
+  conditionMet: boolean;
+  event: {
+    alert_id: string;
+    user_id: string;
+    crop_id: string;
+    kind: PriceAlertKind;
+    threshold: number;
+    price: number;
+    prev_price: number;
+    change_percent: number | null;
+  } | null;
+}
+
+const sameDay = (iso: string | null, now: Date) =>
+  !!iso && new Date(iso).toDateString() === now.toDateString();
+
+export const changePercent = (quote: CropQuote) =>
+  quote.prevPrice > 0 ? ((quote.price - quote.prevPrice) / quote.prevPrice) * 100 : null;
+
+// above/below fire once per crossing; move fires at most once per day
+export const evaluateAlert = (
+  alert: PriceAlert,
+  quote: CropQuote,
+  now = new Date(),
+): AlertOutcome => {
+  const change = changePercent(quote);
+  const threshold = Number(alert.threshold);
+
+  let conditionMet: boolean;
+  let fires: boolean;
+  switch (alert.kind) {
+    case 'above':
+      conditionMet = quote.price > threshold;
+      fires = conditionMet && !alert.condition_met;
+      break;
+    case 'below':
+      conditionMet = quote.price < threshold;
+      fires = conditionMet && !alert.condition_met;
+      break;
+    case 'move':
+      conditionMet = change !== null && Math.abs(change) >= threshold;
+      fires = conditionMet && !sameDay(alert.last_triggered_at, now);
+      break;
+  }
+
+  return {
+    conditionMet,
+    event: fires
+      ? {
+          alert_id: alert.id,
+          user_id: alert.user_id,
+          crop_id: alert.crop_id,
+          kind: alert.kind,
+          threshold,
+          price: quote.price,
+          prev_price: quote.prevPrice,
+          change_percent: change === null ? null : Math.round(change * 100) / 100,
+        }
+      : null,
+  };
+};
@@ -0,0 +1,147 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import {
+  normalizePhone,
+  OtpEvent,
+  otpStatus,
+  RESEND_COOLDOWN_SECONDS,
+} from '../_shared/otpThrottle.ts';
+
+// Forgotten-password reset. Actions:
+//   send  { phone }                                       -> SMS code
+//   reset { phone, method: 'otp' | 'pin', code, password } -> { status: 'reset' }
+// A reset signs the account out on every device; the client signs in again
+// with the new password. Wrong codes/PINs count towards the same lockout as
+// phone-auth (phone_otp_events), and every attempt lands in
+// account_recovery_attempts.
+
+type Method = 'otp' | 'pin';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+Deno.serve(async (req) => {
+  try {
+    const { action, phone: rawPhone, method, code, password } = await req.json();
+    const phone = normalizePhone(String(rawPhone ?? ''));
+    if (!phone) return json({ error: 'invalid_phone' }, 400);
+
+    const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const anon = createClient(SUPABASE_URL, ANON_KEY, { auth: { persistSession: false } });
+
+    const audit = (m: Method, outcome: string, userId: string | null = null) =>
+      admin.from('account_recovery_attempts').insert({
+        user_id: userId,
+        phone,
+        method: m,
+        outcome,
+        ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+        user_agent: req.headers.get('user-agent'),
+      });
+
+    const loadStatus = async () => {
+      const { data, error } = await admin
+        .from('phone_otp_events')
+        .select('kind, created_at')
+        .eq('phone', phone)
+        .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+      if (error) throw error;
+      return otpStatus((data ?? []) as OtpEvent[]);
+    };
+    const record = (kind: OtpEvent['kind']) =>
+      admin.from('phone_otp_events').insert({ phone, kind, purpose: 'recovery' });
+
+    const status = await loadStatus();
+    const auditMethod: Method = method === 'pin' ? 'pin' : 'otp';
+    if (status.lockedUntil) {
+      await audit(auditMethod, 'locked');
+      return json({ error: 'locked', lockedUntil: status.lockedUntil }, 423);
+    }
+
+    // --- SEND (OTP method only) ---
+    if (action === 'send') {
+      if (status.retryAfterSeconds > 0) {
+        await audit('otp', 'throttled');
+        return json({ error: 'too_many_requests', retryAfter: status.retryAfterSeconds }, 429);
+      }
+
+      const { data: exists, error: existsError } = await admin.rpc('phone_account_exists', { p_phone: phone });
+      if (existsError) throw existsError;
+      if (!exists) {
+        await audit('otp', 'no_account');
+        return json({ error: 'no_account' }, 404);
+      }
+
+      const { error } = await anon.auth.signInWithOtp({ phone, options: { shouldCreateUser: false } });
+      if (error) throw error;
+
+      await record('sent');
+      await audit('otp', 'code_sent');
+      return json({ status: 'sent', retryAfter: RESEND_COOLDOWN_SECONDS });
+    }
+
+    // --- RESET ---
+    if (action === 'reset') {
+      if (!['otp', 'pin'].includes(method)) return json({ error: 'invalid_method' }, 400);
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return json({ error: 'weak_password' }, 400);
+      }
+
+      const fail = async (userId: string | null) => {
+        await record('failed');
+        await audit(method, 'invalid_code', userId);
+        const after = await loadStatus();
+        if (after.lockedUntil) return json({ error: 'locked', lockedUntil: after.lockedUntil }, 423);
+        return json({ error: 'invalid_code', attemptsLeft: after.attemptsLeft }, 400);
+      };
+
+      let userId: string;
+      if (method === 'otp') {
+        if (!/^\d{6}$/.test(String(code ?? ''))) return fail(null);
+        const { data, error } = await anon.auth.verifyOtp({ phone, token: String(code), type: 'sms' });
+        if (error || !data.user) return fail(null);
+        userId = data.user.id;
+      } else {
+        const { data, error } = await admin
+          .rpc('check_recovery_pin', { p_phone: phone, p_pin: String(code ?? '') })
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) {
+          await audit('pin', 'no_account');
+          return json({ error: 'no_account' }, 404);
+        }
+        if (data.pin_matches === null) {
+          await audit('pin', 'no_pin', data.user_id);
+          return json({ error: 'no_pin' }, 404);
+        }
+        if (!data.pin_matches) return fail(data.user_id);
+        userId = data.user_id;
+      }
+
+      const { error: updateError } = await admin.auth.admin.updateUserById(userId, { password });
+      if (updateError) throw updateError;
+
+      const { error: revokeError } = await admin.rpc('revoke_user_sessions', { p_user_id: userId });
+      if (revokeError) throw revokeError;
+
+      await record('verified');
+      await audit(method, 'password_reset', userId);
+
+      console.log(`✅ Password reset (${method}) for user ${userId}`);
+      return json({ status: 'reset' });
+    }
+
+    return json({ error: 'invalid_action' }, 400);
+  } catch (e) {
+    console.error('❌ account-recovery error:', e);
+    return json({ error: e.message }, 500);
+  }
+})
@@ -0,0 +1,126 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import {
+  normalizePhone,
+  OtpEvent,
+  otpStatus,
+  RESEND_COOLDOWN_SECONDS,
+} from '../_shared/otpThrottle.ts';
+
+// Phone OTP sign-in / sign-up / legacy account linking with resend throttling
+// and lockout. Actions:
+//   send   { phone, purpose: 'login' | 'signup' | 'link', metadata? }
+//   verify { phone, purpose, token } -> { session }
+// 'link' attaches a phone to the caller's (legacy username) account and
+// needs their JWT.
+
+type Purpose = 'login' | 'signup' | 'link';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+Deno.serve(async (req) => {
+  try {
+    const { action, phone: rawPhone, purpose, token, metadata } = await req.json();
+    const phone = normalizePhone(String(rawPhone ?? ''));
+    if (!phone) return json({ error: 'invalid_phone' }, 400);
+    if (!['login', 'signup', 'link'].includes(purpose)) return json({ error: 'invalid_purpose' }, 400);
+
+    const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const anon = createClient(SUPABASE_URL, ANON_KEY, { auth: { persistSession: false } });
+    const authHeader = req.headers.get('Authorization') ?? '';
+
+    // 1. Throttle state for this number (last hour covers every window)
+    const loadStatus = async () => {
+      const { data, error } = await admin
+        .from('phone_otp_events')
+        .select('kind, created_at')
+        .eq('phone', phone)
+        .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+      if (error) throw error;
+      return otpStatus((data ?? []) as OtpEvent[]);
+    };
+    const record = (kind: OtpEvent['kind']) =>
+      admin.from('phone_otp_events').insert({ phone, kind, purpose });
+
+    const status = await loadStatus();
+    if (status.lockedUntil) return json({ error: 'locked', lockedUntil: status.lockedUntil }, 423);
+
+    // --- SEND ---
+    if (action === 'send') {
+      if (status.retryAfterSeconds > 0) {
+        return json({ error: 'too_many_requests', retryAfter: status.retryAfterSeconds }, 429);
+      }
+
+      const { data: exists, error: existsError } = await admin.rpc('phone_account_exists', { p_phone: phone });
+      if (existsError) throw existsError;
+      if (purpose === 'login' && !exists) return json({ error: 'no_account' }, 404);
+      if (purpose !== 'login' && exists) return json({ error: 'phone_taken' }, 409);
+
+      if (purpose === 'link') {
+        // Phone change on the caller's own account (GoTrue sends the OTP)
+        const res = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+          method: 'PUT',
+          headers: { apikey: ANON_KEY, Authorization: authHeader, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ phone }),
+        });
+        if (res.status === 401 || res.status === 403) return json({ error: 'not_authenticated' }, 401);
+        if (!res.ok) throw new Error(`Phone change failed: ${res.status} ${await res.text()}`);
+      } else {
+        const { error } = await anon.auth.signInWithOtp({
+          phone,
+          options: {
+            shouldCreateUser: purpose === 'signup',
+            ...(purpose === 'signup' && metadata && { data: metadata }),
+          },
+        });
+        if (error) throw error;
+      }
+
+      await record('sent');
+      return json({ status: 'sent', retryAfter: RESEND_COOLDOWN_SECONDS });
+    }
+
+    // --- VERIFY ---
+    if (action === 'verify') {
+      if (!/^\d{6}$/.test(String(token ?? ''))) return json({ error: 'invalid_code', attemptsLeft: status.attemptsLeft }, 400);
+
+      const { data, error } = await anon.auth.verifyOtp({
+        phone,
+        token: String(token),
+        type: (purpose as Purpose) === 'link' ? 'phone_change' : 'sms',
+      });
+
+      if (error || !data.session) {
+        await record('failed');
+        const after = await loadStatus();
+        if (after.lockedUntil) return json({ error: 'locked', lockedUntil: after.lockedUntil }, 423);
+        return json({ error: 'invalid_code', attemptsLeft: after.attemptsLeft }, 400);
+      }
+
+      await record('verified');
+      // The verified number becomes the profile's contact number
+      await admin.from('profiles').update({ mobile_no: phone }).eq('id', data.session.user.id);
+
+      console.log(`✅ ${purpose} OTP verified for user ${data.session.user.id}`);
+      return json({
+        status: 'verified',
+        session: {
+          access_token: data.session.access_token,
+          refresh_token: data.session.refresh_token,
+        },
+      });
+    }
+
+    return json({ error: 'invalid_action' }, 400);
+  } catch (e) {
+    console.error('❌ phone-auth error:', e);
+    return json({ error: e.message }, 500);
+  }
+})
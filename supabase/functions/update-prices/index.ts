@@ -1,15 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
-const CROP_MAP = {
-  'Banana': 'banana',
-  'Rice': 'rice',
-  'Coffee': 'coffee',
-  'Coconut': 'coconut',
-  'Black Pepper': 'black_pepper',
-  'Cardamom': 'cardamom',
-  'Ginger': 'ginger',
-  'Cashewnuts': 'cashew'
-};
+import { parseMandiRecords, summarizeCrop } from '../_shared/mandiPrices.ts';
+import { CropQuote, evaluateAlert, PriceAlert } from '../_shared/priceAlerts.ts';
 
 Deno.serve(async (req) => {
   try {
@@ -21,19 +13,63 @@ Deno.serve(async (req) => {
     const API_KEY = Deno.env.get('DATA_GOV_API_KEY');
     if (!API_KEY) throw new Error("Missing API Key");
 
-    const res = await fetch(
-      `https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070?api-key=${API_KEY}&format=json&limit=2000`
-    );
-    const json = await res.json();
-    const records = json.records;
+    // Which feed commodities to ingest comes from the crops catalogue
+    const { data: crops, error: cropsError } = await supabase
+      .from('crops')
+      .select('id, commodity_aliases, unit')
+      .eq('is_active', true);
+    if (cropsError) throw cropsError;
+
+    // The feed lists every reporting mandi, so page through all of it.
+    // A bad page fails the whole run: with a partial feed the stale-mandi
+    // cleanup below would delete mandis that are still reporting.
+    const PAGE_SIZE = 2000;
+    const records: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const res = await fetch(
+        `https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070?api-key=${API_KEY}&format=json&limit=${PAGE_SIZE}&offset=${offset}`
+      );
+      if (!res.ok) throw new Error(`Mandi feed page at offset ${offset} failed: HTTP ${res.status}`);
+      const json = await res.json();
+      if (!Array.isArray(json?.records)) {
+        throw new Error(`Mandi feed page at offset ${offset} has no records`);
+      }
+      const page = json.records;
+      records.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
 
     console.log(`Fetched ${records.length} records`);
+    const runStartedAt = new Date().toISOString();
+    const quotes: Record<string, CropQuote> = {}; // crops refreshed in this run
 
-    for (const [apiName, dbId] of Object.entries(CROP_MAP)) {
-      const marketData = records.find((r: any) => r.commodity.includes(apiName));
+    for (const crop of crops ?? []) {
+      const dbId = crop.id;
+      const aliases = (crop.commodity_aliases ?? []).map((a: string) => a.toLowerCase());
+      const matches = records.filter((r: any) => aliases.includes(String(r.commodity ?? '').trim().toLowerCase()));
+      const mandis = parseMandiRecords(dbId, matches);
 
-      if (marketData) {
-        const newPrice = parseFloat(marketData.modal_price);
+      if (mandis.length > 0) {
+        // Every reporting mandi is kept; the headline price is the national median
+        const summary = summarizeCrop(mandis);
+        const newPrice = summary.median;
+
+        const { error: mandiError } = await supabase
+          .from('mandi_prices')
+          .upsert(mandis.map((m) => ({ ...m, updated_at: runStartedAt })), {
+            onConflict: 'crop_id,state,district,market,variety'
+          });
+
+        if (mandiError) {
+          console.error(`❌ Mandi error ${dbId}:`, mandiError);
+        } else {
+          // Drop mandis that stopped reporting
+          await supabase
+            .from('mandi_prices')
+            .delete()
+            .eq('crop_id', dbId)
+            .lt('updated_at', runStartedAt);
+        }
 
         // Get current DB data
         const { data: old } = await supabase
@@ -68,21 +104,74 @@ Deno.serve(async (req) => {
         // Update DB
         const { error } = await supabase.from('market_prices').upsert({
           crop_id: dbId,
-          name: marketData.commodity,
+          name: matches[0].commodity,
           price: newPrice,
+          min_price: summary.min,
+          max_price: summary.max,
+          mandi_count: summary.mandiCount,
           prev_price: finalPrevPrice, // Use our smart anchor
           trend: trend,
           change: Math.abs(change),
-          unit: 'Quintal',
+          unit: crop.unit,
           last_updated: new Date().toISOString()
         }, { onConflict: 'crop_id' });
         
-        if (error) console.error(`❌ Error ${dbId}:`, error);
-        else console.log(`✅ Updated ${dbId}: ${newPrice}`);
+        if (error) {
+          console.error(`❌ Error ${dbId}:`, error);
+        } else {
+          console.log(`✅ Updated ${dbId}: ${newPrice} (${summary.mandiCount} mandis)`);
+          quotes[dbId] = { price: newPrice, prevPrice: finalPrevPrice };
+        }
+
+        // Keep the daily series (one row per crop per day, last run wins)
+        const { error: historyError } = await supabase.from('market_price_history').upsert({
+          crop_id: dbId,
+          price_date: new Date().toISOString().slice(0, 10),
+          price: newPrice,
+          unit: crop.unit,
+          recorded_at: new Date().toISOString()
+        }, { onConflict: 'crop_id,price_date' });
+
+        if (historyError) console.error(`❌ History error ${dbId}:`, historyError);
+      }
+    }
+
+    // --- PRICE ALERTS ---
+    const refreshedCropIds = Object.keys(quotes);
+    let triggered = 0;
+    if (refreshedCropIds.length > 0) {
+      const { data: alerts, error: alertsError } = await supabase
+        .from('price_alerts')
+        .select('id, user_id, crop_id, kind, threshold, condition_met, last_triggered_at')
+        .eq('is_enabled', true)
+        .in('crop_id', refreshedCropIds);
+
+      if (alertsError) console.error('❌ Alerts error:', alertsError);
+
+      for (const alert of (alerts ?? []) as PriceAlert[]) {
+        const { conditionMet, event } = evaluateAlert(alert, quotes[alert.crop_id]);
+        if (event) {
+          const { error: eventError } = await supabase.from('price_alert_events').insert(event);
+          if (eventError) {
+            console.error(`❌ Alert event error ${alert.id}:`, eventError);
+            continue; // leave the alert armed so the next run retries
+          }
+          triggered++;
+        }
+        if (event || conditionMet !== alert.condition_met) {
+          await supabase
+            .from('price_alerts')
+            .update({
+              condition_met: conditionMet,
+              ...(event && { last_triggered_at: new Date().toISOString() })
+            })
+            .eq('id', alert.id);
+        }
       }
+      console.log(`🔔 ${triggered} price alerts triggered`);
     }
 
-    return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+    return new Response(JSON.stringify({ success: true, alertsTriggered: triggered }), { headers: { 'Content-Type': 'application/json' } });
   } catch (e) {
     return new Response(JSON.stringify({ error: e.message }), { status: 500 });
   }
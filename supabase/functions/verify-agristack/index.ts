@@ -0,0 +1,96 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import {
+  getFarmerRegistry,
+  normalizeFarmerId,
+  RegistryUnavailableError,
+} from '../_shared/farmerRegistry.ts';
+
+// Farmer IDs look like AGRI-001; anything else is rejected before hitting the registry
+const FARMER_ID_PATTERN = /^[A-Z0-9-]{4,32}$/;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  try {
+    // 1. Who is asking (the user's own JWT, forwarded by supabase.functions.invoke)
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return json({ error: 'not_authenticated' }, 401);
+
+    const { farmerId } = await req.json();
+    const id = normalizeFarmerId(String(farmerId ?? ''));
+    if (!FARMER_ID_PATTERN.test(id)) return json({ error: 'invalid_farmer_id' }, 400);
+
+    // 2. Ask the registry
+    const registry = getFarmerRegistry({
+      url: Deno.env.get('FARMER_REGISTRY_URL'),
+      apiKey: Deno.env.get('FARMER_REGISTRY_API_KEY'),
+      useMock: Deno.env.get('FARMER_REGISTRY_MOCK') === 'true',
+    });
+    const record = await registry.lookup(id);
+
+    // 3. Persist with the service role (registry columns are read-only for clients)
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const now = new Date().toISOString();
+
+    if (!record) {
+      // Unknown IDs are never linked; earlier verified data is left alone
+      const { data: current } = await admin
+        .from('profiles')
+        .select('agristack_status')
+        .eq('id', user.id)
+        .single();
+      if (current?.agristack_status !== 'verified') {
+        await admin
+          .from('profiles')
+          .update({ agristack_status: 'not_found', agristack_checked_at: now })
+          .eq('id', user.id);
+      }
+      console.log(`Registry (${registry.name}) has no farmer ${id}`);
+      return json({ status: 'not_found' });
+    }
+
+    const { data: profile, error } = await admin
+      .from('profiles')
+      .update({
+        agristack_id: record.farmerId,
+        agristack_status: 'verified',
+        agristack_verified_at: now,
+        agristack_checked_at: now,
+        land_size_hectares: record.landSizeHectares,
+        farm_state: record.state,
+        farm_district: record.district,
+        soil_type: record.soilType,
+        registry_crops: record.crops,
+      })
+      .eq('id', user.id)
+      .select(
+        'agristack_id, agristack_status, agristack_verified_at, land_size_hectares, farm_state, farm_district, soil_type, registry_crops'
+      )
+      .single();
+
+    // profiles_agristack_id_key: the ID is already linked to another account
+    if (error?.code === '23505') return json({ error: 'agristack_id_taken' }, 409);
+    if (error) throw error;
+    console.log(`✅ Verified ${id} for ${user.id} via ${registry.name}`);
+    return json({ status: 'verified', profile });
+  } catch (e) {
+    if (e instanceof RegistryUnavailableError) {
+      console.error('❌ Registry unavailable:', e.message);
+      return json({ error: 'registry_unavailable' }, 503);
+    }
+    return json({ error: e.message }, 500);
+  }
+})
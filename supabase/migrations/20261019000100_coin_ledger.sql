@@ -0,0 +1,336 @@
+-- Append-only coin / XP ledger.
+-- Every change to profiles.coins, profiles.quest_coins and profiles.xp goes
+-- through apply_ledger_entry(), so balances can no longer be written by clients.
+-- The progress tables (user_lessons, user_quests, user_rewards) become
+-- read-only for clients too: the award RPCs are their only writers.
+
+create table if not exists public.coin_ledger (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source text not null
+    check (source in ('opening_balance', 'signup', 'lesson', 'quest', 'reward')),
+  source_id text not null,
+  coins integer not null default 0,
+  quest_coins integer not null default 0,
+  xp integer not null default 0,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  -- Idempotency: a lesson, quest or reward can only hit the ledger once per user
+  unique (user_id, source, source_id)
+);
+
+create index if not exists coin_ledger_user_idx on public.coin_ledger (user_id, created_at desc);
+
+alter table public.coin_ledger enable row level security;
+
+drop policy if exists "Users can read their own ledger" on public.coin_ledger;
+create policy "Users can read their own ledger"
+  on public.coin_ledger for select
+  using (auth.uid() = user_id);
+
+-- No insert/update/delete policies: rows are only written by the functions below.
+
+-- Reward costs live on the server now (previously hardcoded in reward-root.tsx)
+alter table public.rewards add column if not exists cost integer;
+
+update public.rewards set cost = 1000 where id = 1 and cost is null;
+update public.rewards set cost = 3000 where id = 2 and cost is null;
+update public.rewards set cost = 5000 where id = 3 and cost is null;
+update public.rewards set cost = 6000 where id = 4 and cost is null;
+update public.rewards set cost = 8000 where id = 5 and cost is null;
+update public.rewards set cost = 10000 where id = 6 and cost is null;
+
+-- --- BALANCE GUARD ---
+-- Clients keep their insert/update rights on profiles (name, crop, language...)
+-- but any change to the balance columns outside the ledger is discarded.
+create or replace function public.guard_profile_balances()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('khetsudhar.ledger_write', true), 'off') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.coins := 0;
+    new.quest_coins := 0;
+    new.xp := 0;
+  else
+    new.coins := old.coins;
+    new.quest_coins := old.quest_coins;
+    new.xp := old.xp;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_balances on public.profiles;
+create trigger guard_profile_balances
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_balances();
+
+-- Seed the ledger with whatever balance each profile has today
+insert into public.coin_ledger (user_id, source, source_id, coins, quest_coins, xp)
+select id, 'opening_balance', 'migration', coalesce(coins, 0), coalesce(quest_coins, 0), coalesce(xp, 0)
+from public.profiles
+on conflict (user_id, source, source_id) do nothing;
+
+-- --- CORE WRITER ---
+-- Appends one entry and moves the cached balances on profiles.
+-- Returns applied = false (and the current balances) when the entry already exists.
+create or replace function public.apply_ledger_entry(
+  p_user_id uuid,
+  p_source text,
+  p_source_id text,
+  p_coins integer default 0,
+  p_quest_coins integer default 0,
+  p_xp integer default 0,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile record;
+  v_entry_id bigint;
+begin
+  select coalesce(coins, 0) as coins,
+         coalesce(quest_coins, 0) as quest_coins,
+         coalesce(xp, 0) as xp
+    into v_profile
+    from profiles
+   where id = p_user_id
+     for update;
+
+  if not found then
+    raise exception 'profile_not_found';
+  end if;
+
+  insert into coin_ledger (user_id, source, source_id, coins, quest_coins, xp, metadata)
+  values (p_user_id, p_source, p_source_id, p_coins, p_quest_coins, p_xp, p_metadata)
+  on conflict (user_id, source, source_id) do nothing
+  returning id into v_entry_id;
+
+  if v_entry_id is null then
+    return jsonb_build_object(
+      'applied', false,
+      'coins', v_profile.coins,
+      'quest_coins', v_profile.quest_coins,
+      'xp', v_profile.xp
+    );
+  end if;
+
+  if v_profile.coins + p_coins < 0 or v_profile.quest_coins + p_quest_coins < 0 then
+    -- Raising rolls back the ledger insert above
+    raise exception 'insufficient_coins';
+  end if;
+
+  perform set_config('khetsudhar.ledger_write', 'on', true);
+
+  update profiles
+     set coins = v_profile.coins + p_coins,
+         quest_coins = v_profile.quest_coins + p_quest_coins,
+         xp = v_profile.xp + p_xp
+   where id = p_user_id;
+
+  perform set_config('khetsudhar.ledger_write', 'off', true);
+
+  return jsonb_build_object(
+    'applied', true,
+    'coins', v_profile.coins + p_coins,
+    'quest_coins', v_profile.quest_coins + p_quest_coins,
+    'xp', v_profile.xp + p_xp
+  );
+end;
+$$;
+
+revoke all on function public.apply_ledger_entry(uuid, text, text, integer, integer, integer, jsonb) from public, anon, authenticated;
+
+-- --- CLIENT RPCs ---
+
+-- Lesson finished through its quiz or its mini-game
+create or replace function public.award_lesson_completion(
+  p_lesson_id bigint,
+  p_via text default 'quiz'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_points integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_via not in ('quiz', 'game') then
+    raise exception 'invalid_source';
+  end if;
+
+  select points into v_points from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at)
+  values (v_user_id, p_lesson_id, now())
+  on conflict (user_id, lesson_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id,
+    'lesson',
+    p_lesson_id::text,
+    coalesce(v_points, case when p_via = 'game' then 150 else 100 end),
+    0,
+    case when p_via = 'game' then 100 else 50 end,
+    jsonb_build_object('via', p_via)
+  );
+end;
+$$;
+
+create or replace function public.award_quest_completion(p_quest_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from quests where id = p_quest_id) then
+    raise exception 'quest_not_found';
+  end if;
+
+  insert into user_quests (user_id, quest_id)
+  values (v_user_id, p_quest_id)
+  on conflict (user_id, quest_id) do nothing;
+
+  return apply_ledger_entry(v_user_id, 'quest', p_quest_id::text, 0, 1000, 0);
+end;
+$$;
+
+create or replace function public.redeem_reward(p_reward_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_cost integer;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select cost into v_cost from rewards where id = p_reward_id;
+  if v_cost is null then
+    raise exception 'reward_not_found';
+  end if;
+
+  -- Charge first: an overdraft raises before the reward is recorded
+  v_result := apply_ledger_entry(v_user_id, 'reward', p_reward_id::text, -v_cost, 0, 0);
+
+  insert into user_rewards (user_id, reward_id)
+  values (v_user_id, p_reward_id)
+  on conflict (user_id, reward_id) do nothing;
+
+  return v_result;
+end;
+$$;
+
+-- Welcome bonus that signup.tsx used to write straight into the profile
+create or replace function public.claim_signup_bonus()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  return apply_ledger_entry(v_user_id, 'signup', 'welcome', 1000, 0, 100);
+end;
+$$;
+
+revoke all on function public.award_lesson_completion(bigint, text) from public, anon;
+revoke all on function public.award_quest_completion(bigint) from public, anon;
+revoke all on function public.redeem_reward(bigint) from public, anon;
+revoke all on function public.claim_signup_bonus() from public, anon;
+
+grant execute on function public.award_lesson_completion(bigint, text) to authenticated;
+grant execute on function public.award_quest_completion(bigint) to authenticated;
+grant execute on function public.redeem_reward(bigint) to authenticated;
+grant execute on function public.claim_signup_bonus() to authenticated;
+
+-- --- PROGRESS TABLES ---
+-- user_lessons, user_quests and user_rewards are only written by the RPCs
+-- above; a client insert would unlock a reward or a quest without the ledger.
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select tablename, policyname
+      from pg_policies
+     where schemaname = 'public'
+       and tablename in ('user_lessons', 'user_quests', 'user_rewards')
+       and cmd in ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+  loop
+    execute format('drop policy %I on public.%I', v_policy.policyname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+revoke insert, update, delete on public.user_lessons, public.user_quests, public.user_rewards from anon, authenticated;
+
+alter table public.user_lessons enable row level security;
+alter table public.user_quests enable row level security;
+alter table public.user_rewards enable row level security;
+
+drop policy if exists "Users can read their own lessons" on public.user_lessons;
+create policy "Users can read their own lessons"
+  on public.user_lessons for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own quests" on public.user_quests;
+create policy "Users can read their own quests"
+  on public.user_quests for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own rewards" on public.user_rewards;
+create policy "Users can read their own rewards"
+  on public.user_rewards for select
+  using (auth.uid() = user_id);
+
+-- Client inserts could repeat a row; keep the first before adding the keys
+delete from public.user_lessons a
+ using public.user_lessons b
+ where a.user_id = b.user_id and a.lesson_id = b.lesson_id and a.ctid > b.ctid;
+delete from public.user_quests a
+ using public.user_quests b
+ where a.user_id = b.user_id and a.quest_id = b.quest_id and a.ctid > b.ctid;
+delete from public.user_rewards a
+ using public.user_rewards b
+ where a.user_id = b.user_id and a.reward_id = b.reward_id and a.ctid > b.ctid;
+
+-- Unique keys the RPCs rely on for "on conflict"
+create unique index if not exists user_lessons_user_lesson_key on public.user_lessons (user_id, lesson_id);
+create unique index if not exists user_quests_user_quest_key on public.user_quests (user_id, quest_id);
+create unique index if not exists user_rewards_user_reward_key on public.user_rewards (user_id, reward_id);
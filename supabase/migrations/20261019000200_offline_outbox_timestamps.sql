@@ -0,0 +1,132 @@
+-- Offline outbox support: completions queued on the device are replayed later,
+-- so the RPCs accept the time the action actually happened on the device.
+-- Timestamps in the future are clamped to now().
+
+alter table public.user_quests add column if not exists completed_at timestamptz not null default now();
+alter table public.user_rewards add column if not exists unlocked_at timestamptz not null default now();
+
+drop function if exists public.award_lesson_completion(bigint, text);
+drop function if exists public.award_quest_completion(bigint);
+drop function if exists public.redeem_reward(bigint);
+
+create or replace function public.award_lesson_completion(
+  p_lesson_id bigint,
+  p_via text default 'quiz',
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_points integer;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_via not in ('quiz', 'game') then
+    raise exception 'invalid_source';
+  end if;
+
+  select points into v_points from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at)
+  values (v_user_id, p_lesson_id, v_completed_at)
+  on conflict (user_id, lesson_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id,
+    'lesson',
+    p_lesson_id::text,
+    coalesce(v_points, case when p_via = 'game' then 150 else 100 end),
+    0,
+    case when p_via = 'game' then 100 else 50 end,
+    jsonb_build_object('via', p_via, 'occurred_at', v_completed_at)
+  );
+end;
+$$;
+
+create or replace function public.award_quest_completion(
+  p_quest_id bigint,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from quests where id = p_quest_id) then
+    raise exception 'quest_not_found';
+  end if;
+
+  insert into user_quests (user_id, quest_id, completed_at)
+  values (v_user_id, p_quest_id, v_completed_at)
+  on conflict (user_id, quest_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id, 'quest', p_quest_id::text, 0, 1000, 0,
+    jsonb_build_object('occurred_at', v_completed_at)
+  );
+end;
+$$;
+
+create or replace function public.redeem_reward(
+  p_reward_id bigint,
+  p_unlocked_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_cost integer;
+  v_result jsonb;
+  v_unlocked_at timestamptz := least(coalesce(p_unlocked_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select cost into v_cost from rewards where id = p_reward_id;
+  if v_cost is null then
+    raise exception 'reward_not_found';
+  end if;
+
+  -- Charge first: an overdraft raises before the reward is recorded
+  v_result := apply_ledger_entry(
+    v_user_id, 'reward', p_reward_id::text, -v_cost, 0, 0,
+    jsonb_build_object('occurred_at', v_unlocked_at)
+  );
+
+  insert into user_rewards (user_id, reward_id, unlocked_at)
+  values (v_user_id, p_reward_id, v_unlocked_at)
+  on conflict (user_id, reward_id) do nothing;
+
+  return v_result;
+end;
+$$;
+
+revoke all on function public.award_lesson_completion(bigint, text, timestamptz) from public, anon;
+revoke all on function public.award_quest_completion(bigint, timestamptz) from public, anon;
+revoke all on function public.redeem_reward(bigint, timestamptz) from public, anon;
+
+grant execute on function public.award_lesson_completion(bigint, text, timestamptz) to authenticated;
+grant execute on function public.award_quest_completion(bigint, timestamptz) to authenticated;
+grant execute on function public.redeem_reward(bigint, timestamptz) to authenticated;
@@ -0,0 +1,163 @@
+-- Multi-question lesson quizzes.
+-- A lesson can now have N rows in lesson_quizzes, ordered by `position`.
+-- The quiz is graded on the server and coins scale with the score.
+-- award_lesson_completion() is left for lessons without a quiz.
+
+alter table public.lesson_quizzes add column if not exists position integer not null default 0;
+alter table public.lesson_quizzes add column if not exists explanation text;
+alter table public.lesson_quizzes add column if not exists explanation_hi text;
+alter table public.lesson_quizzes add column if not exists explanation_pa text;
+alter table public.lesson_quizzes add column if not exists explanation_ml text;
+
+-- Existing single-question quizzes keep working: they become position 0.
+create index if not exists lesson_quizzes_lesson_position_idx
+  on public.lesson_quizzes (lesson_id, position);
+
+-- Minimum score (0-100) needed before the lesson counts as completed
+alter table public.lessons add column if not exists pass_percentage integer not null default 70
+  check (pass_percentage between 0 and 100);
+
+-- Best attempt per lesson (the ledger only credits the first pass)
+alter table public.user_lessons add column if not exists score_percent integer;
+
+create or replace function public.submit_lesson_quiz(
+  p_lesson_id bigint,
+  p_answers integer[],
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lesson record;
+  v_total integer := 0;
+  v_correct integer := 0;
+  v_score integer;
+  v_coins integer;
+  v_question record;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select points, pass_percentage into v_lesson from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+
+  for v_question in
+    select correct_option_index
+      from lesson_quizzes
+     where lesson_id = p_lesson_id
+     order by position, id
+  loop
+    v_total := v_total + 1;
+    if p_answers[v_total] = v_question.correct_option_index then
+      v_correct := v_correct + 1;
+    end if;
+  end loop;
+
+  if v_total = 0 then
+    raise exception 'quiz_not_found';
+  end if;
+
+  v_score := round(v_correct * 100.0 / v_total);
+  v_coins := round(coalesce(v_lesson.points, 100) * v_score / 100.0);
+
+  if v_score < v_lesson.pass_percentage then
+    -- Failed attempts change nothing; balances are echoed so callers get one shape
+    select jsonb_build_object('applied', false, 'coins', coins, 'quest_coins', quest_coins, 'xp', xp)
+      into v_result
+      from profiles
+     where id = v_user_id;
+
+    return coalesce(v_result, '{}'::jsonb) || jsonb_build_object(
+      'passed', false,
+      'correct', v_correct,
+      'total', v_total,
+      'score_percent', v_score,
+      'coins_awarded', 0
+    );
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at, score_percent)
+  values (v_user_id, p_lesson_id, v_completed_at, v_score)
+  on conflict (user_id, lesson_id)
+  do update set score_percent = greatest(coalesce(user_lessons.score_percent, 0), excluded.score_percent);
+
+  v_result := apply_ledger_entry(
+    v_user_id,
+    'lesson',
+    p_lesson_id::text,
+    v_coins,
+    0,
+    50,
+    jsonb_build_object('via', 'quiz', 'score_percent', v_score, 'occurred_at', v_completed_at)
+  );
+
+  return v_result || jsonb_build_object(
+    'passed', true,
+    'correct', v_correct,
+    'total', v_total,
+    'score_percent', v_score,
+    -- Retakes of an already completed lesson earn nothing new
+    'coins_awarded', case when (v_result ->> 'applied')::boolean then v_coins else 0 end
+  );
+end;
+$$;
+
+revoke all on function public.submit_lesson_quiz(bigint, integer[], timestamptz) from public, anon;
+grant execute on function public.submit_lesson_quiz(bigint, integer[], timestamptz) to authenticated;
+
+-- Lessons with quiz rows are only completed through submit_lesson_quiz()
+create or replace function public.award_lesson_completion(
+  p_lesson_id bigint,
+  p_via text default 'quiz',
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_points integer;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_via not in ('quiz', 'game') then
+    raise exception 'invalid_source';
+  end if;
+
+  select points into v_points from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+  if exists (select 1 from lesson_quizzes where lesson_id = p_lesson_id) then
+    raise exception 'quiz_answers_required';
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at)
+  values (v_user_id, p_lesson_id, v_completed_at)
+  on conflict (user_id, lesson_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id,
+    'lesson',
+    p_lesson_id::text,
+    coalesce(v_points, case when p_via = 'game' then 150 else 100 end),
+    0,
+    case when p_via = 'game' then 100 else 50 end,
+    jsonb_build_object('via', p_via, 'occurred_at', v_completed_at)
+  );
+end;
+$$;
@@ -0,0 +1,207 @@
+-- Government schemes catalogue (previously hardcoded in constants/schemes.ts).
+-- Every localized field has one column per app language (en, hi, pa, ml);
+-- the app falls back to English when a translation is empty.
+
+create table if not exists public.schemes (
+  id text primary key,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  icon text not null default 'file-alt', -- FontAwesome5 icon name
+  color text not null default '#4CAF50',
+
+  title_en text not null,
+  title_hi text,
+  title_pa text,
+  title_ml text,
+  desc_en text not null default '',
+  desc_hi text,
+  desc_pa text,
+  desc_ml text,
+  benefits_en text[] not null default '{}',
+  benefits_hi text[],
+  benefits_pa text[],
+  benefits_ml text[],
+  eligibility_en text[] not null default '{}',
+  eligibility_hi text[],
+  eligibility_pa text[],
+  eligibility_ml text[],
+  steps_en text[] not null default '{}',
+  steps_hi text[],
+  steps_pa text[],
+  steps_ml text[],
+
+  -- Machine-readable eligibility used by utils/schemeEligibility.ts. Keys (all optional):
+  -- max_land_hectares, min_land_hectares, crops[], states[],
+  -- requires_land_records, requires_bank_account, requires_agristack
+  rules jsonb not null default '{}'::jsonb,
+
+  updated_at timestamptz not null default now()
+);
+
+alter table public.schemes enable row level security;
+
+drop policy if exists "Schemes are public" on public.schemes;
+create policy "Schemes are public"
+  on public.schemes for select
+  using (is_active);
+
+-- Questionnaire answers that are worth keeping on the profile
+alter table public.profiles add column if not exists land_size_hectares numeric(8, 2);
+alter table public.profiles add column if not exists farm_state text;
+alter table public.profiles add column if not exists agristack_id text;
+
+-- --- SEED ---
+insert into public.schemes (
+  id, sort_order, icon, color,
+  title_en, title_hi, title_pa, title_ml,
+  desc_en, desc_hi, desc_pa, desc_ml,
+  benefits_en, benefits_hi, benefits_pa, benefits_ml,
+  eligibility_en, eligibility_hi, eligibility_pa, eligibility_ml,
+  steps_en, steps_hi, steps_pa, steps_ml,
+  rules
+) values
+(
+  'pm-kisan', 1, 'hand-holding-usd', '#4CAF50',
+  'PM-KISAN Samman Nidhi',
+  'पीएम-किसान सम्मान निधि',
+  'ਪੀਐਮ-ਕਿਸਾਨ ਸਨਮਾਨ ਨਿਧੀ',
+  'പിഎം-കിസാൻ സമ്മാൻ നിധി',
+  'Direct income support for farmers. Helps with financial needs for inputs and household.',
+  'किसानों के लिए प्रत्यक्ष आय सहायता। खेती और घरेलू जरूरतों के लिए आर्थिक मदद।',
+  'ਕਿਸਾਨਾਂ ਲਈ ਸਿੱਧੀ ਆਮਦਨ ਸਹਾਇਤਾ। ਖੇਤੀ ਅਤੇ ਘਰੇਲੂ ਲੋੜਾਂ ਲਈ ਵਿੱਤੀ ਮਦਦ।',
+  'കർഷകർക്ക് നേരിട്ടുള്ള വരുമാന സഹായം. കൃഷിക്കും വീട്ടാവശ്യങ്ങൾക്കുമുള്ള സാമ്പത്തിക സഹായം.',
+  array['₹6,000 per year income support', 'Paid in 3 installments of ₹2,000', 'Direct Bank Transfer (DBT)'],
+  array['₹6,000 प्रति वर्ष आय सहायता', '₹2,000 की 3 समान किस्तों में भुगतान', 'सीधे बैंक खाते में (DBT)'],
+  array['₹6,000 ਪ੍ਰਤੀ ਸਾਲ ਆਮਦਨ ਸਹਾਇਤਾ', '₹2,000 ਦੀਆਂ 3 ਕਿਸ਼ਤਾਂ ਵਿੱਚ ਭੁਗਤਾਨ', 'ਸਿੱਧਾ ਬੈਂਕ ਖਾਤੇ ਵਿੱਚ (DBT)'],
+  array['പ്രതിവർഷം ₹6,000 വരുമാന സഹായം', '₹2,000 വീതം 3 ഗഡുക്കളായി', 'നേരിട്ട് ബാങ്ക് അക്കൗണ്ടിലേക്ക് (DBT)'],
+  array['Farmers who own cultivable land', 'Must have Aadhaar Card', 'Must have Bank Account', 'Must have Land Records'],
+  array['खेती योग्य भूमि वाले किसान', 'आधार कार्ड होना अनिवार्य है', 'बैंक खाता होना अनिवार्य है', 'भूमि रिकॉर्ड होना चाहिए'],
+  array['ਖੇਤੀਯੋਗ ਜ਼ਮੀਨ ਦੇ ਮਾਲਕ ਕਿਸਾਨ', 'ਆਧਾਰ ਕਾਰਡ ਲਾਜ਼ਮੀ ਹੈ', 'ਬੈਂਕ ਖਾਤਾ ਲਾਜ਼ਮੀ ਹੈ', 'ਜ਼ਮੀਨ ਦਾ ਰਿਕਾਰਡ ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ'],
+  array['കൃഷിഭൂമി സ്വന്തമായുള്ള കർഷകർ', 'ആധാർ കാർഡ് നിർബന്ധം', 'ബാങ്ക് അക്കൗണ്ട് നിർബന്ധം', 'ഭൂരേഖകൾ ഉണ്ടായിരിക്കണം'],
+  array['Apply at PM-KISAN Portal', 'Visit Common Service Centre (CSC)', 'Contact State Agriculture Office'],
+  array['PM-KISAN पोर्टल पर आवेदन करें', 'कॉमन सर्विस सेंटर (CSC) पर जाएं', 'राज्य कृषि कार्यालय से संपर्क करें'],
+  array['PM-KISAN ਪੋਰਟਲ ''ਤੇ ਅਰਜ਼ੀ ਦਿਓ', 'ਕਾਮਨ ਸਰਵਿਸ ਸੈਂਟਰ (CSC) ''ਤੇ ਜਾਓ', 'ਰਾਜ ਖੇਤੀਬਾੜੀ ਦਫ਼ਤਰ ਨਾਲ ਸੰਪਰਕ ਕਰੋ'],
+  array['PM-KISAN പോർട്ടലിൽ അപേക്ഷിക്കുക', 'കോമൺ സർവീസ് സെന്റർ (CSC) സന്ദർശിക്കുക', 'സംസ്ഥാന കൃഷി ഓഫീസുമായി ബന്ധപ്പെടുക'],
+  '{"requires_land_records": true, "requires_bank_account": true}'
+),
+(
+  'pmfby', 2, 'shield-alt', '#1976D2',
+  'PMFBY (Crop Insurance)',
+  'पीएम फसल बीमा योजना',
+  'ਪੀਐਮ ਫ਼ਸਲ ਬੀਮਾ ਯੋਜਨਾ',
+  'പിഎം ഫസൽ ബീമാ യോജന (വിള ഇൻഷുറൻസ്)',
+  'Insurance protection against crop loss due to flood, drought, or pests.',
+  'बाढ़, सूखा, या कीटों के कारण फसल के नुकसान के खिलाफ बीमा सुरक्षा।',
+  'ਹੜ੍ਹ, ਸੋਕੇ ਜਾਂ ਕੀੜਿਆਂ ਕਾਰਨ ਫ਼ਸਲ ਦੇ ਨੁਕਸਾਨ ਵਿਰੁੱਧ ਬੀਮਾ ਸੁਰੱਖਿਆ।',
+  'വെള്ളപ്പൊക്കം, വരൾച്ച, കീടങ്ങൾ എന്നിവ മൂലമുള്ള വിളനാശത്തിന് ഇൻഷുറൻസ് പരിരക്ഷ.',
+  array['Insurance against Flood & Drought', 'Protection from Pest Attacks', 'Very low premium (2–5%)'],
+  array['बाढ़ और सूखे के खिलाफ बीमा', 'कीट हमलों से सुरक्षा', 'बहुत कम प्रीमियम (2-5%)'],
+  array['ਹੜ੍ਹ ਅਤੇ ਸੋਕੇ ਵਿਰੁੱਧ ਬੀਮਾ', 'ਕੀੜਿਆਂ ਦੇ ਹਮਲੇ ਤੋਂ ਸੁਰੱਖਿਆ', 'ਬਹੁਤ ਘੱਟ ਪ੍ਰੀਮੀਅਮ (2-5%)'],
+  array['വെള്ളപ്പൊക്കത്തിനും വരൾച്ചയ്ക്കും എതിരെ ഇൻഷുറൻസ്', 'കീടാക്രമണത്തിൽ നിന്ന് സംരക്ഷണം', 'വളരെ കുറഞ്ഞ പ്രീമിയം (2-5%)'],
+  array['Farmers growing notified crops', 'Both Loanee & Non-loanee farmers'],
+  array['अधिसूचित फसलें उगाने वाले किसान', 'ऋणी और गैर-ऋणी दोनों किसान'],
+  array['ਸੂਚਿਤ ਫ਼ਸਲਾਂ ਉਗਾਉਣ ਵਾਲੇ ਕਿਸਾਨ', 'ਕਰਜ਼ਾ ਲੈਣ ਵਾਲੇ ਅਤੇ ਨਾ ਲੈਣ ਵਾਲੇ ਦੋਵੇਂ ਕਿਸਾਨ'],
+  array['വിജ്ഞാപനം ചെയ്ത വിളകൾ കൃഷി ചെയ്യുന്ന കർഷകർ', 'വായ്പ എടുത്തവരും എടുക്കാത്തവരുമായ കർഷകർ'],
+  array['Apply via Bank', 'Visit Common Service Centre (CSC)', 'Apply on PMFBY Portal'],
+  array['बैंक के माध्यम से आवेदन करें', 'कॉमन सर्विस सेंटर (CSC) पर जाएं', 'PMFBY पोर्टल पर आवेदन करें'],
+  array['ਬੈਂਕ ਰਾਹੀਂ ਅਰਜ਼ੀ ਦਿਓ', 'ਕਾਮਨ ਸਰਵਿਸ ਸੈਂਟਰ (CSC) ''ਤੇ ਜਾਓ', 'PMFBY ਪੋਰਟਲ ''ਤੇ ਅਰਜ਼ੀ ਦਿਓ'],
+  array['ബാങ്ക് വഴി അപേക്ഷിക്കുക', 'കോമൺ സർവീസ് സെന്റർ (CSC) സന്ദർശിക്കുക', 'PMFBY പോർട്ടലിൽ അപേക്ഷിക്കുക'],
+  '{"requires_bank_account": true, "crops": ["rice", "banana", "ginger", "black_pepper", "cardamom", "coconut", "cashew", "coffee"]}'
+),
+(
+  'pm-kmy', 3, 'user-clock', '#00897B',
+  'PM Kisan Maandhan (Pension)',
+  'पीएम किसान मानधन योजना (पेंशन)',
+  'ਪੀਐਮ ਕਿਸਾਨ ਮਾਨਧਨ ਯੋਜਨਾ (ਪੈਨਸ਼ਨ)',
+  'പിഎം കിസാൻ മാൻധൻ യോജന (പെൻഷൻ)',
+  'Old-age pension for small and marginal farmers who contribute a small monthly amount.',
+  'छोटे और सीमांत किसानों के लिए वृद्धावस्था पेंशन, थोड़े मासिक योगदान के साथ।',
+  'ਛੋਟੇ ਅਤੇ ਸੀਮਾਂਤ ਕਿਸਾਨਾਂ ਲਈ ਬੁਢਾਪਾ ਪੈਨਸ਼ਨ, ਥੋੜ੍ਹੇ ਮਾਸਿਕ ਯੋਗਦਾਨ ਨਾਲ।',
+  'ചെറിയ പ്രതിമാസ വിഹിതം അടയ്ക്കുന്ന ചെറുകിട, നാമമാത്ര കർഷകർക്കുള്ള വാർദ്ധക്യ പെൻഷൻ.',
+  array['₹3,000 per month pension after age 60', 'Government matches your contribution', 'Contribution from ₹55 to ₹200 per month'],
+  array['60 वर्ष के बाद ₹3,000 प्रति माह पेंशन', 'सरकार बराबर योगदान देती है', '₹55 से ₹200 प्रति माह योगदान'],
+  array['60 ਸਾਲ ਤੋਂ ਬਾਅਦ ₹3,000 ਪ੍ਰਤੀ ਮਹੀਨਾ ਪੈਨਸ਼ਨ', 'ਸਰਕਾਰ ਬਰਾਬਰ ਯੋਗਦਾਨ ਦਿੰਦੀ ਹੈ', '₹55 ਤੋਂ ₹200 ਪ੍ਰਤੀ ਮਹੀਨਾ ਯੋਗਦਾਨ'],
+  array['60 വയസ്സിന് ശേഷം പ്രതിമാസം ₹3,000 പെൻഷൻ', 'നിങ്ങളുടെ വിഹിതത്തിന് തുല്യമായ തുക സർക്കാർ നൽകുന്നു', 'പ്രതിമാസം ₹55 മുതൽ ₹200 വരെ വിഹിതം'],
+  array['Up to 2 hectares of land', 'Age 18 to 40 years', 'Must have Bank Account'],
+  array['2 हेक्टेयर तक भूमि', 'आयु 18 से 40 वर्ष', 'बैंक खाता होना अनिवार्य है'],
+  array['2 ਹੈਕਟੇਅਰ ਤੱਕ ਜ਼ਮੀਨ', 'ਉਮਰ 18 ਤੋਂ 40 ਸਾਲ', 'ਬੈਂਕ ਖਾਤਾ ਲਾਜ਼ਮੀ ਹੈ'],
+  array['2 ഹെക്ടർ വരെ ഭൂമി', 'പ്രായം 18 മുതൽ 40 വയസ്സ് വരെ', 'ബാങ്ക് അക്കൗണ്ട് നിർബന്ധം'],
+  array['Visit Common Service Centre (CSC)', 'Register with Aadhaar and bank details', 'Set up auto-debit of monthly contribution'],
+  array['कॉमन सर्विस सेंटर (CSC) पर जाएं', 'आधार और बैंक विवरण के साथ पंजीकरण करें', 'मासिक योगदान का ऑटो-डेबिट शुरू करें'],
+  array['ਕਾਮਨ ਸਰਵਿਸ ਸੈਂਟਰ (CSC) ''ਤੇ ਜਾਓ', 'ਆਧਾਰ ਅਤੇ ਬੈਂਕ ਵੇਰਵਿਆਂ ਨਾਲ ਰਜਿਸਟਰ ਕਰੋ', 'ਮਾਸਿਕ ਯੋਗਦਾਨ ਦਾ ਆਟੋ-ਡੈਬਿਟ ਸ਼ੁਰੂ ਕਰੋ'],
+  array['കോമൺ സർവീസ് സെന്റർ (CSC) സന്ദർശിക്കുക', 'ആധാറും ബാങ്ക് വിവരങ്ങളും നൽകി രജിസ്റ്റർ ചെയ്യുക', 'പ്രതിമാസ വിഹിതത്തിന് ഓട്ടോ-ഡെബിറ്റ് സജ്ജമാക്കുക'],
+  '{"max_land_hectares": 2, "requires_bank_account": true}'
+),
+(
+  'kvk', 4, 'chalkboard-teacher', '#F57C00',
+  'Krishi Vigyan Kendra (KVK)',
+  'कृषि विज्ञान केंद्र (KVK)',
+  'ਕ੍ਰਿਸ਼ੀ ਵਿਗਿਆਨ ਕੇਂਦਰ (KVK)',
+  'കൃഷി വിജ്ഞാന കേന്ദ്രം (KVK)',
+  'Government agricultural training centers providing free education and new techniques.',
+  'सरकारी कृषि प्रशिक्षण केंद्र जो मुफ्त शिक्षा और नई तकनीक प्रदान करते हैं।',
+  'ਸਰਕਾਰੀ ਖੇਤੀ ਸਿਖਲਾਈ ਕੇਂਦਰ ਜੋ ਮੁਫ਼ਤ ਸਿੱਖਿਆ ਅਤੇ ਨਵੀਆਂ ਤਕਨੀਕਾਂ ਦਿੰਦੇ ਹਨ।',
+  'സൗജന്യ പരിശീലനവും പുതിയ സാങ്കേതികവിദ്യകളും നൽകുന്ന സർക്കാർ കൃഷി പരിശീലന കേന്ദ്രങ്ങൾ.',
+  array['Free training on new techniques', 'Soil health & organic farming education', 'Get Government Certificates', 'Access to Demonstration farms'],
+  array['नई तकनीकों पर मुफ्त प्रशिक्षण', 'मृदा स्वास्थ्य और जैविक खेती की शिक्षा', 'सरकारी प्रमाण पत्र प्राप्त करें', 'प्रदर्शन खेतों तक पहुंच'],
+  array['ਨਵੀਆਂ ਤਕਨੀਕਾਂ ''ਤੇ ਮੁਫ਼ਤ ਸਿਖਲਾਈ', 'ਮਿੱਟੀ ਦੀ ਸਿਹਤ ਅਤੇ ਜੈਵਿਕ ਖੇਤੀ ਦੀ ਸਿੱਖਿਆ', 'ਸਰਕਾਰੀ ਸਰਟੀਫਿਕੇਟ ਪ੍ਰਾਪਤ ਕਰੋ', 'ਪ੍ਰਦਰਸ਼ਨੀ ਖੇਤਾਂ ਤੱਕ ਪਹੁੰਚ'],
+  array['പുതിയ സാങ്കേതികവിദ്യകളിൽ സൗജന്യ പരിശീലനം', 'മണ്ണിന്റെ ആരോഗ്യം, ജൈവകൃഷി എന്നിവയിൽ പഠനം', 'സർക്കാർ സർട്ടിഫിക്കറ്റുകൾ നേടുക', 'പ്രദർശന കൃഷിയിടങ്ങൾ സന്ദർശിക്കാം'],
+  array['Any farmer', 'No fees required'],
+  array['कोई भी किसान', 'कोई शुल्क नहीं'],
+  array['ਕੋਈ ਵੀ ਕਿਸਾਨ', 'ਕੋਈ ਫੀਸ ਨਹੀਂ'],
+  array['ഏതൊരു കർഷകനും', 'ഫീസ് ഇല്ല'],
+  array['Visit nearest KVK center', 'Register during training drives'],
+  array['निकटतम KVK केंद्र पर जाएं', 'प्रशिक्षण अभियान के दौरान पंजीकरण करें'],
+  array['ਨੇੜਲੇ KVK ਕੇਂਦਰ ''ਤੇ ਜਾਓ', 'ਸਿਖਲਾਈ ਮੁਹਿੰਮ ਦੌਰਾਨ ਰਜਿਸਟਰ ਕਰੋ'],
+  array['അടുത്തുള്ള KVK കേന്ദ്രം സന്ദർശിക്കുക', 'പരിശീലന ക്യാമ്പുകളിൽ രജിസ്റ്റർ ചെയ്യുക'],
+  '{}'
+),
+(
+  'digital-green', 5, 'video', '#388E3C',
+  'Digital Green',
+  'डिजिटल ग्रीन',
+  'ਡਿਜੀਟਲ ਗ੍ਰੀਨ',
+  'ഡിജിറ്റൽ ഗ്രീൻ',
+  'NGO using local-language videos to educate farmers for higher yields.',
+  'किसानों की पैदावार बढ़ाने के लिए स्थानीय भाषा के वीडियो का उपयोग करने वाला एनजीओ।',
+  'ਕਿਸਾਨਾਂ ਦੀ ਪੈਦਾਵਾਰ ਵਧਾਉਣ ਲਈ ਸਥਾਨਕ ਭਾਸ਼ਾ ਦੀਆਂ ਵੀਡੀਓਜ਼ ਵਰਤਣ ਵਾਲੀ ਐਨਜੀਓ।',
+  'മികച്ച വിളവിനായി പ്രാദേശിക ഭാഷയിലുള്ള വീഡിയോകളിലൂടെ കർഷകരെ പഠിപ്പിക്കുന്ന സന്നദ്ധ സംഘടന.',
+  array['Easy-to-understand video lessons', 'Proven higher yield & income', 'Special focus on women farmers'],
+  array['समझने में आसान वीडियो पाठ', 'पैदावार और आय में वृद्धि', 'महिला किसानों पर विशेष ध्यान'],
+  array['ਸਮਝਣ ਵਿੱਚ ਆਸਾਨ ਵੀਡੀਓ ਪਾਠ', 'ਪੈਦਾਵਾਰ ਅਤੇ ਆਮਦਨ ਵਿੱਚ ਵਾਧਾ', 'ਮਹਿਲਾ ਕਿਸਾਨਾਂ ''ਤੇ ਖ਼ਾਸ ਧਿਆਨ'],
+  array['എളുപ്പം മനസ്സിലാകുന്ന വീഡിയോ പാഠങ്ങൾ', 'വിളവിലും വരുമാനത്തിലും തെളിയിക്കപ്പെട്ട വർദ്ധന', 'വനിതാ കർഷകർക്ക് പ്രത്യേക ശ്രദ്ധ'],
+  array['Any farmer', 'Works with Self-Help Groups (SHGs)'],
+  array['कोई भी किसान', 'स्वयं सहायता समूहों (SHG) के साथ काम करता है'],
+  array['ਕੋਈ ਵੀ ਕਿਸਾਨ', 'ਸਵੈ-ਸਹਾਇਤਾ ਸਮੂਹਾਂ (SHG) ਨਾਲ ਕੰਮ ਕਰਦਾ ਹੈ'],
+  array['ഏതൊരു കർഷകനും', 'സ്വയം സഹായ സംഘങ്ങളുമായി (SHG) ചേർന്ന് പ്രവർത്തിക്കുന്നു'],
+  array['Watch lessons on app/village screenings', 'Connect with local village group'],
+  array['ऐप या गांव की स्क्रीनिंग पर वीडियो देखें', 'स्थानीय ग्राम समूह से जुड़ें'],
+  array['ਐਪ ਜਾਂ ਪਿੰਡ ਦੀ ਸਕ੍ਰੀਨਿੰਗ ''ਤੇ ਵੀਡੀਓ ਦੇਖੋ', 'ਸਥਾਨਕ ਪਿੰਡ ਸਮੂਹ ਨਾਲ ਜੁੜੋ'],
+  array['ആപ്പിലോ ഗ്രാമത്തിലെ പ്രദർശനങ്ങളിലോ പാഠങ്ങൾ കാണുക', 'പ്രാദേശിക ഗ്രാമ സംഘവുമായി ബന്ധപ്പെടുക'],
+  '{}'
+),
+(
+  'nabard', 6, 'users', '#8E24AA',
+  'NABARD FPO Program',
+  'नाबार्ड FPO कार्यक्रम',
+  'ਨਾਬਾਰਡ FPO ਪ੍ਰੋਗਰਾਮ',
+  'നബാർഡ് FPO പദ്ധതി',
+  'Training and funding via Farmer Producer Organisations (FPOs) for better market access.',
+  'बेहतर बाजार पहुंच के लिए किसान उत्पादक संगठनों (FPO) के माध्यम से प्रशिक्षण और धन।',
+  'ਬਿਹਤਰ ਮੰਡੀ ਪਹੁੰਚ ਲਈ ਕਿਸਾਨ ਉਤਪਾਦਕ ਸੰਗਠਨਾਂ (FPO) ਰਾਹੀਂ ਸਿਖਲਾਈ ਅਤੇ ਫੰਡ।',
+  'മികച്ച വിപണി ലഭ്യതയ്ക്കായി കർഷക ഉത്പാദക സംഘടനകൾ (FPO) വഴി പരിശീലനവും ധനസഹായവും.',
+  array['Skill training', 'Help to form FPOs', 'Better market prices', 'Access to credit & grants'],
+  array['कौशल प्रशिक्षण', 'FPO बनाने में मदद', 'बाजार में बेहतर कीमतें', 'क्रेडिट और अनुदान तक पहुंच'],
+  array['ਹੁਨਰ ਸਿਖਲਾਈ', 'FPO ਬਣਾਉਣ ਵਿੱਚ ਮਦਦ', 'ਮੰਡੀ ਵਿੱਚ ਬਿਹਤਰ ਕੀਮਤਾਂ', 'ਕਰਜ਼ੇ ਅਤੇ ਗ੍ਰਾਂਟਾਂ ਤੱਕ ਪਹੁੰਚ'],
+  array['നൈപുണ്യ പരിശീലനം', 'FPO രൂപീകരിക്കാൻ സഹായം', 'മികച്ച വിപണി വില', 'വായ്പയും ഗ്രാന്റുകളും ലഭ്യമാക്കൽ'],
+  array['Individual farmers', 'Farmer groups / FPOs'],
+  array['व्यक्तिगत किसान', 'किसान समूह / FPO'],
+  array['ਵਿਅਕਤੀਗਤ ਕਿਸਾਨ', 'ਕਿਸਾਨ ਸਮੂਹ / FPO'],
+  array['വ്യക്തിഗത കർഷകർ', 'കർഷക സംഘങ്ങൾ / FPO'],
+  array['Join a local FPO', 'Contact nearest NABARD office'],
+  array['स्थानीय FPO से जुड़ें', 'निकटतम नाबार्ड कार्यालय से संपर्क करें'],
+  array['ਸਥਾਨਕ FPO ਨਾਲ ਜੁੜੋ', 'ਨੇੜਲੇ ਨਾਬਾਰਡ ਦਫ਼ਤਰ ਨਾਲ ਸੰਪਰਕ ਕਰੋ'],
+  array['പ്രാദേശിക FPO-യിൽ ചേരുക', 'അടുത്തുള്ള നബാർഡ് ഓഫീസുമായി ബന്ധപ്പെടുക'],
+  '{}'
+)
+on conflict (id) do nothing;
@@ -0,0 +1,62 @@
+-- AgriStack / farmer registry verification.
+-- The verify-agristack edge function looks the farmer up and writes the
+-- verified farm details here; clients can read them but not forge them.
+
+alter table public.profiles add column if not exists agristack_status text not null default 'unverified'
+  check (agristack_status in ('unverified', 'verified', 'not_found'));
+alter table public.profiles add column if not exists agristack_verified_at timestamptz;
+alter table public.profiles add column if not exists agristack_checked_at timestamptz;
+alter table public.profiles add column if not exists farm_district text;
+alter table public.profiles add column if not exists soil_type text;
+alter table public.profiles add column if not exists registry_crops text[] not null default '{}';
+
+-- A farmer ID can only be linked to one account
+create unique index if not exists profiles_agristack_id_key
+  on public.profiles (agristack_id)
+  where agristack_status = 'verified';
+
+-- --- REGISTRY GUARD ---
+-- Only the service role (edge function) may change registry columns.
+-- land_size_hectares / farm_state stay editable (schemes questionnaire)
+-- until the profile is verified; after that the registry values win.
+create or replace function public.guard_profile_registry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.jwt() ->> 'role', '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.agristack_id := null;
+    new.agristack_status := 'unverified';
+    new.agristack_verified_at := null;
+    new.agristack_checked_at := null;
+    new.farm_district := null;
+    new.soil_type := null;
+    new.registry_crops := '{}';
+    return new;
+  end if;
+
+  new.agristack_id := old.agristack_id;
+  new.agristack_status := old.agristack_status;
+  new.agristack_verified_at := old.agristack_verified_at;
+  new.agristack_checked_at := old.agristack_checked_at;
+  new.farm_district := old.farm_district;
+  new.soil_type := old.soil_type;
+  new.registry_crops := old.registry_crops;
+
+  if old.agristack_status = 'verified' then
+    new.land_size_hectares := old.land_size_hectares;
+    new.farm_state := old.farm_state;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_registry on public.profiles;
+create trigger guard_profile_registry
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_registry();
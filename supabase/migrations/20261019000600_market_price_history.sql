@@ -0,0 +1,30 @@
+-- Daily price series per crop. market_prices only keeps today's price and
+-- the previous-day anchor; update-prices also writes one row per crop per
+-- day here (re-runs on the same day overwrite that day's row).
+
+create table if not exists public.market_price_history (
+  id bigint generated always as identity primary key,
+  crop_id text not null,
+  price_date date not null,
+  price numeric(12, 2) not null,
+  unit text not null default 'Quintal',
+  recorded_at timestamptz not null default now(),
+  unique (crop_id, price_date)
+);
+
+create index if not exists market_price_history_crop_date_idx
+  on public.market_price_history (crop_id, price_date desc);
+
+alter table public.market_price_history enable row level security;
+
+drop policy if exists "Price history is public" on public.market_price_history;
+create policy "Price history is public"
+  on public.market_price_history for select
+  using (true);
+
+-- Start every series from the prices we already have
+insert into public.market_price_history (crop_id, price_date, price, unit, recorded_at)
+select crop_id, last_updated::date, price, coalesce(unit, 'Quintal'), last_updated
+from public.market_prices
+where last_updated is not null
+on conflict (crop_id, price_date) do nothing;
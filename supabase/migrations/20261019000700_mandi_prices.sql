@@ -0,0 +1,33 @@
+-- Per-mandi prices from the data.gov.in feed (previously only the first
+-- matching record was kept). update-prices replaces a crop's rows on every
+-- run; market_prices.price becomes the national median of modal prices.
+
+create table if not exists public.mandi_prices (
+  id bigint generated always as identity primary key,
+  crop_id text not null,
+  state text not null,
+  district text not null default '',
+  market text not null,
+  variety text not null default '',
+  min_price numeric(12, 2) not null,
+  modal_price numeric(12, 2) not null,
+  max_price numeric(12, 2) not null,
+  arrival_date date,
+  updated_at timestamptz not null default now(),
+  unique (crop_id, state, district, market, variety)
+);
+
+create index if not exists mandi_prices_state_crop_idx
+  on public.mandi_prices (lower(state), crop_id);
+
+alter table public.mandi_prices enable row level security;
+
+drop policy if exists "Mandi prices are public" on public.mandi_prices;
+create policy "Mandi prices are public"
+  on public.mandi_prices for select
+  using (true);
+
+-- National spread alongside the median
+alter table public.market_prices add column if not exists min_price numeric(12, 2);
+alter table public.market_prices add column if not exists max_price numeric(12, 2);
+alter table public.market_prices add column if not exists mandi_count integer not null default 0;
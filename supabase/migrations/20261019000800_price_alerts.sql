@@ -0,0 +1,91 @@
+-- User-defined price alerts on the national modal price (market_prices.price).
+-- update-prices evaluates enabled alerts after every refresh and writes one
+-- price_alert_events row per trigger.
+--   above / below: fire when the price crosses the threshold (once per crossing)
+--   move:          fire when the day-on-day change is at least threshold %
+--                  (at most once per day)
+
+create table if not exists public.price_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  crop_id text not null,
+  kind text not null check (kind in ('above', 'below', 'move')),
+  threshold numeric(12, 2) not null check (threshold > 0),
+  is_enabled boolean not null default true,
+  condition_met boolean not null default false, -- last evaluation (above/below)
+  last_triggered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists price_alerts_crop_enabled_idx
+  on public.price_alerts (crop_id)
+  where is_enabled;
+
+create table if not exists public.price_alert_events (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid references public.price_alerts (id) on delete set null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  crop_id text not null,
+  kind text not null,
+  threshold numeric(12, 2) not null,
+  price numeric(12, 2) not null,
+  prev_price numeric(12, 2),
+  change_percent numeric(8, 2),
+  triggered_at timestamptz not null default now(),
+  seen_at timestamptz
+);
+
+create index if not exists price_alert_events_user_idx
+  on public.price_alert_events (user_id, triggered_at desc);
+
+alter table public.price_alerts enable row level security;
+alter table public.price_alert_events enable row level security;
+
+drop policy if exists "Users manage their price alerts" on public.price_alerts;
+create policy "Users manage their price alerts"
+  on public.price_alerts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users read their alert events" on public.price_alert_events;
+create policy "Users read their alert events"
+  on public.price_alert_events for select
+  using (auth.uid() = user_id);
+
+-- Events are written by the edge function; users may only mark them seen
+create or replace function public.mark_price_alert_events_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.price_alert_events
+  set seen_at = now()
+  where user_id = auth.uid() and seen_at is null;
+$$;
+
+revoke all on function public.mark_price_alert_events_seen() from public, anon;
+grant execute on function public.mark_price_alert_events_seen() to authenticated;
+
+-- Editing an alert re-arms it
+create or replace function public.rearm_price_alert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.kind is distinct from old.kind
+    or new.threshold is distinct from old.threshold
+    or new.crop_id is distinct from old.crop_id
+    or (new.is_enabled and not old.is_enabled) then
+    new.condition_met := false;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists rearm_price_alert on public.price_alerts;
+create trigger rearm_price_alert
+  before update on public.price_alerts
+  for each row execute function public.rearm_price_alert();
@@ -0,0 +1,61 @@
+-- Crop catalogue: one row per crop the app supports. Drives the crop picker,
+-- the market screens, the update-prices ingester and quest target_crop.
+-- Adding a crop = inserting a row (plus artwork in constants/cropAssets.ts
+-- if it needs its own icon; unknown icon keys fall back to a leaf).
+
+create table if not exists public.crops (
+  id text primary key, -- stored in profiles.selected_crop, quests.target_crop, ...
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  name_en text not null,
+  name_hi text,
+  name_pa text,
+  name_ml text,
+  -- data.gov.in `commodity` values that count as this crop (exact match,
+  -- case-insensitive)
+  commodity_aliases text[] not null default '{}',
+  unit text not null default 'Quintal',
+  icon_key text, -- key into constants/cropAssets.ts
+  updated_at timestamptz not null default now()
+);
+
+alter table public.crops enable row level security;
+
+-- Readable before login (onboarding crop picker)
+drop policy if exists "Crops are public" on public.crops;
+create policy "Crops are public"
+  on public.crops for select
+  using (is_active);
+
+insert into public.crops (id, sort_order, name_en, name_hi, name_pa, name_ml, commodity_aliases, unit, icon_key) values
+  ('rice',         1, 'Rice',         'चावल',     'ਚੌਲ',       'അരി',       array['Rice'],                                           'Quintal', 'rice'),
+  ('banana',       2, 'Banana',       'केला',     'ਕੇਲਾ',       'വാഴപ്പഴം',  array['Banana', 'Banana - Green'],                       'Quintal', 'banana'),
+  ('coffee',       3, 'Coffee',       'कॉफ़ी',     'ਕੌਫੀ',       'കാപ്പി',     array['Coffee'],                                         'Quintal', 'coffee'),
+  ('coconut',      4, 'Coconut',      'नारियल',   'ਨਾਰੀਅਲ',    'തേങ്ങ',      array['Coconut', 'Coconut Seed'],                        'Quintal', 'coconut'),
+  ('cardamom',     5, 'Cardamom',     'इलायची',   'ਇਲਾਇਚੀ',    'ഏലം',       array['Cardamoms', 'Cardamom'],                          'Quintal', 'cardamom'),
+  ('black_pepper', 6, 'Black Pepper', 'काली मिर्च', 'ਕਾਲੀ ਮਿਰਚ', 'കുരുമുളക്',  array['Black pepper', 'Pepper garbled', 'Pepper ungarbled'], 'Quintal', 'black_pepper'),
+  ('ginger',       7, 'Ginger',       'अदरक',     'ਅਦਰਕ',      'ഇഞ്ചി',      array['Ginger(Green)'],                                  'Quintal', 'ginger'),
+  ('cashew',       8, 'Cashew',       'काजू',      'ਕਾਜੂ',       'കശുവണ്ടി',   array['Cashewnuts'],                                     'Quintal', 'cashew')
+on conflict (id) do nothing;
+
+-- Crop references must point at the catalogue. NOT VALID keeps legacy rows
+-- loadable; new and updated rows are checked.
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'quests_target_crop_fkey') then
+    alter table public.quests
+      add constraint quests_target_crop_fkey
+      foreign key (target_crop) references public.crops (id) not valid;
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'price_alerts_crop_id_fkey') then
+    alter table public.price_alerts
+      add constraint price_alerts_crop_id_fkey
+      foreign key (crop_id) references public.crops (id);
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'profiles_selected_crop_fkey') then
+    alter table public.profiles
+      add constraint profiles_selected_crop_fkey
+      foreign key (selected_crop) references public.crops (id) not valid;
+  end if;
+end;
+$$;
@@ -0,0 +1,35 @@
+-- Phone + OTP authentication (replaces the synthetic `<username>@khet.com`
+-- emails). The phone-auth edge function sends/verifies codes and enforces
+-- resend throttling and lockout using the events below; the auth server's own
+-- limits (supabase/config.toml) also cover direct calls to its OTP endpoints.
+
+create table if not exists public.phone_otp_events (
+  id bigint generated always as identity primary key,
+  phone text not null, -- E.164, e.g. +919876543210
+  kind text not null check (kind in ('sent', 'failed', 'verified')),
+  purpose text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists phone_otp_events_phone_idx
+  on public.phone_otp_events (phone, created_at desc);
+
+-- Service role only (no policies)
+alter table public.phone_otp_events enable row level security;
+
+-- Whether an auth user already owns this number (GoTrue stores it without '+')
+create or replace function public.phone_account_exists(p_phone text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from auth.users
+    where phone in (p_phone, ltrim(p_phone, '+'))
+  );
+$$;
+
+revoke all on function public.phone_account_exists(text) from public, anon, authenticated;
+grant execute on function public.phone_account_exists(text) to service_role;
@@ -0,0 +1,107 @@
+-- Account recovery: reset a forgotten password after proving ownership with a
+-- phone OTP or the recovery PIN chosen at signup. The account-recovery edge
+-- function does the reset; every attempt is written to the audit table.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- bcrypt hash only; never readable by clients (no policies)
+create table if not exists public.recovery_pins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  pin_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.recovery_pins enable row level security;
+
+create table if not exists public.account_recovery_attempts (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  phone text not null,
+  method text not null check (method in ('otp', 'pin')),
+  outcome text not null check (
+    outcome in ('code_sent', 'no_account', 'no_pin', 'invalid_code', 'locked', 'throttled', 'password_reset')
+  ),
+  ip_address text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists account_recovery_attempts_phone_idx
+  on public.account_recovery_attempts (phone, created_at desc);
+
+alter table public.account_recovery_attempts enable row level security;
+
+drop policy if exists "Users can view their own recovery attempts" on public.account_recovery_attempts;
+create policy "Users can view their own recovery attempts"
+  on public.account_recovery_attempts for select
+  using (auth.uid() = user_id);
+
+-- Called by the signed-in user (signup, profile). The PIN can take over the
+-- account, so the session must come from a sign-in (OTP or password) in the
+-- last 10 minutes: an older or stolen session can't set or replace it.
+create or replace function public.set_recovery_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_signed_in_at bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'Not logged in';
+  end if;
+  if p_pin !~ '^\d{6}$' then
+    raise exception 'Recovery PIN must be 6 digits';
+  end if;
+
+  -- `amr` keeps the original sign-in time across token refreshes
+  select max((entry ->> 'timestamp')::bigint)
+    into v_signed_in_at
+    from jsonb_array_elements(coalesce(auth.jwt() -> 'amr', '[]'::jsonb)) as entry;
+  if v_signed_in_at is null or to_timestamp(v_signed_in_at) < now() - interval '10 minutes' then
+    raise exception 'reauthentication_required';
+  end if;
+
+  insert into public.recovery_pins (user_id, pin_hash)
+  values (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+    set pin_hash = excluded.pin_hash, updated_at = now();
+end;
+$$;
+
+revoke all on function public.set_recovery_pin(text) from public, anon;
+grant execute on function public.set_recovery_pin(text) to authenticated;
+
+-- Owner of the number and whether their PIN matches (null user = no account,
+-- null match = no PIN set)
+create or replace function public.check_recovery_pin(p_phone text, p_pin text)
+returns table (user_id uuid, pin_matches boolean)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select u.id, rp.pin_hash = crypt(p_pin, rp.pin_hash)
+  from auth.users u
+  left join public.recovery_pins rp on rp.user_id = u.id
+  where u.phone in (p_phone, ltrim(p_phone, '+'))
+  limit 1;
+$$;
+
+revoke all on function public.check_recovery_pin(text, text) from public, anon, authenticated;
+grant execute on function public.check_recovery_pin(text, text) to service_role;
+
+-- Signs the user out everywhere: refresh tokens hang off sessions, so nothing
+-- can be renewed; outstanding access tokens expire on their own.
+create or replace function public.revoke_user_sessions(p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from auth.sessions where user_id = p_user_id;
+$$;
+
+revoke all on function public.revoke_user_sessions(uuid) from public, anon, authenticated;
+grant execute on function public.revoke_user_sessions(uuid) to service_role;
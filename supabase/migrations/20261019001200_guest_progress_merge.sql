@@ -0,0 +1,137 @@
+-- Guest progress merge: lessons finished before signing up / logging in are
+-- kept on the device (utils/guestProgress.ts) and merged into the account here.
+--
+-- Conflict rules:
+--   * lessons already completed on the account keep their date; quiz scores
+--     keep the better of the two (see submit_lesson_quiz)
+--   * quizzes are re-graded from the guest's answers; failed or unanswered
+--     quizzes are dropped, and coins come from the ledger, never the device
+--   * crop / language only fill in what the account hasn't chosen yet
+--   * each device store (guest_id) can be merged once, into one account
+
+create table if not exists public.guest_progress_merges (
+  guest_id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  summary jsonb not null default '{}'::jsonb,
+  merged_at timestamptz not null default now()
+);
+
+-- Written only by merge_guest_progress (no policies)
+alter table public.guest_progress_merges enable row level security;
+
+create or replace function public.merge_guest_progress(
+  p_guest_id text,
+  p_progress jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lesson jsonb;
+  v_lesson_id bigint;
+  v_completed_at timestamptz;
+  v_result jsonb;
+  v_merged integer := 0;
+  v_kept integer := 0;
+  v_rejected integer := 0;
+  v_coins_before integer;
+  v_summary jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if coalesce(p_guest_id, '') = '' then
+    raise exception 'invalid_guest_id';
+  end if;
+
+  insert into guest_progress_merges (guest_id, user_id)
+  values (p_guest_id, v_user_id)
+  on conflict (guest_id) do nothing;
+
+  if not found then
+    select summary into v_summary from guest_progress_merges where guest_id = p_guest_id;
+    return coalesce(v_summary, '{}'::jsonb) || jsonb_build_object('applied', false);
+  end if;
+
+  select coalesce(coins, 0) into v_coins_before from profiles where id = v_user_id;
+  if not found then
+    raise exception 'profile_not_found';
+  end if;
+
+  for v_lesson in
+    select value from jsonb_array_elements(coalesce(p_progress -> 'lessons', '[]'::jsonb))
+  loop
+    v_lesson_id := (v_lesson ->> 'lesson_id')::bigint;
+    v_completed_at := coalesce((v_lesson ->> 'completed_at')::timestamptz, now());
+
+    if not exists (select 1 from lessons where id = v_lesson_id) then
+      v_rejected := v_rejected + 1;
+      continue;
+    end if;
+
+    if exists (select 1 from lesson_quizzes where lesson_id = v_lesson_id) then
+      if coalesce(jsonb_typeof(v_lesson -> 'answers'), '') <> 'array' then
+        v_rejected := v_rejected + 1;
+        continue;
+      end if;
+
+      v_result := submit_lesson_quiz(
+        v_lesson_id,
+        array(select jsonb_array_elements_text(v_lesson -> 'answers')::integer),
+        v_completed_at
+      );
+
+      if not (v_result ->> 'passed')::boolean then
+        v_rejected := v_rejected + 1;
+        continue;
+      end if;
+    else
+      v_result := award_lesson_completion(
+        v_lesson_id,
+        case when v_lesson ->> 'via' = 'game' then 'game' else 'quiz' end,
+        v_completed_at
+      );
+    end if;
+
+    if (v_result ->> 'applied')::boolean then
+      v_merged := v_merged + 1;
+    else
+      v_kept := v_kept + 1;
+    end if;
+  end loop;
+
+  update profiles
+     set selected_crop = case
+           when selected_crop is null
+            and exists (select 1 from crops where id = p_progress ->> 'crop' and is_active)
+           then p_progress ->> 'crop'
+           else selected_crop
+         end,
+         language = coalesce(language, p_progress ->> 'language')
+   where id = v_user_id;
+
+  select jsonb_build_object(
+           'lessons_merged', v_merged,
+           'lessons_already_done', v_kept,
+           'lessons_rejected', v_rejected,
+           'coins_awarded', coalesce(coins, 0) - v_coins_before,
+           'coins', coins,
+           'quest_coins', quest_coins,
+           'xp', xp
+         )
+    into v_summary
+    from profiles
+   where id = v_user_id;
+
+  update guest_progress_merges set summary = v_summary where guest_id = p_guest_id;
+
+  return v_summary || jsonb_build_object('applied', true);
+end;
+$$;
+
+revoke all on function public.merge_guest_progress(text, jsonb) from public, anon;
+grant execute on function public.merge_guest_progress(text, jsonb) to authenticated;
@@ -0,0 +1,200 @@
+-- Content admin console (app/admin, web build). Profiles with the `admin` or
+-- `extension_worker` role can create and edit lessons, quiz questions and
+-- quests, and upload lesson media to the `lesson-media` bucket.
+
+-- --- ROLES ---
+alter table public.profiles add column if not exists role text not null default 'farmer'
+  check (role in ('farmer', 'extension_worker', 'admin'));
+
+create or replace function public.has_content_role()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from profiles
+    where id = auth.uid() and role in ('admin', 'extension_worker')
+  );
+$$;
+
+grant execute on function public.has_content_role() to authenticated;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from profiles where id = auth.uid() and role = 'admin');
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+
+-- Clients keep writing their own profile, but only admins can hand out roles
+-- (the dashboard / service role are not affected). Not security definer, so
+-- current_user is the caller's role.
+create or replace function public.guard_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user::text not in ('authenticated', 'anon') or public.is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.role := 'farmer';
+  else
+    new.role := old.role;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_role on public.profiles;
+create trigger guard_profile_role
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_role();
+
+-- --- LANGUAGE COLUMNS ---
+-- The editor writes `<field>_<lang>` for every supported language (see
+-- LOCALIZED_FIELDS in utils/localize.ts). English used to live in the bare
+-- column on older tables; it is copied into `<field>_en`.
+do $$
+declare
+  v_field record;
+  v_lang text;
+  v_type text;
+begin
+  for v_field in
+    select * from (values
+      ('lessons', 'title', 'text'),
+      ('lessons', 'description', 'text'),
+      ('lessons', 'content', 'text'),
+      ('lesson_quizzes', 'question', 'text'),
+      ('lesson_quizzes', 'options', 'text[]'),
+      ('lesson_quizzes', 'explanation', 'text'),
+      ('quests', 'title', 'text'),
+      ('quests', 'subtitle', 'text'),
+      ('quests', 'description', 'text'),
+      ('quests', 'quiz_question', 'text'),
+      ('quests', 'quiz_options', 'text[]'),
+      ('quests', 'correct_answer', 'text'),
+      ('quests', 'quiz_explanation', 'text')
+    ) as f (table_name, field, default_type)
+  loop
+    -- Reuse the type of an existing column (options may be jsonb or text[])
+    select format_type(a.atttypid, a.atttypmod) into v_type
+      from pg_attribute a
+     where a.attrelid = format('public.%I', v_field.table_name)::regclass
+       and a.attname in (v_field.field, v_field.field || '_en', v_field.field || '_hi')
+       and a.attnum > 0
+       and not a.attisdropped
+     limit 1;
+    v_type := coalesce(v_type, v_field.default_type);
+
+    foreach v_lang in array array['en', 'hi', 'pa', 'ml'] loop
+      execute format(
+        'alter table public.%I add column if not exists %I %s',
+        v_field.table_name, v_field.field || '_' || v_lang, v_type
+      );
+    end loop;
+
+    if exists (
+      select 1 from information_schema.columns
+      where table_schema = 'public'
+        and table_name = v_field.table_name
+        and column_name = v_field.field
+    ) then
+      execute format(
+        'update public.%I set %I = %I where %I is null',
+        v_field.table_name, v_field.field || '_en', v_field.field, v_field.field || '_en'
+      );
+    end if;
+  end loop;
+end $$;
+
+-- --- LESSON MEDIA ---
+alter table public.lessons add column if not exists thumbnail_url text;
+alter table public.lessons add column if not exists video_url text;
+
+insert into storage.buckets (id, name, public)
+values ('lesson-media', 'lesson-media', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Content editors can upload lesson media" on storage.objects;
+create policy "Content editors can upload lesson media"
+  on storage.objects for insert
+  with check (bucket_id = 'lesson-media' and public.has_content_role());
+
+drop policy if exists "Content editors can replace lesson media" on storage.objects;
+create policy "Content editors can replace lesson media"
+  on storage.objects for update
+  using (bucket_id = 'lesson-media' and public.has_content_role());
+
+drop policy if exists "Content editors can delete lesson media" on storage.objects;
+create policy "Content editors can delete lesson media"
+  on storage.objects for delete
+  using (bucket_id = 'lesson-media' and public.has_content_role());
+
+-- --- CONTENT POLICIES ---
+-- Everyone (including guests) reads content; only content editors write it.
+alter table public.lessons enable row level security;
+alter table public.lesson_quizzes enable row level security;
+alter table public.quests enable row level security;
+
+drop policy if exists "Lessons are public" on public.lessons;
+create policy "Lessons are public" on public.lessons for select using (true);
+
+drop policy if exists "Content editors manage lessons" on public.lessons;
+create policy "Content editors manage lessons"
+  on public.lessons for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Lesson quizzes are public" on public.lesson_quizzes;
+create policy "Lesson quizzes are public" on public.lesson_quizzes for select using (true);
+
+drop policy if exists "Content editors manage lesson quizzes" on public.lesson_quizzes;
+create policy "Content editors manage lesson quizzes"
+  on public.lesson_quizzes for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Quests are public" on public.quests;
+create policy "Quests are public" on public.quests for select using (true);
+
+drop policy if exists "Content editors manage quests" on public.quests;
+create policy "Content editors manage quests"
+  on public.quests for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+-- Renumbers lessons 1..N in the given order (two passes so a unique
+-- `sequence` never collides mid-update)
+create or replace function public.reorder_lessons(p_lesson_ids bigint[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not has_content_role() then
+    raise exception 'not_authorized';
+  end if;
+
+  update lessons l
+     set sequence = -o.ord
+    from unnest(p_lesson_ids) with ordinality as o (id, ord)
+   where l.id = o.id;
+
+  update lessons set sequence = -sequence where sequence < 0;
+end;
+$$;
+
+revoke all on function public.reorder_lessons(bigint[]) from public, anon;
+grant execute on function public.reorder_lessons(bigint[]) to authenticated;
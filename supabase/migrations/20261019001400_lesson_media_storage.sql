@@ -0,0 +1,19 @@
+-- Lesson media lives in the `lesson-media` bucket instead of the app bundle.
+-- thumbnail_url / video_url hold either a full URL or a path inside the
+-- bucket; the app resolves paths with getPublicUrl (utils/lessonMedia.ts).
+--
+-- Upload the original bundled files with `npm run upload-lesson-media`.
+-- Lessons 3 and 4 had their thumbnails swapped in the app; the paths below
+-- give each lesson its own image.
+
+update public.lessons set thumbnail_url = 'lessons/1/thumbnail.png'
+  where id = 1 and thumbnail_url is null;
+update public.lessons set thumbnail_url = 'lessons/2/thumbnail.png'
+  where id = 2 and thumbnail_url is null;
+update public.lessons set thumbnail_url = 'lessons/3/thumbnail.png'
+  where id = 3 and thumbnail_url is null;
+update public.lessons set thumbnail_url = 'lessons/4/thumbnail.png'
+  where id = 4 and thumbnail_url is null;
+
+update public.lessons set video_url = 'lessons/1/video.mp4'
+  where id = 1 and video_url is null;
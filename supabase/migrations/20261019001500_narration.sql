@@ -0,0 +1,21 @@
+-- Recorded narration for lessons, quiz questions and scheme details.
+-- `narration_<lang>` holds a path in the `lesson-media` bucket (for example
+-- narration/lessons/1/hi.mp3) or a full URL. When the column is empty for the
+-- farmer's language the app reads the text with on-device speech instead, so
+-- there is deliberately no fallback to another language's recording.
+do $$
+declare
+  v_table text;
+  v_lang text;
+begin
+  foreach v_table in array array['lessons', 'lesson_quizzes', 'schemes'] loop
+    foreach v_lang in array array['en', 'hi', 'pa', 'ml'] loop
+      execute format(
+        'alter table public.%I add column if not exists %I text',
+        v_table, 'narration_' || v_lang
+      );
+    end loop;
+  end loop;
+end;
+$$;
+
@@ -0,0 +1,104 @@
+-- Structured lesson content. `lessons.blocks` is a JSON array of typed blocks
+-- (see utils/lessonBlocks.ts for the shape):
+--   heading, paragraph, image, video, audio, callout (tip / warning),
+--   steps and check (an inline multiple-choice question)
+-- Text inside a block is a map of language -> string. Lessons without blocks
+-- keep rendering `content_<lang>`.
+
+alter table public.lessons add column if not exists blocks jsonb;
+
+-- Per-block progress: when a block was first scrolled into view and the latest
+-- answer to a check block (graded here against the lesson's blocks)
+create table if not exists public.lesson_block_progress (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id bigint not null references public.lessons (id) on delete cascade,
+  block_id text not null,
+  seen_at timestamptz not null default now(),
+  answer_index integer,
+  is_correct boolean,
+  answered_at timestamptz,
+  primary key (user_id, lesson_id, block_id)
+);
+
+alter table public.lesson_block_progress enable row level security;
+
+drop policy if exists "Users read their block progress" on public.lesson_block_progress;
+create policy "Users read their block progress"
+  on public.lesson_block_progress for select
+  using (auth.uid() = user_id);
+
+-- Replayed from the offline outbox, so `p_occurred_at` is when it happened on
+-- the device (clamped to now()). Unknown block ids are ignored, except for
+-- lessons still on `content_<lang>`, whose blocks are generated in the app.
+create or replace function public.record_lesson_block_progress(
+  p_lesson_id bigint,
+  p_seen text[] default '{}',
+  p_answers jsonb default '{}',
+  p_occurred_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_at timestamptz := least(coalesce(p_occurred_at, now()), now());
+  v_blocks jsonb;
+  v_has_blocks boolean;
+  v_answer record;
+  v_block jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select coalesce(blocks, '[]'::jsonb) into v_blocks
+    from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+  v_has_blocks := jsonb_array_length(v_blocks) > 0;
+
+  insert into lesson_block_progress (user_id, lesson_id, block_id, seen_at)
+  select v_user_id, p_lesson_id, s.block_id, v_at
+    from unnest(coalesce(p_seen, '{}')) as s (block_id)
+   where not v_has_blocks
+      or exists (select 1 from jsonb_array_elements(v_blocks) b where b->>'id' = s.block_id)
+  on conflict (user_id, lesson_id, block_id) do nothing;
+
+  for v_answer in select key, value from jsonb_each(coalesce(p_answers, '{}'::jsonb)) loop
+    select b into v_block
+      from jsonb_array_elements(v_blocks) b
+     where b->>'id' = v_answer.key and b->>'type' = 'check';
+    continue when v_block is null or jsonb_typeof(v_answer.value) <> 'number';
+
+    insert into lesson_block_progress (
+      user_id, lesson_id, block_id, seen_at, answer_index, is_correct, answered_at
+    )
+    values (
+      v_user_id, p_lesson_id, v_answer.key, v_at,
+      (v_answer.value)::integer,
+      (v_answer.value)::integer = (v_block->>'correct_index')::integer,
+      v_at
+    )
+    on conflict (user_id, lesson_id, block_id) do update
+      set answer_index = excluded.answer_index,
+          is_correct = excluded.is_correct,
+          answered_at = excluded.answered_at;
+  end loop;
+
+  return (
+    select jsonb_build_object(
+      'blocks_seen', count(*),
+      'answered', count(*) filter (where answered_at is not null),
+      'correct', count(*) filter (where is_correct)
+    )
+    from lesson_block_progress
+    where user_id = v_user_id and lesson_id = p_lesson_id
+  );
+end;
+$$;
+
+revoke all on function public.record_lesson_block_progress(bigint, text[], jsonb, timestamptz) from public, anon;
+grant execute on function public.record_lesson_block_progress(bigint, text[], jsonb, timestamptz) to authenticated;
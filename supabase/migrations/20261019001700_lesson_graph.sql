@@ -0,0 +1,128 @@
+-- Lesson graph: lessons are grouped into modules (units), can belong to a
+-- crop-specific track and can be optional side lessons. Unlocking follows
+-- prerequisite edges instead of `sequence` (see utils/lessonGraph.ts).
+-- `sequence` is still the order within the path.
+
+create table if not exists public.lesson_modules (
+  id bigserial primary key,
+  sequence integer not null default 0,
+  title_en text not null,
+  title_hi text,
+  title_pa text,
+  title_ml text,
+  description_en text,
+  description_hi text,
+  description_pa text,
+  description_ml text,
+  -- Null: for every farmer; otherwise only shown to farmers of this crop
+  target_crop text references public.crops (id)
+);
+
+alter table public.lessons add column if not exists module_id bigint
+  references public.lesson_modules (id) on delete set null;
+alter table public.lessons add column if not exists target_crop text
+  references public.crops (id);
+-- Side lessons show on the map but are not suggested as the next lesson
+alter table public.lessons add column if not exists is_optional boolean not null default false;
+
+-- `lesson_id` unlocks once `requires_lesson_id` is completed (all edges must
+-- be met). Edges into another crop's track are ignored by the app.
+create table if not exists public.lesson_prerequisites (
+  lesson_id bigint not null references public.lessons (id) on delete cascade,
+  requires_lesson_id bigint not null references public.lessons (id) on delete cascade,
+  primary key (lesson_id, requires_lesson_id),
+  check (lesson_id <> requires_lesson_id)
+);
+
+create index if not exists lesson_prerequisites_requires_idx
+  on public.lesson_prerequisites (requires_lesson_id);
+
+-- --- BACKFILL ---
+-- Existing lessons become one module, each requiring the previous lesson, so
+-- the path looks the same until editors branch it.
+do $$
+declare
+  v_module_id bigint;
+begin
+  if not exists (select 1 from public.lesson_modules) then
+    insert into public.lesson_modules (sequence, title_en, title_hi, title_pa, title_ml)
+    values (1, 'Farming Basics', 'खेती की बुनियाद', 'ਖੇਤੀ ਦੀਆਂ ਮੂਲ ਗੱਲਾਂ', 'കൃഷിയുടെ അടിസ്ഥാനങ്ങൾ')
+    returning id into v_module_id;
+
+    update public.lessons set module_id = v_module_id where module_id is null;
+  end if;
+
+  if not exists (select 1 from public.lesson_prerequisites) then
+    insert into public.lesson_prerequisites (lesson_id, requires_lesson_id)
+    select id, previous_id
+      from (
+        select id, lag(id) over (order by sequence) as previous_id
+          from public.lessons
+      ) ordered
+     where previous_id is not null;
+  end if;
+end $$;
+
+-- --- POLICIES ---
+alter table public.lesson_modules enable row level security;
+alter table public.lesson_prerequisites enable row level security;
+
+drop policy if exists "Lesson modules are public" on public.lesson_modules;
+create policy "Lesson modules are public" on public.lesson_modules for select using (true);
+
+drop policy if exists "Content editors manage lesson modules" on public.lesson_modules;
+create policy "Content editors manage lesson modules"
+  on public.lesson_modules for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Lesson prerequisites are public" on public.lesson_prerequisites;
+create policy "Lesson prerequisites are public" on public.lesson_prerequisites for select using (true);
+
+drop policy if exists "Content editors manage lesson prerequisites" on public.lesson_prerequisites;
+create policy "Content editors manage lesson prerequisites"
+  on public.lesson_prerequisites for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+-- Replaces a lesson's prerequisites in one go, rejecting edges that would
+-- make a cycle (the lesson could never unlock)
+create or replace function public.set_lesson_prerequisites(
+  p_lesson_id bigint,
+  p_requires bigint[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not has_content_role() then
+    raise exception 'not_authorized';
+  end if;
+
+  delete from lesson_prerequisites where lesson_id = p_lesson_id;
+
+  insert into lesson_prerequisites (lesson_id, requires_lesson_id)
+  select p_lesson_id, r
+    from unnest(coalesce(p_requires, '{}')) as r
+   where r <> p_lesson_id
+  on conflict do nothing;
+
+  if exists (
+    with recursive upstream (id) as (
+      select requires_lesson_id from lesson_prerequisites where lesson_id = p_lesson_id
+      union
+      select p.requires_lesson_id
+        from lesson_prerequisites p
+        join upstream u on p.lesson_id = u.id
+    )
+    select 1 from upstream where id = p_lesson_id
+  ) then
+    raise exception 'prerequisite_cycle';
+  end if;
+end;
+$$;
+
+revoke all on function public.set_lesson_prerequisites(bigint, bigint[]) from public, anon;
+grant execute on function public.set_lesson_prerequisites(bigint, bigint[]) to authenticated;
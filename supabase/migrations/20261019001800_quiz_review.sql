@@ -0,0 +1,196 @@
+-- Quiz attempts and spaced-repetition review.
+-- Every answered quiz question is stored (right or wrong). Missed questions
+-- get a review card that the daily Review session (app/review.tsx) brings
+-- back on an SM-2 schedule; correct review answers earn a few coins.
+
+create table if not exists public.quiz_attempts (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_id bigint not null references public.lesson_quizzes (id) on delete cascade,
+  lesson_id bigint not null references public.lessons (id) on delete cascade,
+  chosen_index integer not null,
+  is_correct boolean not null,
+  source text not null check (source in ('lesson', 'review')),
+  answered_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_user_idx
+  on public.quiz_attempts (user_id, answered_at desc);
+
+-- One SM-2 card per missed question: `ease` is the easiness factor,
+-- `interval_days` the gap before the next review
+create table if not exists public.quiz_review_cards (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_id bigint not null references public.lesson_quizzes (id) on delete cascade,
+  ease numeric(4, 2) not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  primary key (user_id, question_id)
+);
+
+create index if not exists quiz_review_cards_due_idx
+  on public.quiz_review_cards (user_id, due_at);
+
+alter table public.quiz_attempts enable row level security;
+alter table public.quiz_review_cards enable row level security;
+
+drop policy if exists "Users read their quiz attempts" on public.quiz_attempts;
+create policy "Users read their quiz attempts"
+  on public.quiz_attempts for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users read their review cards" on public.quiz_review_cards;
+create policy "Users read their review cards"
+  on public.quiz_review_cards for select
+  using (auth.uid() = user_id);
+
+-- Review rewards go through the ledger like everything else
+alter table public.coin_ledger drop constraint if exists coin_ledger_source_check;
+alter table public.coin_ledger add constraint coin_ledger_source_check
+  check (source in ('opening_balance', 'signup', 'lesson', 'quest', 'reward', 'review'));
+
+-- Records answers and updates review cards. `p_attempts` is a JSON array of
+-- { question_id, chosen_index, answered_at }; answers are graded here.
+--   lesson: a wrong answer (re)starts the question's card, due right away
+--           (a card already scheduled later keeps its date)
+--   review: SM-2 step for cards that are due (quality 4 if right, 1 if
+--           wrong); each right answer pays 5 coins once per question per
+--           server day
+-- Replayed from the offline outbox, so answer times come from the device
+-- (never in the future). Answers older than 3 days are only recorded: they
+-- don't touch review cards or coins, so backdating can't mint rewards.
+create or replace function public.record_quiz_attempts(
+  p_attempts jsonb,
+  p_source text default 'lesson'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_review_coins constant integer := 5;
+  v_max_age constant interval := interval '3 days';
+  v_attempt record;
+  v_card record;
+  v_quality integer;
+  v_ease numeric;
+  v_interval integer;
+  v_recorded integer := 0;
+  v_correct integer := 0;
+  v_coins integer := 0;
+  v_ledger jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+  if p_source not in ('lesson', 'review') then
+    raise exception 'invalid_source';
+  end if;
+
+  for v_attempt in
+    select q.id as question_id,
+           q.lesson_id,
+           (a ->> 'chosen_index')::integer as chosen_index,
+           (a ->> 'chosen_index')::integer = q.correct_option_index as is_correct,
+           least(coalesce((a ->> 'answered_at')::timestamptz, now()), now()) as answered_at
+      from jsonb_array_elements(coalesce(p_attempts, '[]'::jsonb)) a
+      join lesson_quizzes q on q.id = (a ->> 'question_id')::bigint
+  loop
+    insert into quiz_attempts (user_id, question_id, lesson_id, chosen_index, is_correct, source, answered_at)
+    values (v_user_id, v_attempt.question_id, v_attempt.lesson_id, v_attempt.chosen_index,
+            v_attempt.is_correct, p_source, v_attempt.answered_at);
+    v_recorded := v_recorded + 1;
+    if v_attempt.is_correct then
+      v_correct := v_correct + 1;
+    end if;
+
+    if v_attempt.answered_at < now() - v_max_age then
+      continue;
+    end if;
+
+    if p_source = 'lesson' then
+      if not v_attempt.is_correct then
+        insert into quiz_review_cards (user_id, question_id, due_at)
+        values (v_user_id, v_attempt.question_id, now())
+        on conflict (user_id, question_id) do update
+          set repetitions = 0,
+              interval_days = 0,
+              lapses = quiz_review_cards.lapses + 1,
+              due_at = greatest(quiz_review_cards.due_at, excluded.due_at);
+      end if;
+      continue;
+    end if;
+
+    select * into v_card
+      from quiz_review_cards
+     where user_id = v_user_id
+       and question_id = v_attempt.question_id
+       for update;
+
+    -- Not due (e.g. answered twice while offline): recorded, not rescheduled
+    if not found or v_card.due_at > v_attempt.answered_at then
+      continue;
+    end if;
+
+    v_quality := case when v_attempt.is_correct then 4 else 1 end;
+    v_ease := greatest(1.3, v_card.ease + (0.1 - (5 - v_quality) * (0.08 + (5 - v_quality) * 0.02)));
+
+    if v_attempt.is_correct then
+      v_interval := case v_card.repetitions
+        when 0 then 1
+        when 1 then 6
+        else round(v_card.interval_days * v_card.ease)
+      end;
+      update quiz_review_cards
+         set repetitions = repetitions + 1,
+             interval_days = v_interval,
+             ease = v_ease,
+             due_at = v_attempt.answered_at + make_interval(days => v_interval),
+             last_reviewed_at = v_attempt.answered_at
+       where user_id = v_user_id and question_id = v_attempt.question_id;
+
+      v_ledger := apply_ledger_entry(
+        v_user_id,
+        'review',
+        v_attempt.question_id || ':' || (now() at time zone 'Asia/Kolkata')::date,
+        v_review_coins,
+        0,
+        5,
+        jsonb_build_object('question_id', v_attempt.question_id, 'occurred_at', v_attempt.answered_at)
+      );
+      if (v_ledger ->> 'applied')::boolean then
+        v_coins := v_coins + v_review_coins;
+      end if;
+    else
+      -- Lapse: start over tomorrow
+      update quiz_review_cards
+         set repetitions = 0,
+             interval_days = 1,
+             ease = v_ease,
+             lapses = lapses + 1,
+             due_at = v_attempt.answered_at + interval '1 day',
+             last_reviewed_at = v_attempt.answered_at
+       where user_id = v_user_id and question_id = v_attempt.question_id;
+    end if;
+  end loop;
+
+  select jsonb_build_object('coins', coins, 'quest_coins', quest_coins, 'xp', xp)
+    into v_ledger
+    from profiles
+   where id = v_user_id;
+
+  return coalesce(v_ledger, '{}'::jsonb) || jsonb_build_object(
+    'recorded', v_recorded,
+    'correct', v_correct,
+    'coins_awarded', v_coins
+  );
+end;
+$$;
+
+revoke all on function public.record_quiz_attempts(jsonb, text) from public, anon;
+grant execute on function public.record_quiz_attempts(jsonb, text) to authenticated;
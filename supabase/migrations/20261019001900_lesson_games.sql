@@ -0,0 +1,474 @@
+-- Lesson mini-games: games are registered here and attached to lessons,
+-- instead of one hardcoded web game for lesson 2.
+--
+-- A game is a single-file HTML bundle in the `lesson-media` bucket
+-- (`bundle_path`). The app keeps a copy per `version` on the device, so games
+-- play offline, and talks to it over the postMessage protocol described in
+-- games/README.md.
+--
+-- Scores are checked here before coins are paid:
+--   * every play needs a session from start_game_session; its nonce is signed
+--     with a server key and must come back with the score
+--   * a session is scored once, within 14 days of being issued
+--   * the score must be within 0..max_score and the play at least
+--     min_play_seconds long; below pass_score the lesson isn't completed
+-- Guest plays can't have a session, so merge_guest_progress doesn't credit
+-- them: the lesson counts once it is played again while signed in.
+
+create table if not exists public.games (
+  id text primary key, -- slug, also the folder under games/ in the repo
+  title_en text not null,
+  title_hi text,
+  title_pa text,
+  title_ml text,
+  bundle_path text not null, -- bucket path (or URL) of the HTML bundle
+  version integer not null default 1, -- bump after uploading a new bundle
+  max_score integer not null default 100 check (max_score > 0),
+  pass_score integer not null default 0 check (pass_score >= 0),
+  min_play_seconds integer not null default 20 check (min_play_seconds >= 0),
+  is_active boolean not null default true
+);
+
+-- Lessons with a game are finished by playing it instead of taking the quiz
+alter table public.lessons add column if not exists game_id text
+  references public.games (id) on delete set null;
+
+create table if not exists public.game_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id bigint not null references public.lessons (id) on delete cascade,
+  game_id text not null references public.games (id) on delete cascade,
+  nonce text not null,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  score integer,
+  submitted_at timestamptz
+);
+
+create index if not exists game_sessions_user_idx
+  on public.game_sessions (user_id, issued_at desc);
+
+-- Key for signing session nonces. No policies: only the functions below
+-- (security definer) can read it.
+create table if not exists public.game_signing_keys (
+  id boolean primary key default true check (id),
+  secret bytea not null default extensions.gen_random_bytes(32)
+);
+
+insert into public.game_signing_keys (id) values (true) on conflict (id) do nothing;
+
+-- --- BACKFILL ---
+-- Lesson 2 had the hardcoded web game; it gets the bundled field game
+-- (upload it with `npm run upload-games`).
+insert into public.games (id, title_en, title_hi, title_pa, title_ml, bundle_path, max_score, pass_score, min_play_seconds)
+values (
+  'field-sort',
+  'Good Practice or Not?',
+  'सही तरीका या नहीं?',
+  'ਸਹੀ ਤਰੀਕਾ ਜਾਂ ਨਹੀਂ?',
+  'ശരിയായ രീതിയോ അല്ലയോ?',
+  'games/field-sort/index.html',
+  100,
+  60,
+  10
+)
+on conflict (id) do nothing;
+
+update public.lessons set game_id = 'field-sort' where id = 2 and game_id is null;
+
+-- --- POLICIES ---
+alter table public.games enable row level security;
+alter table public.game_sessions enable row level security;
+alter table public.game_signing_keys enable row level security;
+
+drop policy if exists "Games are public" on public.games;
+create policy "Games are public" on public.games for select using (true);
+
+drop policy if exists "Content editors manage games" on public.games;
+create policy "Content editors manage games"
+  on public.games for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Users read their game sessions" on public.game_sessions;
+create policy "Users read their game sessions"
+  on public.game_sessions for select
+  using (auth.uid() = user_id);
+
+-- --- SCORING ---
+-- Checks a score and, if it passes, completes the lesson through the ledger.
+-- Used by submit_game_score; not callable by clients. A rejected score
+-- returns passed = false and a `reason`.
+create or replace function public.award_game_completion(
+  p_user_id uuid,
+  p_lesson_id bigint,
+  p_score integer,
+  p_play_seconds numeric,
+  p_completed_at timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lesson record;
+  v_game record;
+  v_reason text;
+  v_coins integer;
+  v_result jsonb;
+begin
+  select id, points, game_id into v_lesson from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+
+  select * into v_game from games where id = v_lesson.game_id;
+  if not found then
+    raise exception 'lesson_has_no_game';
+  end if;
+
+  v_reason := case
+    when p_score is null or p_score < 0 or p_score > v_game.max_score then 'invalid_score'
+    when coalesce(p_play_seconds, 0) < v_game.min_play_seconds then 'played_too_fast'
+    when p_score < v_game.pass_score then 'below_pass_score'
+  end;
+
+  if v_reason is not null then
+    select jsonb_build_object('coins', coins, 'quest_coins', quest_coins, 'xp', xp)
+      into v_result
+      from profiles
+     where id = p_user_id;
+    return coalesce(v_result, '{}'::jsonb) || jsonb_build_object(
+      'applied', false,
+      'passed', false,
+      'reason', v_reason,
+      'score', p_score,
+      'pass_score', v_game.pass_score,
+      'coins_awarded', 0
+    );
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at)
+  values (p_user_id, p_lesson_id, p_completed_at)
+  on conflict (user_id, lesson_id) do nothing;
+
+  v_coins := coalesce(v_lesson.points, 150);
+  v_result := apply_ledger_entry(
+    p_user_id,
+    'lesson',
+    p_lesson_id::text,
+    v_coins,
+    0,
+    100,
+    jsonb_build_object(
+      'via', 'game',
+      'game_id', v_game.id,
+      'score', p_score,
+      'occurred_at', p_completed_at
+    )
+  );
+
+  return v_result || jsonb_build_object(
+    'passed', true,
+    'score', p_score,
+    'pass_score', v_game.pass_score,
+    'coins_awarded', case when (v_result ->> 'applied')::boolean then v_coins else 0 end
+  );
+end;
+$$;
+
+revoke all on function public.award_game_completion(uuid, bigint, integer, numeric, timestamptz)
+  from public, anon, authenticated;
+
+-- A fresh session for one play. The nonce handed to the game is
+-- `<nonce>.<signature>`; the app also keeps one spare session per game lesson
+-- for playing offline.
+create or replace function public.start_game_session(p_lesson_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_game_id text;
+  v_session game_sessions;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select l.game_id into v_game_id
+    from lessons l
+    join games g on g.id = l.game_id
+   where l.id = p_lesson_id
+     and g.is_active;
+  if v_game_id is null then
+    raise exception 'lesson_has_no_game';
+  end if;
+
+  insert into game_sessions (user_id, lesson_id, game_id, nonce)
+  values (v_user_id, p_lesson_id, v_game_id, encode(gen_random_bytes(16), 'hex'))
+  returning * into v_session;
+
+  return jsonb_build_object(
+    'session_id', v_session.id,
+    'nonce', v_session.nonce || '.' || encode(
+      hmac(v_session.id::text || ':' || v_session.nonce, (select secret from game_signing_keys), 'sha256'),
+      'hex'
+    ),
+    'game_id', v_session.game_id,
+    'issued_at', v_session.issued_at,
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- Scores one session. Replayed from the offline outbox, so the play times
+-- come from the device (never before the session was issued, never in the
+-- future).
+create or replace function public.submit_game_score(
+  p_session_id uuid,
+  p_nonce text,
+  p_score integer,
+  p_started_at timestamptz,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_session game_sessions;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+  v_started_at timestamptz;
+  v_expected text;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_session
+    from game_sessions
+   where id = p_session_id
+     and user_id = v_user_id
+     for update;
+  if not found then
+    raise exception 'game_session_not_found';
+  end if;
+
+  v_expected := v_session.nonce || '.' || encode(
+    hmac(v_session.id::text || ':' || v_session.nonce, (select secret from game_signing_keys), 'sha256'),
+    'hex'
+  );
+  if p_nonce is distinct from v_expected then
+    raise exception 'invalid_nonce';
+  end if;
+
+  if v_session.submitted_at is not null then
+    raise exception 'game_session_used';
+  end if;
+  if v_completed_at > v_session.expires_at then
+    raise exception 'game_session_expired';
+  end if;
+
+  update game_sessions
+     set score = p_score,
+         submitted_at = now()
+   where id = v_session.id;
+
+  v_started_at := greatest(coalesce(p_started_at, v_session.issued_at), v_session.issued_at);
+
+  return award_game_completion(
+    v_user_id,
+    v_session.lesson_id,
+    p_score,
+    extract(epoch from v_completed_at - v_started_at),
+    v_completed_at
+  );
+end;
+$$;
+
+revoke all on function public.start_game_session(bigint) from public, anon;
+revoke all on function public.submit_game_score(uuid, text, integer, timestamptz, timestamptz) from public, anon;
+
+grant execute on function public.start_game_session(bigint) to authenticated;
+grant execute on function public.submit_game_score(uuid, text, integer, timestamptz, timestamptz) to authenticated;
+
+-- Game lessons can no longer be completed without a scored play
+create or replace function public.award_lesson_completion(
+  p_lesson_id bigint,
+  p_via text default 'quiz',
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lesson record;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_via <> 'quiz' then
+    raise exception 'invalid_source';
+  end if;
+
+  select points, game_id into v_lesson from lessons where id = p_lesson_id;
+  if not found then
+    raise exception 'lesson_not_found';
+  end if;
+  if v_lesson.game_id is not null then
+    raise exception 'game_score_required';
+  end if;
+  if exists (select 1 from lesson_quizzes where lesson_id = p_lesson_id) then
+    raise exception 'quiz_answers_required';
+  end if;
+
+  insert into user_lessons (user_id, lesson_id, completed_at)
+  values (v_user_id, p_lesson_id, v_completed_at)
+  on conflict (user_id, lesson_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id,
+    'lesson',
+    p_lesson_id::text,
+    coalesce(v_lesson.points, 100),
+    0,
+    50,
+    jsonb_build_object('via', p_via, 'occurred_at', v_completed_at)
+  );
+end;
+$$;
+
+-- Guest game plays are skipped (counted in `games_to_replay`): without a
+-- session their score can't be trusted (the rest is unchanged from
+-- *_guest_progress_merge.sql)
+create or replace function public.merge_guest_progress(
+  p_guest_id text,
+  p_progress jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lesson jsonb;
+  v_lesson_id bigint;
+  v_completed_at timestamptz;
+  v_result jsonb;
+  v_merged integer := 0;
+  v_kept integer := 0;
+  v_rejected integer := 0;
+  v_replay integer := 0;
+  v_coins_before integer;
+  v_summary jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if coalesce(p_guest_id, '') = '' then
+    raise exception 'invalid_guest_id';
+  end if;
+
+  insert into guest_progress_merges (guest_id, user_id)
+  values (p_guest_id, v_user_id)
+  on conflict (guest_id) do nothing;
+
+  if not found then
+    select summary into v_summary from guest_progress_merges where guest_id = p_guest_id;
+    return coalesce(v_summary, '{}'::jsonb) || jsonb_build_object('applied', false);
+  end if;
+
+  select coalesce(coins, 0) into v_coins_before from profiles where id = v_user_id;
+  if not found then
+    raise exception 'profile_not_found';
+  end if;
+
+  for v_lesson in
+    select value from jsonb_array_elements(coalesce(p_progress -> 'lessons', '[]'::jsonb))
+  loop
+    v_lesson_id := (v_lesson ->> 'lesson_id')::bigint;
+    v_completed_at := least(coalesce((v_lesson ->> 'completed_at')::timestamptz, now()), now());
+
+    if not exists (select 1 from lessons where id = v_lesson_id) then
+      v_rejected := v_rejected + 1;
+      continue;
+    end if;
+
+    if exists (select 1 from lessons where id = v_lesson_id and game_id is not null) then
+      v_replay := v_replay + 1;
+      continue;
+    elsif exists (select 1 from lesson_quizzes where lesson_id = v_lesson_id) then
+      -- Option indexes only; anything else would make the cast below raise
+      -- and fail the whole merge
+      if coalesce(jsonb_typeof(v_lesson -> 'answers'), '') <> 'array'
+         or exists (
+           select 1 from jsonb_array_elements_text(v_lesson -> 'answers') a
+            where a is null or a !~ '^[0-9]{1,9}$'
+         ) then
+        v_rejected := v_rejected + 1;
+        continue;
+      end if;
+
+      v_result := submit_lesson_quiz(
+        v_lesson_id,
+        array(select jsonb_array_elements_text(v_lesson -> 'answers')::integer),
+        v_completed_at
+      );
+
+      if not (v_result ->> 'passed')::boolean then
+        v_rejected := v_rejected + 1;
+        continue;
+      end if;
+    else
+      v_result := award_lesson_completion(v_lesson_id, 'quiz', v_completed_at);
+    end if;
+
+    if (v_result ->> 'applied')::boolean then
+      v_merged := v_merged + 1;
+    else
+      v_kept := v_kept + 1;
+    end if;
+  end loop;
+
+  update profiles
+     set selected_crop = case
+           when selected_crop is null
+            and exists (select 1 from crops where id = p_progress ->> 'crop' and is_active)
+           then p_progress ->> 'crop'
+           else selected_crop
+         end,
+         language = coalesce(language, p_progress ->> 'language')
+   where id = v_user_id;
+
+  select jsonb_build_object(
+           'lessons_merged', v_merged,
+           'lessons_already_done', v_kept,
+           'lessons_rejected', v_rejected,
+           'games_to_replay', v_replay,
+           'coins_awarded', coalesce(coins, 0) - v_coins_before,
+           'coins', coins,
+           'quest_coins', quest_coins,
+           'xp', xp
+         )
+    into v_summary
+    from profiles
+   where id = v_user_id;
+
+  update guest_progress_merges set summary = v_summary where guest_id = p_guest_id;
+
+  return v_summary || jsonb_build_object('applied', true);
+end;
+$$;
@@ -0,0 +1,241 @@
+-- Photo-proof quests: field tasks that are finished by photographing the
+-- work instead of answering the quest quiz. The farmer's photo goes to the
+-- private `quest-proofs` bucket (under their user id) together with the time
+-- and place from its EXIF data, and waits in `pending_review` until an
+-- extension worker (or admin) approves or rejects it with a comment.
+-- Quest coins are only credited on approval.
+
+alter table public.quests add column if not exists proof_type text not null default 'quiz';
+
+alter table public.quests drop constraint if exists quests_proof_type_check;
+alter table public.quests add constraint quests_proof_type_check
+  check (proof_type in ('quiz', 'photo'));
+
+create table if not exists public.quest_submissions (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  quest_id bigint not null references public.quests (id) on delete cascade,
+  photo_path text not null, -- inside the quest-proofs bucket
+  taken_at timestamptz, -- EXIF capture time, when the camera recorded it
+  latitude double precision,
+  longitude double precision,
+  status text not null default 'pending_review'
+    check (status in ('pending_review', 'approved', 'rejected')),
+  submitted_at timestamptz not null default now(),
+  reviewer_id uuid references auth.users (id) on delete set null,
+  review_comment text,
+  reviewed_at timestamptz
+);
+
+-- At most one photo per quest waits for review; a new one replaces it
+create unique index if not exists quest_submissions_pending_idx
+  on public.quest_submissions (user_id, quest_id)
+  where status = 'pending_review';
+
+create index if not exists quest_submissions_queue_idx
+  on public.quest_submissions (status, submitted_at);
+
+alter table public.quest_submissions enable row level security;
+
+drop policy if exists "Users read their quest submissions" on public.quest_submissions;
+create policy "Users read their quest submissions"
+  on public.quest_submissions for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Reviewers read quest submissions" on public.quest_submissions;
+create policy "Reviewers read quest submissions"
+  on public.quest_submissions for select
+  using (public.has_content_role());
+
+-- --- PHOTO STORAGE ---
+-- Private: farmers write and read their own folder (`<user id>/...`),
+-- reviewers read everything through signed URLs
+insert into storage.buckets (id, name, public)
+values ('quest-proofs', 'quest-proofs', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Farmers upload their quest proofs" on storage.objects;
+create policy "Farmers upload their quest proofs"
+  on storage.objects for insert
+  with check (bucket_id = 'quest-proofs' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Farmers replace their quest proofs" on storage.objects;
+create policy "Farmers replace their quest proofs"
+  on storage.objects for update
+  using (bucket_id = 'quest-proofs' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Quest proofs are visible to owner and reviewers" on storage.objects;
+create policy "Quest proofs are visible to owner and reviewers"
+  on storage.objects for select
+  using (
+    bucket_id = 'quest-proofs'
+    and ((storage.foldername(name))[1] = auth.uid()::text or public.has_content_role())
+  );
+
+-- --- FUNCTIONS ---
+-- Sends a photo for review. Replayed from the offline outbox, so the
+-- submission time comes from the device (never in the future).
+create or replace function public.submit_quest_proof(
+  p_quest_id bigint,
+  p_photo_path text,
+  p_taken_at timestamptz default null,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_submitted_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_submitted_at timestamptz := least(coalesce(p_submitted_at, now()), now());
+  v_submission quest_submissions;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from quests where id = p_quest_id and proof_type = 'photo') then
+    raise exception 'quest_not_found';
+  end if;
+
+  if coalesce(p_photo_path, '') not like v_user_id::text || '/%' then
+    raise exception 'invalid_photo_path';
+  end if;
+
+  if exists (select 1 from user_quests where user_id = v_user_id and quest_id = p_quest_id) then
+    raise exception 'quest_already_completed';
+  end if;
+
+  insert into quest_submissions (user_id, quest_id, photo_path, taken_at, latitude, longitude, submitted_at)
+  values (
+    v_user_id,
+    p_quest_id,
+    p_photo_path,
+    case when p_taken_at is not null then least(p_taken_at, now()) end,
+    p_latitude,
+    p_longitude,
+    v_submitted_at
+  )
+  on conflict (user_id, quest_id) where status = 'pending_review' do update
+    set photo_path = excluded.photo_path,
+        taken_at = excluded.taken_at,
+        latitude = excluded.latitude,
+        longitude = excluded.longitude,
+        submitted_at = excluded.submitted_at
+  returning * into v_submission;
+
+  return jsonb_build_object('submission_id', v_submission.id, 'status', v_submission.status);
+end;
+$$;
+
+-- Approves (completing the quest and crediting quest coins through the
+-- ledger) or rejects a pending photo. Rejections need a comment so the farmer
+-- knows what to retake.
+create or replace function public.review_quest_submission(
+  p_submission_id bigint,
+  p_approve boolean,
+  p_comment text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reviewer_id uuid := auth.uid();
+  v_submission quest_submissions;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+begin
+  if not has_content_role() then
+    raise exception 'not_authorized';
+  end if;
+
+  select * into v_submission from quest_submissions where id = p_submission_id for update;
+  if not found then
+    raise exception 'submission_not_found';
+  end if;
+  if v_submission.status <> 'pending_review' then
+    raise exception 'already_reviewed';
+  end if;
+  if v_submission.user_id = v_reviewer_id then
+    raise exception 'cannot_review_own_submission';
+  end if;
+  if not p_approve and v_comment is null then
+    raise exception 'comment_required';
+  end if;
+
+  update quest_submissions
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         reviewer_id = v_reviewer_id,
+         review_comment = v_comment,
+         reviewed_at = now()
+   where id = p_submission_id;
+
+  if p_approve then
+    insert into user_quests (user_id, quest_id, completed_at)
+    values (v_submission.user_id, v_submission.quest_id, v_submission.submitted_at)
+    on conflict (user_id, quest_id) do nothing;
+
+    perform apply_ledger_entry(
+      v_submission.user_id, 'quest', v_submission.quest_id::text, 0, 1000, 0,
+      jsonb_build_object(
+        'occurred_at', v_submission.submitted_at,
+        'submission_id', v_submission.id,
+        'reviewer_id', v_reviewer_id
+      )
+    );
+  end if;
+
+  return jsonb_build_object(
+    'submission_id', v_submission.id,
+    'status', case when p_approve then 'approved' else 'rejected' end
+  );
+end;
+$$;
+
+-- Photo quests can't be completed through the quiz
+create or replace function public.award_quest_completion(
+  p_quest_id bigint,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_proof_type text;
+  v_completed_at timestamptz := least(coalesce(p_completed_at, now()), now());
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select proof_type into v_proof_type from quests where id = p_quest_id;
+  if not found then
+    raise exception 'quest_not_found';
+  end if;
+  if v_proof_type = 'photo' then
+    raise exception 'photo_proof_required';
+  end if;
+
+  insert into user_quests (user_id, quest_id, completed_at)
+  values (v_user_id, p_quest_id, v_completed_at)
+  on conflict (user_id, quest_id) do nothing;
+
+  return apply_ledger_entry(
+    v_user_id, 'quest', p_quest_id::text, 0, 1000, 0,
+    jsonb_build_object('occurred_at', v_completed_at)
+  );
+end;
+$$;
+
+revoke all on function public.submit_quest_proof(bigint, text, timestamptz, double precision, double precision, timestamptz) from public, anon;
+revoke all on function public.review_quest_submission(bigint, boolean, text) from public, anon;
+
+grant execute on function public.submit_quest_proof(bigint, text, timestamptz, double precision, double precision, timestamptz) to authenticated;
+grant execute on function public.review_quest_submission(bigint, boolean, text) to authenticated;
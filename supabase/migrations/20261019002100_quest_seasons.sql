@@ -0,0 +1,442 @@
+-- Monthly quest seasons. Quests used to have no dates and a completion
+-- counted forever; now every completion belongs to the season it happened in,
+-- so a quest can be done again the next season.
+--
+--   * seasons are contiguous time windows, created a calendar month at a time
+--     when the app first asks for the current one (current_quest_season)
+--   * quests with a season_id only run in that season; the rest recur
+--   * quest coins come from quests.xp_reward (was a hardcoded 1000)
+--   * profiles.quest_coins stays the lifetime total; the seasonal board sums
+--     the season's quest ledger entries, and a season's standings are
+--     snapshotted into quest_season_standings when it closes
+
+create table if not exists public.quest_seasons (
+  id bigint generated always as identity primary key,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  closed_at timestamptz, -- standings snapshotted
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at),
+  exclude using gist (tstzrange(starts_at, ends_at) with &&)
+);
+
+alter table public.quest_seasons enable row level security;
+
+drop policy if exists "Quest seasons are public" on public.quest_seasons;
+create policy "Quest seasons are public"
+  on public.quest_seasons for select
+  using (true);
+
+create table if not exists public.quest_season_standings (
+  season_id bigint not null references public.quest_seasons (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  full_name text, -- as it was when the season closed
+  quest_coins integer not null,
+  rank integer not null,
+  primary key (season_id, user_id)
+);
+
+create index if not exists quest_season_standings_rank_idx
+  on public.quest_season_standings (season_id, rank);
+
+alter table public.quest_season_standings enable row level security;
+
+drop policy if exists "Season standings are public" on public.quest_season_standings;
+create policy "Season standings are public"
+  on public.quest_season_standings for select
+  using (true);
+
+alter table public.quests add column if not exists season_id bigint
+  references public.quest_seasons (id) on delete set null;
+
+-- The reward the quest screens showed (and the server paid) until now
+update public.quests set xp_reward = 1000 where xp_reward is null;
+alter table public.quests alter column xp_reward set default 1000;
+
+-- --- FIRST SEASON ---
+-- This month, stretched back over every completion from before seasons
+insert into public.quest_seasons (starts_at, ends_at)
+select least(
+         date_trunc('month', now()),
+         coalesce((select min(completed_at) from public.user_quests), now())
+       ),
+       date_trunc('month', now()) + interval '1 month'
+where not exists (select 1 from public.quest_seasons);
+
+alter table public.user_quests add column if not exists season_id bigint
+  references public.quest_seasons (id) on delete cascade;
+
+update public.user_quests
+   set season_id = (select id from public.quest_seasons order by starts_at limit 1)
+ where season_id is null;
+
+alter table public.user_quests alter column season_id set not null;
+
+drop index if exists public.user_quests_user_quest_key;
+create unique index if not exists user_quests_user_quest_season_key
+  on public.user_quests (user_id, quest_id, season_id);
+
+-- --- SEASON BOARD ---
+-- Quest ledger entries by the season their completion happened in (entries
+-- from before seasons only have created_at)
+create or replace view public.quest_season_leaderboard_view as
+select s.id as season_id,
+       l.user_id as id,
+       p.full_name,
+       sum(l.quest_coins)::integer as quest_coins
+  from public.coin_ledger l
+  join public.quest_seasons s
+    on coalesce((l.metadata ->> 'occurred_at')::timestamptz, l.created_at) >= s.starts_at
+   and coalesce((l.metadata ->> 'occurred_at')::timestamptz, l.created_at) < s.ends_at
+  join public.profiles p on p.id = l.user_id
+ where l.source = 'quest'
+ group by s.id, l.user_id, p.full_name;
+
+-- --- FUNCTIONS ---
+-- Snapshots the season's board. Internal: called by ensure_quest_seasons.
+create or replace function public.close_quest_season(p_season_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into quest_season_standings (season_id, user_id, full_name, quest_coins, rank)
+  select season_id, id, full_name, quest_coins,
+         rank() over (order by quest_coins desc)
+    from quest_season_leaderboard_view
+   where season_id = p_season_id and quest_coins > 0
+  on conflict (season_id, user_id) do nothing;
+
+  update quest_seasons set closed_at = now() where id = p_season_id and closed_at is null;
+end;
+$$;
+
+-- Adds monthly seasons up to now (so there are no gaps, even after a quiet
+-- month) and closes ended ones. A season stays open two days past its end so
+-- completions queued offline can still land before the snapshot.
+-- Internal; returns the current season.
+create or replace function public.ensure_quest_seasons()
+returns quest_seasons
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_last quest_seasons;
+  v_season quest_seasons;
+  v_starts_at timestamptz;
+begin
+  -- One caller at a time creates seasons
+  perform pg_advisory_xact_lock(hashtext('quest_seasons'));
+
+  loop
+    select * into v_last from quest_seasons order by ends_at desc limit 1;
+    exit when found and v_last.ends_at > now();
+
+    v_starts_at := coalesce(v_last.ends_at, date_trunc('month', now()));
+    insert into quest_seasons (starts_at, ends_at)
+    values (v_starts_at, date_trunc('month', v_starts_at) + interval '1 month');
+  end loop;
+
+  for v_season in
+    select * from quest_seasons
+     where closed_at is null and ends_at + interval '2 days' < now()
+     order by starts_at
+  loop
+    perform close_quest_season(v_season.id);
+  end loop;
+
+  select * into v_season from quest_seasons
+   where starts_at <= now() and ends_at > now();
+  return v_season;
+end;
+$$;
+
+-- Season a completion at that time belongs to (the first one for anything
+-- older). Internal.
+create or replace function public.quest_season_at(p_at timestamptz)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select id from quest_seasons where starts_at <= p_at and ends_at > p_at),
+    (select id from quest_seasons order by starts_at limit 1)
+  );
+$$;
+
+-- Completion time sent by a client (replayed from the offline outbox),
+-- clamped to now. Times from a closed season, or from before the current
+-- season's start minus the two-day grace window, are refused: the reward is
+-- keyed per season, so a backdated call would pay a recurring quest again for
+-- every past season. Internal.
+create or replace function public.quest_completion_time(p_at timestamptz)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_at timestamptz := least(coalesce(p_at, now()), now());
+  v_current quest_seasons := ensure_quest_seasons();
+begin
+  if v_at < v_current.starts_at - interval '2 days'
+     or exists (select 1 from quest_seasons where id = quest_season_at(v_at) and closed_at is not null) then
+    raise exception 'completion_too_old';
+  end if;
+  return v_at;
+end;
+$$;
+
+create or replace function public.current_quest_season()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season quest_seasons := ensure_quest_seasons();
+begin
+  return jsonb_build_object(
+    'id', v_season.id,
+    'starts_at', v_season.starts_at,
+    'ends_at', v_season.ends_at
+  );
+end;
+$$;
+
+-- Records the completion in its season and credits the quest's reward once
+-- per season. Shared by award_quest_completion and review_quest_submission.
+-- Internal.
+create or replace function public.complete_quest(
+  p_user_id uuid,
+  p_quest_id bigint,
+  p_completed_at timestamptz,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quest quests;
+  v_season_id bigint;
+begin
+  select * into v_quest from quests where id = p_quest_id;
+  if not found then
+    raise exception 'quest_not_found';
+  end if;
+
+  perform ensure_quest_seasons();
+  v_season_id := quest_season_at(p_completed_at);
+
+  if v_quest.season_id is not null and v_quest.season_id <> v_season_id then
+    raise exception 'quest_not_in_season';
+  end if;
+
+  insert into user_quests (user_id, quest_id, season_id, completed_at)
+  values (p_user_id, p_quest_id, v_season_id, p_completed_at)
+  on conflict (user_id, quest_id, season_id) do nothing;
+
+  -- Done already this season. Checked here rather than left to the ledger:
+  -- completions from before seasons were credited under the bare quest id.
+  if not found then
+    return (
+      select jsonb_build_object(
+               'applied', false,
+               'coins', coalesce(coins, 0),
+               'quest_coins', coalesce(quest_coins, 0),
+               'xp', coalesce(xp, 0)
+             )
+        from profiles
+       where id = p_user_id
+    );
+  end if;
+
+  return apply_ledger_entry(
+    p_user_id, 'quest', p_quest_id::text || ':' || v_season_id, 0, coalesce(v_quest.xp_reward, 0), 0,
+    p_metadata || jsonb_build_object('occurred_at', p_completed_at, 'season_id', v_season_id)
+  );
+end;
+$$;
+
+-- Now takes the chosen quiz answer
+drop function if exists public.award_quest_completion(bigint, timestamptz);
+
+create or replace function public.award_quest_completion(
+  p_quest_id bigint,
+  p_answer text default null,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_quest quests;
+  v_completed_at timestamptz := quest_completion_time(p_completed_at);
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_quest from quests where id = p_quest_id;
+  if not found then
+    raise exception 'quest_not_found';
+  end if;
+  if v_quest.proof_type = 'photo' then
+    raise exception 'photo_proof_required';
+  end if;
+  -- Quiz quests are graded here rather than trusted to the app
+  if p_answer is null then
+    raise exception 'answer_required';
+  end if;
+  -- Any language's answer: the options were shown in the farmer's language
+  if not coalesce(p_answer = any (array[
+    v_quest.correct_answer_en, v_quest.correct_answer_hi,
+    v_quest.correct_answer_pa, v_quest.correct_answer_ml
+  ]), false) then
+    raise exception 'incorrect_answer';
+  end if;
+
+  return complete_quest(v_user_id, p_quest_id, v_completed_at);
+end;
+$$;
+
+-- Unchanged from *_quest_photo_proof.sql except that "already completed"
+-- means this season
+create or replace function public.submit_quest_proof(
+  p_quest_id bigint,
+  p_photo_path text,
+  p_taken_at timestamptz default null,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_submitted_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_submitted_at timestamptz := quest_completion_time(p_submitted_at);
+  v_submission quest_submissions;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from quests where id = p_quest_id and proof_type = 'photo') then
+    raise exception 'quest_not_found';
+  end if;
+
+  if coalesce(p_photo_path, '') not like v_user_id::text || '/%' then
+    raise exception 'invalid_photo_path';
+  end if;
+
+  perform ensure_quest_seasons();
+  if exists (
+    select 1 from user_quests
+     where user_id = v_user_id
+       and quest_id = p_quest_id
+       and season_id = quest_season_at(v_submitted_at)
+  ) then
+    raise exception 'quest_already_completed';
+  end if;
+
+  insert into quest_submissions (user_id, quest_id, photo_path, taken_at, latitude, longitude, submitted_at)
+  values (
+    v_user_id,
+    p_quest_id,
+    p_photo_path,
+    case when p_taken_at is not null then least(p_taken_at, now()) end,
+    p_latitude,
+    p_longitude,
+    v_submitted_at
+  )
+  on conflict (user_id, quest_id) where status = 'pending_review' do update
+    set photo_path = excluded.photo_path,
+        taken_at = excluded.taken_at,
+        latitude = excluded.latitude,
+        longitude = excluded.longitude,
+        submitted_at = excluded.submitted_at
+  returning * into v_submission;
+
+  return jsonb_build_object('submission_id', v_submission.id, 'status', v_submission.status);
+end;
+$$;
+
+-- An approved photo counts in the season it was sent in
+create or replace function public.review_quest_submission(
+  p_submission_id bigint,
+  p_approve boolean,
+  p_comment text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reviewer_id uuid := auth.uid();
+  v_submission quest_submissions;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+begin
+  if not has_content_role() then
+    raise exception 'not_authorized';
+  end if;
+
+  select * into v_submission from quest_submissions where id = p_submission_id for update;
+  if not found then
+    raise exception 'submission_not_found';
+  end if;
+  if v_submission.status <> 'pending_review' then
+    raise exception 'already_reviewed';
+  end if;
+  if v_submission.user_id = v_reviewer_id then
+    raise exception 'cannot_review_own_submission';
+  end if;
+  if not p_approve and v_comment is null then
+    raise exception 'comment_required';
+  end if;
+
+  update quest_submissions
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         reviewer_id = v_reviewer_id,
+         review_comment = v_comment,
+         reviewed_at = now()
+   where id = p_submission_id;
+
+  if p_approve then
+    perform complete_quest(
+      v_submission.user_id,
+      v_submission.quest_id,
+      v_submission.submitted_at,
+      jsonb_build_object('submission_id', v_submission.id, 'reviewer_id', v_reviewer_id)
+    );
+  end if;
+
+  return jsonb_build_object(
+    'submission_id', v_submission.id,
+    'status', case when p_approve then 'approved' else 'rejected' end
+  );
+end;
+$$;
+
+revoke all on function public.close_quest_season(bigint) from public, anon, authenticated;
+revoke all on function public.ensure_quest_seasons() from public, anon, authenticated;
+revoke all on function public.quest_season_at(timestamptz) from public, anon, authenticated;
+revoke all on function public.quest_completion_time(timestamptz) from public, anon, authenticated;
+revoke all on function public.complete_quest(uuid, bigint, timestamptz, jsonb) from public, anon, authenticated;
+revoke all on function public.award_quest_completion(bigint, text, timestamptz) from public, anon;
+revoke all on function public.current_quest_season() from public;
+
+grant execute on function public.current_quest_season() to anon, authenticated;
+grant execute on function public.award_quest_completion(bigint, text, timestamptz) to authenticated;
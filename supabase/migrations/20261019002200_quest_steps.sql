@@ -0,0 +1,396 @@
+-- Multi-step quests: a quest can be made of ordered steps instead of a single
+-- quiz or photo. Each step is checked on the server when it is done:
+--
+--   lesson    the linked lesson is completed
+--   question  the quest's quiz question is answered correctly
+--   photo     a photo proof is approved (review_quest_submission)
+--   activity  logged on or after the given day of the season
+--
+-- Steps are done in order and count per season, like quest completions
+-- (see *_quest_seasons.sql). Finishing the last step completes the quest and
+-- credits its quest coins. Quests without steps work as before.
+
+create table if not exists public.quest_steps (
+  id bigint generated always as identity primary key,
+  quest_id bigint not null references public.quests (id) on delete cascade,
+  position integer not null default 0,
+  kind text not null check (kind in ('lesson', 'question', 'photo', 'activity')),
+  lesson_id bigint references public.lessons (id) on delete set null, -- kind = 'lesson'
+  activity_day smallint check (activity_day between 1 and 31), -- kind = 'activity'
+  title_en text,
+  title_hi text,
+  title_pa text,
+  title_ml text
+);
+
+create index if not exists quest_steps_quest_idx on public.quest_steps (quest_id, position);
+
+alter table public.quest_steps enable row level security;
+
+drop policy if exists "Quest steps are public" on public.quest_steps;
+create policy "Quest steps are public" on public.quest_steps for select using (true);
+
+drop policy if exists "Content editors manage quest steps" on public.quest_steps;
+create policy "Content editors manage quest steps"
+  on public.quest_steps for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+create table if not exists public.user_quest_steps (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  step_id bigint not null references public.quest_steps (id) on delete cascade,
+  season_id bigint not null references public.quest_seasons (id) on delete cascade,
+  completed_at timestamptz not null default now(),
+  primary key (user_id, step_id, season_id)
+);
+
+alter table public.user_quest_steps enable row level security;
+
+drop policy if exists "Users read their quest steps" on public.user_quest_steps;
+create policy "Users read their quest steps"
+  on public.user_quest_steps for select
+  using (auth.uid() = user_id);
+
+-- No insert/update/delete policies: rows are only written by the functions below.
+
+-- --- FUNCTIONS ---
+-- First step of the quest the user hasn't done in that season (null when all
+-- are done). Internal.
+create or replace function public.next_quest_step(
+  p_user_id uuid,
+  p_quest_id bigint,
+  p_season_id bigint
+)
+returns quest_steps
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.*
+    from quest_steps s
+   where s.quest_id = p_quest_id
+     and not exists (
+       select 1 from user_quest_steps u
+        where u.user_id = p_user_id and u.step_id = s.id and u.season_id = p_season_id
+     )
+   order by s.position, s.id
+   limit 1;
+$$;
+
+-- Stores a checked step; the last one completes the quest. Internal.
+create or replace function public.record_quest_step(
+  p_user_id uuid,
+  p_step_id bigint,
+  p_completed_at timestamptz,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_step quest_steps;
+  v_season_id bigint;
+  v_next quest_steps;
+  v_done integer;
+  v_total integer;
+  v_result jsonb := '{}'::jsonb;
+begin
+  select * into v_step from quest_steps where id = p_step_id;
+  if not found then
+    raise exception 'step_not_found';
+  end if;
+
+  perform ensure_quest_seasons();
+  v_season_id := quest_season_at(p_completed_at);
+
+  v_next := next_quest_step(p_user_id, v_step.quest_id, v_season_id);
+  if v_next.id is not null and v_next.id <> v_step.id
+     and (v_next.position, v_next.id) < (v_step.position, v_step.id) then
+    raise exception 'previous_step_incomplete';
+  end if;
+
+  insert into user_quest_steps (user_id, step_id, season_id, completed_at)
+  values (p_user_id, p_step_id, v_season_id, p_completed_at)
+  on conflict (user_id, step_id, season_id) do nothing;
+
+  select count(*) into v_total from quest_steps where quest_id = v_step.quest_id;
+  select count(*) into v_done
+    from user_quest_steps u
+    join quest_steps s on s.id = u.step_id
+   where u.user_id = p_user_id and u.season_id = v_season_id and s.quest_id = v_step.quest_id;
+
+  if v_done >= v_total then
+    v_result := complete_quest(p_user_id, v_step.quest_id, p_completed_at, p_metadata);
+  end if;
+
+  return v_result || jsonb_build_object(
+    'step_id', v_step.id,
+    'steps_done', v_done,
+    'steps_total', v_total,
+    'quest_completed', v_done >= v_total
+  );
+end;
+$$;
+
+-- Lesson, question and activity steps. Replayed from the offline outbox, so
+-- the time comes from the device (see quest_completion_time).
+create or replace function public.complete_quest_step(
+  p_step_id bigint,
+  p_answer text default null,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_completed_at timestamptz := quest_completion_time(p_completed_at);
+  v_step quest_steps;
+  v_quest quests;
+  v_season quest_seasons;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_step from quest_steps where id = p_step_id;
+  if not found then
+    raise exception 'step_not_found';
+  end if;
+  select * into v_quest from quests where id = v_step.quest_id;
+
+  perform ensure_quest_seasons();
+  select * into v_season from quest_seasons where id = quest_season_at(v_completed_at);
+  if v_quest.season_id is not null and v_quest.season_id <> v_season.id then
+    raise exception 'quest_not_in_season';
+  end if;
+
+  if v_step.kind = 'lesson' then
+    if not exists (
+      select 1 from user_lessons where user_id = v_user_id and lesson_id = v_step.lesson_id
+    ) then
+      raise exception 'lesson_not_completed';
+    end if;
+  elsif v_step.kind = 'question' then
+    -- Any language's answer: the options were shown in the farmer's language
+    if not coalesce(p_answer = any (array[
+      v_quest.correct_answer_en, v_quest.correct_answer_hi,
+      v_quest.correct_answer_pa, v_quest.correct_answer_ml
+    ]), false) then
+      raise exception 'incorrect_answer';
+    end if;
+  elsif v_step.kind = 'activity' then
+    if v_completed_at < v_season.starts_at + make_interval(days => coalesce(v_step.activity_day, 1) - 1) then
+      raise exception 'activity_not_open';
+    end if;
+  else
+    raise exception 'photo_proof_required';
+  end if;
+
+  return record_quest_step(v_user_id, p_step_id, v_completed_at);
+end;
+$$;
+
+-- Stepped quests are completed through their steps (the rest is unchanged
+-- from *_quest_seasons.sql)
+create or replace function public.award_quest_completion(
+  p_quest_id bigint,
+  p_answer text default null,
+  p_completed_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_quest quests;
+  v_completed_at timestamptz := quest_completion_time(p_completed_at);
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_quest from quests where id = p_quest_id;
+  if not found then
+    raise exception 'quest_not_found';
+  end if;
+  if exists (select 1 from quest_steps where quest_id = p_quest_id) then
+    raise exception 'quest_has_steps';
+  end if;
+  if v_quest.proof_type = 'photo' then
+    raise exception 'photo_proof_required';
+  end if;
+  -- Quiz quests are graded here rather than trusted to the app
+  if p_answer is null then
+    raise exception 'answer_required';
+  end if;
+  -- Any language's answer: the options were shown in the farmer's language
+  if not coalesce(p_answer = any (array[
+    v_quest.correct_answer_en, v_quest.correct_answer_hi,
+    v_quest.correct_answer_pa, v_quest.correct_answer_ml
+  ]), false) then
+    raise exception 'incorrect_answer';
+  end if;
+
+  return complete_quest(v_user_id, p_quest_id, v_completed_at);
+end;
+$$;
+
+-- Photos are also taken for the photo steps of stepped quests, once the steps
+-- before them are done (the rest is unchanged from *_quest_seasons.sql)
+create or replace function public.submit_quest_proof(
+  p_quest_id bigint,
+  p_photo_path text,
+  p_taken_at timestamptz default null,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_submitted_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_submitted_at timestamptz := quest_completion_time(p_submitted_at);
+  v_submission quest_submissions;
+  v_season_id bigint;
+  v_next quest_steps;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (
+    select 1 from quests q
+     where q.id = p_quest_id
+       and (q.proof_type = 'photo'
+            or exists (select 1 from quest_steps s where s.quest_id = q.id and s.kind = 'photo'))
+  ) then
+    raise exception 'quest_not_found';
+  end if;
+
+  if coalesce(p_photo_path, '') not like v_user_id::text || '/%' then
+    raise exception 'invalid_photo_path';
+  end if;
+
+  perform ensure_quest_seasons();
+  v_season_id := quest_season_at(v_submitted_at);
+  if exists (
+    select 1 from user_quests
+     where user_id = v_user_id and quest_id = p_quest_id and season_id = v_season_id
+  ) then
+    raise exception 'quest_already_completed';
+  end if;
+
+  if exists (select 1 from quest_steps where quest_id = p_quest_id) then
+    v_next := next_quest_step(v_user_id, p_quest_id, v_season_id);
+    if v_next.kind is distinct from 'photo' then
+      raise exception 'previous_step_incomplete';
+    end if;
+  end if;
+
+  insert into quest_submissions (user_id, quest_id, photo_path, taken_at, latitude, longitude, submitted_at)
+  values (
+    v_user_id,
+    p_quest_id,
+    p_photo_path,
+    case when p_taken_at is not null then least(p_taken_at, now()) end,
+    p_latitude,
+    p_longitude,
+    v_submitted_at
+  )
+  on conflict (user_id, quest_id) where status = 'pending_review' do update
+    set photo_path = excluded.photo_path,
+        taken_at = excluded.taken_at,
+        latitude = excluded.latitude,
+        longitude = excluded.longitude,
+        submitted_at = excluded.submitted_at
+  returning * into v_submission;
+
+  return jsonb_build_object('submission_id', v_submission.id, 'status', v_submission.status);
+end;
+$$;
+
+-- Approving a stepped quest's photo checks off its photo step (the rest is
+-- unchanged from *_quest_seasons.sql)
+create or replace function public.review_quest_submission(
+  p_submission_id bigint,
+  p_approve boolean,
+  p_comment text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reviewer_id uuid := auth.uid();
+  v_submission quest_submissions;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+  v_next quest_steps;
+  v_metadata jsonb;
+begin
+  if not has_content_role() then
+    raise exception 'not_authorized';
+  end if;
+
+  select * into v_submission from quest_submissions where id = p_submission_id for update;
+  if not found then
+    raise exception 'submission_not_found';
+  end if;
+  if v_submission.status <> 'pending_review' then
+    raise exception 'already_reviewed';
+  end if;
+  if v_submission.user_id = v_reviewer_id then
+    raise exception 'cannot_review_own_submission';
+  end if;
+  if not p_approve and v_comment is null then
+    raise exception 'comment_required';
+  end if;
+
+  update quest_submissions
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         reviewer_id = v_reviewer_id,
+         review_comment = v_comment,
+         reviewed_at = now()
+   where id = p_submission_id;
+
+  if p_approve then
+    v_metadata := jsonb_build_object('submission_id', v_submission.id, 'reviewer_id', v_reviewer_id);
+
+    if exists (select 1 from quest_steps where quest_id = v_submission.quest_id) then
+      perform ensure_quest_seasons();
+      v_next := next_quest_step(
+        v_submission.user_id, v_submission.quest_id, quest_season_at(v_submission.submitted_at)
+      );
+      if v_next.kind = 'photo' then
+        perform record_quest_step(v_submission.user_id, v_next.id, v_submission.submitted_at, v_metadata);
+      end if;
+    else
+      perform complete_quest(
+        v_submission.user_id, v_submission.quest_id, v_submission.submitted_at, v_metadata
+      );
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'submission_id', v_submission.id,
+    'status', case when p_approve then 'approved' else 'rejected' end
+  );
+end;
+$$;
+
+revoke all on function public.next_quest_step(uuid, bigint, bigint) from public, anon, authenticated;
+revoke all on function public.record_quest_step(uuid, bigint, timestamptz, jsonb) from public, anon, authenticated;
+revoke all on function public.complete_quest_step(bigint, text, timestamptz) from public, anon;
+
+grant execute on function public.complete_quest_step(bigint, text, timestamptz) to authenticated;
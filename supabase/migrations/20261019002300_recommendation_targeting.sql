@@ -0,0 +1,27 @@
+-- Targeting for the dashboard's "For you today" feed (utils/recommendations.ts).
+-- Lessons and quests can say when and where they matter most; the feed ranks
+-- by these, the farmer's crop, progress, missed quiz questions and farm data.
+-- Empty arrays mean "any month" / "anywhere".
+
+-- Calendar months (1-12) the content is most useful in, e.g. sowing lessons
+alter table public.lessons add column if not exists months smallint[] not null default '{}';
+alter table public.quests add column if not exists months smallint[] not null default '{}';
+
+-- States (as in profiles.farm_state) the content is written for. Content for
+-- other states is left out of the feed, but still shows on the map and list.
+alter table public.lessons add column if not exists states text[] not null default '{}';
+alter table public.quests add column if not exists states text[] not null default '{}';
+
+alter table public.lessons drop constraint if exists lessons_months_check;
+alter table public.lessons add constraint lessons_months_check
+  check (months <@ array[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]::smallint[]);
+alter table public.quests drop constraint if exists quests_months_check;
+alter table public.quests add constraint quests_months_check
+  check (months <@ array[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]::smallint[]);
+
+-- Schemes keep targeting in `rules` (see *_schemes_catalogue.sql); `months`
+-- is new and only ranks, it never affects eligibility. Crop insurance is
+-- pushed in the kharif and rabi enrolment windows.
+update public.schemes
+   set rules = rules || '{"months": [6, 7, 11, 12]}'::jsonb
+ where id = 'pmfby' and not rules ? 'months';
@@ -0,0 +1,211 @@
+-- Crop calendar: per-crop stage templates with dated tasks, anchored to the
+-- sowing date each farmer enters (see utils/cropCalendar.ts). Days count
+-- from sowing (day 0). Lessons and quests can be tagged with a stage so the
+-- calendar links to them and the "For you today" feed favours them.
+
+create table if not exists public.crop_stages (
+  id bigserial primary key,
+  crop_id text not null references public.crops (id) on delete cascade,
+  kind text not null
+    check (kind in ('sowing', 'irrigation', 'fertilising', 'pest_watch', 'harvest')),
+  start_day integer not null check (start_day >= 0),
+  end_day integer not null,
+  -- Optional; the app names the stage after its kind when empty
+  title_en text,
+  title_hi text,
+  title_pa text,
+  title_ml text,
+  unique (crop_id, kind),
+  check (end_day >= start_day)
+);
+
+create table if not exists public.crop_stage_tasks (
+  id bigserial primary key,
+  stage_id bigint not null references public.crop_stages (id) on delete cascade,
+  day integer not null check (day >= 0),
+  -- Repeats every N days until the stage ends (e.g. irrigation rounds)
+  repeat_days integer check (repeat_days > 0),
+  title_en text not null,
+  title_hi text,
+  title_pa text,
+  title_ml text
+);
+
+create index if not exists crop_stage_tasks_stage_idx
+  on public.crop_stage_tasks (stage_id, day);
+
+-- One sowing date per farmer and crop; switching crops keeps the old one
+create table if not exists public.crop_plantings (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  crop_id text not null references public.crops (id) on delete cascade,
+  sown_on date not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, crop_id)
+);
+
+alter table public.lessons add column if not exists stage text
+  check (stage in ('sowing', 'irrigation', 'fertilising', 'pest_watch', 'harvest'));
+alter table public.quests add column if not exists stage text
+  check (stage in ('sowing', 'irrigation', 'fertilising', 'pest_watch', 'harvest'));
+
+alter table public.crop_stages enable row level security;
+alter table public.crop_stage_tasks enable row level security;
+alter table public.crop_plantings enable row level security;
+
+drop policy if exists "Crop stages are public" on public.crop_stages;
+create policy "Crop stages are public" on public.crop_stages for select using (true);
+
+drop policy if exists "Content editors manage crop stages" on public.crop_stages;
+create policy "Content editors manage crop stages"
+  on public.crop_stages for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Crop stage tasks are public" on public.crop_stage_tasks;
+create policy "Crop stage tasks are public" on public.crop_stage_tasks for select using (true);
+
+drop policy if exists "Content editors manage crop stage tasks" on public.crop_stage_tasks;
+create policy "Content editors manage crop stage tasks"
+  on public.crop_stage_tasks for all
+  using (public.has_content_role())
+  with check (public.has_content_role());
+
+drop policy if exists "Users manage their crop plantings" on public.crop_plantings;
+create policy "Users manage their crop plantings"
+  on public.crop_plantings for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- --- SEED ---
+-- Seasonal crops first; the perennials get calendars as editors write them.
+insert into public.crop_stages (crop_id, kind, start_day, end_day) values
+  ('rice',   'sowing',       0,  20),
+  ('rice',   'fertilising', 15,  60),
+  ('rice',   'irrigation',  21, 100),
+  ('rice',   'pest_watch',  30, 100),
+  ('rice',   'harvest',    105, 125),
+  ('banana', 'sowing',       0,  30),
+  ('banana', 'irrigation',   7, 300),
+  ('banana', 'fertilising', 30, 180),
+  ('banana', 'pest_watch',  60, 300),
+  ('banana', 'harvest',    300, 365),
+  ('ginger', 'sowing',       0,  15),
+  ('ginger', 'irrigation',  15, 200),
+  ('ginger', 'fertilising', 30, 120),
+  ('ginger', 'pest_watch',  45, 210),
+  ('ginger', 'harvest',    210, 240)
+on conflict (crop_id, kind) do nothing;
+
+insert into public.crop_stage_tasks (stage_id, day, repeat_days, title_en, title_hi, title_pa, title_ml)
+select s.id, t.day, t.repeat_days, t.title_en, t.title_hi, t.title_pa, t.title_ml
+  from (values
+    ('rice', 'sowing', 0, null::integer,
+      'Sow seeds in the nursery bed',
+      'नर्सरी में बीज बोएं',
+      'ਨਰਸਰੀ ਵਿੱਚ ਬੀਜ ਬੀਜੋ',
+      'ഞാറ്റടിയിൽ വിത്ത് വിതയ്ക്കുക'),
+    ('rice', 'sowing', 20, null,
+      'Transplant seedlings to the main field',
+      'पौध को मुख्य खेत में रोपें',
+      'ਪਨੀਰੀ ਨੂੰ ਮੁੱਖ ਖੇਤ ਵਿੱਚ ਲਗਾਓ',
+      'ഞാറ് പ്രധാന വയലിലേക്ക് പറിച്ചുനടുക'),
+    ('rice', 'fertilising', 25, null,
+      'Apply the first urea dose',
+      'यूरिया की पहली खुराक डालें',
+      'ਯੂਰੀਆ ਦੀ ਪਹਿਲੀ ਖੁਰਾਕ ਪਾਓ',
+      'യൂറിയയുടെ ആദ്യ ഡോസ് നൽകുക'),
+    ('rice', 'fertilising', 50, null,
+      'Top-dress urea as panicles start',
+      'बाली निकलते समय यूरिया की ऊपरी खुराक दें',
+      'ਸਿੱਟੇ ਨਿਕਲਣ ਵੇਲੇ ਯੂਰੀਆ ਦੀ ਉਪਰਲੀ ਖੁਰਾਕ ਪਾਓ',
+      'കതിര് വരുമ്പോൾ യൂറിയ മേൽവളമായി നൽകുക'),
+    ('rice', 'irrigation', 21, 7,
+      'Keep 2-5 cm of standing water in the field',
+      'खेत में 2-5 सेमी पानी भरा रखें',
+      'ਖੇਤ ਵਿੱਚ 2-5 ਸੈਂਟੀਮੀਟਰ ਪਾਣੀ ਖੜ੍ਹਾ ਰੱਖੋ',
+      'വയലിൽ 2-5 സെ.മീ. വെള്ളം കെട്ടിനിർത്തുക'),
+    ('rice', 'pest_watch', 30, 10,
+      'Check leaves for stem borer and leaf folder',
+      'तना छेदक और पत्ती लपेटक के लिए पत्तियां जांचें',
+      'ਤਣਾ ਛੇਦਕ ਅਤੇ ਪੱਤਾ ਲਪੇਟ ਸੁੰਡੀ ਲਈ ਪੱਤੇ ਜਾਂਚੋ',
+      'തണ്ടുതുരപ്പനും ഇലചുരുട്ടിക്കുമായി ഇലകൾ പരിശോധിക്കുക'),
+    ('rice', 'harvest', 105, null,
+      'Drain the field before harvest',
+      'कटाई से पहले खेत से पानी निकाल दें',
+      'ਵਾਢੀ ਤੋਂ ਪਹਿਲਾਂ ਖੇਤ ਵਿੱਚੋਂ ਪਾਣੀ ਕੱਢ ਦਿਓ',
+      'കൊയ്ത്തിന് മുമ്പ് വയലിലെ വെള്ളം വറ്റിക്കുക'),
+    ('rice', 'harvest', 115, null,
+      'Harvest when most grains turn golden',
+      'ज़्यादातर दाने सुनहरे होने पर कटाई करें',
+      'ਜ਼ਿਆਦਾਤਰ ਦਾਣੇ ਸੁਨਹਿਰੀ ਹੋਣ ''ਤੇ ਵਾਢੀ ਕਰੋ',
+      'മിക്ക നെന്മണികളും സ്വർണ്ണനിറമാകുമ്പോൾ കൊയ്യുക'),
+
+    ('banana', 'sowing', 0, null,
+      'Plant suckers in prepared pits',
+      'तैयार गड्ढों में पुत्तियां लगाएं',
+      'ਤਿਆਰ ਟੋਇਆਂ ਵਿੱਚ ਪੁੱਤੀਆਂ ਲਗਾਓ',
+      'തയ്യാറാക്കിയ കുഴികളിൽ കന്നുകൾ നടുക'),
+    ('banana', 'irrigation', 7, 5,
+      'Water the plants',
+      'पौधों को पानी दें',
+      'ਬੂਟਿਆਂ ਨੂੰ ਪਾਣੀ ਦਿਓ',
+      'ചെടികൾ നനയ്ക്കുക'),
+    ('banana', 'fertilising', 30, 60,
+      'Apply the next fertiliser dose',
+      'खाद की अगली खुराक डालें',
+      'ਖਾਦ ਦੀ ਅਗਲੀ ਖੁਰਾਕ ਪਾਓ',
+      'അടുത്ത വളം നൽകുക'),
+    ('banana', 'pest_watch', 60, 30,
+      'Check for stem weevil and leaf spot',
+      'तना घुन और पत्ती धब्बा रोग की जांच करें',
+      'ਤਣੇ ਦੀ ਸੁੰਡੀ ਅਤੇ ਪੱਤਾ ਧੱਬਾ ਰੋਗ ਦੀ ਜਾਂਚ ਕਰੋ',
+      'തടതുരപ്പൻ പുഴുവും ഇലപ്പുള്ളി രോഗവും പരിശോധിക്കുക'),
+    ('banana', 'harvest', 300, null,
+      'Prop up plants with heavy bunches',
+      'भारी गुच्छों वाले पौधों को सहारा दें',
+      'ਭਾਰੀ ਗੁੱਛਿਆਂ ਵਾਲੇ ਬੂਟਿਆਂ ਨੂੰ ਸਹਾਰਾ ਦਿਓ',
+      'കനമുള്ള കുലകളുള്ള വാഴകൾക്ക് താങ്ങ് നൽകുക'),
+    ('banana', 'harvest', 330, null,
+      'Harvest when the fingers are full and rounded',
+      'फलियां भरी और गोल होने पर कटाई करें',
+      'ਫਲੀਆਂ ਭਰੀਆਂ ਅਤੇ ਗੋਲ ਹੋਣ ''ਤੇ ਕਟਾਈ ਕਰੋ',
+      'കായകൾ നിറഞ്ഞ് ഉരുണ്ടാൽ കുല വെട്ടുക'),
+
+    ('ginger', 'sowing', 0, null,
+      'Plant seed rhizomes on raised beds',
+      'उठी हुई क्यारियों में बीज प्रकंद लगाएं',
+      'ਉੱਚੀਆਂ ਕਿਆਰੀਆਂ ਵਿੱਚ ਬੀਜ ਗੰਢੀਆਂ ਲਗਾਓ',
+      'ഉയർത്തിയ വാരങ്ങളിൽ വിത്തിഞ്ചി നടുക'),
+    ('ginger', 'sowing', 2, null,
+      'Mulch the beds with green leaves',
+      'क्यारियों को हरी पत्तियों से ढकें',
+      'ਕਿਆਰੀਆਂ ਨੂੰ ਹਰੇ ਪੱਤਿਆਂ ਨਾਲ ਢਕੋ',
+      'വാരങ്ങൾ പച്ചിലകൊണ്ട് പുതയിടുക'),
+    ('ginger', 'irrigation', 15, 10,
+      'Water the beds if there has been no rain',
+      'बारिश न हुई हो तो क्यारियों में पानी दें',
+      'ਮੀਂਹ ਨਾ ਪਿਆ ਹੋਵੇ ਤਾਂ ਕਿਆਰੀਆਂ ਨੂੰ ਪਾਣੀ ਦਿਓ',
+      'മഴ ഇല്ലെങ്കിൽ വാരങ്ങൾ നനയ്ക്കുക'),
+    ('ginger', 'fertilising', 45, null,
+      'Apply fertiliser and earth up the beds',
+      'खाद डालें और क्यारियों पर मिट्टी चढ़ाएं',
+      'ਖਾਦ ਪਾਓ ਅਤੇ ਕਿਆਰੀਆਂ ''ਤੇ ਮਿੱਟੀ ਚੜ੍ਹਾਓ',
+      'വളം നൽകി വാരങ്ങളിൽ മണ്ണ് കയറ്റുക'),
+    ('ginger', 'fertilising', 90, null,
+      'Give the second fertiliser dose and mulch again',
+      'खाद की दूसरी खुराक दें और फिर से ढकें',
+      'ਖਾਦ ਦੀ ਦੂਜੀ ਖੁਰਾਕ ਪਾਓ ਅਤੇ ਮੁੜ ਢਕੋ',
+      'രണ്ടാം വളം നൽകി വീണ്ടും പുതയിടുക'),
+    ('ginger', 'pest_watch', 45, 15,
+      'Check for rhizome rot and shoot borer',
+      'प्रकंद सड़न और तना छेदक की जांच करें',
+      'ਗੰਢੀ ਗਲਣ ਅਤੇ ਤਣਾ ਛੇਦਕ ਦੀ ਜਾਂਚ ਕਰੋ',
+      'മൂടുചീയലും തണ്ടുതുരപ്പനും പരിശോധിക്കുക'),
+    ('ginger', 'harvest', 225, null,
+      'Harvest when the leaves turn yellow and dry',
+      'पत्तियां पीली होकर सूखने पर खुदाई करें',
+      'ਪੱਤੇ ਪੀਲੇ ਹੋ ਕੇ ਸੁੱਕਣ ''ਤੇ ਪੁਟਾਈ ਕਰੋ',
+      'ഇലകൾ മഞ്ഞളിച്ച് ഉണങ്ങുമ്പോൾ വിളവെടുക്കുക')
+  ) as t (crop_id, kind, day, repeat_days, title_en, title_hi, title_pa, title_ml)
+  join public.crop_stages s on s.crop_id = t.crop_id and s.kind = t.kind
+ where not exists (select 1 from public.crop_stage_tasks);
@@ -0,0 +1,31 @@
+-- Local development data only: seeded by `supabase db reset`, never migrated
+-- to the hosted project.
+
+-- --- LOCAL SMS STAND-IN ---
+-- Wired up as the Send SMS auth hook in supabase/config.toml: codes land in
+-- dev_sms_inbox instead of a real SMS.
+create table if not exists public.dev_sms_inbox (
+  id bigint generated always as identity primary key,
+  phone text not null,
+  otp text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.dev_sms_inbox enable row level security;
+
+create or replace function public.dev_send_sms(event jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  insert into public.dev_sms_inbox (phone, otp)
+  values (event -> 'user' ->> 'phone', event -> 'sms' ->> 'otp');
+  raise log 'dev SMS to %: %', event -> 'user' ->> 'phone', event -> 'sms' ->> 'otp';
+  return '{}'::jsonb;
+end;
+$$;
+
+revoke all on function public.dev_send_sms(jsonb) from public, anon, authenticated;
+grant execute on function public.dev_send_sms(jsonb) to supabase_auth_admin;
+grant insert on table public.dev_sms_inbox to supabase_auth_admin;
+grant usage on schema public to supabase_auth_admin;
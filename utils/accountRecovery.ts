@@ -0,0 +1,42 @@
+import { invokeAuthFunction } from "@/utils/phoneAuth";
+import { supabase } from "@/utils/supabase";
+
+// Forgotten-password reset through the account-recovery edge function.
+// Errors are PhoneAuthErrors (see phoneAuthMessage).
+export type RecoveryMethod = "otp" | "pin";
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const isValidRecoveryPin = (pin: string) => /^\d{6}$/.test(pin);
+
+// Resolves the resend cooldown in seconds
+export const sendRecoveryOtp = async (phone: string): Promise<number> => {
+  const data = await invokeAuthFunction("account-recovery", {
+    action: "send",
+    phone,
+  });
+  return data.retryAfter ?? 30;
+};
+
+// Sets the new password and signs the account out on every device
+export const resetPassword = async (
+  phone: string,
+  method: RecoveryMethod,
+  code: string,
+  password: string,
+) => {
+  await invokeAuthFunction("account-recovery", {
+    action: "reset",
+    phone,
+    method,
+    code,
+    password,
+  });
+};
+
+// For the signed-in user; replaces any previous PIN. Only accepted within
+// 10 minutes of signing in with an OTP or password (e.g. right after signup).
+export const setRecoveryPin = async (pin: string) => {
+  const { error } = await supabase.rpc("set_recovery_pin", { p_pin: pin });
+  if (error) throw error;
+};
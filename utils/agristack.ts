@@ -0,0 +1,64 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+import { supabase } from "@/utils/supabase";
+
+export type AgriStackStatus = "unverified" | "verified" | "not_found";
+
+// Farm facts from the profile row. Registry-verified values are written by the
+// verify-agristack edge function; recommendations and scheme matching read this.
+export interface FarmProfile {
+  agristackId: string | null;
+  status: AgriStackStatus;
+  verifiedAt: string | null;
+  landSizeHectares: number | null;
+  state: string | null;
+  district: string | null;
+  soilType: string | null;
+  crops: string[]; // registry crops, falling back to the selected crop
+}
+
+// Columns needed by toFarmProfile (keeps selects small)
+export const FARM_PROFILE_COLUMNS =
+  "selected_crop, agristack_id, agristack_status, agristack_verified_at, land_size_hectares, farm_state, farm_district, soil_type, registry_crops";
+
+export const toFarmProfile = (row: any): FarmProfile => {
+  const registryCrops: string[] = row?.registry_crops || [];
+  return {
+    agristackId: row?.agristack_id ?? null,
+    status: row?.agristack_status || "unverified",
+    verifiedAt: row?.agristack_verified_at ?? null,
+    landSizeHectares:
+      row?.land_size_hectares != null ? Number(row.land_size_hectares) : null,
+    state: row?.farm_state ?? null,
+    district: row?.farm_district ?? null,
+    soilType: row?.soil_type ?? null,
+    crops:
+      registryCrops.length > 0
+        ? registryCrops
+        : row?.selected_crop
+          ? [row.selected_crop]
+          : [],
+  };
+};
+
+export type VerifyResult =
+  | { status: "verified"; profile: FarmProfile }
+  | { status: "not_found" }
+  | { status: "taken" }; // linked to another account
+
+// Throws on network/registry errors; "not_found" and "taken" are normal outcomes
+export const verifyAgriStack = async (
+  farmerId: string,
+): Promise<VerifyResult> => {
+  const { data, error } = await supabase.functions.invoke("verify-agristack", {
+    body: { farmerId },
+  });
+  if (error instanceof FunctionsHttpError && error.context.status === 409) {
+    return { status: "taken" };
+  }
+  if (error) throw error;
+
+  return data.status === "verified"
+    ? { status: "verified", profile: toFarmProfile(data.profile) }
+    : { status: "not_found" };
+};
@@ -0,0 +1,219 @@
+import { ImagePickerAsset } from "expo-image-picker";
+
+import { LESSON_MEDIA_BUCKET } from "@/utils/lessonMedia";
+import { LOCALIZED_FIELDS, SUPPORTED_LANGUAGES } from "@/utils/localize";
+import { supabase } from "@/utils/supabase";
+
+// Content admin console (app/admin). Writes are allowed by RLS only for
+// profiles with a content role (see supabase/migrations/*_content_admin.sql).
+export type ContentRole = "farmer" | "extension_worker" | "admin";
+
+export const CONTENT_ROLES: ContentRole[] = ["admin", "extension_worker"];
+
+type Row = Record<string, any>;
+
+export const fetchMyRole = async (): Promise<ContentRole | null> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+  return (data?.role as ContentRole) ?? "farmer";
+};
+
+export const canEditContent = (role: ContentRole | null) =>
+  !!role && CONTENT_ROLES.includes(role);
+
+// Every `<field>_<lang>` column of a content type, e.g. title_en ... title_ml
+export const localizedColumns = (
+  type: "lessons" | "lesson_quizzes" | "quests",
+) =>
+  LOCALIZED_FIELDS[type].flatMap((field) =>
+    SUPPORTED_LANGUAGES.map((lang) => `${field}_${lang}`),
+  );
+
+// Insert when there's no id yet; resolves the saved row
+const saveRow = async (table: string, row: Row): Promise<Row> => {
+  const { id, ...values } = row;
+  const query = id
+    ? supabase.from(table).update(values).eq("id", id)
+    : supabase.from(table).insert(values);
+  const { data, error } = await query.select("*").single();
+  if (error) throw error;
+  return data;
+};
+
+const deleteRow = async (table: string, id: number) => {
+  const { error } = await supabase.from(table).delete().eq("id", id);
+  if (error) throw error;
+};
+
+// --- LESSONS ---
+export const fetchAdminLessons = async () => {
+  const { data, error } = await supabase
+    .from("lessons")
+    .select("*")
+    .order("sequence", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAdminLesson = async (id: number) => {
+  const [lessonRes, quizRes, prereqRes] = await Promise.all([
+    supabase.from("lessons").select("*").eq("id", id).single(),
+    supabase
+      .from("lesson_quizzes")
+      .select("*")
+      .eq("lesson_id", id)
+      .order("position", { ascending: true })
+      .order("id", { ascending: true }),
+    supabase
+      .from("lesson_prerequisites")
+      .select("requires_lesson_id")
+      .eq("lesson_id", id),
+  ]);
+  if (lessonRes.error) throw lessonRes.error;
+  if (quizRes.error) throw quizRes.error;
+  if (prereqRes.error) throw prereqRes.error;
+  return {
+    lesson: lessonRes.data,
+    questions: quizRes.data || [],
+    requires: (prereqRes.data || []).map((p) => p.requires_lesson_id as number),
+  };
+};
+
+export const saveLesson = (lesson: Row) => saveRow("lessons", lesson);
+export const deleteLesson = (id: number) => deleteRow("lessons", id);
+
+// `ids` in the new order; sequences become 1..N
+export const reorderLessons = async (ids: number[]) => {
+  const { error } = await supabase.rpc("reorder_lessons", {
+    p_lesson_ids: ids,
+  });
+  if (error) throw error;
+};
+
+// Replaces the lesson's prerequisite edges; rejects cycles
+// ("prerequisite_cycle")
+export const setLessonPrerequisites = async (
+  lessonId: number,
+  requires: number[],
+) => {
+  const { error } = await supabase.rpc("set_lesson_prerequisites", {
+    p_lesson_id: lessonId,
+    p_requires: requires,
+  });
+  if (error) throw error;
+};
+
+// --- MODULES ---
+export const fetchLessonModules = async () => {
+  const { data, error } = await supabase
+    .from("lesson_modules")
+    .select("*")
+    .order("sequence", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveLessonModule = (module: Row) =>
+  saveRow("lesson_modules", module);
+
+// --- GAMES ---
+// Registered with their bundles (see games/README.md); lessons pick one
+export const fetchGames = async () => {
+  const { data, error } = await supabase
+    .from("games")
+    .select("*")
+    .eq("is_active", true)
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveQuizQuestion = (question: Row) =>
+  saveRow("lesson_quizzes", question);
+export const deleteQuizQuestion = (id: number) =>
+  deleteRow("lesson_quizzes", id);
+
+// --- QUESTS ---
+export const fetchAdminQuests = async () => {
+  const { data, error } = await supabase
+    .from("quests")
+    .select("*")
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAdminQuest = async (id: number) => {
+  const { data, error } = await supabase
+    .from("quests")
+    .select("*")
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const saveQuest = (quest: Row) => saveRow("quests", quest);
+export const deleteQuest = (id: number) => deleteRow("quests", id);
+
+// Ordered checklist of a multi-step quest
+export const fetchAdminQuestSteps = async (questId: number) => {
+  const { data, error } = await supabase
+    .from("quest_steps")
+    .select("*")
+    .eq("quest_id", questId)
+    .order("position", { ascending: true })
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveQuestStep = (step: Row) => saveRow("quest_steps", step);
+export const deleteQuestStep = (id: number) => deleteRow("quest_steps", id);
+
+// --- MEDIA ---
+// Uploads to lesson-media/lessons/<id>/<name>_<timestamp>.<ext>; resolves the
+// storage path, which is what lesson rows and blocks store
+export const uploadLessonFile = async (
+  lessonId: number,
+  name: string,
+  asset: ImagePickerAsset,
+) => {
+  const isVideo = asset.type === "video";
+  const ext =
+    asset.fileName?.split(".").pop() ||
+    asset.mimeType?.split("/").pop() ||
+    (isVideo ? "mp4" : "jpg");
+  const path = `lessons/${lessonId}/${name}_${Date.now()}.${ext}`;
+
+  // On web the picker gives a blob: URL, on native a file:// URI
+  const body = await (await fetch(asset.uri)).arrayBuffer();
+  const { error } = await supabase.storage
+    .from(LESSON_MEDIA_BUCKET)
+    .upload(path, body, {
+      contentType: asset.mimeType || (isVideo ? "video/mp4" : "image/jpeg"),
+      upsert: true,
+    });
+  if (error) throw error;
+  return path;
+};
+
+// Stores the uploaded path on the lesson (thumbnail_url / video_url)
+export const uploadLessonMedia = async (
+  lessonId: number,
+  kind: "thumbnail" | "video",
+  asset: ImagePickerAsset,
+) => {
+  const path = await uploadLessonFile(lessonId, kind, asset);
+  const column = kind === "video" ? "video_url" : "thumbnail_url";
+  await saveLesson({ id: lessonId, [column]: path });
+  return path;
+};
@@ -0,0 +1,296 @@
+import { TranslationKeys } from "@/constants/translations";
+import { filterByTargetCrop } from "@/utils/crops";
+import { getGuestProgress, saveGuestChoices } from "@/utils/guestProgress";
+import { localizedValue, pickLocalizedColumns } from "@/utils/localize";
+import { fetchCurrentSeason, isQuestInSeason } from "@/utils/questSeasons";
+import { supabase } from "@/utils/supabase";
+
+// Crop calendar (see supabase/migrations/*_crop_calendar.sql): stage
+// templates per crop with tasks on days after sowing, placed on real dates
+// from the farmer's sowing date. Everything is computed on the device, so a
+// cached calendar keeps moving day by day offline.
+export type StageKind =
+  | "sowing"
+  | "irrigation"
+  | "fertilising"
+  | "pest_watch"
+  | "harvest";
+
+export const STAGE_KINDS: StageKind[] = [
+  "sowing",
+  "irrigation",
+  "fertilising",
+  "pest_watch",
+  "harvest",
+];
+
+export const STAGE_ICONS: Record<StageKind, string> = {
+  sowing: "seedling",
+  irrigation: "tint",
+  fertilising: "flask",
+  pest_watch: "bug",
+  harvest: "tractor",
+};
+
+type Row = Record<string, any>;
+
+// Title columns are kept raw (title_en, ...) for language switches offline;
+// a stage without a title is named after its kind (`stage_<kind>`)
+export interface CropStage {
+  id: number;
+  kind: StageKind;
+  startDay: number;
+  endDay: number;
+  [localizedColumn: string]: any;
+}
+
+export interface StageTask {
+  id: number;
+  stageId: number;
+  day: number;
+  repeatDays: number | null;
+  [localizedColumn: string]: any;
+}
+
+// Lessons and quests tagged with a stage, for every crop or this one
+export interface StageLink {
+  kind: "lesson" | "quest";
+  id: number;
+  stage: StageKind;
+  [localizedColumn: string]: any;
+}
+
+export interface CropCalendar {
+  cropId: string;
+  sownOn: string | null; // YYYY-MM-DD, null until the farmer sets it
+  stages: CropStage[];
+  tasks: StageTask[];
+  links: StageLink[];
+}
+
+export interface DatedTask {
+  task: StageTask;
+  stage: CropStage;
+  date: string; // YYYY-MM-DD
+  day: number;
+}
+
+export type StageStatus = "done" | "current" | "upcoming";
+
+// --- DATES (local calendar days, YYYY-MM-DD) ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// "12 Jun 2026"
+export const formatDateKey = (key: string, language: string) =>
+  parseDateKey(key).toLocaleDateString(language, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+// Day 0 is the sowing day; negative before it. Rounded for DST shifts.
+export const daysSinceSowing = (sownOn: string, now = new Date()) =>
+  Math.round(
+    (parseDateKey(toDateKey(now)).getTime() - parseDateKey(sownOn).getTime()) /
+      DAY_MS,
+  );
+
+// --- STAGES AND TASKS ---
+export const stageTitle = (
+  stage: CropStage,
+  language: string,
+  t: (key: TranslationKeys) => string,
+) => localizedValue(stage, "title", language) || t(`stage_${stage.kind}`);
+
+export const stageStatus = (stage: CropStage, day: number): StageStatus =>
+  day > stage.endDay ? "done" : day >= stage.startDay ? "current" : "upcoming";
+
+// Stages overlap (irrigation runs through pest watch); the latest to start
+// is the one the farmer is "in"
+export const currentStage = (calendar: CropCalendar, now = new Date()) => {
+  if (!calendar.sownOn) return null;
+  const day = daysSinceSowing(calendar.sownOn, now);
+  return (
+    calendar.stages
+      .filter((stage) => stageStatus(stage, day) === "current")
+      .sort((a, b) => b.startDay - a.startDay)[0] ?? null
+  );
+};
+
+// Task dates from today to `horizonDays` ahead, repeats included
+export const upcomingTasks = (
+  calendar: CropCalendar,
+  now = new Date(),
+  horizonDays = 30,
+): DatedTask[] => {
+  if (!calendar.sownOn) return [];
+  const sownOn = calendar.sownOn;
+  const today = daysSinceSowing(sownOn, now);
+  const stageById = new Map(calendar.stages.map((s) => [s.id, s]));
+
+  return calendar.tasks
+    .flatMap((task) => {
+      const stage = stageById.get(task.stageId);
+      if (!stage) return [];
+      const days: number[] = [];
+      const step = task.repeatDays ?? Infinity;
+      for (let day = task.day; day <= stage.endDay; day += step) {
+        if (day > today + horizonDays) break;
+        if (day >= today) days.push(day);
+        if (!task.repeatDays) break;
+      }
+      return days.map((day) => ({
+        task,
+        stage,
+        day,
+        date: addDays(sownOn, day),
+      }));
+    })
+    .sort((a, b) => a.day - b.day || a.stage.startDay - b.stage.startDay);
+};
+
+export const stageLinks = (calendar: CropCalendar, kind: StageKind) =>
+  calendar.links.filter((link) => link.stage === kind);
+
+// --- FETCHING ---
+const fetchSownOn = async (userId: string | null, cropId: string) => {
+  if (!userId) {
+    return (await getGuestProgress()).sowingDates[cropId] ?? null;
+  }
+  const { data, error } = await supabase
+    .from("crop_plantings")
+    .select("sown_on")
+    .eq("user_id", userId)
+    .eq("crop_id", cropId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.sown_on ?? null;
+};
+
+// Stage-tagged lessons and this season's quests for the crop
+const fetchStageLinks = async (cropId: string): Promise<StageLink[]> => {
+  const [lessonsRes, questsRes, season] = await Promise.all([
+    filterByTargetCrop(
+      supabase
+        .from("lessons")
+        .select("*")
+        .not("stage", "is", null)
+        .order("sequence"),
+      cropId,
+    ),
+    filterByTargetCrop(
+      supabase.from("quests").select("*").not("stage", "is", null).order("id"),
+      cropId,
+    ),
+    fetchCurrentSeason().catch(() => null),
+  ]);
+  if (lessonsRes.error) throw lessonsRes.error;
+  if (questsRes.error) throw questsRes.error;
+
+  const toLink = (kind: StageLink["kind"], row: Row): StageLink => ({
+    kind,
+    id: row.id,
+    stage: row.stage,
+    ...pickLocalizedColumns(row, ["title"]),
+  });
+  return [
+    ...(lessonsRes.data || []).map((row) => toLink("lesson", row)),
+    ...(questsRes.data || [])
+      .filter((row) => !season || isQuestInSeason(row, season))
+      .map((row) => toLink("quest", row)),
+  ];
+};
+
+export const fetchCropCalendar = async (
+  userId: string | null,
+  cropId: string,
+): Promise<CropCalendar> => {
+  const { data: stageRows, error } = await supabase
+    .from("crop_stages")
+    .select("*")
+    .eq("crop_id", cropId)
+    .order("start_day");
+  if (error) throw error;
+  const stageIds = (stageRows || []).map((s) => s.id);
+
+  const [tasksRes, sownOn, links] = await Promise.all([
+    supabase
+      .from("crop_stage_tasks")
+      .select("*")
+      .in("stage_id", stageIds)
+      .order("day"),
+    fetchSownOn(userId, cropId),
+    fetchStageLinks(cropId),
+  ]);
+  if (tasksRes.error) throw tasksRes.error;
+
+  return {
+    cropId,
+    sownOn,
+    stages: (stageRows || []).map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      startDay: row.start_day,
+      endDay: row.end_day,
+      ...pickLocalizedColumns(row, ["title"]),
+    })),
+    tasks: (tasksRes.data || []).map((row) => ({
+      id: row.id,
+      stageId: row.stage_id,
+      day: row.day,
+      repeatDays: row.repeat_days,
+      ...pickLocalizedColumns(row, ["title"]),
+    })),
+    links,
+  };
+};
+
+export interface CropPlanting {
+  crop_id: string;
+  sown_on: string;
+}
+
+// Signed in: replayed through the outbox when offline. Guests keep it with
+// their guest progress until they sign up.
+export const saveSowingDate = async (
+  cropId: string,
+  sownOn: string,
+): Promise<CropPlanting> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) {
+    const progress = await getGuestProgress();
+    await saveGuestChoices({
+      sowingDates: { ...progress.sowingDates, [cropId]: sownOn },
+    });
+    return { crop_id: cropId, sown_on: sownOn };
+  }
+
+  const { data, error } = await supabase
+    .from("crop_plantings")
+    .upsert({
+      user_id: userId,
+      crop_id: cropId,
+      sown_on: sownOn,
+      updated_at: new Date().toISOString(),
+    })
+    .select("crop_id, sown_on")
+    .single();
+  if (error) throw error;
+  return data as CropPlanting;
+};
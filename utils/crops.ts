@@ -0,0 +1,26 @@
+import { supabase } from "@/utils/supabase";
+
+// The user's crop, if it is still an active catalogue crop. Retired or
+// unknown crops resolve to null, so the user falls back to generic content.
+export const fetchUserCropId = async (
+  userId: string,
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("selected_crop, crop:crops!profiles_selected_crop_fkey(id)")
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+
+  const crop: any = data?.crop;
+  return (Array.isArray(crop) ? crop[0]?.id : crop?.id) ?? null;
+};
+
+// Quests for everyone (target_crop null) plus those for the user's crop
+export const filterByTargetCrop = <Q extends { or: any; is: any }>(
+  query: Q,
+  cropId: string | null,
+): Q =>
+  cropId
+    ? query.or(`target_crop.is.null,target_crop.eq.${cropId}`)
+    : query.is("target_crop", null);
@@ -0,0 +1,238 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+
+import { LedgerResult } from "@/utils/ledger";
+import { canDownloadLessonMedia, lessonMediaUrl } from "@/utils/lessonMedia";
+import { localizedValue } from "@/utils/localize";
+import { isNetworkError } from "@/utils/outbox";
+import { supabase } from "@/utils/supabase";
+
+// Lesson mini-games (see supabase/migrations/*_lesson_games.sql and
+// games/README.md). A game is one HTML file that the app keeps on the device
+// per version and runs in a WebView; it reports back over a small JSON
+// postMessage protocol and every play is scored on the server.
+export interface GameInfo {
+  id: string;
+  title: string;
+  bundlePath: string; // storage path or URL of the HTML bundle
+  version: number;
+  maxScore: number;
+  passScore: number;
+  minPlaySeconds: number;
+}
+
+// --- PROTOCOL ---
+// App -> game, once the page has loaded. `nonce` is signed by the server and
+// must come back unchanged with `complete`.
+export interface GameStartMessage {
+  type: "start";
+  sessionId: string;
+  nonce: string;
+  lessonId: number;
+  language: string;
+}
+
+// Game -> app
+export type GameMessage =
+  | { type: "progress"; sessionId: string; value: number } // 0..1
+  | { type: "score"; sessionId: string; score: number } // running score
+  | { type: "complete"; sessionId: string; nonce: string; score: number };
+
+// Anything that isn't a well-formed message for this session is dropped
+export const parseGameMessage = (
+  raw: string,
+  sessionId: string,
+): GameMessage | null => {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (message?.sessionId !== sessionId) return null;
+
+  switch (message.type) {
+    case "progress":
+      return Number.isFinite(message.value)
+        ? { ...message, value: Math.min(1, Math.max(0, message.value)) }
+        : null;
+    case "score":
+      return Number.isInteger(message.score) ? message : null;
+    case "complete":
+      return Number.isInteger(message.score) &&
+        typeof message.nonce === "string"
+        ? message
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Delivered like a window `message` event, the same way a web page would
+// receive it from a parent frame
+export const startMessageScript = (message: GameStartMessage) =>
+  `window.dispatchEvent(new MessageEvent("message", { data: ${JSON.stringify(
+    JSON.stringify(message),
+  )} })); true;`;
+
+// --- SESSIONS ---
+export interface GameSession {
+  sessionId: string;
+  nonce: string;
+  expiresAt: string;
+}
+
+// What the outbox sends to submit_game_score
+export interface GamePlay {
+  sessionId: string;
+  nonce: string;
+  score: number;
+  startedAt: string;
+}
+
+export interface GameResult extends LedgerResult {
+  passed: boolean;
+  reason?: "invalid_score" | "played_too_fast" | "below_pass_score";
+  score: number;
+  pass_score: number;
+  coins_awarded: number;
+}
+
+// One unused session per game lesson, issued while online, for playing offline
+const SPARE_SESSIONS_KEY = "@game_spare_sessions";
+
+const requestSession = async (lessonId: number): Promise<GameSession> => {
+  const { data, error } = await supabase.rpc("start_game_session", {
+    p_lesson_id: lessonId,
+  });
+  if (error) throw error;
+  return {
+    sessionId: data.session_id,
+    nonce: data.nonce,
+    expiresAt: data.expires_at,
+  };
+};
+
+const readSpares = async (): Promise<Record<string, GameSession>> => {
+  try {
+    const stored = await AsyncStorage.getItem(SPARE_SESSIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.warn("Spare game sessions read error", e);
+    return {};
+  }
+};
+
+const writeSpares = (spares: Record<string, GameSession>) =>
+  AsyncStorage.setItem(SPARE_SESSIONS_KEY, JSON.stringify(spares));
+
+// Keeps a spare session for the lesson (issued now if there is none)
+export const prepareSpareSession = async (lessonId: number) => {
+  const spares = await readSpares();
+  const spare = spares[lessonId];
+  if (spare && new Date(spare.expiresAt) > new Date()) return;
+  spares[lessonId] = await requestSession(lessonId);
+  await writeSpares(spares);
+};
+
+// A server session for one play. Offline, the spare is used up instead;
+// null means this device has never been online with the game.
+export const startGameSession = async (
+  lessonId: number,
+): Promise<GameSession | null> => {
+  try {
+    const session = await requestSession(lessonId);
+    prepareSpareSession(lessonId).catch((e) =>
+      console.warn("Spare game session not issued:", e?.message),
+    );
+    return session;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const spares = await readSpares();
+    const spare = spares[lessonId];
+    if (!spare) return null;
+    delete spares[lessonId];
+    await writeSpares(spares);
+    return spare;
+  }
+};
+
+export const submitGameScore = async (
+  play: GamePlay,
+  occurredAt?: string,
+): Promise<GameResult> => {
+  const { data, error } = await supabase.rpc("submit_game_score", {
+    p_session_id: play.sessionId,
+    p_nonce: play.nonce,
+    p_score: play.score,
+    p_started_at: play.startedAt,
+    ...(occurredAt && { p_completed_at: occurredAt }),
+  });
+  if (error) throw error;
+  return data as GameResult;
+};
+
+// --- BUNDLES ---
+export const fetchLessonGame = async (
+  lessonId: number,
+  lang: string,
+): Promise<GameInfo | null> => {
+  const { data, error } = await supabase
+    .from("lessons")
+    .select("game:games(*)")
+    .eq("id", lessonId)
+    .single();
+  if (error) throw error;
+
+  const row: any = Array.isArray(data?.game) ? data.game[0] : data?.game;
+  if (!row || !row.is_active) return null;
+  return {
+    id: row.id,
+    title: localizedValue(row, "title", lang) || row.id,
+    bundlePath: row.bundle_path,
+    version: row.version,
+    maxScore: row.max_score,
+    passScore: row.pass_score,
+    minPlaySeconds: row.min_play_seconds,
+  };
+};
+
+const gameDir = (gameId: string) =>
+  `${FileSystem.documentDirectory}games/${gameId}/`;
+
+// The game's HTML, from the device copy of this version (downloaded on first
+// play; older versions are removed). The web build has no app filesystem and
+// always loads the remote file.
+export const loadGameBundle = async (
+  game: GameInfo,
+): Promise<{ html: string } | { uri: string }> => {
+  const url = lessonMediaUrl(game.bundlePath);
+  if (!url) throw new Error("game_bundle_missing");
+  if (!canDownloadLessonMedia) return { uri: url };
+
+  const dir = gameDir(game.id);
+  const localUri = `${dir}v${game.version}.html`;
+  const info = await FileSystem.getInfoAsync(localUri);
+  if (!info.exists) {
+    await FileSystem.deleteAsync(dir, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    const result = await FileSystem.downloadAsync(url, localUri);
+    if (result.status !== 200) {
+      await FileSystem.deleteAsync(dir, { idempotent: true });
+      throw new Error(`Download failed with status ${result.status}`);
+    }
+  }
+  return { html: await FileSystem.readAsStringAsync(localUri) };
+};
+
+// Used by a lesson's offline download: the bundle plus a spare session
+export const prepareGameOffline = async (
+  lessonId: number,
+  lang: string,
+  signedIn: boolean,
+) => {
+  const game = await fetchLessonGame(lessonId, lang);
+  if (!game) return;
+  await loadGameBundle(game);
+  if (signedIn) await prepareSpareSession(lessonId);
+};
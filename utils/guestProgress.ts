@@ -0,0 +1,143 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { supabase } from "@/utils/supabase";
+
+// Progress made before signing up / logging in. Merged into the account by
+// merge_guest_progress (see supabase/migrations/*_guest_progress_merge.sql),
+// which re-grades quizzes and credits coins through the ledger.
+const GUEST_PROGRESS_KEY = "@guest_progress";
+
+export interface GuestLesson {
+  lessonId: number;
+  via: "quiz" | "game";
+  answers?: number[]; // re-graded on the server
+  correct?: number;
+  total?: number;
+  score?: number; // game plays: shown on this device only, replayed to count
+  coins: number; // what the server is expected to credit (display only)
+  completedAt: string;
+}
+
+export interface GuestProgress {
+  guestId: string; // each store is merged at most once
+  lessons: GuestLesson[];
+  crop: string | null;
+  language: string | null;
+  sowingDates: Record<string, string>; // crop id -> YYYY-MM-DD (crop calendar)
+  coins: number;
+}
+
+export interface GuestMergeResult {
+  applied: boolean; // false if this store was already merged
+  lessons_merged: number;
+  lessons_already_done: number;
+  lessons_rejected: number;
+  games_to_replay: number; // game lessons are only credited when played signed in
+  coins_awarded: number;
+}
+
+const newGuestId = () =>
+  `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+const emptyProgress = (): GuestProgress => ({
+  guestId: newGuestId(),
+  lessons: [],
+  crop: null,
+  language: null,
+  sowingDates: {},
+  coins: 0,
+});
+
+export const getGuestProgress = async (): Promise<GuestProgress> => {
+  try {
+    const raw = await AsyncStorage.getItem(GUEST_PROGRESS_KEY);
+    return raw ? { ...emptyProgress(), ...JSON.parse(raw) } : emptyProgress();
+  } catch (e) {
+    console.warn("Guest progress read error", e);
+    return emptyProgress();
+  }
+};
+
+const saveGuestProgress = (progress: GuestProgress) =>
+  AsyncStorage.setItem(GUEST_PROGRESS_KEY, JSON.stringify(progress));
+
+export const hasGuestProgress = (progress: GuestProgress) =>
+  progress.lessons.length > 0 ||
+  !!progress.crop ||
+  !!progress.language ||
+  Object.keys(progress.sowingDates).length > 0;
+
+const attemptScore = (lesson: Omit<GuestLesson, "completedAt">) =>
+  lesson.correct ?? lesson.score ?? 0;
+
+// A retake only replaces the stored attempt if it scored better
+export const recordGuestLesson = async (
+  lesson: Omit<GuestLesson, "completedAt">,
+) => {
+  const progress = await getGuestProgress();
+  const previous = progress.lessons.find((l) => l.lessonId === lesson.lessonId);
+  if (previous && attemptScore(previous) >= attemptScore(lesson)) return;
+
+  const lessons = [
+    ...progress.lessons.filter((l) => l.lessonId !== lesson.lessonId),
+    { ...lesson, completedAt: new Date().toISOString() },
+  ];
+  await saveGuestProgress({
+    ...progress,
+    lessons,
+    coins: lessons.reduce((sum, l) => sum + l.coins, 0),
+  });
+};
+
+export const saveGuestChoices = async (
+  choices: Partial<Pick<GuestProgress, "crop" | "language" | "sowingDates">>,
+) => {
+  const progress = await getGuestProgress();
+  await saveGuestProgress({ ...progress, ...choices });
+};
+
+export const clearGuestProgress = () =>
+  AsyncStorage.removeItem(GUEST_PROGRESS_KEY);
+
+// Call once signed in. Resolves null when there was nothing to merge; the
+// store is kept (and retried by the outbox flush) if the call fails.
+export const mergeGuestProgress =
+  async (): Promise<GuestMergeResult | null> => {
+    const progress = await getGuestProgress();
+    if (!hasGuestProgress(progress)) return null;
+
+    // Sowing dates are plain rows; written first so a failed merge retries them
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user.id;
+    const plantings = Object.entries(progress.sowingDates).map(
+      ([cropId, sownOn]) => ({
+        user_id: userId,
+        crop_id: cropId,
+        sown_on: sownOn,
+      }),
+    );
+    if (userId && plantings.length > 0) {
+      const { error: plantingsError } = await supabase
+        .from("crop_plantings")
+        .upsert(plantings, { ignoreDuplicates: true });
+      if (plantingsError) throw plantingsError;
+    }
+
+    const { data, error } = await supabase.rpc("merge_guest_progress", {
+      p_guest_id: progress.guestId,
+      p_progress: {
+        lessons: progress.lessons.map((l) => ({
+          lesson_id: l.lessonId,
+          via: l.via,
+          answers: l.answers,
+          completed_at: l.completedAt,
+        })),
+        crop: progress.crop,
+        language: progress.language,
+      },
+    });
+    if (error) throw error;
+
+    await clearGuestProgress();
+    return data as GuestMergeResult;
+  };
@@ -0,0 +1,79 @@
+import { supabase } from "@/utils/supabase";
+
+// Balances returned by every ledger RPC (see supabase/migrations/*_coin_ledger.sql)
+export interface LedgerResult {
+  applied: boolean; // false when this lesson/quest/reward was already on the ledger
+  coins: number;
+  quest_coins: number;
+  xp: number;
+}
+
+const callLedger = async (
+  fn: string,
+  args: Record<string, unknown> = {},
+): Promise<LedgerResult> => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw error;
+  return data as LedgerResult;
+};
+
+// `occurredAt` is only passed when replaying an offline completion (see utils/outbox.ts)
+export const awardLessonCompletion = (
+  lessonId: number,
+  via: "quiz" | "game" = "quiz",
+  occurredAt?: string,
+) =>
+  callLedger("award_lesson_completion", {
+    p_lesson_id: lessonId,
+    p_via: via,
+    ...(occurredAt && { p_completed_at: occurredAt }),
+  });
+
+// Result of a graded multi-question quiz (see *_multi_question_quizzes.sql)
+export interface QuizResult extends LedgerResult {
+  passed: boolean;
+  correct: number;
+  total: number;
+  score_percent: number;
+  coins_awarded: number;
+}
+
+// The server grades `answers` (selected option index per question, in order)
+export const submitLessonQuiz = async (
+  lessonId: number,
+  answers: number[],
+  occurredAt?: string,
+): Promise<QuizResult> => {
+  const { data, error } = await supabase.rpc("submit_lesson_quiz", {
+    p_lesson_id: lessonId,
+    p_answers: answers,
+    ...(occurredAt && { p_completed_at: occurredAt }),
+  });
+  if (error) throw error;
+  return data as QuizResult;
+};
+
+// Quiz quests are graded on the server from the chosen answer
+export const awardQuestCompletion = (
+  questId: number,
+  answer: string,
+  occurredAt?: string,
+) =>
+  callLedger("award_quest_completion", {
+    p_quest_id: questId,
+    p_answer: answer,
+    ...(occurredAt && { p_completed_at: occurredAt }),
+  });
+
+export const redeemReward = (rewardId: number, occurredAt?: string) =>
+  callLedger("redeem_reward", {
+    p_reward_id: rewardId,
+    ...(occurredAt && { p_unlocked_at: occurredAt }),
+  });
+
+export const claimSignupBonus = () => callLedger("claim_signup_bonus");
+
+// The server raises 'insufficient_coins' instead of letting a balance go negative
+export const isInsufficientCoinsError = (error: any) =>
+  typeof error?.message === "string" &&
+  error.message.includes("insufficient_coins");
@@ -0,0 +1,243 @@
+import { supabase } from "@/utils/supabase";
+
+// Structured lesson content stored in `lessons.blocks` (see
+// supabase/migrations/*_lesson_blocks.sql). Text is a language -> string map;
+// blocks generated from the older `content_<lang>` column use plain strings.
+export type LocalizedText = string | Record<string, string>;
+export type LocalizedList = string[] | Record<string, string[]>;
+
+export type LessonBlock =
+  | { id: string; type: "heading"; text: LocalizedText }
+  | { id: string; type: "paragraph"; text: LocalizedText }
+  | { id: string; type: "image"; url: string; caption?: LocalizedText }
+  | { id: string; type: "video"; url: string; caption?: LocalizedText }
+  | { id: string; type: "audio"; url: string; caption?: LocalizedText }
+  | {
+      id: string;
+      type: "callout";
+      variant: "tip" | "warning";
+      text: LocalizedText;
+    }
+  | {
+      id: string;
+      type: "steps";
+      title?: LocalizedText;
+      items: LocalizedList;
+      numbered?: boolean; // default true; false renders bullets
+    }
+  | {
+      id: string;
+      type: "check";
+      question: LocalizedText;
+      options: LocalizedList;
+      correct_index: number;
+      explanation?: LocalizedText;
+    };
+
+export type LessonBlockType = LessonBlock["type"];
+
+export const BLOCK_TYPES: LessonBlockType[] = [
+  "heading",
+  "paragraph",
+  "image",
+  "video",
+  "audio",
+  "callout",
+  "steps",
+  "check",
+];
+
+// Progress on one block for the signed-in farmer
+export interface BlockProgress {
+  seen: boolean;
+  answerIndex: number | null;
+  isCorrect: boolean | null;
+}
+
+export interface BlockProgressResult {
+  blocks_seen: number;
+  answered: number;
+  correct: number;
+}
+
+export const blockText = (value: LocalizedText | undefined, lang: string) => {
+  if (!value) return "";
+  if (typeof value === "string") return value;
+  return value[lang] || value.en || "";
+};
+
+export const blockList = (value: LocalizedList | undefined, lang: string) => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  return value[lang]?.length ? value[lang] : value.en || [];
+};
+
+// Older lessons: `##` lines become headings, runs of `-` / `•` lines become a
+// bulleted list and everything else a paragraph
+export const contentToBlocks = (content: string): LessonBlock[] => {
+  const blocks: LessonBlock[] = [];
+  let bullets: string[] = [];
+  const flushBullets = () => {
+    if (bullets.length === 0) return;
+    blocks.push({
+      id: `legacy-${blocks.length}`,
+      type: "steps",
+      items: bullets,
+      numbered: false,
+    });
+    bullets = [];
+  };
+
+  content
+    .replace(/\\n/g, "\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .forEach((line) => {
+      if (line.startsWith("-") || line.startsWith("•")) {
+        bullets.push(line.replace(/^[-•]/, "").trim());
+        return;
+      }
+      flushBullets();
+      if (line.startsWith("##")) {
+        blocks.push({
+          id: `legacy-${blocks.length}`,
+          type: "heading",
+          text: line.replace(/##/g, "").trim(),
+        });
+      } else if (line.length > 0) {
+        blocks.push({
+          id: `legacy-${blocks.length}`,
+          type: "paragraph",
+          text: line,
+        });
+      }
+    });
+  flushBullets();
+  return blocks;
+};
+
+// Text each block contributes to narration, in reading order. The renderer
+// uses the same order to highlight the block being read.
+export const blockSegments = (block: LessonBlock, lang: string): string[] => {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+    case "callout":
+      return [blockText(block.text, lang)];
+    case "image":
+    case "video":
+    case "audio":
+      return block.caption ? [blockText(block.caption, lang)] : [];
+    case "steps":
+      return [
+        ...(block.title ? [blockText(block.title, lang)] : []),
+        ...blockList(block.items, lang),
+      ];
+    case "check":
+      return [
+        blockText(block.question, lang),
+        ...blockList(block.options, lang),
+      ];
+  }
+};
+
+// First narration segment of every block, counting from `start`
+export const segmentStarts = (
+  blocks: LessonBlock[],
+  lang: string,
+  start: number,
+) => {
+  const starts: Record<string, number> = {};
+  let next = start;
+  blocks.forEach((block) => {
+    starts[block.id] = next;
+    next += blockSegments(block, lang).length;
+  });
+  return starts;
+};
+
+// Media a block streams, keyed for the lesson's offline download
+export const blockMedia = (blocks: LessonBlock[]) =>
+  Object.fromEntries(
+    blocks
+      .filter(
+        (b): b is Extract<LessonBlock, { url: string }> =>
+          b.type === "image" || b.type === "video" || b.type === "audio",
+      )
+      .map((b) => [`block_${b.id}`, b.url]),
+  );
+
+// Admin console: reject blocks the renderer can't show
+export const validateBlock = (block: any): string | null => {
+  if (!block || typeof block !== "object") return "Block must be an object";
+  if (!block.id) return "Block needs an id";
+  if (!BLOCK_TYPES.includes(block.type)) return `Unknown type "${block.type}"`;
+
+  switch (block.type as LessonBlockType) {
+    case "heading":
+    case "paragraph":
+      return block.text ? null : "Missing text";
+    case "callout":
+      if (!["tip", "warning"].includes(block.variant))
+        return 'variant must be "tip" or "warning"';
+      return block.text ? null : "Missing text";
+    case "image":
+    case "video":
+    case "audio":
+      return block.url ? null : "Missing url";
+    case "steps":
+      return blockList(block.items, "en").length > 0 ? null : "Missing items";
+    case "check": {
+      const options = blockList(block.options, "en");
+      if (!block.question) return "Missing question";
+      if (options.length < 2) return "Needs at least 2 options";
+      if (
+        !Number.isInteger(block.correct_index) ||
+        block.correct_index < 0 ||
+        block.correct_index >= options.length
+      )
+        return "correct_index must point at an option";
+      return null;
+    }
+  }
+};
+
+export const fetchBlockProgress = async (
+  userId: string,
+  lessonId: number,
+): Promise<Record<string, BlockProgress>> => {
+  const { data, error } = await supabase
+    .from("lesson_block_progress")
+    .select("block_id, answer_index, is_correct")
+    .eq("user_id", userId)
+    .eq("lesson_id", lessonId);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).map((row) => [
+      row.block_id,
+      {
+        seen: true,
+        answerIndex: row.answer_index,
+        isCorrect: row.is_correct,
+      },
+    ]),
+  );
+};
+
+// `occurredAt` is only passed when replaying from the outbox (utils/outbox.ts)
+export const recordBlockProgress = async (
+  lessonId: number,
+  seen: string[],
+  answers: Record<string, number>,
+  occurredAt?: string,
+): Promise<BlockProgressResult> => {
+  const { data, error } = await supabase.rpc("record_lesson_block_progress", {
+    p_lesson_id: lessonId,
+    p_seen: seen,
+    p_answers: answers,
+    ...(occurredAt && { p_occurred_at: occurredAt }),
+  });
+  if (error) throw error;
+  return data as BlockProgressResult;
+};
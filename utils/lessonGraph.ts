@@ -0,0 +1,143 @@
+import { fetchUserCropId } from "@/utils/crops";
+import { getGuestProgress } from "@/utils/guestProgress";
+import { supabase } from "@/utils/supabase";
+
+// The lesson path as a graph (see supabase/migrations/*_lesson_graph.sql):
+// modules in order, lessons filtered to the farmer's crop track, and each
+// lesson unlocked once all its prerequisites are completed. The lessons map
+// and the dashboard's next lesson both come from here.
+export type LessonStatus = "completed" | "available" | "locked";
+
+type Row = Record<string, any>;
+
+export interface GraphLesson {
+  id: number;
+  sequence: number;
+  moduleId: number | null;
+  targetCrop: string | null; // lesson's or its module's crop track
+  optional: boolean;
+  requires: number[]; // prerequisites within the farmer's track
+}
+
+export interface LessonGraph {
+  modules: Row[]; // lesson_modules rows that have lessons in the track
+  lessons: (GraphLesson & { row: Row })[]; // module order, then sequence
+  completedIds: number[];
+  cropId: string | null;
+}
+
+export const lessonStatus = (
+  lesson: GraphLesson,
+  completedIds: number[],
+): LessonStatus => {
+  if (completedIds.includes(lesson.id)) return "completed";
+  return lesson.requires.every((id) => completedIds.includes(id))
+    ? "available"
+    : "locked";
+};
+
+export const withLessonStatuses = <L extends GraphLesson>(
+  lessons: L[],
+  completedIds: number[],
+) =>
+  lessons.map((lesson) => ({
+    ...lesson,
+    status: lessonStatus(lesson, completedIds),
+  }));
+
+// First unlocked core lesson in path order; side lessons only when nothing
+// else is left
+export const pickNextLesson = <L extends GraphLesson>(
+  lessons: L[],
+  completedIds: number[],
+): L | null => {
+  const open = lessons.filter(
+    (l) => lessonStatus(l, completedIds) === "available",
+  );
+  return open.find((l) => !l.optional) ?? open[0] ?? null;
+};
+
+export const countCompleted = (
+  lessons: GraphLesson[],
+  completedIds: number[],
+) => lessons.filter((l) => completedIds.includes(l.id)).length;
+
+export const fetchLessonGraph = async (
+  userId: string | null,
+): Promise<LessonGraph> => {
+  const [lessonsRes, modulesRes, edgesRes] = await Promise.all([
+    supabase.from("lessons").select("*").order("sequence", { ascending: true }),
+    supabase
+      .from("lesson_modules")
+      .select("*")
+      .order("sequence", { ascending: true }),
+    supabase
+      .from("lesson_prerequisites")
+      .select("lesson_id, requires_lesson_id"),
+  ]);
+  if (lessonsRes.error) throw lessonsRes.error;
+  if (modulesRes.error) throw modulesRes.error;
+  if (edgesRes.error) throw edgesRes.error;
+
+  let cropId: string | null;
+  let completedIds: number[];
+  if (userId) {
+    // No profile yet (or a retired crop): the generic track
+    const [crop, { data: completed, error }] = await Promise.all([
+      fetchUserCropId(userId).catch(() => null),
+      supabase.from("user_lessons").select("lesson_id").eq("user_id", userId),
+    ]);
+    if (error) throw error;
+    cropId = crop;
+    completedIds = (completed || []).map((c) => c.lesson_id);
+  } else {
+    // Guests: crop picked in onboarding, lessons finished on this device
+    const guest = await getGuestProgress();
+    cropId = guest.crop;
+    completedIds = guest.lessons.map((l) => l.lessonId);
+  }
+
+  const modules = modulesRes.data || [];
+  const moduleById = new Map(modules.map((m) => [m.id, m]));
+  const moduleOrder = new Map(modules.map((m, i) => [m.id, i]));
+
+  const inTrack = (lesson: Row) => {
+    const crop =
+      lesson.target_crop ?? moduleById.get(lesson.module_id)?.target_crop;
+    return !crop || crop === cropId;
+  };
+  const rows = (lessonsRes.data || []).filter(inTrack);
+  const visibleIds = new Set(rows.map((l) => l.id));
+
+  const requires = new Map<number, number[]>();
+  (edgesRes.data || []).forEach((edge) => {
+    if (!visibleIds.has(edge.requires_lesson_id)) return;
+    requires.set(edge.lesson_id, [
+      ...(requires.get(edge.lesson_id) || []),
+      edge.requires_lesson_id,
+    ]);
+  });
+
+  // Lessons without a module go last
+  const orderOf = (row: Row) =>
+    moduleOrder.get(row.module_id) ?? modules.length;
+  const lessons = rows
+    .sort((a, b) => orderOf(a) - orderOf(b) || a.sequence - b.sequence)
+    .map((row) => ({
+      id: row.id,
+      sequence: row.sequence,
+      moduleId: moduleById.has(row.module_id) ? row.module_id : null,
+      targetCrop:
+        row.target_crop ?? moduleById.get(row.module_id)?.target_crop ?? null,
+      optional: !!row.is_optional,
+      requires: requires.get(row.id) || [],
+      row,
+    }));
+
+  return {
+    modules: modules.filter((m) => lessons.some((l) => l.moduleId === m.id)),
+    lessons,
+    completedIds,
+    cropId,
+  };
+};
@@ -0,0 +1,149 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+
+import { supabase } from "@/utils/supabase";
+
+// Lesson thumbnails and videos are served from Supabase Storage. The lessons
+// columns hold a path inside the bucket (`lessons/1/video.mp4`) or, for older
+// rows, a full URL. Farmers can download a lesson's media (including its
+// narration, see hooks/useNarration.ts) to the device so it plays without a
+// connection.
+export const LESSON_MEDIA_BUCKET = "lesson-media";
+
+// "thumbnail", "video", "narration" or "quiz_<question id>" (its narration)
+export type LessonMediaKey = string;
+
+const DOWNLOADS_KEY = "@lesson_media_downloads";
+
+export interface DownloadedFile {
+  source: string; // remote URL it was downloaded from
+  localUri: string;
+  bytes: number;
+}
+
+export interface LessonDownload {
+  lessonId: number;
+  files: Record<LessonMediaKey, DownloadedFile>;
+  downloadedAt: string;
+}
+
+type DownloadIndex = Record<string, LessonDownload>;
+
+// The web build has no app filesystem; media always streams there
+export const canDownloadLessonMedia =
+  Platform.OS !== "web" && !!FileSystem.documentDirectory;
+
+export const lessonMediaUrl = (value?: string | null) => {
+  if (!value) return null;
+  if (/^https?:\/\//.test(value)) return value;
+  return supabase.storage.from(LESSON_MEDIA_BUCKET).getPublicUrl(value).data
+    .publicUrl;
+};
+
+// Recorded narration for exactly this language (`narration_hi`, ...). No
+// English fallback: a missing recording means on-device speech instead.
+export const narrationUrl = (row: Record<string, any> | null, lang: string) =>
+  lessonMediaUrl(row?.[`narration_${lang}`]);
+
+const lessonDir = (lessonId: number) =>
+  `${FileSystem.documentDirectory}lesson-media/${lessonId}/`;
+
+const readIndex = async (): Promise<DownloadIndex> => {
+  try {
+    const stored = await AsyncStorage.getItem(DOWNLOADS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to read lesson downloads:", e);
+    return {};
+  }
+};
+
+const writeIndex = (index: DownloadIndex) =>
+  AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(index));
+
+export const getLessonDownload = async (
+  lessonId: number,
+): Promise<LessonDownload | null> => (await readIndex())[lessonId] ?? null;
+
+export const downloadBytes = (download: LessonDownload | null) =>
+  Object.values(download?.files ?? {}).reduce((sum, f) => sum + f.bytes, 0);
+
+// Total space taken by every downloaded lesson
+export const getLessonMediaStorageUsed = async () =>
+  Object.values(await readIndex()).reduce(
+    (sum, download) => sum + downloadBytes(download),
+    0,
+  );
+
+// Local copy of one file: always when offline, otherwise only while it still
+// matches the media on the lesson row (an admin may have replaced it)
+export const pickLessonMedia = (
+  download: LessonDownload | null,
+  key: LessonMediaKey,
+  remoteUrl: string | null,
+  isOffline: boolean,
+) => {
+  const file = download?.files[key];
+  if (file && (isOffline || file.source === remoteUrl)) {
+    return { uri: file.localUri };
+  }
+  return remoteUrl ? { uri: remoteUrl } : null;
+};
+
+export const downloadLessonMedia = async (
+  lessonId: number,
+  media: Record<LessonMediaKey, string | null | undefined>,
+): Promise<LessonDownload> => {
+  const dir = lessonDir(lessonId);
+  await FileSystem.deleteAsync(dir, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+  const files: LessonDownload["files"] = {};
+  try {
+    for (const [key, value] of Object.entries(media)) {
+      const url = lessonMediaUrl(value);
+      if (!url) continue;
+
+      const ext = url.split("?")[0].split(".").pop() || "bin";
+      const localUri = `${dir}${key}.${ext}`;
+      const result = await FileSystem.downloadAsync(url, localUri);
+      if (result.status !== 200) {
+        throw new Error(`Download failed with status ${result.status}`);
+      }
+
+      const info = await FileSystem.getInfoAsync(localUri);
+      files[key] = {
+        source: url,
+        localUri,
+        bytes: info.exists ? info.size : 0,
+      };
+    }
+  } catch (e) {
+    // Don't leave half a lesson behind
+    await FileSystem.deleteAsync(dir, { idempotent: true });
+    throw e;
+  }
+
+  const download: LessonDownload = {
+    lessonId,
+    files,
+    downloadedAt: new Date().toISOString(),
+  };
+  const index = await readIndex();
+  index[lessonId] = download;
+  await writeIndex(index);
+  return download;
+};
+
+export const removeLessonDownload = async (lessonId: number) => {
+  await FileSystem.deleteAsync(lessonDir(lessonId), { idempotent: true });
+  const index = await readIndex();
+  delete index[lessonId];
+  await writeIndex(index);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,155 @@
+import translations, { DEFAULT_LANGUAGE } from "@/constants/translations";
+
+// Localized content lives in sibling columns: `title_en`, `title_hi`, ...
+// Some older tables keep English in the bare column (`question`, `question_hi`).
+// Every language registered in constants/translations.ts is supported.
+export const SUPPORTED_LANGUAGES = Object.keys(translations);
+
+// Which fields are translated for each kind of content
+export const LOCALIZED_FIELDS = {
+  lessons: ["title", "description", "content"],
+  lesson_modules: ["title", "description"],
+  lesson_quizzes: ["question", "options", "explanation"],
+  quests: [
+    "title",
+    "subtitle",
+    "description",
+    "quiz_question",
+    "quiz_options",
+    "correct_answer",
+    "quiz_explanation",
+  ],
+  quest_steps: ["title"],
+  crop_stages: ["title"],
+  crop_stage_tasks: ["title"],
+  rewards: ["title", "discount_item"],
+  schemes: ["title", "desc", "benefits", "eligibility", "steps"],
+  crops: ["name"],
+  games: ["title"],
+} as const;
+
+export type LocalizedContentType = keyof typeof LOCALIZED_FIELDS;
+
+type Row = Record<string, any>;
+
+const hasValue = (value: unknown) =>
+  value !== null &&
+  value !== undefined &&
+  value !== "" &&
+  !(Array.isArray(value) && value.length === 0);
+
+// Fallback chain: requested language -> DEFAULT_LANGUAGE -> bare column
+const candidateSuffixes = (language: string) => {
+  const lang = translations[language] ? language : DEFAULT_LANGUAGE;
+  return Array.from(new Set([`_${lang}`, `_${DEFAULT_LANGUAGE}`, ""]));
+};
+
+const candidateColumns = (field: string, language: string) =>
+  candidateSuffixes(language).map((suffix) => `${field}${suffix}`);
+
+export const localizedValue = <T = string>(
+  row: Row | null | undefined,
+  field: string,
+  language: string,
+): T | undefined => {
+  if (!row) return undefined;
+  const column = candidateColumns(field, language).find((c) =>
+    hasValue(row[c]),
+  );
+  return column ? (row[column] as T) : undefined;
+};
+
+// Returns the row with each localized field resolved onto its bare name
+// (e.g. `title`), keeping the raw language columns alongside.
+export const localizeRow = <R extends Row>(
+  type: LocalizedContentType,
+  row: R,
+  language: string,
+): R => {
+  const resolved: Row = { ...row };
+  for (const field of LOCALIZED_FIELDS[type]) {
+    const value = localizedValue(row, field, language);
+    if (value !== undefined) resolved[field] = value;
+  }
+  return resolved as R;
+};
+
+// Resolves fields that only make sense together (a quiz's options and its
+// answer) from the first language that has all of them, so they never mix.
+export const localizeGroup = <R extends Row>(
+  row: R,
+  fields: readonly string[],
+  language: string,
+): R => {
+  const suffix = candidateSuffixes(language).find((s) =>
+    fields.every((field) => hasValue(row[`${field}${s}`])),
+  );
+  if (suffix === undefined) return row;
+  const resolved: Row = { ...row };
+  for (const field of fields) resolved[field] = row[`${field}${suffix}`];
+  return resolved as R;
+};
+
+export const localizeRows = <R extends Row>(
+  type: LocalizedContentType,
+  rows: R[],
+  language: string,
+) => rows.map((row) => localizeRow(type, row, language));
+
+// Keeps only the language columns of `fields` (small rows for caching)
+export const pickLocalizedColumns = (row: Row, fields: readonly string[]) =>
+  Object.fromEntries(
+    Object.entries(row).filter(([column]) =>
+      fields.some((f) => column === f || column.startsWith(`${f}_`)),
+    ),
+  );
+
+// --- MISSING TRANSLATIONS ---
+export interface MissingTranslation {
+  type: LocalizedContentType;
+  id: string | number;
+  field: string;
+  languages: string[];
+}
+
+const hasTranslation = (row: Row, field: string, language: string) =>
+  hasValue(row[`${field}_${language}`]) ||
+  (language === DEFAULT_LANGUAGE && hasValue(row[field]));
+
+export const findMissingTranslations = (
+  type: LocalizedContentType,
+  rows: Row[],
+  languages: string[] = SUPPORTED_LANGUAGES,
+): MissingTranslation[] => {
+  const missing: MissingTranslation[] = [];
+
+  for (const row of rows) {
+    for (const field of LOCALIZED_FIELDS[type]) {
+      // Field not used by this item at all (e.g. a quest without a quiz)
+      if (localizedValue(row, field, DEFAULT_LANGUAGE) === undefined) continue;
+
+      const absent = languages.filter((l) => !hasTranslation(row, field, l));
+      if (absent.length > 0) {
+        missing.push({ type, id: row.id, field, languages: absent });
+      }
+    }
+  }
+  return missing;
+};
+
+// Dev-only nudge so content editors notice gaps for the language being viewed
+export const reportMissingTranslations = (
+  type: LocalizedContentType,
+  rows: Row[],
+  language: string,
+) => {
+  if (!__DEV__ || language === DEFAULT_LANGUAGE) return;
+
+  const missing = findMissingTranslations(type, rows, [language]);
+  if (missing.length > 0) {
+    console.warn(
+      `[i18n] ${missing.length} ${type} field(s) missing "${language}":`,
+      missing.map((m) => `#${m.id}.${m.field}`).join(", "),
+    );
+  }
+};
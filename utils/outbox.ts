@@ -0,0 +1,533 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { CropPlanting, saveSowingDate } from "@/utils/cropCalendar";
+import { GamePlay, GameResult, submitGameScore } from "@/utils/games";
+import { mergeGuestProgress } from "@/utils/guestProgress";
+import {
+  awardLessonCompletion,
+  awardQuestCompletion,
+  LedgerResult,
+  QuizResult,
+  redeemReward,
+  submitLessonQuiz,
+} from "@/utils/ledger";
+import { BlockProgressResult, recordBlockProgress } from "@/utils/lessonBlocks";
+import { countCompleted, withLessonStatuses } from "@/utils/lessonGraph";
+import {
+  QuestProof,
+  QuestProofResult,
+  submitQuestProof,
+} from "@/utils/questProof";
+import { completeQuestStep, QuestStepResult } from "@/utils/questSteps";
+import { feedAfterLesson } from "@/utils/recommendations";
+import {
+  AttemptsResult,
+  QuizAttempt,
+  recordQuizAttempts,
+  REVIEW_COINS,
+} from "@/utils/review";
+import { supabase } from "@/utils/supabase";
+
+const OUTBOX_STORAGE_KEY = "@sync_outbox";
+
+// Retry backoff: 5s, 10s, 20s ... capped at 5 minutes
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export type OutboxMutation =
+  | {
+      kind: "lesson_complete";
+      lessonId: number;
+      via: "quiz" | "game";
+      points?: number;
+      answers?: number[]; // multi-question quizzes are graded on the server
+      game?: GamePlay; // game lessons: the play is scored on the server
+    }
+  | { kind: "quest_complete"; questId: number; answer: string; reward?: number }
+  | { kind: "quest_proof"; proof: QuestProof } // uploaded when online
+  | { kind: "quest_step"; questId: number; stepId: number; answer?: string }
+  | { kind: "reward_unlock"; rewardId: number }
+  | {
+      kind: "block_progress";
+      lessonId: number;
+      seen: string[]; // block ids scrolled into view
+      answers: Record<string, number>; // check block id -> option index
+    }
+  | {
+      kind: "quiz_attempts";
+      source: "lesson" | "review";
+      answers: QuizAttempt[]; // ("attempts" is the entry's retry count)
+    }
+  | { kind: "sowing_date"; cropId: string; sownOn: string }; // YYYY-MM-DD
+
+type MutationResult =
+  | LedgerResult
+  | QuizResult
+  | GameResult
+  | BlockProgressResult
+  | AttemptsResult
+  | QuestProofResult
+  | QuestStepResult
+  | CropPlanting;
+type ResultOf<M extends OutboxMutation> = M extends { kind: "block_progress" }
+  ? BlockProgressResult
+  : M extends { kind: "quiz_attempts" }
+    ? AttemptsResult
+    : M extends { kind: "quest_proof" }
+      ? QuestProofResult
+      : M extends { kind: "quest_step" }
+        ? QuestStepResult
+        : M extends { kind: "sowing_date" }
+          ? CropPlanting
+          : LedgerResult | QuizResult | GameResult;
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  userId: string | null; // the account it was queued under; only replayed for it
+  queuedAt: string; // when the farmer actually did it (sent to the server on replay)
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+type Listener = (entries: OutboxEntry[]) => void;
+const listeners = new Set<Listener>();
+const rejectionListeners = new Set<Listener>();
+
+// --- STORAGE (serialised so concurrent enqueues don't overwrite each other) ---
+let storageLock: Promise<unknown> = Promise.resolve();
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = storageLock.then(task, task);
+  storageLock = run.catch(() => undefined);
+  return run;
+};
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn("Outbox read error", e);
+    return [];
+  }
+};
+
+const saveOutbox = async (entries: OutboxEntry[]) => {
+  await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const subscribeOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Entries the server refused on replay; their optimistic patches are undone
+export const subscribeRejections = (listener: Listener) => {
+  rejectionListeners.add(listener);
+  return () => {
+    rejectionListeners.delete(listener);
+  };
+};
+
+const currentUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+// supabase-js turns fetch failures into an error with an empty code
+export const isNetworkError = (error: any) =>
+  !error?.code &&
+  /network|fetch|timed out|offline/i.test(String(error?.message ?? error));
+
+// --- OPTIMISTIC CACHE PATCHES ---
+// Each patch knows the shape stored by one useCachedQuery key and marks the
+// queued mutation as done, so screens look right before the server has it.
+type MutationKind = OutboxMutation["kind"];
+type CachePatch = {
+  [K in MutationKind]: {
+    kind: K;
+    matches: (key: string) => boolean;
+    apply: (data: any, mutation: Extract<OutboxMutation, { kind: K }>) => any;
+  };
+}[MutationKind];
+
+const CACHE_PATCHES: CachePatch[] = [
+  {
+    // app/lessons.tsx
+    kind: "lesson_complete",
+    matches: (key) => key.startsWith("lessons_map_v1_"),
+    apply: (data, m) => {
+      if (!Array.isArray(data?.completedIds)) return data;
+      if (data.completedIds.includes(m.lessonId)) return data;
+
+      const completedIds = [...data.completedIds, m.lessonId];
+      return {
+        ...data,
+        completedIds,
+        lessons: withLessonStatuses(data.lessons || [], completedIds),
+      };
+    },
+  },
+  {
+    // app/lesson/[id].tsx
+    kind: "lesson_complete",
+    matches: (key) => key.startsWith("lesson_detail_"),
+    apply: (data, m) => {
+      if (data?.lesson?.id !== m.lessonId) return data;
+      return { ...data, isCompleted: true };
+    },
+  },
+  {
+    // app/lesson/[id].tsx (per-block progress)
+    kind: "block_progress",
+    matches: (key) => key.startsWith("lesson_detail_"),
+    apply: (data, m) => {
+      if (data?.lesson?.id !== m.lessonId) return data;
+      const progress = { ...data.blockProgress };
+      m.seen.forEach((blockId) => {
+        progress[blockId] = {
+          answerIndex: null,
+          isCorrect: null,
+          ...progress[blockId],
+          seen: true,
+        };
+      });
+      Object.entries(m.answers).forEach(([blockId, answerIndex]) => {
+        // Graded on the server; the screen grades locally until then
+        progress[blockId] = { seen: true, answerIndex, isCorrect: null };
+      });
+      return { ...data, blockProgress: progress };
+    },
+  },
+  {
+    // app/dashboard.tsx
+    kind: "lesson_complete",
+    matches: (key) => key === "dashboard_for_you_v1",
+    apply: (data, m) => {
+      if (!Array.isArray(data?.completed_ids)) return data;
+      if (data.completed_ids.includes(m.lessonId)) return data;
+
+      const completed_ids = [...data.completed_ids, m.lessonId];
+      return {
+        ...data,
+        completed_ids,
+        completed_lessons: countCompleted(data.lessons || [], completed_ids),
+        user_coins: data.user_coins + (m.points || 0),
+        for_you: feedAfterLesson(
+          data.for_you || [],
+          data.lessons || [],
+          completed_ids,
+          m.lessonId,
+        ),
+      };
+    },
+  },
+  {
+    // app/dashboard.tsx ("For you today")
+    kind: "quest_complete",
+    matches: (key) => key === "dashboard_for_you_v1",
+    apply: (data, m) => {
+      if (!Array.isArray(data?.for_you)) return data;
+      return {
+        ...data,
+        for_you: data.for_you.filter(
+          (item: any) =>
+            !(item.kind === "quest" && item.id === String(m.questId)),
+        ),
+      };
+    },
+  },
+  {
+    // app/dashboard.tsx (review card)
+    kind: "quiz_attempts",
+    matches: (key) => key === "dashboard_for_you_v1",
+    apply: (data, m) => {
+      if (typeof data?.reviews_due !== "number") return data;
+      if (m.source === "lesson") {
+        const missed = m.answers.filter((a) => !a.isCorrect).length;
+        return { ...data, reviews_due: data.reviews_due + missed };
+      }
+      const correct = m.answers.filter((a) => a.isCorrect).length;
+      return {
+        ...data,
+        reviews_due: Math.max(0, data.reviews_due - m.answers.length),
+        user_coins: data.user_coins + correct * REVIEW_COINS,
+      };
+    },
+  },
+  {
+    // app/dashboard.tsx (crop calendar card)
+    kind: "sowing_date",
+    matches: (key) => key === "dashboard_for_you_v1",
+    apply: (data, m) => {
+      if (data?.calendar?.cropId !== m.cropId) return data;
+      return { ...data, calendar: { ...data.calendar, sownOn: m.sownOn } };
+    },
+  },
+  {
+    // app/crop-calendar.tsx
+    kind: "sowing_date",
+    matches: (key) => key === "crop_calendar_v1",
+    apply: (data, m) => {
+      if (data?.calendar?.cropId !== m.cropId) return data;
+      return { ...data, calendar: { ...data.calendar, sownOn: m.sownOn } };
+    },
+  },
+  {
+    // app/review.tsx
+    kind: "quiz_attempts",
+    matches: (key) => key.startsWith("review_session_v1_"),
+    apply: (list, m) => {
+      if (m.source !== "review" || !Array.isArray(list)) return list;
+      const answered = m.answers.map((a) => a.questionId);
+      return list.filter((q: any) => !answered.includes(q.id));
+    },
+  },
+  {
+    // app/quests.tsx
+    kind: "quest_complete",
+    matches: (key) => key.startsWith("quests_page_clean_v1_"),
+    apply: (data, m) => {
+      if (!Array.isArray(data?.quests)) return data;
+      const quest = data.quests.find((q: any) => q.id === m.questId);
+      if (!quest || quest.isCompleted) return data;
+
+      return {
+        ...data,
+        userCoins: data.userCoins + (m.reward ?? quest.xp_reward ?? 0),
+        quests: data.quests.map((q: any) =>
+          q.id === m.questId ? { ...q, isCompleted: true } : q,
+        ),
+      };
+    },
+  },
+  {
+    // app/quests.tsx (checklist step); the last one completes the quest
+    kind: "quest_step",
+    matches: (key) => key.startsWith("quests_page_clean_v1_"),
+    apply: (data, m) => {
+      if (!Array.isArray(data?.quests)) return data;
+      const quest = data.quests.find((q: any) => q.id === m.questId);
+      if (!quest || quest.isCompleted || quest.doneSteps?.includes(m.stepId))
+        return data;
+
+      const doneSteps = [...(quest.doneSteps || []), m.stepId];
+      const isCompleted = doneSteps.length >= quest.stepCount;
+      return {
+        ...data,
+        userCoins: data.userCoins + (isCompleted ? quest.xp_reward ?? 0 : 0),
+        quests: data.quests.map((q: any) =>
+          q.id === m.questId ? { ...q, doneSteps, isCompleted } : q,
+        ),
+      };
+    },
+  },
+  {
+    // app/quests.tsx (photo proof waiting to upload)
+    kind: "quest_proof",
+    matches: (key) => key.startsWith("quests_page_clean_v1_"),
+    apply: (data, m) => {
+      if (!Array.isArray(data?.quests)) return data;
+      return {
+        ...data,
+        quests: data.quests.map((q: any) =>
+          q.id === m.proof.questId && !q.isCompleted
+            ? { ...q, proofStatus: "pending_review", reviewComment: null }
+            : q,
+        ),
+      };
+    },
+  },
+];
+
+const applyPatch = (patch: CachePatch, data: any, m: OutboxMutation) =>
+  patch.kind === m.kind
+    ? (patch.apply as (data: any, mutation: OutboxMutation) => any)(data, m)
+    : data;
+
+const patchData = (key: string, data: any, mutations: OutboxMutation[]) =>
+  CACHE_PATCHES.filter((p) => p.matches(key)).reduce(
+    (acc, patch) => mutations.reduce((d, m) => applyPatch(patch, d, m), acc),
+    data,
+  );
+
+// Used by useCachedQuery so fresh server data still shows unsynced completions
+export const withPendingMutations = async <T>(key: string, data: T) => {
+  const userId = await currentUserId();
+  const pending = (await getOutbox()).filter((e) => e.userId === userId);
+  return pending.length > 0 ? (patchData(key, data, pending) as T) : data;
+};
+
+const patchStoredCaches = async (mutation: OutboxMutation) => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    for (const key of keys) {
+      if (!CACHE_PATCHES.some((p) => p.matches(key))) continue;
+      const cached = await AsyncStorage.getItem(key);
+      if (!cached) continue;
+      const patched = patchData(key, JSON.parse(cached), [mutation]);
+      await AsyncStorage.setItem(key, JSON.stringify(patched));
+    }
+  } catch (e) {
+    console.warn("Optimistic cache patch failed", e);
+  }
+};
+
+// A patch can't be undone in place, so caches a rejected mutation touched are
+// dropped and the screens load the server's data next time
+const dropPatchedCaches = async (mutations: OutboxMutation[]) => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const stale = keys.filter((key) =>
+      CACHE_PATCHES.some(
+        (p) => p.matches(key) && mutations.some((m) => m.kind === p.kind),
+      ),
+    );
+    if (stale.length > 0) await AsyncStorage.multiRemove(stale);
+  } catch (e) {
+    console.warn("Cache rollback failed", e);
+  }
+};
+
+// --- QUEUE ---
+export const enqueueMutation = async (mutation: OutboxMutation) => {
+  const entry: OutboxEntry = {
+    ...mutation,
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    userId: await currentUserId(),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+
+  await withLock(async () => saveOutbox([...(await getOutbox()), entry]));
+  await patchStoredCaches(mutation);
+  return entry;
+};
+
+const sendMutation = (
+  m: OutboxMutation,
+  occurredAt?: string,
+): Promise<MutationResult> => {
+  switch (m.kind) {
+    case "lesson_complete":
+      if (m.game) return submitGameScore(m.game, occurredAt);
+      return m.answers
+        ? submitLessonQuiz(m.lessonId, m.answers, occurredAt)
+        : awardLessonCompletion(m.lessonId, m.via, occurredAt);
+    case "quest_complete":
+      return awardQuestCompletion(m.questId, m.answer, occurredAt);
+    case "quest_proof":
+      return submitQuestProof(m.proof, occurredAt);
+    case "quest_step":
+      return completeQuestStep(m.stepId, m.answer, occurredAt);
+    case "reward_unlock":
+      return redeemReward(m.rewardId, occurredAt);
+    case "block_progress":
+      return recordBlockProgress(m.lessonId, m.seen, m.answers, occurredAt);
+    case "quiz_attempts":
+      // Each attempt carries its own answer time
+      return recordQuizAttempts(m.answers, m.source);
+    case "sowing_date":
+      return saveSowingDate(m.cropId, m.sownOn);
+  }
+};
+
+// Try the server right away; if the phone is offline, queue it instead.
+// Server-side rejections (e.g. insufficient_coins) are still thrown.
+export const sendOrQueue = async <M extends OutboxMutation>(
+  mutation: M,
+): Promise<{ queued: true } | { queued: false; result: ResultOf<M> }> => {
+  try {
+    const result = (await sendMutation(mutation)) as ResultOf<M>;
+    return { queued: false, result };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueMutation(mutation);
+    return { queued: true };
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+// Replays due entries in order. Stops at the first network failure (still offline)
+// and drops entries the server rejects outright (or grades as not passed),
+// undoing their cache patches.
+// Entries queued under another account (shared phones) stay queued until
+// their owner signs in again.
+export const flushOutbox = () => {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+const runFlush = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) return; // Replays need the user's token
+  const userId = data.session.user.id;
+
+  // Guest progress that couldn't be merged at signup / login (e.g. offline)
+  try {
+    await mergeGuestProgress();
+  } catch (error: any) {
+    console.warn("Guest progress merge failed:", error?.message);
+  }
+
+  const queue = await getOutbox();
+  const done = new Set<string>();
+  const retried = new Map<string, OutboxEntry>();
+  const rejected: OutboxEntry[] = [];
+
+  for (const entry of queue) {
+    if (entry.userId !== userId) continue;
+    if (entry.nextAttemptAt > Date.now()) continue;
+
+    try {
+      const result = await sendMutation(entry, entry.queuedAt);
+      // A replayed quiz or game the server grades as failed was not completed
+      if ("passed" in result && !result.passed) {
+        console.warn(`Outbox entry ${entry.kind} rejected: not passed`);
+        rejected.push({ ...entry, lastError: "not_passed" });
+      }
+      done.add(entry.id);
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        const attempts = entry.attempts + 1;
+        retried.set(entry.id, {
+          ...entry,
+          attempts,
+          nextAttemptAt:
+            Date.now() +
+            Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS),
+          lastError: error?.message,
+        });
+        break;
+      }
+      console.warn(`Outbox entry ${entry.kind} rejected:`, error?.message);
+      rejected.push({ ...entry, lastError: error?.message });
+      done.add(entry.id);
+    }
+  }
+
+  if (done.size === 0 && retried.size === 0) return;
+
+  // Re-read under the lock: new entries may have been queued meanwhile
+  await withLock(async () => {
+    const latest = await getOutbox();
+    await saveOutbox(
+      latest.filter((e) => !done.has(e.id)).map((e) => retried.get(e.id) || e),
+    );
+  });
+
+  if (rejected.length > 0) {
+    await dropPatchedCaches(rejected);
+    rejectionListeners.forEach((listener) => listener(rejected));
+  }
+};
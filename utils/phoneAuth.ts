@@ -0,0 +1,158 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+import { TranslationKeys } from "@/constants/translations";
+import { supabase } from "@/utils/supabase";
+
+// Phone + OTP auth through the phone-auth edge function, which enforces resend
+// throttling and lockout (see supabase/functions/_shared/otpThrottle.ts).
+export type OtpPurpose = "login" | "signup" | "link";
+
+export type PhoneAuthErrorCode =
+  | "invalid_phone"
+  | "no_account"
+  | "phone_taken"
+  | "too_many_requests"
+  | "locked"
+  | "invalid_code"
+  | "not_authenticated"
+  | "no_pin"
+  | "weak_password"
+  | "unknown";
+
+export class PhoneAuthError extends Error {
+  code: PhoneAuthErrorCode;
+  retryAfter?: number; // seconds, for too_many_requests
+  lockedUntil?: string; // ISO time, for locked
+  attemptsLeft?: number; // for invalid_code
+
+  constructor(code: PhoneAuthErrorCode, details: Record<string, any> = {}) {
+    super(details.message || code);
+    this.name = "PhoneAuthError";
+    this.code = code;
+    this.retryAfter = details.retryAfter;
+    this.lockedUntil = details.lockedUntil;
+    this.attemptsLeft = details.attemptsLeft;
+  }
+}
+
+// Indian mobile numbers: 10 digits (optionally prefixed with 0 / 91 / +91).
+// Mirrors normalizePhone in the edge function.
+export const normalizePhone = (input: string): string | null => {
+  let digits = input.replace(/[^\d]/g, "");
+  if (digits.length === 11 && digits.startsWith("0")) digits = digits.slice(1);
+  if (digits.length === 12 && digits.startsWith("91")) digits = digits.slice(2);
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+};
+
+// "+91 98xxxxxx10"
+export const maskPhone = (phone: string) =>
+  phone.replace(/^(\+91)(\d{2})\d{6}(\d{2})$/, "$1 $2xxxxxx$3");
+
+// Accounts created before phone auth signed in with `<username>@khet.com`;
+// only used to sign them in once so they can link a phone.
+export const legacyEmailForUsername = (username: string) =>
+  `${username.toLowerCase().replace(/[^a-z0-9]/g, "")}@khet.com`;
+
+// Shared by the phone-auth and account-recovery functions, which report
+// failures as { error: <code>, ...details }
+export const invokeAuthFunction = async (
+  name: "phone-auth" | "account-recovery",
+  body: Record<string, unknown>,
+) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => ({}));
+      const known: PhoneAuthErrorCode[] = [
+        "invalid_phone",
+        "no_account",
+        "phone_taken",
+        "too_many_requests",
+        "locked",
+        "invalid_code",
+        "not_authenticated",
+        "no_pin",
+        "weak_password",
+      ];
+      throw new PhoneAuthError(
+        known.includes(details.error) ? details.error : "unknown",
+        details,
+      );
+    }
+    throw error;
+  }
+  return data;
+};
+
+// Resolves the resend cooldown in seconds
+export const sendPhoneOtp = async (
+  phone: string,
+  purpose: OtpPurpose,
+  metadata?: Record<string, string>,
+): Promise<number> => {
+  const data = await invokeAuthFunction("phone-auth", {
+    action: "send",
+    phone,
+    purpose,
+    metadata,
+  });
+  return data.retryAfter ?? 30;
+};
+
+// Signs the user in on success (the session is stored by the Supabase client)
+export const verifyPhoneOtp = async (
+  phone: string,
+  token: string,
+  purpose: OtpPurpose,
+) => {
+  const data = await invokeAuthFunction("phone-auth", {
+    action: "verify",
+    phone,
+    token,
+    purpose,
+  });
+  const { data: sessionData, error } = await supabase.auth.setSession(
+    data.session,
+  );
+  if (error) throw error;
+  return sessionData.session;
+};
+
+// User-facing text for any error thrown above
+export const phoneAuthMessage = (
+  t: (key: TranslationKeys) => string,
+  error: unknown,
+) => {
+  if (!(error instanceof PhoneAuthError)) return t("err_otp_generic");
+  switch (error.code) {
+    case "too_many_requests":
+      return t("err_too_many_requests").replace(
+        "{seconds}",
+        String(error.retryAfter ?? 30),
+      );
+    case "locked":
+      return t("err_locked").replace(
+        "{time}",
+        error.lockedUntil
+          ? new Date(error.lockedUntil).toLocaleTimeString([], {
+              hour: "2-digit",
+              minute: "2-digit",
+            })
+          : "30 min",
+      );
+    case "invalid_code":
+      return t("err_invalid_code").replace(
+        "{attempts}",
+        String(error.attemptsLeft ?? 0),
+      );
+    case "invalid_phone":
+    case "no_account":
+    case "phone_taken":
+    case "not_authenticated":
+    case "no_pin":
+    case "weak_password":
+      return t(`err_${error.code}`);
+    default:
+      return t("err_otp_generic");
+  }
+};
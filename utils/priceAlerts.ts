@@ -0,0 +1,110 @@
+import { supabase } from "@/utils/supabase";
+
+// Mirrors supabase/migrations/*_price_alerts.sql; alerts are evaluated by the
+// update-prices edge function against the national modal price.
+export type PriceAlertKind = "above" | "below" | "move";
+
+export interface PriceAlert {
+  id: string;
+  crop_id: string;
+  kind: PriceAlertKind;
+  threshold: number; // ₹/unit for above/below, % for move
+  is_enabled: boolean;
+  last_triggered_at: string | null;
+}
+
+export interface PriceAlertEvent {
+  id: string;
+  alert_id: string | null;
+  crop_id: string;
+  kind: PriceAlertKind;
+  threshold: number;
+  price: number;
+  prev_price: number | null;
+  change_percent: number | null;
+  triggered_at: string;
+  seen_at: string | null;
+}
+
+export interface PriceAlertsData {
+  alerts: PriceAlert[];
+  events: PriceAlertEvent[];
+}
+
+export type PriceAlertInput = Pick<PriceAlert, "crop_id" | "kind" | "threshold">;
+
+const RECENT_EVENTS = 50;
+
+const getUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) throw new Error("Not logged in");
+  return userId;
+};
+
+export const fetchPriceAlerts = async (): Promise<PriceAlertsData> => {
+  const [alertsRes, eventsRes] = await Promise.all([
+    supabase
+      .from("price_alerts")
+      .select("id, crop_id, kind, threshold, is_enabled, last_triggered_at")
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("price_alert_events")
+      .select("*")
+      .order("triggered_at", { ascending: false })
+      .limit(RECENT_EVENTS),
+  ]);
+  if (alertsRes.error) throw alertsRes.error;
+  if (eventsRes.error) throw eventsRes.error;
+
+  return {
+    alerts: (alertsRes.data || []).map((a: any) => ({
+      ...a,
+      threshold: Number(a.threshold),
+    })),
+    events: (eventsRes.data || []).map((e: any) => ({
+      ...e,
+      threshold: Number(e.threshold),
+      price: Number(e.price),
+      prev_price: e.prev_price != null ? Number(e.prev_price) : null,
+      change_percent:
+        e.change_percent != null ? Number(e.change_percent) : null,
+    })),
+  };
+};
+
+export const createPriceAlert = async (input: PriceAlertInput) => {
+  const userId = await getUserId();
+  const { error } = await supabase
+    .from("price_alerts")
+    .insert({ ...input, user_id: userId });
+  if (error) throw error;
+};
+
+// Changing the crop, kind or threshold re-arms the alert (see rearm_price_alert)
+export const updatePriceAlert = async (
+  id: string,
+  changes: Partial<PriceAlertInput & { is_enabled: boolean }>,
+) => {
+  const { error } = await supabase
+    .from("price_alerts")
+    .update(changes)
+    .eq("id", id);
+  if (error) throw error;
+};
+
+export const deletePriceAlert = async (id: string) => {
+  const { error } = await supabase.from("price_alerts").delete().eq("id", id);
+  if (error) throw error;
+};
+
+export const markPriceAlertEventsSeen = async () => {
+  const { error } = await supabase.rpc("mark_price_alert_events_seen");
+  if (error) throw error;
+};
+
+// "above ₹8,000", "below ₹5,000", "moves 5%"
+export const describeAlert = (alert: Pick<PriceAlert, "kind" | "threshold">) =>
+  alert.kind === "move"
+    ? `moves ${alert.threshold}% in a day`
+    : `${alert.kind} ₹${Math.round(alert.threshold).toLocaleString("en-IN")}`;
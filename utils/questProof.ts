@@ -0,0 +1,185 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { ImagePickerAsset } from "expo-image-picker";
+import { Platform } from "react-native";
+
+import { supabase } from "@/utils/supabase";
+
+// Photo-proof quests (see supabase/migrations/*_quest_photo_proof.sql). The
+// farmer photographs the finished task; the photo, with the time and place
+// from its EXIF data, waits for an extension worker to approve it before the
+// quest coins are credited.
+export const QUEST_PROOF_BUCKET = "quest-proofs";
+
+export type QuestProofStatus = "pending_review" | "approved" | "rejected";
+
+export interface QuestProof {
+  questId: number;
+  photoUri: string; // on the device until it is uploaded
+  takenAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface QuestSubmission {
+  id: number;
+  questId: number;
+  status: QuestProofStatus;
+  reviewComment: string | null;
+  submittedAt: string;
+}
+
+export interface QuestProofResult {
+  submission_id: number;
+  status: QuestProofStatus;
+}
+
+type Exif = Record<string, any>;
+
+// "2026:10:19 14:05:11" (camera local time, no zone)
+const parseExifDate = (value: unknown) => {
+  const match =
+    typeof value === "string" &&
+    value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Decimal degrees, or [degrees, minutes, seconds]
+const parseCoordinate = (value: unknown, ref: unknown) => {
+  const parts = Array.isArray(value) ? value.map(Number) : [Number(value)];
+  if (parts.some((p) => !Number.isFinite(p))) return null;
+  const [deg, min = 0, sec = 0] = parts;
+  const decimal = Math.abs(deg) + min / 60 + sec / 3600;
+  return ref === "S" || ref === "W" || deg < 0 ? -decimal : decimal;
+};
+
+// Android gives flat GPS tags, iOS nests them under "{GPS}"
+export const readPhotoExif = (exif: Exif | null | undefined) => {
+  const gps: Exif = exif?.["{GPS}"] ?? {};
+  const lat = exif?.GPSLatitude ?? gps.Latitude;
+  const lng = exif?.GPSLongitude ?? gps.Longitude;
+  return {
+    takenAt: parseExifDate(
+      exif?.DateTimeOriginal ??
+        exif?.["{Exif}"]?.DateTimeOriginal ??
+        exif?.DateTime,
+    ),
+    latitude:
+      lat === undefined
+        ? null
+        : parseCoordinate(lat, exif?.GPSLatitudeRef ?? gps.LatitudeRef),
+    longitude:
+      lng === undefined
+        ? null
+        : parseCoordinate(lng, exif?.GPSLongitudeRef ?? gps.LongitudeRef),
+  };
+};
+
+// The picker's file lives in the cache; keep a copy that survives until the
+// (possibly queued) upload is done
+export const keepProofPhoto = async (
+  questId: number,
+  asset: ImagePickerAsset,
+): Promise<QuestProof> => {
+  let photoUri = asset.uri;
+  if (Platform.OS !== "web" && FileSystem.documentDirectory) {
+    const dir = `${FileSystem.documentDirectory}quest-proofs/`;
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    photoUri = `${dir}${questId}_${Date.now()}.jpg`;
+    await FileSystem.copyAsync({ from: asset.uri, to: photoUri });
+  }
+  return { questId, photoUri, ...readPhotoExif(asset.exif) };
+};
+
+// Uploads to quest-proofs/<user id>/<quest id>/<file name> (the same path on
+// a retry) and puts the photo in the review queue
+export const submitQuestProof = async (
+  proof: QuestProof,
+  occurredAt?: string,
+): Promise<QuestProofResult> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) throw new Error("not_authenticated");
+
+  const fileName = proof.photoUri.split("/").pop()?.split("?")[0] || "photo";
+  const path = `${userId}/${proof.questId}/${fileName.replace(/\.\w+$/, "")}.jpg`;
+  const body = await (await fetch(proof.photoUri)).arrayBuffer();
+  const { error: uploadError } = await supabase.storage
+    .from(QUEST_PROOF_BUCKET)
+    .upload(path, body, { contentType: "image/jpeg", upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase.rpc("submit_quest_proof", {
+    p_quest_id: proof.questId,
+    p_photo_path: path,
+    p_taken_at: proof.takenAt,
+    p_latitude: proof.latitude,
+    p_longitude: proof.longitude,
+    ...(occurredAt && { p_submitted_at: occurredAt }),
+  });
+  if (error) throw error;
+
+  if (proof.photoUri.startsWith("file:")) {
+    await FileSystem.deleteAsync(proof.photoUri, { idempotent: true });
+  }
+  return data as QuestProofResult;
+};
+
+const toSubmission = (row: any): QuestSubmission => ({
+  id: row.id,
+  questId: row.quest_id,
+  status: row.status,
+  reviewComment: row.review_comment,
+  submittedAt: row.submitted_at,
+});
+
+// Latest submission per quest for the farmer
+export const fetchQuestSubmissions = async (
+  userId: string,
+): Promise<Record<number, QuestSubmission>> => {
+  const { data, error } = await supabase
+    .from("quest_submissions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("submitted_at", { ascending: true });
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map((row) => [row.quest_id, toSubmission(row)]),
+  );
+};
+
+// --- REVIEWERS ---
+export const fetchPendingSubmissions = async () => {
+  const { data, error } = await supabase
+    .from("quest_submissions")
+    .select("*, quest:quests(id, title_en, description_en)")
+    .eq("status", "pending_review")
+    .order("submitted_at", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const proofPhotoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(QUEST_PROOF_BUCKET)
+    .createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Rejections need a comment ("comment_required")
+export const reviewQuestSubmission = async (
+  submissionId: number,
+  approve: boolean,
+  comment?: string,
+) => {
+  const { data, error } = await supabase.rpc("review_quest_submission", {
+    p_submission_id: submissionId,
+    p_approve: approve,
+    p_comment: comment ?? null,
+  });
+  if (error) throw error;
+  return data as QuestProofResult;
+};
@@ -0,0 +1,107 @@
+import { supabase } from "@/utils/supabase";
+
+// Monthly quest seasons (see supabase/migrations/*_quest_seasons.sql).
+// Completions count per season; profiles.quest_coins stays the lifetime total
+// while each season has its own board, frozen once the season closes.
+export interface QuestSeason {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  closedAt: string | null;
+}
+
+export interface SeasonStanding {
+  userId: string;
+  fullName: string | null;
+  questCoins: number;
+  rank: number;
+}
+
+const toSeason = (row: any): QuestSeason => ({
+  id: row.id,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  closedAt: row.closed_at ?? null,
+});
+
+// Creates this month's season on the server if nobody has asked yet
+export const fetchCurrentSeason = async (): Promise<QuestSeason> => {
+  const { data, error } = await supabase.rpc("current_quest_season");
+  if (error) throw error;
+  return toSeason(data);
+};
+
+// Quests run in one season (season_id) or in every season (null)
+export const isQuestInSeason = (
+  quest: { season_id?: number | null },
+  season: QuestSeason,
+) => quest.season_id == null || quest.season_id === season.id;
+
+export const fetchSeasons = async (): Promise<QuestSeason[]> => {
+  const { data, error } = await supabase
+    .from("quest_seasons")
+    .select("*")
+    .order("starts_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toSeason);
+};
+
+// Live sums while the season is open, the snapshot once it has closed
+export const fetchSeasonStandings = async (
+  season: QuestSeason,
+  limit = 50,
+): Promise<SeasonStanding[]> => {
+  if (season.closedAt) {
+    const { data, error } = await supabase
+      .from("quest_season_standings")
+      .select("*")
+      .eq("season_id", season.id)
+      .order("rank")
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map((row) => ({
+      userId: row.user_id,
+      fullName: row.full_name,
+      questCoins: row.quest_coins,
+      rank: row.rank,
+    }));
+  }
+
+  const { data, error } = await supabase
+    .from("quest_season_leaderboard_view")
+    .select("*")
+    .eq("season_id", season.id)
+    .gt("quest_coins", 0)
+    .order("quest_coins", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  // Ties share a rank, like the snapshot
+  let rank = 0;
+  return (data || []).map((row, index) => {
+    if (index === 0 || row.quest_coins < data![index - 1].quest_coins) {
+      rank = index + 1;
+    }
+    return {
+      userId: row.id,
+      fullName: row.full_name,
+      questCoins: row.quest_coins,
+      rank,
+    };
+  });
+};
+
+// "October 2026"
+export const seasonLabel = (season: QuestSeason, language: string) =>
+  new Date(season.startsAt).toLocaleDateString(language, {
+    month: "long",
+    year: "numeric",
+  });
+
+// "12d 4h", "3h 20m"; null once the season is over
+export const seasonTimeLeft = (season: QuestSeason, now = Date.now()) => {
+  const minutes = Math.floor((new Date(season.endsAt).getTime() - now) / 60000);
+  if (minutes <= 0) return null;
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes % 60}m`;
+};
@@ -0,0 +1,106 @@
+import { localizeRows } from "@/utils/localize";
+import { QuestSeason } from "@/utils/questSeasons";
+import { supabase } from "@/utils/supabase";
+
+// Multi-step quests (see supabase/migrations/*_quest_steps.sql). Steps are
+// done in order and checked on the server; the last one completes the quest.
+// Progress is kept per season in user_quest_steps, so it follows the farmer
+// across devices.
+export type QuestStepKind = "lesson" | "question" | "photo" | "activity";
+
+export interface QuestStep {
+  id: number;
+  questId: number;
+  position: number;
+  kind: QuestStepKind;
+  lessonId: number | null;
+  activityDay: number | null; // day of the season the activity opens
+  title: string;
+}
+
+export interface QuestStepResult {
+  step_id: number;
+  steps_done: number;
+  steps_total: number;
+  quest_completed: boolean;
+  applied?: boolean; // set when the last step credited the quest
+  coins?: number;
+  quest_coins?: number;
+  xp?: number;
+}
+
+export const fetchQuestSteps = async (
+  questId: number,
+  language: string,
+): Promise<QuestStep[]> => {
+  const { data, error } = await supabase
+    .from("quest_steps")
+    .select("*")
+    .eq("quest_id", questId)
+    .order("position")
+    .order("id");
+  if (error) throw error;
+  return localizeRows("quest_steps", data || [], language).map((row) => ({
+    id: row.id,
+    questId: row.quest_id,
+    position: row.position,
+    kind: row.kind,
+    lessonId: row.lesson_id,
+    activityDay: row.activity_day,
+    title: row.title,
+  }));
+};
+
+// Step count per quest, for the progress bars on the quest list
+export const fetchStepCounts = async (): Promise<Record<number, number>> => {
+  const { data, error } = await supabase.from("quest_steps").select("quest_id");
+  if (error) throw error;
+  const counts: Record<number, number> = {};
+  (data || []).forEach((row) => {
+    counts[row.quest_id] = (counts[row.quest_id] || 0) + 1;
+  });
+  return counts;
+};
+
+// Steps the farmer has done this season, by quest
+export const fetchStepProgress = async (
+  userId: string,
+  seasonId: number,
+): Promise<Record<number, number[]>> => {
+  const { data, error } = await supabase
+    .from("user_quest_steps")
+    .select("step_id, step:quest_steps(quest_id)")
+    .eq("user_id", userId)
+    .eq("season_id", seasonId);
+  if (error) throw error;
+  const done: Record<number, number[]> = {};
+  (data || []).forEach((row: any) => {
+    const step = Array.isArray(row.step) ? row.step[0] : row.step;
+    if (!step) return;
+    done[step.quest_id] = [...(done[step.quest_id] || []), row.step_id];
+  });
+  return done;
+};
+
+// Lesson, question and activity steps; photo steps are checked off when the
+// photo is approved
+export const completeQuestStep = async (
+  stepId: number,
+  answer?: string,
+  occurredAt?: string,
+): Promise<QuestStepResult> => {
+  const { data, error } = await supabase.rpc("complete_quest_step", {
+    p_step_id: stepId,
+    ...(answer !== undefined && { p_answer: answer }),
+    ...(occurredAt && { p_completed_at: occurredAt }),
+  });
+  if (error) throw error;
+  return data as QuestStepResult;
+};
+
+// Activity steps can be logged from this day of the season on
+export const activityOpensAt = (step: QuestStep, season: QuestSeason) =>
+  new Date(
+    new Date(season.startsAt).getTime() +
+      ((step.activityDay ?? 1) - 1) * 24 * 60 * 60 * 1000,
+  );
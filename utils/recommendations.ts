@@ -0,0 +1,390 @@
+import { fetchSchemes, Scheme } from "@/hooks/useSchemes";
+import {
+  FARM_PROFILE_COLUMNS,
+  FarmProfile,
+  toFarmProfile,
+} from "@/utils/agristack";
+import { StageKind } from "@/utils/cropCalendar";
+import { filterByTargetCrop } from "@/utils/crops";
+import {
+  GraphLesson,
+  LessonGraph,
+  lessonStatus,
+  pickNextLesson,
+} from "@/utils/lessonGraph";
+import { pickLocalizedColumns } from "@/utils/localize";
+import {
+  fetchCurrentSeason,
+  isQuestInSeason,
+  QuestSeason,
+} from "@/utils/questSeasons";
+import { fetchStepProgress } from "@/utils/questSteps";
+import { fetchWeakLessons } from "@/utils/review";
+import { rankSchemes } from "@/utils/schemeEligibility";
+import { supabase } from "@/utils/supabase";
+
+// The dashboard's "For you today" feed: open lessons, this season's quests
+// and schemes, scored on the farmer's crop, the month, their state, lesson
+// progress, missed quiz questions, AgriStack land data and the stage of the
+// crop calendar. Content can be tagged with `months` and `states` (see
+// *_recommendation_targeting.sql) and a `stage` (*_crop_calendar.sql).
+export type ForYouKind = "lesson" | "quest" | "scheme";
+
+// Shown as `for_you_<reason>`; the strongest reason comes first
+export type ForYouReason =
+  | "next_lesson"
+  | "weak_topic"
+  | "in_progress"
+  | "eligible"
+  | "crop_stage"
+  | "in_season"
+  | "your_crop"
+  | "your_state"
+  | "small_farm"
+  | "ending_soon";
+
+// Raw title_* / subtitle_* language columns are kept so a cached feed
+// follows a language switch
+export interface ForYouItem {
+  kind: ForYouKind;
+  id: string; // lesson and quest ids as strings, scheme slugs
+  score: number;
+  reasons: ForYouReason[];
+  icon: string | null; // FontAwesome5 icon name
+  color: string | null;
+  [localizedColumn: string]: any;
+}
+
+export const FEED_SIZE = 5;
+const PER_KIND: Record<ForYouKind, number> = { lesson: 3, quest: 2, scheme: 2 };
+const ENDING_SOON_DAYS = 7;
+
+const POINTS = {
+  next_lesson: 40,
+  open_lesson: 15,
+  side_lesson: 5,
+  weak_question: 12, // per missed question, up to 3
+  in_progress: 30,
+  open_quest: 10,
+  likely_eligible: 30,
+  check_eligibility: 5,
+  crop_stage: 25,
+  in_season: 25,
+  out_of_season: -20,
+  your_crop: 20,
+  your_state: 15,
+  small_farm: 10,
+  ending_soon: 15,
+};
+
+type Row = Record<string, any>;
+
+export interface ForYouInputs {
+  lessons: (GraphLesson & { row: Row })[];
+  completedIds: number[];
+  weakLessons: Record<number, number>; // lesson id -> missed questions
+  quests: Row[]; // this season's, not yet completed
+  doneSteps: Record<number, number[]>;
+  season: QuestSeason | null;
+  schemes: Scheme[];
+  cropId: string | null;
+  farm: FarmProfile | null;
+  stage: StageKind | null; // current crop calendar stage
+  now: Date;
+}
+
+// Scores add up; reasons are sorted by what they added
+const scorer = () => {
+  let score = 0;
+  const reasons: [ForYouReason, number][] = [];
+  return {
+    add: (points: number, reason?: ForYouReason) => {
+      score += points;
+      if (reason) reasons.push([reason, points]);
+    },
+    result: () => ({
+      score,
+      reasons: reasons.sort((a, b) => b[1] - a[1]).map(([reason]) => reason),
+    }),
+  };
+};
+
+// `desc_en` -> `subtitle_en`, ... so every kind renders the same way
+const renameLocalized = (row: Row, from: string, to: string) =>
+  Object.fromEntries(
+    Object.entries(pickLocalizedColumns(row, [from])).map(([column, value]) => [
+      to + column.slice(from.length),
+      value,
+    ]),
+  );
+
+const itemColumns = (row: Row, subtitleField: string) => ({
+  ...pickLocalizedColumns(row, ["title"]),
+  ...renameLocalized(row, subtitleField, "subtitle"),
+});
+
+// Untagged content fits every stage, month and state. Content for another
+// state is left out (null).
+const scoreTargeting = (
+  row: Row,
+  inputs: ForYouInputs,
+  add: (points: number, reason?: ForYouReason) => void,
+) => {
+  if (row.stage && row.stage === inputs.stage) {
+    add(POINTS.crop_stage, "crop_stage");
+  }
+
+  const months: number[] = row.months || [];
+  if (months.length > 0) {
+    if (months.includes(inputs.now.getMonth() + 1)) {
+      add(POINTS.in_season, "in_season");
+    } else {
+      add(POINTS.out_of_season);
+    }
+  }
+
+  const states: string[] = row.states || [];
+  const farmState = inputs.farm?.state?.toLowerCase();
+  if (states.length > 0 && farmState) {
+    if (!states.some((s) => s.toLowerCase() === farmState)) return null;
+    add(POINTS.your_state, "your_state");
+  }
+  return true;
+};
+
+const rankLessons = (inputs: ForYouInputs): ForYouItem[] => {
+  const next = pickNextLesson(inputs.lessons, inputs.completedIds);
+
+  return inputs.lessons.flatMap((lesson) => {
+    const status = lessonStatus(lesson, inputs.completedIds);
+    const missed = inputs.weakLessons[lesson.id] || 0;
+    // Open lessons, and finished ones worth going back over
+    if (status === "locked" || (status === "completed" && missed === 0)) {
+      return [];
+    }
+
+    const { add, result } = scorer();
+    if (status === "completed") {
+      add(POINTS.weak_question * Math.min(missed, 3), "weak_topic");
+    } else if (lesson.id === next?.id) {
+      add(POINTS.next_lesson, "next_lesson");
+    } else {
+      add(lesson.optional ? POINTS.side_lesson : POINTS.open_lesson);
+    }
+    if (lesson.targetCrop && lesson.targetCrop === inputs.cropId) {
+      add(POINTS.your_crop, "your_crop");
+    }
+    if (!scoreTargeting(lesson.row, inputs, add)) return [];
+
+    return [
+      {
+        kind: "lesson" as const,
+        id: String(lesson.id),
+        ...result(),
+        icon: "book-open",
+        color: "#388e3c",
+        ...itemColumns(lesson.row, "description"),
+      },
+    ];
+  });
+};
+
+const rankQuests = (inputs: ForYouInputs): ForYouItem[] => {
+  const daysLeft = inputs.season
+    ? (new Date(inputs.season.endsAt).getTime() - inputs.now.getTime()) /
+      (24 * 60 * 60 * 1000)
+    : Infinity;
+
+  return inputs.quests.flatMap((quest) => {
+    const { add, result } = scorer();
+    if ((inputs.doneSteps[quest.id] || []).length > 0) {
+      add(POINTS.in_progress, "in_progress");
+    } else {
+      add(POINTS.open_quest);
+    }
+    if (quest.target_crop && quest.target_crop === inputs.cropId) {
+      add(POINTS.your_crop, "your_crop");
+    }
+    if (daysLeft <= ENDING_SOON_DAYS) add(POINTS.ending_soon, "ending_soon");
+    if (!scoreTargeting(quest, inputs, add)) return [];
+
+    return [
+      {
+        kind: "quest" as const,
+        id: String(quest.id),
+        ...result(),
+        icon: quest.icon_type || "scroll",
+        color: "#7B1FA2",
+        ...itemColumns(quest, "subtitle"),
+      },
+    ];
+  });
+};
+
+const rankFeedSchemes = (inputs: ForYouInputs): ForYouItem[] => {
+  const farm = inputs.farm;
+  const verified = farm?.status === "verified";
+  const matches = rankSchemes(inputs.schemes, {
+    landHectares: farm?.landSizeHectares ?? null,
+    crop: inputs.cropId,
+    state: farm?.state ?? null,
+    // Land registered on AgriStack implies land records exist
+    hasLandRecords: verified ? true : null,
+    hasBankAccount: null,
+    agristackLinked: verified,
+  });
+
+  return matches.flatMap(({ scheme, status, reasons }) => {
+    if (status === "not_eligible") return [];
+
+    const { add, result } = scorer();
+    if (status === "likely_eligible") {
+      add(POINTS.likely_eligible, "eligible");
+    } else {
+      add(POINTS.check_eligibility);
+    }
+    const passed = (key: string) =>
+      reasons.some((r) => r.key === key && r.outcome === "pass");
+    if (passed("reason_crop_ok")) add(POINTS.your_crop, "your_crop");
+    if (passed("reason_state_ok")) add(POINTS.your_state, "your_state");
+    if (passed("reason_land_within")) add(POINTS.small_farm, "small_farm");
+    scoreTargeting({ months: scheme.rules.months }, inputs, add);
+
+    return [
+      {
+        kind: "scheme" as const,
+        id: scheme.id,
+        ...result(),
+        icon: scheme.icon,
+        color: scheme.color,
+        ...itemColumns(scheme, "desc"),
+      },
+    ];
+  });
+};
+
+// Best first (ties keep lesson path / quest / catalogue order), with a cap
+// per kind so one kind can't fill the feed
+export const buildForYouFeed = (inputs: ForYouInputs): ForYouItem[] => {
+  const taken: Record<ForYouKind, number> = { lesson: 0, quest: 0, scheme: 0 };
+  return [
+    ...rankLessons(inputs),
+    ...rankQuests(inputs),
+    ...rankFeedSchemes(inputs),
+  ]
+    .sort((a, b) => b.score - a.score)
+    .filter((item) => taken[item.kind]++ < PER_KIND[item.kind])
+    .slice(0, FEED_SIZE);
+};
+
+// A lesson finished offline: drop it and bring in the new next lesson.
+// `lessons` are the dashboard's cached lessons (title/description columns).
+export const feedAfterLesson = (
+  feed: ForYouItem[],
+  lessons: (GraphLesson & Row)[],
+  completedIds: number[],
+  lessonId: number,
+): ForYouItem[] => {
+  const rest = feed.filter(
+    (item) => !(item.kind === "lesson" && item.id === String(lessonId)),
+  );
+  const next = pickNextLesson(lessons, completedIds);
+  const listed = rest.some(
+    (item) => item.kind === "lesson" && item.id === String(next?.id),
+  );
+  if (!next || listed) return rest;
+  return [
+    {
+      kind: "lesson" as const,
+      id: String(next.id),
+      score: POINTS.next_lesson,
+      reasons: ["next_lesson" as const],
+      icon: "book-open",
+      color: "#388e3c",
+      ...itemColumns(next, "description"),
+    },
+    ...rest,
+  ].slice(0, FEED_SIZE);
+};
+
+// --- FETCHING ---
+// Everything besides the lesson graph (the dashboard already has it). A
+// source that fails is left out rather than failing the dashboard.
+const fetchQuestInputs = async (
+  userId: string | null,
+  cropId: string | null,
+) => {
+  const season = await fetchCurrentSeason();
+  const { data, error } = await filterByTargetCrop(
+    supabase.from("quests").select("*").order("id"),
+    cropId,
+  );
+  if (error) throw error;
+  const inSeason = (data || []).filter((q) => isQuestInSeason(q, season));
+  if (!userId) return { season, quests: inSeason, doneSteps: {} };
+
+  const [{ data: completed, error: completedError }, doneSteps] =
+    await Promise.all([
+      supabase
+        .from("user_quests")
+        .select("quest_id")
+        .eq("user_id", userId)
+        .eq("season_id", season.id),
+      fetchStepProgress(userId, season.id),
+    ]);
+  if (completedError) throw completedError;
+  const completedIds = new Set((completed || []).map((c) => c.quest_id));
+
+  return {
+    season,
+    quests: inSeason.filter((q) => !completedIds.has(q.id)),
+    doneSteps,
+  };
+};
+
+const fetchFarm = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(FARM_PROFILE_COLUMNS)
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+  return toFarmProfile(data);
+};
+
+const orEmpty =
+  <T>(label: string, fallback: T) =>
+  (e: any): T => {
+    console.error(`For you: ${label} failed:`, e);
+    return fallback;
+  };
+
+export const fetchForYouFeed = async (
+  userId: string | null,
+  graph: LessonGraph,
+  stage: StageKind | null = null,
+  now = new Date(),
+): Promise<ForYouItem[]> => {
+  const [questInputs, farm, schemes, weakLessons] = await Promise.all([
+    fetchQuestInputs(userId, graph.cropId).catch(
+      orEmpty("quests", { season: null, quests: [] as Row[], doneSteps: {} }),
+    ),
+    userId ? fetchFarm(userId).catch(orEmpty("farm", null)) : null,
+    fetchSchemes().catch(orEmpty("schemes", [] as Scheme[])),
+    userId
+      ? fetchWeakLessons(userId).catch(orEmpty("weak lessons", {}))
+      : {},
+  ]);
+
+  return buildForYouFeed({
+    lessons: graph.lessons,
+    completedIds: graph.completedIds,
+    weakLessons,
+    ...questInputs,
+    schemes,
+    cropId: graph.cropId,
+    farm,
+    stage,
+    now,
+  });
+};
@@ -0,0 +1,112 @@
+import { localizedValue } from "@/utils/localize";
+import { supabase } from "@/utils/supabase";
+
+// Quiz attempts and the daily Review session (see
+// supabase/migrations/*_quiz_review.sql). Missed questions come back on an
+// SM-2 schedule; the server grades answers and pays REVIEW_COINS per right
+// review answer.
+export const REVIEW_SESSION_SIZE = 10;
+export const REVIEW_COINS = 5;
+
+export interface QuizAttempt {
+  questionId: number;
+  chosenIndex: number;
+  isCorrect: boolean; // local grade for the cache; the server re-grades
+  answeredAt: string;
+}
+
+export interface ReviewQuestion {
+  id: number;
+  lessonId: number;
+  question: string;
+  options: string[];
+  correctOptionIndex: number;
+  explanation: string | null;
+}
+
+export interface AttemptsResult {
+  recorded: number;
+  correct: number;
+  coins_awarded: number;
+  coins: number;
+}
+
+// `answeredAt` travels with each attempt, so an offline replay keeps the
+// real answer times
+export const recordQuizAttempts = async (
+  attempts: QuizAttempt[],
+  source: "lesson" | "review",
+): Promise<AttemptsResult> => {
+  const { data, error } = await supabase.rpc("record_quiz_attempts", {
+    p_attempts: attempts.map((a) => ({
+      question_id: a.questionId,
+      chosen_index: a.chosenIndex,
+      answered_at: a.answeredAt,
+    })),
+    p_source: source,
+  });
+  if (error) throw error;
+  return data as AttemptsResult;
+};
+
+export const countDueReviews = async (userId: string) => {
+  const { count, error } = await supabase
+    .from("quiz_review_cards")
+    .select("question_id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .lte("due_at", new Date().toISOString());
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Missed questions not yet recalled twice in a row, counted per lesson. The
+// "For you today" feed suggests going back over those lessons.
+export const fetchWeakLessons = async (
+  userId: string,
+): Promise<Record<number, number>> => {
+  const { data, error } = await supabase
+    .from("quiz_review_cards")
+    .select("repetitions, question:lesson_quizzes(lesson_id)")
+    .eq("user_id", userId)
+    .lt("repetitions", 2);
+  if (error) throw error;
+
+  const weak: Record<number, number> = {};
+  (data || []).forEach((card: any) => {
+    const question = Array.isArray(card.question)
+      ? card.question[0]
+      : card.question;
+    if (!question) return;
+    weak[question.lesson_id] = (weak[question.lesson_id] || 0) + 1;
+  });
+  return weak;
+};
+
+// Today's session: the most overdue cards first
+export const fetchDueReviews = async (
+  userId: string,
+  lang: string,
+): Promise<ReviewQuestion[]> => {
+  const { data, error } = await supabase
+    .from("quiz_review_cards")
+    .select("due_at, question:lesson_quizzes(*)")
+    .eq("user_id", userId)
+    .lte("due_at", new Date().toISOString())
+    .order("due_at", { ascending: true })
+    .limit(REVIEW_SESSION_SIZE);
+  if (error) throw error;
+
+  return (data || [])
+    .map((card: any) =>
+      Array.isArray(card.question) ? card.question[0] : card.question,
+    )
+    .filter(Boolean)
+    .map((row: any) => ({
+      id: row.id,
+      lessonId: row.lesson_id,
+      question: localizedValue(row, "question", lang) || "",
+      options: localizedValue<string[]>(row, "options", lang) || [],
+      correctOptionIndex: row.correct_option_index,
+      explanation: localizedValue(row, "explanation", lang) || null,
+    }));
+};
@@ -0,0 +1,188 @@
+import { TranslationKeys } from "@/constants/translations";
+import { Crop, cropName } from "@/hooks/useCrops";
+import { Scheme } from "@/hooks/useSchemes";
+
+export type EligibilityStatus = "likely_eligible" | "check" | "not_eligible";
+
+// What we know about the farmer: questionnaire answers, prefilled from the
+// profile (selected crop, saved land/state, AgriStack link). null = unknown.
+export interface FarmerAnswers {
+  landHectares: number | null;
+  crop: string | null;
+  state: string | null;
+  hasLandRecords: boolean | null;
+  hasBankAccount: boolean | null;
+  agristackLinked: boolean;
+}
+
+export interface EligibilityReason {
+  key: TranslationKeys; // may contain {placeholders} filled from `values`
+  outcome: "pass" | "fail" | "unknown";
+  values?: Record<string, string | number>; // `crop` holds a crop id
+}
+
+export interface SchemeMatch {
+  scheme: Scheme;
+  status: EligibilityStatus;
+  reasons: EligibilityReason[];
+}
+
+const STATUS_RANK: Record<EligibilityStatus, number> = {
+  likely_eligible: 0,
+  check: 1,
+  not_eligible: 2,
+};
+
+const yesNoRule = (
+  answer: boolean | null,
+  keys: {
+    ok: TranslationKeys;
+    missing: TranslationKeys;
+    unknown: TranslationKeys;
+  },
+): EligibilityReason =>
+  answer === null
+    ? { key: keys.unknown, outcome: "unknown" }
+    : answer
+      ? { key: keys.ok, outcome: "pass" }
+      : { key: keys.missing, outcome: "fail" };
+
+export const evaluateScheme = (
+  scheme: Scheme,
+  answers: FarmerAnswers,
+): SchemeMatch => {
+  const rules = scheme.rules || {};
+  const reasons: EligibilityReason[] = [];
+  const land = answers.landHectares;
+
+  // 1. Land size limits
+  if (rules.max_land_hectares != null || rules.min_land_hectares != null) {
+    if (land === null) {
+      reasons.push({ key: "reason_land_unknown", outcome: "unknown" });
+    } else if (
+      rules.max_land_hectares != null &&
+      land > rules.max_land_hectares
+    ) {
+      reasons.push({
+        key: "reason_land_over",
+        outcome: "fail",
+        values: { land, limit: rules.max_land_hectares },
+      });
+    } else if (
+      rules.min_land_hectares != null &&
+      land < rules.min_land_hectares
+    ) {
+      reasons.push({
+        key: "reason_land_under",
+        outcome: "fail",
+        values: { land, limit: rules.min_land_hectares },
+      });
+    } else {
+      reasons.push({
+        key: "reason_land_within",
+        outcome: "pass",
+        values: {
+          land,
+          limit: rules.max_land_hectares ?? rules.min_land_hectares ?? 0,
+        },
+      });
+    }
+  }
+
+  // 2. Covered crops
+  if (rules.crops?.length) {
+    if (!answers.crop) {
+      reasons.push({ key: "reason_crop_unknown", outcome: "unknown" });
+    } else {
+      const covered = rules.crops.includes(answers.crop);
+      reasons.push({
+        key: covered ? "reason_crop_ok" : "reason_crop_not",
+        outcome: covered ? "pass" : "fail",
+        values: { crop: answers.crop },
+      });
+    }
+  }
+
+  // 3. State-specific schemes
+  if (rules.states?.length) {
+    if (!answers.state) {
+      reasons.push({ key: "reason_state_unknown", outcome: "unknown" });
+    } else {
+      const state = answers.state.toLowerCase();
+      const available = rules.states.some((s) => s.toLowerCase() === state);
+      reasons.push({
+        key: available ? "reason_state_ok" : "reason_state_not",
+        outcome: available ? "pass" : "fail",
+        values: { state: answers.state },
+      });
+    }
+  }
+
+  // 4. Documents
+  if (rules.requires_land_records) {
+    reasons.push(
+      yesNoRule(answers.hasLandRecords, {
+        ok: "reason_records_ok",
+        missing: "reason_records_missing",
+        unknown: "reason_records_unknown",
+      }),
+    );
+  }
+  if (rules.requires_bank_account) {
+    reasons.push(
+      yesNoRule(answers.hasBankAccount, {
+        ok: "reason_bank_ok",
+        missing: "reason_bank_missing",
+        unknown: "reason_bank_unknown",
+      }),
+    );
+  }
+  if (rules.requires_agristack) {
+    // Not linking yet is fixable, so it never rules the scheme out
+    reasons.push(
+      answers.agristackLinked
+        ? { key: "reason_agristack_ok", outcome: "pass" }
+        : { key: "reason_agristack_missing", outcome: "unknown" },
+    );
+  }
+
+  if (reasons.length === 0) {
+    reasons.push({ key: "reason_open_to_all", outcome: "pass" });
+  }
+
+  const status: EligibilityStatus = reasons.some((r) => r.outcome === "fail")
+    ? "not_eligible"
+    : reasons.some((r) => r.outcome === "unknown")
+      ? "check"
+      : "likely_eligible";
+
+  return { scheme, status, reasons };
+};
+
+// Likely eligible first, then "check", then not eligible; catalogue order within each
+export const rankSchemes = (schemes: Scheme[], answers: FarmerAnswers) =>
+  schemes
+    .map((scheme) => evaluateScheme(scheme, answers))
+    .sort(
+      (a, b) =>
+        STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+        a.scheme.sort_order - b.scheme.sort_order,
+    );
+
+// Crop ids are named from the crops catalogue in the farmer's language
+export const formatReason = (
+  t: (key: TranslationKeys) => string,
+  reason: EligibilityReason,
+  crops: Crop[] | null | undefined,
+  language: string,
+) =>
+  Object.entries(reason.values || {}).reduce(
+    (text, [name, value]) =>
+      text.replace(
+        `{${name}}`,
+        name === "crop"
+          ? cropName(crops, String(value), language)
+          : String(value),
+      ),
+    t(reason.key),
+  );